@@ -0,0 +1,106 @@
+// app/api/bookings/[id]/check-in/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { transitionBooking } from "@/app/lib/bookingLifecycle";
+import { checkInVerdict } from "@/app/lib/checkIn";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function env(name: string) {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`ENV manquante: ${name}`);
+  return v;
+}
+
+function getBearerToken(req: Request) {
+  const auth = req.headers.get("authorization") || "";
+  if (!auth.startsWith("Bearer ")) return null;
+  return auth.slice(7);
+}
+
+function isUuid(v: string) {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+}
+
+type BookingRow = {
+  id: string;
+  user_id: string;
+  status: string | null;
+  payment_status: string | null;
+  start_time: string;
+  end_time: string;
+  lease_id: string | null;
+};
+
+/**
+ * POST /api/bookings/:id/check-in
+ * Le client signale son arrivée: confirmed => in_progress (checked_in_at).
+ */
+export async function POST(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const anonKey = env("NEXT_PUBLIC_SUPABASE_ANON_KEY");
+    const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
+
+    const token = getBearerToken(req);
+    if (!token) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await ctx.params;
+    const bookingId = String(id ?? "").trim();
+    if (!isUuid(bookingId)) {
+      return NextResponse.json({ ok: false, error: "bookingId invalide" }, { status: 400 });
+    }
+
+    const supabaseAuth = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { data: u, error: uErr } = await supabaseAuth.auth.getUser();
+    if (uErr || !u.user) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const admin = createClient(supabaseUrl, serviceKey, {
+      auth: { persistSession: false },
+    });
+
+    const { data: bData, error: bErr } = await admin
+      .from("bookings")
+      .select("id,user_id,status,payment_status,start_time,end_time,lease_id")
+      .eq("id", bookingId)
+      .maybeSingle();
+
+    if (bErr) return NextResponse.json({ ok: false, error: "DB error", detail: bErr.message }, { status: 500 });
+    if (!bData) return NextResponse.json({ ok: false, error: "Booking introuvable" }, { status: 404 });
+
+    const booking = bData as BookingRow;
+    if (booking.user_id !== u.user.id) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const verdict = checkInVerdict(booking);
+    if (!verdict.ok) {
+      return NextResponse.json({ ok: false, error: verdict.error, code: verdict.code }, { status: 409 });
+    }
+
+    const checkedInAt = new Date().toISOString();
+    const res = await transitionBooking(
+      admin,
+      booking,
+      { status: "in_progress" },
+      { source: "client-check-in", patch: { checked_in_at: checkedInAt } }
+    );
+
+    if (!res.ok) {
+      const status = res.code === "DB_ERROR" ? 500 : 409;
+      return NextResponse.json({ ok: false, error: "Check-in impossible", detail: res.detail, code: res.code }, { status });
+    }
+
+    return NextResponse.json({ ok: true, status: "in_progress", checkedInAt }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
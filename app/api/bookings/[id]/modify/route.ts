@@ -0,0 +1,456 @@
+// app/api/bookings/[id]/modify/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createBookingCheckoutSession, stripe } from "@/app/lib/stripe";
+import { computeQuote } from "@/app/lib/pricing";
+import {
+  checkAvailability,
+  parseLocalDateTime,
+  resolveTimeZone,
+  spotOf,
+  BUFFER_COLUMNS,
+} from "@/app/lib/availability";
+import {
+  BOOKING_CONSTRAINTS_COLUMNS,
+  checkBookingConstraints,
+  constraintsFromRow,
+  type BookingConstraintsRow,
+} from "@/app/lib/constraints";
+import {
+  applyBookingModification,
+  notifyBookingModified,
+  modificationDelta,
+} from "@/app/lib/bookingModifications";
+import { bookingStatusOf, paymentStatusOf } from "@/app/lib/bookingLifecycle";
+import { recordRefund } from "@/app/lib/ledger";
+import { cancellationPolicyOf, refundQuote } from "@/app/lib/cancellationPolicy";
+import { refundBookingPayments } from "@/app/lib/refunds";
+import { checkoutExpiresAt } from "@/app/lib/holds";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function env(name: string) {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`ENV manquante: ${name}`);
+  return v;
+}
+
+function getBearerToken(req: Request) {
+  const auth = req.headers.get("authorization") || "";
+  if (!auth.startsWith("Bearer ")) return null;
+  return auth.slice(7);
+}
+
+function isUuid(v: string) {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+}
+
+type Body = {
+  startTime?: string;
+  endTime?: string;
+};
+
+type BookingRow = {
+  id: string;
+  user_id: string;
+  parking_id: string;
+  status: string | null;
+  payment_status: string | null;
+  start_time: string;
+  end_time: string;
+  total_price: number | null;
+  currency: string | null;
+  spot_number: number | null;
+  stripe_payment_intent_id: string | null;
+  lease_id: string | null;
+  cancellation_policy: string | null;
+};
+
+type ParkingRow = BookingConstraintsRow & {
+  id: string;
+  title: string | null;
+  owner_id: string;
+  price_hour: number | null;
+  price_day: number | null;
+  timezone: string | null;
+  cancellation_policy: string | null;
+};
+
+/**
+ * POST /api/bookings/:id/modify  { startTime?, endTime? }
+ * Prolonger / décaler / raccourcir une réservation payée (client uniquement).
+ * - dates absentes => inchangées; sans fuseau => heure locale de la place
+ * - même moteur de dispo que la création (la réservation elle-même est ignorée, sa place est gardée si possible)
+ * - différence de prix: supplément => Checkout Stripe (appliqué par le webhook), baisse => remboursement partiel
+ *   selon la politique d'annulation de la réservation (la partie retirée est traitée comme une annulation)
+ */
+export async function POST(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const anonKey = env("NEXT_PUBLIC_SUPABASE_ANON_KEY");
+    const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
+
+    const token = getBearerToken(req);
+    if (!token) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await ctx.params;
+    const bookingId = String(id ?? "").trim();
+    if (!isUuid(bookingId)) {
+      return NextResponse.json({ ok: false, error: "bookingId invalide" }, { status: 400 });
+    }
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+
+    const supabaseAuth = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { data: u, error: uErr } = await supabaseAuth.auth.getUser();
+    if (uErr || !u.user) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const admin = createClient(supabaseUrl, serviceKey, {
+      auth: { persistSession: false },
+    });
+
+    // 1) Réservation
+    const { data: bData, error: bErr } = await admin
+      .from("bookings")
+      .select(
+        "id,user_id,parking_id,status,payment_status,start_time,end_time,total_price,currency,spot_number,stripe_payment_intent_id,lease_id,cancellation_policy"
+      )
+      .eq("id", bookingId)
+      .maybeSingle();
+
+    if (bErr) return NextResponse.json({ ok: false, error: "DB error", detail: bErr.message }, { status: 500 });
+    if (!bData) return NextResponse.json({ ok: false, error: "Booking introuvable" }, { status: 404 });
+
+    const booking = bData as BookingRow;
+    if (booking.user_id !== u.user.id) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const st = bookingStatusOf(booking.status);
+    const pay = paymentStatusOf(booking.payment_status);
+    // en cours (check-in fait): seule la fin peut encore changer (voir 3)
+    if ((st !== "confirmed" && st !== "in_progress") || pay !== "paid" || booking.lease_id) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "Réservation non modifiable",
+          detail: "Seule une réservation confirmée ou en cours, payée (hors location au mois) peut être modifiée.",
+          code: "NOT_MODIFIABLE",
+        },
+        { status: 409 }
+      );
+    }
+
+    // 2) Place (tarifs, règles, fuseau)
+    const { data: pData, error: pErr } = await admin
+      .from("parkings")
+      .select(`id,title,owner_id,price_hour,price_day,timezone,capacity,cancellation_policy,${BOOKING_CONSTRAINTS_COLUMNS},${BUFFER_COLUMNS}`)
+      .eq("id", booking.parking_id)
+      .maybeSingle();
+
+    if (pErr) return NextResponse.json({ ok: false, error: "DB error", detail: pErr.message }, { status: 500 });
+    if (!pData) return NextResponse.json({ ok: false, error: "Parking introuvable" }, { status: 404 });
+
+    const parking = pData as ParkingRow;
+    const tz = resolveTimeZone(parking.timezone);
+
+    const oldStartMs = Date.parse(booking.start_time);
+    const oldEndMs = Date.parse(booking.end_time);
+
+    const startTime =
+      body.startTime !== undefined ? parseLocalDateTime(body.startTime, tz) : new Date(oldStartMs).toISOString();
+    const endTime =
+      body.endTime !== undefined ? parseLocalDateTime(body.endTime, tz) : new Date(oldEndMs).toISOString();
+
+    if (!startTime || !endTime) return NextResponse.json({ ok: false, error: "Dates invalides" }, { status: 400 });
+
+    const newStartMs = Date.parse(startTime);
+    const newEndMs = Date.parse(endTime);
+    const startChanged = newStartMs !== oldStartMs;
+
+    if (newEndMs <= newStartMs) {
+      return NextResponse.json({ ok: false, error: "endTime doit être après startTime" }, { status: 400 });
+    }
+    if (!startChanged && newEndMs === oldEndMs) {
+      return NextResponse.json({ ok: false, error: "Aucun changement" }, { status: 400 });
+    }
+
+    // 3) Temporalité: une réservation commencée ne se décale plus (on peut encore la prolonger)
+    const now = Date.now();
+    if (oldEndMs <= now) {
+      return NextResponse.json(
+        { ok: false, error: "Réservation terminée", code: "ALREADY_ENDED" },
+        { status: 409 }
+      );
+    }
+    if (oldStartMs <= now && startChanged) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "Réservation commencée",
+          detail: "Le début ne peut plus être modifié, seule la fin peut changer.",
+          code: "ALREADY_STARTED",
+        },
+        { status: 409 }
+      );
+    }
+    if (newEndMs <= now) {
+      return NextResponse.json({ ok: false, error: "La nouvelle fin est déjà passée" }, { status: 400 });
+    }
+
+    // 4) Règles de la place (préavis / horizon seulement si le début bouge)
+    const constraints = constraintsFromRow(parking);
+    const rules = checkBookingConstraints(
+      startChanged ? constraints : { ...constraints, minNoticeMinutes: null, maxAdvanceDays: null },
+      startTime,
+      endTime,
+      { tz, now }
+    );
+
+    if (!rules.ok) {
+      return NextResponse.json(
+        { ok: false, error: "Réservation hors règles", detail: rules.reason, code: rules.code },
+        { status: 409 }
+      );
+    }
+
+    // 5) Disponibilité (sans compter la réservation elle-même)
+    const verdict = await checkAvailability(admin, parking.id, startTime, endTime, {
+      ignoreBookingId: booking.id,
+      preferSpot: spotOf(booking),
+    });
+
+    if (!verdict.available) {
+      return NextResponse.json(
+        { ok: false, error: "Créneau indisponible", detail: verdict.reason, code: verdict.code },
+        { status: 409 }
+      );
+    }
+
+    // 6) Nouveau prix (tarif actuel de la place)
+    const currency = booking.currency ?? "CHF";
+    const quote = computeQuote({
+      startTime,
+      endTime,
+      priceHour: parking.price_hour,
+      priceDay: parking.price_day,
+      currency,
+    });
+
+    if (!quote) {
+      return NextResponse.json({ ok: false, error: "Tarif invalide pour cette place" }, { status: 422 });
+    }
+
+    const oldTotal = Number(booking.total_price ?? 0);
+    const delta = modificationDelta({ old_total: oldTotal, new_total: quote.total });
+
+    // ✅ baisse: la partie retirée est remboursée comme une annulation (politique figée sur la réservation)
+    const refundable =
+      delta < 0
+        ? refundQuote(
+            cancellationPolicyOf(booking.cancellation_policy ?? parking.cancellation_policy),
+            booking.start_time,
+            -delta,
+            now
+          )
+        : null;
+
+    if (refundable && refundable.amountCents > 0 && !booking.stripe_payment_intent_id) {
+      return NextResponse.json(
+        { ok: false, error: "Paiement introuvable", detail: "stripe_payment_intent_id manquant" },
+        { status: 409 }
+      );
+    }
+
+    // 7) Une seule demande en attente par réservation: les précédentes expirent (avec leur Checkout)
+    const { data: stale, error: staleErr } = await admin
+      .from("booking_modifications")
+      .update({ status: "expired" })
+      .eq("booking_id", booking.id)
+      .eq("status", "pending_payment")
+      .select("stripe_session_id");
+
+    if (staleErr) return NextResponse.json({ ok: false, error: "DB error", detail: staleErr.message }, { status: 500 });
+
+    // ⚠️ un supplément payé malgré tout est remboursé par le webhook (modification plus en attente)
+    for (const m of (stale ?? []) as Array<{ stripe_session_id: string | null }>) {
+      if (!m.stripe_session_id) continue;
+      try {
+        await stripe.checkout.sessions.expire(m.stripe_session_id);
+      } catch {
+        // déjà expirée / complétée
+      }
+    }
+
+    const { data: mData, error: mErr } = await admin
+      .from("booking_modifications")
+      .insert({
+        booking_id: booking.id,
+        old_start_time: booking.start_time,
+        old_end_time: booking.end_time,
+        new_start_time: startTime,
+        new_end_time: endTime,
+        new_spot_number: verdict.spot ?? spotOf(booking),
+        old_total: oldTotal,
+        new_total: quote.total,
+        currency: quote.currency,
+        status: "pending_payment",
+      })
+      .select("id")
+      .maybeSingle();
+
+    if (mErr) return NextResponse.json({ ok: false, error: "DB error", detail: mErr.message }, { status: 500 });
+    if (!mData) return NextResponse.json({ ok: false, error: "Insert modification failed" }, { status: 500 });
+
+    const modificationId = (mData as { id: string }).id;
+
+    // 8a) Supplément => Checkout Stripe, la réservation change au paiement (webhook)
+    if (delta > 0) {
+      const { data: ownerProfile, error: opErr } = await admin
+        .from("profiles")
+        .select("stripe_account_id, stripe_onboarding_complete, stripe_payouts_enabled")
+        .eq("id", parking.owner_id)
+        .maybeSingle();
+
+      if (opErr) {
+        return NextResponse.json({ ok: false, error: "DB error", detail: opErr.message }, { status: 500 });
+      }
+
+      const connectedAccountId = ownerProfile?.stripe_account_id ?? null;
+      if (!connectedAccountId || !ownerProfile?.stripe_onboarding_complete || !ownerProfile?.stripe_payouts_enabled) {
+        await admin
+          .from("booking_modifications")
+          .update({ status: "failed", failure_reason: "Owner Stripe incomplet" })
+          .eq("id", modificationId);
+
+        return NextResponse.json(
+          {
+            ok: false,
+            error: "Owner Stripe incomplet",
+            detail: "Le propriétaire ne peut pas encore encaisser de supplément.",
+          },
+          { status: 400 }
+        );
+      }
+
+      const session = await createBookingCheckoutSession({
+        bookingId: booking.id,
+        parkingTitle: `Modification — ${parking.title ?? "Réservation parking"}`,
+        amountTotal: delta,
+        currency: quote.currency,
+        connectedAccountId,
+        successPath: "/my-bookings?modified=1",
+        cancelPath: "/my-bookings",
+        customerEmail: u.user.email ?? null,
+        metadata: { modificationId, kind: "booking_modification" },
+        expiresAt: checkoutExpiresAt(),
+      });
+
+      await admin
+        .from("booking_modifications")
+        .update({ stripe_session_id: session.id })
+        .eq("id", modificationId);
+
+      return NextResponse.json(
+        { ok: true, status: "pending_payment", modificationId, delta, url: session.url },
+        { status: 200 }
+      );
+    }
+
+    // 8b) Même prix ou baisse => appliqué tout de suite
+    // total_price = ce que le propriétaire garde (la politique peut rembourser moins que la baisse)
+    const retained = refundable ? Math.round((oldTotal - refundable.amount) * 100) / 100 : quote.total;
+    const applied = await applyBookingModification(admin, modificationId, { totalPrice: retained });
+    if (!applied.ok) {
+      const overlap = applied.code === "BOOKING_OVERLAP";
+      return NextResponse.json(
+        {
+          ok: false,
+          error: overlap ? "Créneau indisponible" : "Modification impossible",
+          detail: applied.error,
+          code: applied.code,
+        },
+        { status: overlap ? 409 : 500 }
+      );
+    }
+
+    // ✅ remboursement partiel: suppléments déjà payés d'abord, puis paiement initial (plafonnés par paiement)
+    // reverse_transfer: la part du propriétaire est reprise au prorata
+    const refund =
+      refundable && refundable.amountCents > 0
+        ? await refundBookingPayments(admin, booking, refundable.amountCents, {
+            idempotencyKey: `modification-refund-${modificationId}`,
+            metadata: { modificationId },
+          })
+        : null;
+
+    if (refund && refund.refunds.length > 0) {
+      await admin
+        .from("booking_modifications")
+        .update({ stripe_refund_id: refund.refunds[0].id })
+        .eq("id", modificationId);
+
+      // grand livre best effort: rattrapé par le webhook refund.updated
+      await Promise.all(
+        refund.refunds.map((r) => recordRefund(admin, r.id, { bookingId: booking.id }))
+      ).catch((e) => console.error("Ledger (modification refund) failed:", e));
+    }
+
+    await notifyBookingModified(admin, applied.modification);
+
+    // remboursement incomplet: le prix gardé suit ce qui a vraiment été remboursé
+    if (refund && refund.refundedCents < (refundable?.amountCents ?? 0)) {
+      const { error: tErr } = await admin
+        .from("bookings")
+        .update({ total_price: Math.round(oldTotal * 100 - refund.refundedCents) / 100 })
+        .eq("id", booking.id);
+      if (tErr) console.error("Modification total_price update failed:", tErr.message);
+    }
+
+    // ⚠️ la réservation est déjà modifiée: l'échec Stripe est remonté au client (et gardé sur la modification)
+    if (refund && !refund.ok) {
+      console.error("Modification refund failed:", refund.error);
+      await admin
+        .from("booking_modifications")
+        .update({ failure_reason: `Remboursement échoué: ${refund.error ?? "Stripe error"}` })
+        .eq("id", modificationId);
+
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "Remboursement échoué",
+          detail: refund.error,
+          code: "REFUND_FAILED",
+          modificationId,
+          status: "applied",
+          refundAmount: refund.refundedCents / 100,
+        },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        status: "applied",
+        modificationId,
+        delta,
+        refunded: (refund?.refundedCents ?? 0) > 0,
+        ...(refundable
+          ? { refundAmount: (refund?.refundedCents ?? 0) / 100, refundPercent: refundable.percent }
+          : {}),
+      },
+      { status: 200 }
+    );
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
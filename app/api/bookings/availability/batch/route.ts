@@ -0,0 +1,79 @@
+// app/api/bookings/availability/batch/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { checkAvailabilityBatch } from "@/app/lib/availability";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_PARKINGS = 100;
+
+function env(name: string) {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`ENV manquante: ${name}`);
+  return v;
+}
+
+function isUuid(v: string) {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+}
+
+type Body = {
+  parkingIds?: string[];
+  start?: string;
+  end?: string;
+};
+
+/**
+ * POST /api/bookings/availability/batch
+ * Body: { parkingIds: string[], start, end }
+ * => { verdicts: { [parkingId]: { available, code?, reason? } } }
+ * 5 requêtes DB quel que soit le nombre de places (au lieu de N appels à /availability).
+ */
+export async function POST(req: Request) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+
+    const parkingIds = Array.isArray(body.parkingIds)
+      ? Array.from(new Set(body.parkingIds.map((x) => String(x ?? "").trim()).filter(isUuid)))
+      : [];
+    const startRaw = typeof body.start === "string" ? body.start : "";
+    const endRaw = typeof body.end === "string" ? body.end : "";
+
+    if (parkingIds.length === 0 || !startRaw || !endRaw) {
+      return NextResponse.json(
+        { error: "Missing fields", expected: ["parkingIds", "start", "end"] },
+        { status: 400 }
+      );
+    }
+    if (parkingIds.length > MAX_PARKINGS) {
+      return NextResponse.json({ error: `Trop de places (max ${MAX_PARKINGS})` }, { status: 400 });
+    }
+
+    const start = new Date(startRaw);
+    const end = new Date(endRaw);
+
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      return NextResponse.json({ error: "Invalid date format" }, { status: 400 });
+    }
+    if (end <= start) {
+      return NextResponse.json({ error: "end must be after start" }, { status: 400 });
+    }
+
+    const admin = createClient(supabaseUrl, serviceKey, {
+      auth: { persistSession: false },
+    });
+
+    const verdicts = await checkAvailabilityBatch(admin, parkingIds, start.toISOString(), end.toISOString());
+
+    return NextResponse.json({ verdicts }, { status: 200, headers: { "Cache-Control": "no-store" } });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,26 @@
 // /api/bookings/cancel/route.ts
 import { NextResponse } from "next/server";
-import Stripe from "stripe";
 import { createClient } from "@supabase/supabase-js";
 import {
   sendEmail,
   bookingCancelledClientEmailHtml,
   bookingCancelledOwnerEmailHtml,
 } from "@/app/lib/mailer";
+import { voidAuthorization } from "@/app/lib/bookingRequests";
+import {
+  bookingStatusOf,
+  checkTransition,
+  paymentStatusOf,
+  transitionBooking,
+  type PaymentStatus,
+} from "@/app/lib/bookingLifecycle";
+import { cancellationPolicyOf, refundQuote } from "@/app/lib/cancellationPolicy";
+import { recordRefund, releaseBookingEarnings } from "@/app/lib/ledger";
+import { refundBookingPayments, refundsSettled } from "@/app/lib/refunds";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-const REFUND_CUTOFF_HOURS = 12;
-
 function env(name: string) {
   const v = process.env[name];
   if (!v || !v.trim()) throw new Error(`ENV manquante: ${name}`);
@@ -25,12 +33,6 @@ function getBearerToken(req: Request) {
   return auth.slice(7);
 }
 
-function hoursUntilStart(startIso: string) {
-  const start = new Date(startIso).getTime();
-  const now = Date.now();
-  return (start - now) / (1000 * 60 * 60);
-}
-
 type Body = { bookingId?: string };
 
 export async function POST(req: Request) {
@@ -38,7 +40,6 @@ export async function POST(req: Request) {
     const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
     const anonKey = env("NEXT_PUBLIC_SUPABASE_ANON_KEY");
     const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
-    const stripeKey = env("STRIPE_SECRET_KEY");
 
     const token = getBearerToken(req);
     if (!token) {
@@ -76,7 +77,7 @@ export async function POST(req: Request) {
     const { data: booking, error: bErr } = await supabaseAdmin
       .from("bookings")
       .select(
-        "id,user_id,status,payment_status,start_time,end_time,total_price,currency,parking_id,stripe_payment_intent_id"
+        "id,user_id,status,payment_status,start_time,end_time,total_price,currency,parking_id,stripe_payment_intent_id,series_id,lease_id,cancellation_policy"
       )
       .eq("id", bookingId)
       .maybeSingle();
@@ -92,15 +93,29 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
     }
 
-    if ((booking.status ?? "").toLowerCase() === "cancelled") {
+    const st = bookingStatusOf(booking.status);
+    if (st === "cancelled" || st === "declined") {
       // ✅ pas d’email en already
       return NextResponse.json({ ok: true, already: true }, { status: 200 });
     }
 
+    // location au mois: la résiliation passe par l'abonnement
+    if (booking.lease_id) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "Location au mois",
+          detail: "Résilie l'abonnement pour libérer la place.",
+          code: "LEASE_BOOKING",
+        },
+        { status: 409 }
+      );
+    }
+
     // Parking for emails (title/address + owner_id)
     const { data: parking, error: pErr } = await supabaseAdmin
       .from("parkings")
-      .select("id,title,address,owner_id")
+      .select("id,title,address,owner_id,timezone,cancellation_policy")
       .eq("id", booking.parking_id)
       .maybeSingle();
 
@@ -108,24 +123,95 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, error: "DB error", detail: pErr.message }, { status: 500 });
     }
 
-    const refundable =
-      (booking.payment_status ?? "").toLowerCase() === "paid" &&
-      hoursUntilStart(booking.start_time) >= REFUND_CUTOFF_HOURS;
+    const pay = paymentStatusOf(booking.payment_status);
+
+    // ✅ politique figée sur la réservation (sinon: réservation antérieure => politique actuelle de la place)
+    const policy = cancellationPolicyOf(booking.cancellation_policy ?? parking?.cancellation_policy);
+    const quote = refundQuote(policy, booking.start_time, booking.total_price);
+    const refundable = pay === "paid" && quote.amountCents > 0;
+
+    // demande en attente: paiement seulement autorisé => on annule l'autorisation (rien à rembourser)
+    const authorized = pay === "authorized";
+
+    // ✅ remboursement AVANT le passage à "cancelled": un échec Stripe laisse la réservation intacte
+    // montant de la politique sur le prix de CETTE réservation, réparti sur le paiement initial
+    // (part de l'occurrence pour une série payée en une fois) et les suppléments de modification
+    let refund: Awaited<ReturnType<typeof refundBookingPayments>> | null = null;
+    if (refundable && booking.stripe_payment_intent_id) {
+      const allowed = checkTransition(booking, { status: "cancelled", payment_status: "refunding" }, "client-cancel");
+      if (!allowed.ok) {
+        return NextResponse.json(
+          { ok: false, error: "Annulation impossible", detail: allowed.detail, code: allowed.code },
+          { status: 409 }
+        );
+      }
+
+      refund = await refundBookingPayments(supabaseAdmin, booking, quote.amountCents, {
+        idempotencyKey: `client-cancel-${booking.id}`,
+        metadata: { refundPercent: String(quote.percent) },
+      });
+
+      if (!refund.ok && refund.refunds.length === 0) {
+        return NextResponse.json(
+          { ok: false, error: "Stripe refund failed", detail: refund.error, code: "REFUND_FAILED" },
+          { status: 502 }
+        );
+      }
+    }
+
+    const refunds = refund?.refunds ?? [];
+    const refundedAmount = refund ? refund.refundedCents / 100 : 0;
+    // ⚠️ "refunded" seulement si Stripe a déjà terminé; sinon le webhook refund.updated finalise
+    const settled = !!refund?.ok && refundsSettled(refunds);
+
+    let nextPayment: PaymentStatus | undefined;
+    let refundStatus = "none";
+    if (refunds.length > 0) {
+      nextPayment = settled ? "refunded" : "refunding";
+      refundStatus = !refund?.ok ? "failed" : settled ? "refunded" : "processing";
+    } else if (refundable && !refund) {
+      // PaymentIntent manquant: remis à "paid" plus bas
+      nextPayment = "refunding";
+      refundStatus = "requested";
+    } else if (authorized) {
+      nextPayment = "voided";
+    }
+    // refund sans remboursement créé: paiements déjà entièrement remboursés => rien de plus
 
     // Cancel booking in DB (this is the "effective cancellation")
-    const { error: upErr } = await supabaseAdmin
-      .from("bookings")
-      .update({
-        status: "cancelled",
-        cancelled_at: new Date().toISOString(),
-        refund_status: refundable ? "requested" : "none",
-        payment_status: refundable ? "refunding" : booking.payment_status,
-        cancelled_by: "client",
-      })
-      .eq("id", booking.id);
+    const cancelled = await transitionBooking(
+      supabaseAdmin,
+      booking,
+      { status: "cancelled", ...(nextPayment ? { payment_status: nextPayment } : {}) },
+      {
+        source: "client-cancel",
+        patch: {
+          cancelled_at: new Date().toISOString(),
+          refund_status: refundStatus,
+          refund_amount: pay === "paid" ? (refund ? refundedAmount : quote.amount) : null,
+          refund_id: refunds[0]?.id ?? null,
+          ...(settled ? { refunded_at: new Date().toISOString() } : {}),
+          cancelled_by: "client",
+        },
+      }
+    );
 
-    if (upErr) {
-      return NextResponse.json({ ok: false, error: "Update failed", detail: upErr.message }, { status: 500 });
+    if (!cancelled.ok) {
+      if (refunds.length > 0) {
+        // remboursé mais réservation modifiée entre-temps: à traiter à la main (refund_id dans les logs)
+        console.error(`Cancel ${booking.id}: refunded (${refunds.map((r) => r.id).join(",")}) but DB update failed`);
+        return NextResponse.json(
+          { ok: false, error: "Refund ok but DB update failed", detail: cancelled.detail },
+          { status: 500 }
+        );
+      }
+      if (cancelled.code === "DB_ERROR") {
+        return NextResponse.json({ ok: false, error: "Update failed", detail: cancelled.detail }, { status: 500 });
+      }
+      return NextResponse.json(
+        { ok: false, error: "Annulation impossible", detail: cancelled.detail, code: cancelled.code },
+        { status: 409 }
+      );
     }
 
     // ✅ SOLUTION 1: envoyer emails UNIQUEMENT APRÈS annulation DB ok
@@ -155,8 +241,11 @@ export async function POST(req: Request) {
             parkingAddress,
             startTimeIso: booking.start_time,
             endTimeIso: booking.end_time,
+            timeZone: parking?.timezone,
             totalPrice: booking.total_price,
             currency: booking.currency,
+            refundAmount: pay === "paid" ? (refund ? refundedAmount : quote.amount) : null,
+            refundPercent: quote.percent,
           }),
         });
       }
@@ -172,8 +261,11 @@ export async function POST(req: Request) {
             parkingAddress,
             startTimeIso: booking.start_time,
             endTimeIso: booking.end_time,
+            timeZone: parking?.timezone,
             totalPrice: booking.total_price,
             currency: booking.currency,
+            refundAmount: pay === "paid" ? (refund ? refundedAmount : quote.amount) : null,
+            refundPercent: quote.percent,
           }),
         });
       }
@@ -181,37 +273,52 @@ export async function POST(req: Request) {
       console.error("Cancel emails (client) failed:", e);
     }
 
-    // Refund if refundable (best effort)
-    if (refundable && booking.stripe_payment_intent_id) {
-      const stripe = new Stripe(stripeKey);
-      const refund = await stripe.refunds.create({
-        payment_intent: booking.stripe_payment_intent_id,
-      });
+    if (authorized) {
+      const voided = await voidAuthorization(booking.stripe_payment_intent_id);
+      if (!voided.ok) console.error(`Cancel ${booking.id}: void failed: ${voided.error}`);
+      return NextResponse.json({ ok: true, refunded: false, voided: voided.ok }, { status: 200 });
+    }
 
-      await supabaseAdmin
-        .from("bookings")
-        .update({
-          refund_status: "refunded",
-          refund_id: refund.id,
-          payment_status: "refunded",
-        })
-        .eq("id", booking.id);
+    if (refunds.length > 0 && refund) {
+      // grand livre: remboursement(s) + part conservée par le propriétaire => acquise
+      await Promise.all(refunds.map((r) => recordRefund(supabaseAdmin, r.id, { bookingId: booking.id })))
+        .then(() => releaseBookingEarnings(supabaseAdmin, [booking.id]))
+        .catch((e) => console.error("Ledger (client cancel) failed:", e));
+
+      if (!refund.ok) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: "Remboursement partiel",
+            detail: `Réservation annulée, ${refundedAmount} remboursé(s) sur ${quote.amount}: ${refund.error}`,
+            code: "REFUND_PARTIAL",
+          },
+          { status: 502 }
+        );
+      }
 
-      return NextResponse.json({ ok: true, refunded: true }, { status: 200 });
+      return NextResponse.json(
+        { ok: true, refunded: true, refundAmount: refundedAmount, refundPercent: quote.percent, refundPending: !settled },
+        { status: 200 }
+      );
     }
 
     // No refund (or missing intent)
     if (refundable && !booking.stripe_payment_intent_id) {
-      await supabaseAdmin
-        .from("bookings")
-        .update({
-          refund_status: "missing_intent",
-          payment_status: "paid",
-        })
-        .eq("id", booking.id);
+      await transitionBooking(
+        supabaseAdmin,
+        { id: booking.id, status: "cancelled", payment_status: "refunding" },
+        { payment_status: "paid" },
+        { source: "client-cancel", patch: { refund_status: "missing_intent", refund_amount: null } }
+      );
     }
 
-    return NextResponse.json({ ok: true, refunded: false }, { status: 200 });
+    // hors délai: le propriétaire conserve le paiement
+    await releaseBookingEarnings(supabaseAdmin, [booking.id]).catch((e) =>
+      console.error("Ledger (client cancel) failed:", e)
+    );
+
+    return NextResponse.json({ ok: true, refunded: false, refundAmount: 0, refundPercent: quote.percent }, { status: 200 });
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : "Server error";
     return NextResponse.json({ ok: false, error: msg }, { status: 500 });
@@ -0,0 +1,82 @@
+// app/api/bookings/quote/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { computeQuote, parkingCurrency } from "@/app/lib/pricing";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function env(name: string) {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`ENV manquante: ${name}`);
+  return v;
+}
+
+/**
+ * GET /api/bookings/quote?parkingId=...&start=...&end=...
+ * Prix et devise calculés depuis parkings.price_hour / price_day / currency (jamais depuis le client).
+ */
+export async function GET(req: Request) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
+
+    const { searchParams } = new URL(req.url);
+
+    const parkingId = (searchParams.get("parkingId") ?? "").trim();
+    const startRaw = searchParams.get("start") ?? "";
+    const endRaw = searchParams.get("end") ?? "";
+
+    if (!parkingId || !startRaw || !endRaw) {
+      return NextResponse.json(
+        { ok: false, error: "Missing query params", expected: ["parkingId", "start", "end"] },
+        { status: 400 }
+      );
+    }
+
+    const start = new Date(startRaw);
+    const end = new Date(endRaw);
+
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      return NextResponse.json({ ok: false, error: "Invalid date format" }, { status: 400 });
+    }
+    if (end <= start) {
+      return NextResponse.json({ ok: false, error: "end must be after start" }, { status: 400 });
+    }
+
+    const admin = createClient(supabaseUrl, serviceKey, {
+      auth: { persistSession: false },
+    });
+
+    const { data: p, error: pErr } = await admin
+      .from("parkings")
+      .select("id,price_hour,price_day,currency")
+      .eq("id", parkingId)
+      .maybeSingle();
+
+    if (pErr) return NextResponse.json({ ok: false, error: pErr.message }, { status: 500 });
+    if (!p) return NextResponse.json({ ok: false, error: "Parking introuvable" }, { status: 404 });
+
+    const quote = computeQuote({
+      startTime: start.toISOString(),
+      endTime: end.toISOString(),
+      priceHour: (p as { price_hour: number | null }).price_hour,
+      priceDay: (p as { price_day: number | null }).price_day,
+      currency: parkingCurrency((p as { currency: string | null }).currency),
+    });
+
+    if (!quote) {
+      return NextResponse.json({ ok: false, error: "Tarif invalide pour cette place" }, { status: 422 });
+    }
+
+    return NextResponse.json(
+      { ok: true, quote },
+      { status: 200, headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,404 @@
+// app/api/bookings/series/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createBookingCheckoutSession } from "@/app/lib/stripe";
+import { computeQuote, parkingCurrency } from "@/app/lib/pricing";
+import {
+  evaluateAvailability,
+  getBuffers,
+  isPlanningEnabled,
+  loadAvailabilityData,
+  resolveTimeZone,
+  AVAILABILITY_REASONS,
+  BUFFER_COLUMNS,
+  PG_EXCLUSION_VIOLATION,
+  type BufferColumns,
+} from "@/app/lib/availability";
+import {
+  BOOKING_CONSTRAINTS_COLUMNS,
+  checkBookingConstraints,
+  constraintsFromRow,
+  type BookingConstraintsRow,
+} from "@/app/lib/constraints";
+import {
+  expandPattern,
+  normalizeWeekdays,
+  validatePattern,
+  describePattern,
+  MAX_SERIES_OCCURRENCES,
+  type BookingPattern,
+  type SeriesBilling,
+} from "@/app/lib/recurring";
+import { normalizeBookingMode } from "@/app/lib/bookingRequests";
+import {
+  checkoutExpiresAt,
+  holdExpiresAt,
+  holdFromSession,
+  occurrenceHoldExpiresAt,
+  releaseExpiredHolds,
+} from "@/app/lib/holds";
+import {
+  BOOKING_STATE_COLUMNS,
+  statusesTransitionableTo,
+  transitionBookings,
+  type BookingState,
+} from "@/app/lib/bookingLifecycle";
+import { cancellationPolicyOf } from "@/app/lib/cancellationPolicy";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function env(name: string) {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`ENV manquante: ${name}`);
+  return v;
+}
+
+function getBearerToken(req: Request) {
+  const auth = req.headers.get("authorization") || "";
+  if (!auth.startsWith("Bearer ")) return null;
+  return auth.slice(7);
+}
+
+type Body = {
+  parkingId?: string;
+  weekdays?: number[];
+  startTime?: string;
+  endTime?: string;
+  fromDate?: string;
+  untilDate?: string;
+  billing?: SeriesBilling;
+  preview?: boolean;
+  skipConflicts?: boolean;
+};
+
+type ParkingRow = BookingConstraintsRow &
+  BufferColumns & {
+    id: string;
+    title: string | null;
+    owner_id: string;
+    price_hour: number | null;
+    price_day: number | null;
+    currency: string | null;
+    timezone: string | null;
+    booking_mode: string | null;
+    cancellation_policy: string | null;
+  };
+
+type OccurrenceResult = {
+  date: string;
+  start: string;
+  end: string;
+  available: boolean;
+  code?: string;
+  reason?: string;
+  total?: number;
+  spot?: number;
+};
+
+/**
+ * POST /api/bookings/series
+ * { parkingId, weekdays:[1..7], startTime:"HH:MM", endTime:"HH:MM", fromDate, untilDate, billing, preview?, skipConflicts? }
+ * - preview=true  => rien n'est créé: liste des occurrences + conflits + total
+ * - sinon         => crée la série + une réservation par occurrence libre
+ *                    (409 SERIES_CONFLICTS si des dates sont prises et skipConflicts absent)
+ * billing: "combined" => une Checkout pour tout; "per_occurrence" => chaque réservation se paie à part
+ */
+export async function POST(req: Request) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const anonKey = env("NEXT_PUBLIC_SUPABASE_ANON_KEY");
+    const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
+
+    const token = getBearerToken(req);
+    if (!token) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+
+    const parkingId = (body.parkingId ?? "").trim();
+    const billing: SeriesBilling = body.billing === "per_occurrence" ? "per_occurrence" : "combined";
+
+    const pattern: BookingPattern = {
+      weekdays: normalizeWeekdays(body.weekdays),
+      startTime: String(body.startTime ?? "").trim(),
+      endTime: String(body.endTime ?? "").trim(),
+      fromDate: String(body.fromDate ?? "").trim(),
+      untilDate: String(body.untilDate ?? "").trim(),
+    };
+
+    if (!parkingId) return NextResponse.json({ ok: false, error: "parkingId manquant" }, { status: 400 });
+
+    const invalid = validatePattern(pattern);
+    if (invalid) return NextResponse.json({ ok: false, error: invalid }, { status: 400 });
+
+    const supabaseAuth = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { data: u, error: uErr } = await supabaseAuth.auth.getUser();
+    if (uErr || !u.user) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const admin = createClient(supabaseUrl, serviceKey, {
+      auth: { persistSession: false },
+    });
+
+    const { data: pData, error: pErr } = await admin
+      .from("parkings")
+      .select(`id,title,owner_id,price_hour,price_day,currency,timezone,booking_mode,cancellation_policy,${BOOKING_CONSTRAINTS_COLUMNS},${BUFFER_COLUMNS}`)
+      .eq("id", parkingId)
+      .maybeSingle();
+
+    if (pErr) return NextResponse.json({ ok: false, error: pErr.message }, { status: 500 });
+    if (!pData) return NextResponse.json({ ok: false, error: "Parking introuvable" }, { status: 404 });
+
+    const parking = pData as ParkingRow;
+    const currency = parkingCurrency(parking.currency);
+
+    // place sur demande: chaque réservation passe par le propriétaire (pas de série)
+    if (normalizeBookingMode(parking.booking_mode) === "request") {
+      return NextResponse.json(
+        { ok: false, error: "Place sur demande", detail: "Réservation récurrente indisponible.", code: "REQUEST_MODE" },
+        { status: 409 }
+      );
+    }
+
+    const tz = resolveTimeZone(parking.timezone);
+    const constraints = constraintsFromRow(parking);
+    const buffers = getBuffers(parking);
+
+    // 1) Développer le motif (heure locale de la place)
+    const occurrences = expandPattern(pattern, tz);
+    if (occurrences.length === 0) {
+      return NextResponse.json({ ok: false, error: "Aucune date ne correspond au motif" }, { status: 400 });
+    }
+
+    // 2) Vérifier chaque occurrence: règles + moteur de dispo (données chargées une fois pour toute la période)
+    const data = await loadAvailabilityData(
+      admin,
+      parkingId,
+      occurrences[0].start,
+      occurrences[occurrences.length - 1].end
+    );
+    const planningEnabled = isPlanningEnabled();
+    const now = Date.now();
+
+    const results: OccurrenceResult[] = [];
+    let previousSpot: number | undefined;
+
+    for (const o of occurrences) {
+      const rules = checkBookingConstraints(constraints, o.start, o.end, { tz, now });
+      if (!rules.ok) {
+        results.push({ ...o, available: false, code: rules.code, reason: rules.reason });
+        continue;
+      }
+
+      // même place numérotée d'une occurrence à l'autre si possible
+      const verdict = evaluateAvailability(data, o.start, o.end, { planningEnabled, tz, preferSpot: previousSpot });
+      if (!verdict.available) {
+        results.push({ ...o, available: false, code: verdict.code, reason: verdict.reason });
+        continue;
+      }
+
+      const quote = computeQuote({
+        startTime: o.start,
+        endTime: o.end,
+        priceHour: parking.price_hour,
+        priceDay: parking.price_day,
+        currency,
+      });
+
+      if (!quote) {
+        return NextResponse.json({ ok: false, error: "Tarif invalide pour cette place" }, { status: 422 });
+      }
+
+      const spot = verdict.spot ?? 1;
+      previousSpot = spot;
+      results.push({ ...o, available: true, total: quote.total, spot });
+
+      // les occurrences retenues bloquent les suivantes (battements, capacité)
+      data.bookings.push({
+        start_time: o.start,
+        end_time: o.end,
+        spot_number: spot,
+        buffer_before_minutes: buffers.before,
+        buffer_after_minutes: buffers.after,
+      });
+    }
+
+    const bookable = results.filter((r) => r.available);
+    const conflicts = results.filter((r) => !r.available);
+    const total = Math.round(bookable.reduce((sum, r) => sum + (r.total ?? 0), 0) * 100) / 100;
+
+    const summary = {
+      pattern: describePattern(pattern),
+      occurrences: results,
+      bookableCount: bookable.length,
+      conflictCount: conflicts.length,
+      truncated: occurrences.length >= MAX_SERIES_OCCURRENCES,
+      total,
+      currency,
+      billing,
+    };
+
+    if (body.preview) return NextResponse.json({ ok: true, preview: true, ...summary }, { status: 200 });
+
+    if (bookable.length === 0) {
+      return NextResponse.json(
+        { ok: false, error: "Aucune date disponible", code: "SERIES_CONFLICTS", ...summary },
+        { status: 409 }
+      );
+    }
+
+    if (conflicts.length > 0 && !body.skipConflicts) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "Dates indisponibles",
+          detail: `${conflicts.length} date(s) en conflit. Confirme pour réserver uniquement les dates libres.`,
+          code: "SERIES_CONFLICTS",
+          ...summary,
+        },
+        { status: 409 }
+      );
+    }
+
+    // 3) Compte Stripe du propriétaire (vérifié avant de créer quoi que ce soit)
+    let connectedAccountId: string | null = null;
+    if (billing === "combined") {
+      const { data: ownerProfile, error: opErr } = await admin
+        .from("profiles")
+        .select("stripe_account_id, stripe_onboarding_complete, stripe_payouts_enabled")
+        .eq("id", parking.owner_id)
+        .maybeSingle();
+
+      if (opErr) {
+        return NextResponse.json({ ok: false, error: "DB error", detail: opErr.message }, { status: 500 });
+      }
+
+      connectedAccountId = ownerProfile?.stripe_account_id ?? null;
+      if (!connectedAccountId || !ownerProfile?.stripe_onboarding_complete || !ownerProfile?.stripe_payouts_enabled) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: "Owner Stripe incomplet",
+            detail: "Le propriétaire doit finaliser 'Configurer mes paiements' (payouts).",
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // 4) Série + réservations (insert groupé: la contrainte bookings_no_overlap refuse tout ou rien)
+    const { data: sData, error: sErr } = await admin
+      .from("booking_series")
+      .insert({
+        parking_id: parkingId,
+        user_id: u.user.id,
+        weekdays: pattern.weekdays,
+        start_time: pattern.startTime,
+        end_time: pattern.endTime,
+        from_date: pattern.fromDate,
+        until_date: pattern.untilDate,
+        timezone: tz,
+        billing,
+        status: billing === "combined" ? "pending_payment" : "active",
+        occurrences: bookable.length,
+        total_price: total,
+        currency,
+      })
+      .select("id")
+      .maybeSingle();
+
+    if (sErr) return NextResponse.json({ ok: false, error: sErr.message }, { status: 500 });
+    if (!sData) return NextResponse.json({ ok: false, error: "Insert series failed" }, { status: 500 });
+
+    const seriesId = (sData as { id: string }).id;
+
+    await releaseExpiredHolds(admin, { parkingId });
+
+    const { data: bData, error: bErr } = await admin
+      .from("bookings")
+      .insert(
+        bookable.map((r) => ({
+          parking_id: parkingId,
+          user_id: u.user.id,
+          series_id: seriesId,
+          start_time: r.start,
+          end_time: r.end,
+          total_price: r.total,
+          currency,
+          status: "pending",
+          payment_status: "unpaid",
+          buffer_before_minutes: buffers.before,
+          buffer_after_minutes: buffers.after,
+          spot_number: r.spot ?? 1,
+          cancellation_policy: cancellationPolicyOf(parking.cancellation_policy),
+          // paiement groupé: toute la série est tenue le temps du Checkout;
+          // à l'unité: chaque occurrence a son échéance de paiement (expirée ensuite par expire-holds)
+          hold_expires_at: billing === "combined" ? holdExpiresAt() : occurrenceHoldExpiresAt(r.start),
+        }))
+      )
+      .select("id,start_time");
+
+    if (bErr) {
+      await admin.from("booking_series").delete().eq("id", seriesId);
+
+      if (bErr.code === PG_EXCLUSION_VIOLATION) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: "Créneau indisponible",
+            detail: `${AVAILABILITY_REASONS.BOOKING_OVERLAP} Une date vient d'être prise, réessaie.`,
+            code: "BOOKING_OVERLAP",
+          },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json({ ok: false, error: bErr.message }, { status: 500 });
+    }
+
+    const bookingIds = ((bData ?? []) as Array<{ id: string; start_time: string }>)
+      .sort((a, b) => Date.parse(a.start_time) - Date.parse(b.start_time))
+      .map((b) => b.id);
+
+    // 5a) Paiement occurrence par occurrence (depuis "Mes réservations")
+    if (billing === "per_occurrence") {
+      return NextResponse.json({ ok: true, seriesId, bookingIds, ...summary }, { status: 200 });
+    }
+
+    // 5b) Une seule Checkout pour toute la série (confirmée par le webhook via metadata.seriesId)
+    const session = await createBookingCheckoutSession({
+      bookingId: bookingIds[0],
+      parkingTitle: `${parking.title ?? "Réservation parking"} — ${bookable.length} réservations (${summary.pattern})`,
+      amountTotal: total,
+      currency,
+      connectedAccountId: connectedAccountId!,
+      successPath: `/my-bookings?series=${encodeURIComponent(seriesId)}`,
+      cancelPath: `/parkings/${encodeURIComponent(parkingId)}`,
+      customerEmail: u.user.email ?? null,
+      metadata: { seriesId, kind: "booking_series" },
+      expiresAt: checkoutExpiresAt(),
+    });
+
+    await admin.from("booking_series").update({ stripe_session_id: session.id }).eq("id", seriesId);
+
+    const { data: held } = await admin
+      .from("bookings")
+      .select(BOOKING_STATE_COLUMNS)
+      .eq("series_id", seriesId)
+      .in("status", statusesTransitionableTo("pending_payment"));
+
+    await transitionBookings(admin, (held ?? []) as BookingState[], { status: "pending_payment" }, {
+      source: "series-checkout",
+      patch: { stripe_session_id: session.id, hold_expires_at: holdFromSession(session) },
+    });
+
+    return NextResponse.json({ ok: true, seriesId, bookingIds, url: session.url, ...summary }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 // app/api/conversations/ensure/route.ts
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { bookingStatusOf } from "@/app/lib/bookingLifecycle";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -67,7 +68,7 @@ export async function POST(req: Request) {
     if (!b) return NextResponse.json({ ok: false, error: "Booking not found" }, { status: 404 });
 
     // ✅ Bloque chat si annulée OU passée
-    if ((b.status ?? "").toLowerCase() === "cancelled") {
+    if (bookingStatusOf(b.status) === "cancelled") {
       return NextResponse.json(
         { ok: false, error: "Chat indisponible", detail: "Réservation annulée" },
         { status: 409 }
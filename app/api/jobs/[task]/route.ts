@@ -0,0 +1,59 @@
+// app/api/jobs/[task]/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { describeJobs, isJobName, runJob } from "@/app/lib/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function env(name: string) {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`ENV manquante: ${name}`);
+  return v;
+}
+
+function getBearerToken(req: Request) {
+  const auth = req.headers.get("authorization") || "";
+  if (!auth.startsWith("Bearer ")) return null;
+  return auth.slice(7);
+}
+
+/**
+ * GET /api/jobs/[task]?dryRun=1
+ * Exécute une seule tâche planifiée (ex: /api/jobs/expire-holds), journalisée dans job_runs.
+ * Sécurisé par Authorization: Bearer CRON_SECRET.
+ */
+export async function GET(req: Request, ctx: { params: Promise<{ task: string }> }) {
+  try {
+    const secret = env("CRON_SECRET");
+    if (getBearerToken(req) !== secret) {
+      return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { task } = await ctx.params;
+    if (!isJobName(task)) {
+      return NextResponse.json(
+        { ok: false, error: "Tâche inconnue", detail: task, tasks: describeJobs() },
+        { status: 404 }
+      );
+    }
+
+    const dryRun = new URL(req.url).searchParams.get("dryRun") === "1";
+
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
+    const supabaseAdmin = createClient(supabaseUrl, serviceKey, {
+      auth: { persistSession: false },
+    });
+
+    const trigger = (req.headers.get("user-agent") ?? "").startsWith("vercel-cron") ? "cron" : "manual";
+    const run = await runJob(supabaseAdmin, task, { dryRun, trigger });
+
+    return NextResponse.json({ ok: run.ok, dryRun, run }, { status: run.ok ? 200 : 500 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+// app/api/jobs/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { JOB_NAMES, describeJobs, isJobName, runJobs, type JobName } from "@/app/lib/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function env(name: string) {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`ENV manquante: ${name}`);
+  return v;
+}
+
+function getBearerToken(req: Request) {
+  const auth = req.headers.get("authorization") || "";
+  if (!auth.startsWith("Bearer ")) return null;
+  return auth.slice(7);
+}
+
+/**
+ * GET /api/jobs?tasks=expire-holds,send-reminders&dryRun=1
+ * Exécute les tâches planifiées (toutes par défaut), journalisées dans job_runs.
+ * Sécurisé par Authorization: Bearer CRON_SECRET (envoyé automatiquement par Vercel Cron).
+ */
+export async function GET(req: Request) {
+  try {
+    const secret = env("CRON_SECRET");
+    if (getBearerToken(req) !== secret) {
+      return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const url = new URL(req.url);
+    const dryRun = url.searchParams.get("dryRun") === "1";
+
+    const requested = (url.searchParams.get("tasks") ?? "")
+      .split(",")
+      .map((t) => t.trim())
+      .filter(Boolean);
+
+    const unknown = requested.filter((t) => !isJobName(t));
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: "Tâche inconnue", detail: unknown.join(", "), tasks: describeJobs() },
+        { status: 400 }
+      );
+    }
+
+    const tasks: JobName[] = requested.length > 0 ? (requested as JobName[]) : JOB_NAMES;
+
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
+    const supabaseAdmin = createClient(supabaseUrl, serviceKey, {
+      auth: { persistSession: false },
+    });
+
+    const trigger = (req.headers.get("user-agent") ?? "").startsWith("vercel-cron") ? "cron" : "manual";
+    const runs = await runJobs(supabaseAdmin, tasks, { dryRun, trigger });
+
+    const ok = runs.every((r) => r.ok);
+    return NextResponse.json({ ok, dryRun, runs }, { status: ok ? 200 : 500 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
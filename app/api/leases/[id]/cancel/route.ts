@@ -0,0 +1,93 @@
+// app/api/leases/[id]/cancel/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { stripe } from "@/app/lib/stripe";
+import { findLease } from "@/app/lib/leases";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function env(name: string) {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`ENV manquante: ${name}`);
+  return v;
+}
+
+function getBearerToken(req: Request) {
+  const auth = req.headers.get("authorization") || "";
+  if (!auth.startsWith("Bearer ")) return null;
+  return auth.slice(7);
+}
+
+function isUuid(v: string) {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+}
+
+/**
+ * POST /api/leases/:id/cancel
+ * Résiliation par le locataire: fin à l'échéance (pas de remboursement au prorata).
+ * La réservation glissante est ramenée à la fin de la période payée;
+ * Stripe envoie customer.subscription.deleted à l'échéance (webhook => cancelled).
+ */
+export async function POST(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const anonKey = env("NEXT_PUBLIC_SUPABASE_ANON_KEY");
+    const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
+
+    const token = getBearerToken(req);
+    if (!token) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await ctx.params;
+    const leaseId = String(id ?? "").trim();
+    if (!isUuid(leaseId)) return NextResponse.json({ ok: false, error: "leaseId invalide" }, { status: 400 });
+
+    const supabaseAuth = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { data: u, error: uErr } = await supabaseAuth.auth.getUser();
+    if (uErr || !u.user) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const admin = createClient(supabaseUrl, serviceKey, {
+      auth: { persistSession: false },
+    });
+
+    const lease = await findLease(admin, { leaseId });
+    if (!lease) return NextResponse.json({ ok: false, error: "Location introuvable" }, { status: 404 });
+    if (lease.user_id !== u.user.id) return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+
+    if (lease.status === "cancelled" || lease.status === "expired" || lease.cancel_at_period_end) {
+      return NextResponse.json({ ok: true, already: true }, { status: 200 });
+    }
+
+    if (!lease.stripe_subscription_id) {
+      return NextResponse.json(
+        { ok: false, error: "Abonnement Stripe introuvable", detail: "stripe_subscription_id manquant" },
+        { status: 409 }
+      );
+    }
+
+    await stripe.subscriptions.update(lease.stripe_subscription_id, { cancel_at_period_end: true });
+
+    await admin.from("parking_leases").update({ cancel_at_period_end: true }).eq("id", lease.id);
+
+    // la période suivante n'est plus réservée
+    if (lease.current_period_end) {
+      await admin
+        .from("bookings")
+        .update({ end_time: lease.current_period_end })
+        .eq("lease_id", lease.id)
+        .gt("end_time", lease.current_period_end)
+        .lt("start_time", lease.current_period_end);
+    }
+
+    return NextResponse.json({ ok: true, endsAt: lease.current_period_end }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,227 @@
+// app/api/leases/create/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createLeaseCheckoutSession } from "@/app/lib/stripe";
+import {
+  checkAvailability,
+  getBuffers,
+  AVAILABILITY_REASONS,
+  BUFFER_COLUMNS,
+  PG_EXCLUSION_VIOLATION,
+  type BufferColumns,
+} from "@/app/lib/availability";
+import { addMonthsIso, LEASE_RESERVED_MONTHS } from "@/app/lib/leases";
+import { normalizeBookingMode } from "@/app/lib/bookingRequests";
+import { parkingCurrency } from "@/app/lib/pricing";
+import { checkoutExpiresAt, holdExpiresAt, holdFromSession, releaseExpiredHolds } from "@/app/lib/holds";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function env(name: string) {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`ENV manquante: ${name}`);
+  return v;
+}
+
+function getBearerToken(req: Request) {
+  const auth = req.headers.get("authorization") || "";
+  if (!auth.startsWith("Bearer ")) return null;
+  return auth.slice(7);
+}
+
+type Body = { parkingId?: string };
+
+type ParkingRow = BufferColumns & {
+  id: string;
+  title: string | null;
+  owner_id: string;
+  price_month: number | null;
+  currency: string | null;
+  booking_mode: string | null;
+};
+
+/**
+ * POST /api/leases/create { parkingId }
+ * Location au mois: bloque la place (réservation glissante pending_payment) puis Checkout "subscription".
+ * Le webhook confirme (checkout.session.completed / invoice.paid).
+ */
+export async function POST(req: Request) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const anonKey = env("NEXT_PUBLIC_SUPABASE_ANON_KEY");
+    const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
+
+    const token = getBearerToken(req);
+    if (!token) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const parkingId = (body.parkingId ?? "").trim();
+    if (!parkingId) return NextResponse.json({ ok: false, error: "parkingId manquant" }, { status: 400 });
+
+    const supabaseAuth = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { data: u, error: uErr } = await supabaseAuth.auth.getUser();
+    if (uErr || !u.user) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const admin = createClient(supabaseUrl, serviceKey, {
+      auth: { persistSession: false },
+    });
+
+    const { data: pData, error: pErr } = await admin
+      .from("parkings")
+      .select(`id,title,owner_id,price_month,currency,booking_mode,${BUFFER_COLUMNS}`)
+      .eq("id", parkingId)
+      .maybeSingle();
+
+    if (pErr) return NextResponse.json({ ok: false, error: pErr.message }, { status: 500 });
+    if (!pData) return NextResponse.json({ ok: false, error: "Parking introuvable" }, { status: 404 });
+
+    const parking = pData as ParkingRow;
+    const currency = parkingCurrency(parking.currency);
+    const priceMonth = parking.price_month !== null ? Number(parking.price_month) : null;
+
+    if (!priceMonth || priceMonth <= 0) {
+      return NextResponse.json(
+        { ok: false, error: "Location au mois non proposée pour cette place", code: "NO_MONTHLY_RATE" },
+        { status: 409 }
+      );
+    }
+
+    // place sur demande: pas d'abonnement sans validation du propriétaire
+    if (normalizeBookingMode(parking.booking_mode) === "request") {
+      return NextResponse.json(
+        { ok: false, error: "Place sur demande", detail: "Location au mois indisponible.", code: "REQUEST_MODE" },
+        { status: 409 }
+      );
+    }
+
+    if (parking.owner_id === u.user.id) {
+      return NextResponse.json({ ok: false, error: "Impossible de louer sa propre place" }, { status: 400 });
+    }
+
+    // Compte Stripe Connect du propriétaire
+    const { data: ownerProfile, error: opErr } = await admin
+      .from("profiles")
+      .select("stripe_account_id, stripe_onboarding_complete, stripe_payouts_enabled")
+      .eq("id", parking.owner_id)
+      .maybeSingle();
+
+    if (opErr) return NextResponse.json({ ok: false, error: "DB error", detail: opErr.message }, { status: 500 });
+
+    const connectedAccountId = ownerProfile?.stripe_account_id ?? null;
+    if (!connectedAccountId || !ownerProfile?.stripe_onboarding_complete || !ownerProfile?.stripe_payouts_enabled) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "Owner Stripe incomplet",
+          detail: "Le propriétaire doit finaliser 'Configurer mes paiements' (payouts).",
+        },
+        { status: 400 }
+      );
+    }
+
+    // ✅ La place doit être libre sur la période payée + la suivante (réservation glissante)
+    const start = new Date(Math.ceil(Date.now() / 60000) * 60000).toISOString();
+    const end = addMonthsIso(start, LEASE_RESERVED_MONTHS);
+
+    await releaseExpiredHolds(admin, { parkingId });
+
+    const verdict = await checkAvailability(admin, parkingId, start, end);
+    if (!verdict.available) {
+      return NextResponse.json(
+        { ok: false, error: "Créneau indisponible", detail: verdict.reason, code: verdict.code },
+        { status: 409 }
+      );
+    }
+
+    const spot = verdict.spot ?? 1;
+    const buffers = getBuffers(parking);
+
+    const { data: lData, error: lErr } = await admin
+      .from("parking_leases")
+      .insert({
+        parking_id: parkingId,
+        user_id: u.user.id,
+        status: "pending",
+        price_month: priceMonth,
+        currency,
+        spot_number: spot,
+        started_at: start,
+      })
+      .select("id")
+      .maybeSingle();
+
+    if (lErr) return NextResponse.json({ ok: false, error: lErr.message }, { status: 500 });
+    if (!lData) return NextResponse.json({ ok: false, error: "Insert lease failed" }, { status: 500 });
+
+    const leaseId = (lData as { id: string }).id;
+
+    const { data: bData, error: bErr } = await admin
+      .from("bookings")
+      .insert({
+        parking_id: parkingId,
+        user_id: u.user.id,
+        lease_id: leaseId,
+        start_time: start,
+        end_time: end,
+        total_price: priceMonth,
+        currency,
+        status: "pending_payment",
+        payment_status: "unpaid",
+        buffer_before_minutes: buffers.before,
+        buffer_after_minutes: buffers.after,
+        spot_number: spot,
+        hold_expires_at: holdExpiresAt(),
+      })
+      .select("id")
+      .maybeSingle();
+
+    if (bErr || !bData) {
+      await admin.from("parking_leases").delete().eq("id", leaseId);
+
+      if (bErr?.code === PG_EXCLUSION_VIOLATION) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: "Créneau indisponible",
+            detail: AVAILABILITY_REASONS.BOOKING_OVERLAP,
+            code: "BOOKING_OVERLAP",
+          },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json({ ok: false, error: bErr?.message ?? "Insert booking failed" }, { status: 500 });
+    }
+
+    const session = await createLeaseCheckoutSession({
+      leaseId,
+      parkingTitle: parking.title ?? "Place",
+      amountMonthly: priceMonth,
+      currency,
+      connectedAccountId,
+      successPath: "/my-bookings?lease=1",
+      cancelPath: `/parkings/${encodeURIComponent(parkingId)}`,
+      customerEmail: u.user.email ?? null,
+      expiresAt: checkoutExpiresAt(),
+    });
+
+    await Promise.all([
+      admin.from("parking_leases").update({ stripe_session_id: session.id }).eq("id", leaseId),
+      admin
+        .from("bookings")
+        .update({ stripe_session_id: session.id, hold_expires_at: holdFromSession(session) })
+        .eq("lease_id", leaseId),
+    ]);
+
+    return NextResponse.json({ ok: true, leaseId, url: session.url }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
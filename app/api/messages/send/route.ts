@@ -6,6 +6,7 @@ import { render } from "@react-email/render";
 
 import NewMessageEmail from "@/app/emails/NewMessageEmail";
 import { resend, getFromEmail, getAppUrl } from "@/app/lib/resend";
+import { bookingStatusOf } from "@/app/lib/bookingLifecycle";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -111,7 +112,7 @@ export async function POST(req: Request) {
         return NextResponse.json({ ok: false, error: "Booking not found" }, { status: 404 });
       }
 
-      if ((b.status ?? "").toLowerCase() === "cancelled") {
+      if (bookingStatusOf(b.status) === "cancelled") {
         return NextResponse.json(
           { ok: false, error: "Chat désactivé", detail: "Réservation annulée." },
           { status: 400 }
@@ -68,7 +68,8 @@ export async function GET(req: Request) {
       .from("parking_availability")
       .select("weekday,start_time,end_time,enabled")
       .eq("parking_id", parkingIdRaw)
-      .order("weekday", { ascending: true });
+      .order("weekday", { ascending: true })
+      .order("start_time", { ascending: true });
 
     if (slErr) return NextResponse.json({ ok: false, error: slErr.message }, { status: 500 });
 
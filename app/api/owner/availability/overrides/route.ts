@@ -0,0 +1,158 @@
+// app/api/owner/availability/overrides/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { validateOverride, type AvailabilityOverride } from "@/app/lib/availability";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function env(name: string) {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`ENV manquante: ${name}`);
+  return v;
+}
+
+function getBearerToken(req: Request) {
+  const auth = req.headers.get("authorization") || "";
+  if (!auth.startsWith("Bearer ")) return null;
+  return auth.slice(7);
+}
+
+type OverrideRow = AvailabilityOverride & {
+  id: string;
+  parking_id: string;
+  note: string | null;
+  created_at: string | null;
+};
+
+type PostBody = {
+  parkingId?: string;
+  date?: string;
+  startTime?: string;
+  endTime?: string;
+  enabled?: boolean;
+  note?: string;
+};
+
+const SELECT = "id,parking_id,date,start_time,end_time,enabled,note,created_at";
+
+/**
+ * Exceptions datées du planning (RLS: seul le propriétaire de la place y a accès)
+ * GET    ?parkingId=...&from=YYYY-MM-DD  => exceptions à venir
+ * POST   { parkingId, date, startTime?, endTime?, enabled?, note? }
+ * DELETE ?id=...
+ */
+export async function GET(req: Request) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const anonKey = env("NEXT_PUBLIC_SUPABASE_ANON_KEY");
+    const token = getBearerToken(req);
+    if (!token) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { searchParams } = new URL(req.url);
+    const parkingId = (searchParams.get("parkingId") ?? "").trim();
+    const from = (searchParams.get("from") ?? "").trim();
+    if (!parkingId) return NextResponse.json({ ok: false, error: "parkingId manquant" }, { status: 400 });
+
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    let q = supabase.from("parking_availability_overrides").select(SELECT).eq("parking_id", parkingId);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(from)) q = q.gte("date", from);
+
+    const { data, error } = await q
+      .order("date", { ascending: true })
+      .order("start_time", { ascending: true });
+
+    if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+
+    return NextResponse.json({ ok: true, rows: (data ?? []) as OverrideRow[] }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const anonKey = env("NEXT_PUBLIC_SUPABASE_ANON_KEY");
+    const token = getBearerToken(req);
+    if (!token) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const body = (await req.json().catch(() => ({}))) as PostBody;
+    const parkingId = (body.parkingId ?? "").trim();
+    const note = typeof body.note === "string" ? body.note.trim().slice(0, 140) : null;
+
+    // fermé toute la journée => plage ignorée
+    const override: AvailabilityOverride = {
+      date: String(body.date ?? "").trim(),
+      start_time: typeof body.startTime === "string" ? body.startTime.trim() : "00:00",
+      end_time: typeof body.endTime === "string" ? body.endTime.trim() : "23:59",
+      enabled: body.enabled !== false,
+    };
+
+    if (!parkingId) return NextResponse.json({ ok: false, error: "parkingId manquant" }, { status: 400 });
+
+    const invalid = validateOverride(override);
+    if (invalid) return NextResponse.json({ ok: false, error: invalid }, { status: 400 });
+
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { data, error } = await supabase
+      .from("parking_availability_overrides")
+      .insert({
+        parking_id: parkingId,
+        date: override.date,
+        start_time: override.enabled ? override.start_time : "00:00",
+        end_time: override.enabled ? override.end_time : "23:59",
+        enabled: override.enabled,
+        note: note || null,
+      })
+      .select(SELECT)
+      .maybeSingle();
+
+    if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    return NextResponse.json({ ok: true, override: data }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const anonKey = env("NEXT_PUBLIC_SUPABASE_ANON_KEY");
+    const token = getBearerToken(req);
+    if (!token) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { searchParams } = new URL(req.url);
+    const id = (searchParams.get("id") ?? "").trim();
+    if (!id) return NextResponse.json({ ok: false, error: "id manquant" }, { status: 400 });
+
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { error } = await supabase.from("parking_availability_overrides").delete().eq("id", id);
+    if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
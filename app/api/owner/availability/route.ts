@@ -1,6 +1,7 @@
 // app/api/owner/availability/route.ts
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { validateWeeklySlots } from "@/app/lib/availability";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -91,7 +92,8 @@ export async function GET(req: Request) {
       .from("parking_availability")
       .select("weekday,start_time,end_time,enabled")
       .eq("parking_id", parkingId)
-      .order("weekday", { ascending: true });
+      .order("weekday", { ascending: true })
+      .order("start_time", { ascending: true });
 
     if (error) return NextResponse.json({ ok: false, error: error.message } satisfies GetErr, { status: 500 });
 
@@ -175,6 +177,10 @@ export async function POST(req: Request) {
       })
       .filter((x): x is Slot => x !== null);
 
+    // ✅ plusieurs plages par jour OK, mais pas de chevauchement (règles communes avec le planner)
+    const invalid = validateWeeklySlots(normalized);
+    if (invalid) return NextResponse.json({ ok: false, error: invalid } as const, { status: 400 });
+
     // delete then upsert
     const { error: delErr } = await admin.from("parking_availability").delete().eq("parking_id", parkingId);
     if (delErr) return NextResponse.json({ ok: false, error: delErr.message } as const, { status: 500 });
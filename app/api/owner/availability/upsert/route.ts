@@ -1,6 +1,7 @@
 // app/api/owner/availability/upsert/route.ts
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { validateWeeklySlots, type WeeklySlot } from "@/app/lib/availability";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -17,23 +18,11 @@ function getBearerToken(req: Request) {
   return auth.slice(7);
 }
 
-type Slot = {
-  weekday: number; // 1..7
-  start_time: string; // "HH:MM" or "HH:MM:SS"
-  end_time: string;
-  enabled: boolean;
-};
-
 type Body = {
   parkingId?: string;
-  slots?: Slot[];
+  slots?: WeeklySlot[];
 };
 
-function isTime(v: string) {
-  // accept HH:MM or HH:MM:SS
-  return /^\d{2}:\d{2}(:\d{2})?$/.test(v);
-}
-
 export async function POST(req: Request) {
   try {
     const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
@@ -57,21 +46,9 @@ export async function POST(req: Request) {
 
     const slots = Array.isArray(body.slots) ? body.slots : [];
 
-    // validate slots
-    for (const s of slots) {
-      if (!s || typeof s.weekday !== "number") {
-        return NextResponse.json({ ok: false, error: "slots invalides" }, { status: 400 });
-      }
-      if (s.weekday < 1 || s.weekday > 7) {
-        return NextResponse.json({ ok: false, error: "weekday invalide" }, { status: 400 });
-      }
-      if (!isTime(String(s.start_time)) || !isTime(String(s.end_time))) {
-        return NextResponse.json({ ok: false, error: "Heures invalides" }, { status: 400 });
-      }
-      if (Boolean(s.enabled) && String(s.end_time) <= String(s.start_time)) {
-        return NextResponse.json({ ok: false, error: "end_time doit être après start_time" }, { status: 400 });
-      }
-    }
+    // validate slots (règles communes avec le planner: plusieurs plages / jour, sans chevauchement)
+    const invalid = validateWeeklySlots(slots);
+    if (invalid) return NextResponse.json({ ok: false, error: invalid }, { status: 400 });
 
     // user
     const supabaseAuth = createClient(supabaseUrl, anonKey, {
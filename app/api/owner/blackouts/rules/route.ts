@@ -0,0 +1,198 @@
+// app/api/owner/blackouts/rules/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { validateBlackoutRule, type BlackoutRule } from "@/app/lib/availability";
+import { isYmd } from "@/app/lib/rrule";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function env(name: string) {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`ENV manquante: ${name}`);
+  return v;
+}
+
+function getBearerToken(req: Request) {
+  const auth = req.headers.get("authorization") || "";
+  if (!auth.startsWith("Bearer ")) return null;
+  return auth.slice(7);
+}
+
+function toDateList(v: unknown): string[] {
+  if (!Array.isArray(v)) return [];
+  return Array.from(new Set(v.map((x) => String(x ?? "").trim()).filter(Boolean))).sort();
+}
+
+type RuleRow = BlackoutRule & { created_at: string | null };
+
+type PostBody = {
+  parkingId?: string;
+  rrule?: string;
+  dtstart?: string;
+  startTime?: string;
+  endTime?: string;
+  exdates?: string[];
+  reason?: string;
+};
+
+type PatchBody = {
+  id?: string;
+  exdates?: string[];
+};
+
+const SELECT = "id,parking_id,rrule,dtstart,start_time,end_time,exdates,reason,created_at";
+
+/**
+ * Blackouts récurrents (RLS: seul le propriétaire de la place y a accès)
+ * GET    ?parkingId=...
+ * POST   { parkingId, rrule, dtstart, startTime?, endTime?, exdates?, reason? }
+ * PATCH  { id, exdates }  => remplace la liste des exceptions (ex: "pas ce lundi-là")
+ * DELETE ?id=...          => supprime toute la série
+ */
+export async function GET(req: Request) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const anonKey = env("NEXT_PUBLIC_SUPABASE_ANON_KEY");
+    const token = getBearerToken(req);
+    if (!token) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { searchParams } = new URL(req.url);
+    const parkingId = (searchParams.get("parkingId") ?? "").trim();
+    if (!parkingId) return NextResponse.json({ ok: false, error: "parkingId manquant" }, { status: 400 });
+
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { data, error } = await supabase
+      .from("parking_blackout_rules")
+      .select(SELECT)
+      .eq("parking_id", parkingId)
+      .order("dtstart", { ascending: true });
+
+    if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+
+    return NextResponse.json({ ok: true, rows: (data ?? []) as RuleRow[] }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const anonKey = env("NEXT_PUBLIC_SUPABASE_ANON_KEY");
+    const token = getBearerToken(req);
+    if (!token) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const body = (await req.json().catch(() => ({}))) as PostBody;
+    const parkingId = (body.parkingId ?? "").trim();
+    const reason = typeof body.reason === "string" ? body.reason.trim().slice(0, 140) : null;
+
+    const rule = {
+      rrule: String(body.rrule ?? "").trim().replace(/^RRULE:/i, "").toUpperCase(),
+      dtstart: String(body.dtstart ?? "").trim(),
+      // par défaut: journée entière
+      start_time: typeof body.startTime === "string" ? body.startTime.trim() : "00:00",
+      end_time: typeof body.endTime === "string" ? body.endTime.trim() : "23:59",
+      exdates: toDateList(body.exdates),
+    };
+
+    if (!parkingId) return NextResponse.json({ ok: false, error: "parkingId manquant" }, { status: 400 });
+
+    const invalid = validateBlackoutRule(rule);
+    if (invalid) return NextResponse.json({ ok: false, error: invalid }, { status: 400 });
+
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { data, error } = await supabase
+      .from("parking_blackout_rules")
+      .insert({ parking_id: parkingId, ...rule, reason: reason || null })
+      .select(SELECT)
+      .maybeSingle();
+
+    if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    return NextResponse.json({ ok: true, rule: data }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(req: Request) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const anonKey = env("NEXT_PUBLIC_SUPABASE_ANON_KEY");
+    const token = getBearerToken(req);
+    if (!token) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const body = (await req.json().catch(() => ({}))) as PatchBody;
+    const id = (body.id ?? "").trim();
+    const exdates = toDateList(body.exdates);
+
+    if (!id) return NextResponse.json({ ok: false, error: "id manquant" }, { status: 400 });
+    if (exdates.some((d) => !isYmd(d))) {
+      return NextResponse.json({ ok: false, error: "exdates invalides (YYYY-MM-DD)" }, { status: 400 });
+    }
+
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { data, error } = await supabase
+      .from("parking_blackout_rules")
+      .update({ exdates })
+      .eq("id", id)
+      .select(SELECT)
+      .maybeSingle();
+
+    if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    if (!data) return NextResponse.json({ ok: false, error: "Règle introuvable" }, { status: 404 });
+
+    return NextResponse.json({ ok: true, rule: data }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const anonKey = env("NEXT_PUBLIC_SUPABASE_ANON_KEY");
+    const token = getBearerToken(req);
+    if (!token) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const { searchParams } = new URL(req.url);
+    const id = (searchParams.get("id") ?? "").trim();
+    if (!id) return NextResponse.json({ ok: false, error: "id manquant" }, { status: 400 });
+
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { error } = await supabase.from("parking_blackout_rules").delete().eq("id", id);
+    if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
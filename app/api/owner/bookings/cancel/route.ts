@@ -1,12 +1,16 @@
 // app/api/owner/bookings/cancel/route.ts
 import { NextResponse } from "next/server";
-import Stripe from "stripe";
 import { createClient } from "@supabase/supabase-js";
 import {
   sendEmail,
   bookingCancelledClientEmailHtml,
   bookingCancelledOwnerEmailHtml,
 } from "@/app/lib/mailer";
+import { bookingStatusOf, paymentStatusOf, transitionBooking } from "@/app/lib/bookingLifecycle";
+import { OWNER_CANCEL_REASON_LABELS, ownerCancelReasonOf, ownerPenaltyQuote } from "@/app/lib/ownerPenalties";
+import { recordOwnerCancellation, refreshOwnerReliability } from "@/app/lib/ownerCancellations";
+import { recordRefund, releaseBookingEarnings } from "@/app/lib/ledger";
+import { refundBookingPayments, refundsSettled } from "@/app/lib/refunds";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -23,9 +27,15 @@ function getBearerToken(req: Request) {
   return auth.slice(7);
 }
 
-type Body = { bookingId?: string };
+type Body = { bookingId?: string; reason?: string; note?: string };
 
-type ApiOk = { ok: true; refunded?: boolean; already?: boolean };
+type ApiOk = {
+  ok: true;
+  refunded?: boolean;
+  refundPending?: boolean;
+  already?: boolean;
+  penalty?: { amount: number; percent: number; currency: string };
+};
 type ApiErr = { ok: false; error: string; detail?: string };
 
 function jsonOk(payload: ApiOk, status = 200) {
@@ -42,7 +52,6 @@ export async function POST(req: Request) {
     const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
     const anonKey = env("NEXT_PUBLIC_SUPABASE_ANON_KEY");
     const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
-    const stripeKey = env("STRIPE_SECRET_KEY");
 
     const token = getBearerToken(req);
     if (!token) {
@@ -53,6 +62,10 @@ export async function POST(req: Request) {
     const bookingId = body.bookingId?.trim();
     if (!bookingId) return jsonErr("bookingId manquant", 400);
 
+    // motif obligatoire côté UI; inconnu => "other"
+    const reason = ownerCancelReasonOf(body.reason);
+    const note = typeof body.note === "string" && body.note.trim() ? body.note.trim().slice(0, 500) : null;
+
     // Auth user
     const supabaseAuth = createClient(supabaseUrl, anonKey, {
       global: { headers: { Authorization: `Bearer ${token}` } },
@@ -84,7 +97,7 @@ export async function POST(req: Request) {
     // Load parking owner + title/address for email
     const { data: p, error: pErr } = await supabaseAdmin
       .from("parkings")
-      .select("id, owner_id, title, address")
+      .select("id, owner_id, title, address, timezone")
       .eq("id", booking.parking_id)
       .maybeSingle();
 
@@ -93,27 +106,61 @@ export async function POST(req: Request) {
 
     if (p.owner_id !== u.user.id) return jsonErr("Forbidden", 403);
 
+    const st = bookingStatusOf(booking.status);
+
     // Already cancelled
-    if ((booking.status ?? "").toLowerCase() === "cancelled") {
+    if (st === "cancelled") {
       // ✅ pas d’email en already
       return jsonOk({ ok: true, already: true }, 200);
     }
 
-    const paid = (booking.payment_status ?? "").toLowerCase() === "paid";
+    // demande en attente: le propriétaire refuse (annulation de l'autorisation) au lieu d'annuler
+    if (st === "requested") {
+      return jsonErr("Demande en attente", 409, "Utilise « Refuser » pour cette demande.");
+    }
+
+    const paid = paymentStatusOf(booking.payment_status) === "paid";
+    const nowMs = Date.now();
 
     // Cancel booking first (effective cancellation)
-    const { error: upErr } = await supabaseAdmin
-      .from("bookings")
-      .update({
-        status: "cancelled",
-        cancelled_at: new Date().toISOString(),
-        refund_status: paid ? "requested_owner" : "none",
-        payment_status: paid ? "refunding" : booking.payment_status,
-        cancelled_by: "owner",
-      })
-      .eq("id", booking.id);
+    const cancelled = await transitionBooking(
+      supabaseAdmin,
+      booking,
+      { status: "cancelled", ...(paid ? { payment_status: "refunding" as const } : {}) },
+      {
+        source: "owner-cancel",
+        patch: {
+          cancelled_at: new Date(nowMs).toISOString(),
+          refund_status: paid ? "requested_owner" : "none",
+          // annulation propriétaire: remboursement intégral, quelle que soit la politique d'annulation
+          refund_amount: paid ? booking.total_price : null,
+          cancelled_by: "owner",
+          cancel_reason: reason,
+        },
+      }
+    );
+
+    if (!cancelled.ok) {
+      if (cancelled.code === "DB_ERROR") return jsonErr("Update failed", 500, cancelled.detail);
+      return jsonErr("Annulation impossible", 409, cancelled.detail);
+    }
+
+    // état après annulation (base des transitions de remboursement)
+    const refunding = { id: booking.id, status: "cancelled", payment_status: "refunding" };
+
+    // ✅ motif + pénalité (déduite des prochains versements) + score de fiabilité
+    // ⚠️ l'annulation est déjà effective: un échec ici est journalisé, pas renvoyé au propriétaire
+    let penalty = ownerPenaltyQuote({ startIso: booking.start_time, totalPrice: booking.total_price, reason, paid, nowMs });
+    try {
+      penalty = await recordOwnerCancellation(supabaseAdmin, { booking, ownerId: u.user.id, reason, note, paid, nowMs });
+      await refreshOwnerReliability(supabaseAdmin, [u.user.id], nowMs);
+    } catch (e) {
+      console.error("Owner cancellation record failed:", e);
+    }
 
-    if (upErr) return jsonErr("Update failed", 500, upErr.message);
+    const currency = (booking.currency ?? "CHF").toUpperCase();
+    const penaltyOut = penalty.amountCents > 0 ? { amount: penalty.amount, percent: penalty.percent, currency } : undefined;
+    const reasonLabel = OWNER_CANCEL_REASON_LABELS[reason];
 
     // ✅ SOLUTION 1: emails UNIQUEMENT APRÈS annulation DB ok
     try {
@@ -139,8 +186,12 @@ export async function POST(req: Request) {
             parkingAddress,
             startTimeIso: booking.start_time,
             endTimeIso: booking.end_time,
+            timeZone: p.timezone,
             totalPrice: booking.total_price,
             currency: booking.currency,
+            refundAmount: paid ? booking.total_price : null,
+            reason: reasonLabel,
+            penaltyAmount: penalty.amount,
           }),
         });
       }
@@ -156,8 +207,11 @@ export async function POST(req: Request) {
             parkingAddress,
             startTimeIso: booking.start_time,
             endTimeIso: booking.end_time,
+            timeZone: p.timezone,
             totalPrice: booking.total_price,
             currency: booking.currency,
+            refundAmount: paid ? booking.total_price : null,
+            reason: reason === "other" ? null : reasonLabel,
           }),
         });
       }
@@ -171,53 +225,66 @@ export async function POST(req: Request) {
     // Paid: need refund
     if (!booking.stripe_payment_intent_id) {
       // best-effort rollback
-      await supabaseAdmin
-        .from("bookings")
-        .update({ refund_status: "missing_intent", payment_status: "paid" })
-        .eq("id", booking.id);
+      await transitionBooking(supabaseAdmin, refunding, { payment_status: "paid" }, {
+        source: "owner-cancel",
+        patch: { refund_status: "missing_intent", refund_amount: null },
+      });
 
       return jsonErr("Refund impossible", 500, "stripe_payment_intent_id manquant");
     }
 
     // Idempotency: if refund already exists in DB, don't recreate
     if (booking.refund_id || (booking.refund_status ?? "").toLowerCase() === "refunded") {
-      return jsonOk({ ok: true, refunded: true, already: true }, 200);
+      return jsonOk({ ok: true, refunded: true, already: true, penalty: penaltyOut }, 200);
     }
 
-    const stripe = new Stripe(stripeKey);
+    // ✅ remboursement de CETTE réservation uniquement (part de l'occurrence pour une série payée en une fois)
+    // + suppléments de modification; metadata.bookingId => refund.updated ne touche que cette réservation
+    // reverse_transfer: la part versée au propriétaire (destination charge) est reprise sur son compte Connect
+    const totalCents = Math.max(0, Math.round(Number(booking.total_price ?? 0) * 100)) || 0;
+    const refund = await refundBookingPayments(supabaseAdmin, booking, totalCents, {
+      idempotencyKey: `owner-cancel-${booking.id}`,
+      metadata: { cancelledBy: "owner" },
+    });
 
-    try {
-      const refund = await stripe.refunds.create(
-        { payment_intent: booking.stripe_payment_intent_id },
-        { idempotencyKey: `owner-cancel-${booking.id}` }
-      );
+    if (!refund.ok && refund.refunds.length === 0) {
+      await transitionBooking(supabaseAdmin, refunding, { payment_status: "paid" }, {
+        source: "owner-cancel",
+        patch: { refund_status: "failed", refund_amount: null },
+      });
 
-      const { error: upd2Err } = await supabaseAdmin
-        .from("bookings")
-        .update({
-          refund_status: "refunded",
-          refund_id: refund.id,
-          payment_status: "refunded",
-        })
-        .eq("id", booking.id);
-
-      if (upd2Err) {
-        return jsonErr("Refund ok but DB update failed", 500, upd2Err.message);
-      }
+      return jsonErr("Stripe refund failed", 502, refund.error);
+    }
+
+    // ⚠️ "refunded" seulement si Stripe a déjà terminé; sinon le webhook refund.updated finalise
+    // (aucun remboursement créé: paiements déjà entièrement remboursés)
+    const settled = refund.ok && (refund.refunds.length === 0 || refundsSettled(refund.refunds));
+
+    const saved = await transitionBooking(supabaseAdmin, refunding, settled ? { payment_status: "refunded" } : {}, {
+      source: "owner-cancel",
+      patch: {
+        refund_status: !refund.ok ? "failed" : settled ? "refunded" : "processing",
+        refund_id: refund.refunds[0]?.id ?? null,
+        refund_amount: refund.refundedCents / 100,
+        ...(settled ? { refunded_at: new Date().toISOString() } : {}),
+      },
+    });
 
-      return jsonOk({ ok: true, refunded: true }, 200);
-    } catch (e: unknown) {
-      await supabaseAdmin
-        .from("bookings")
-        .update({
-          refund_status: "failed",
-          payment_status: "paid",
-        })
-        .eq("id", booking.id);
-
-      const msg = e instanceof Error ? e.message : "Stripe refund failed";
-      return jsonErr("Stripe refund failed", 502, msg);
+    // grand livre: remboursement(s) + reprise du transfert (solde propriétaire de la réservation => 0)
+    await Promise.all(refund.refunds.map((r) => recordRefund(supabaseAdmin, r.id, { bookingId: booking.id })))
+      .then(() => releaseBookingEarnings(supabaseAdmin, [booking.id]))
+      .catch((e) => console.error("Ledger (owner cancel) failed:", e));
+
+    if (!saved.ok) return jsonErr("Refund ok but DB update failed", 500, saved.detail);
+    if (!refund.ok) {
+      return jsonErr(
+        "Remboursement partiel",
+        502,
+        `Réservation annulée, ${refund.refundedCents / 100} remboursé(s) sur ${totalCents / 100}: ${refund.error}`
+      );
     }
+
+    return jsonOk({ ok: true, refunded: true, refundPending: !settled, penalty: penaltyOut }, 200);
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : "Server error";
     return NextResponse.json({ ok: false, error: msg }, { status: 500 });
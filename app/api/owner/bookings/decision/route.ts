@@ -0,0 +1,163 @@
+// app/api/owner/bookings/decision/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { stripe } from "@/app/lib/stripe";
+import {
+  BOOKING_REQUEST_COLUMNS,
+  closeBookingRequest,
+  notifyBookingRequest,
+  type BookingRequestRow,
+} from "@/app/lib/bookingRequests";
+import { bookingStatusOf, paymentStatusOf, transitionBooking } from "@/app/lib/bookingLifecycle";
+import { recordPayment } from "@/app/lib/ledger";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function env(name: string) {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`ENV manquante: ${name}`);
+  return v;
+}
+
+function getBearerToken(req: Request) {
+  const auth = req.headers.get("authorization") || "";
+  if (!auth.startsWith("Bearer ")) return null;
+  return auth.slice(7);
+}
+
+type Body = { bookingId?: string; action?: string; reason?: string };
+
+type ApiOk = { ok: true; status: "confirmed" | "declined" };
+type ApiErr = { ok: false; error: string; detail?: string; code?: string };
+
+function jsonOk(payload: ApiOk, status = 200) {
+  return NextResponse.json(payload, { status });
+}
+
+function jsonErr(error: string, status = 400, detail?: string, code?: string) {
+  const payload: ApiErr = { ok: false, error, ...(detail ? { detail } : {}), ...(code ? { code } : {}) };
+  return NextResponse.json(payload, { status });
+}
+
+/**
+ * POST /api/owner/bookings/decision { bookingId, action: "accept" | "decline", reason? }
+ * Réservation sur demande:
+ * - accept  => capture du paiement autorisé, réservation confirmée
+ * - decline => autorisation annulée (aucun débit), créneau libéré
+ */
+export async function POST(req: Request) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const anonKey = env("NEXT_PUBLIC_SUPABASE_ANON_KEY");
+    const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
+
+    const token = getBearerToken(req);
+    if (!token) return jsonErr("Unauthorized", 401, "Missing Authorization Bearer token");
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const bookingId = body.bookingId?.trim();
+    const action = body.action;
+    const reason = typeof body.reason === "string" ? body.reason.trim().slice(0, 500) : null;
+
+    if (!bookingId) return jsonErr("bookingId manquant", 400);
+    if (action !== "accept" && action !== "decline") return jsonErr("action invalide (accept | decline)", 400);
+
+    const supabaseAuth = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { data: u, error: uErr } = await supabaseAuth.auth.getUser();
+    if (uErr || !u.user) return jsonErr("Unauthorized", 401, uErr?.message ?? "No user");
+
+    const admin = createClient(supabaseUrl, serviceKey, {
+      auth: { persistSession: false },
+    });
+
+    const { data: bData, error: bErr } = await admin
+      .from("bookings")
+      .select(BOOKING_REQUEST_COLUMNS)
+      .eq("id", bookingId)
+      .maybeSingle();
+
+    if (bErr) return jsonErr("DB error", 500, bErr.message);
+    if (!bData) return jsonErr("Booking not found", 404);
+
+    const booking = bData as BookingRequestRow;
+
+    const { data: p, error: pErr } = await admin
+      .from("parkings")
+      .select("id, owner_id")
+      .eq("id", booking.parking_id)
+      .maybeSingle();
+
+    if (pErr) return jsonErr("DB error", 500, pErr.message);
+    if (!p) return jsonErr("Parking not found", 404);
+    if (p.owner_id !== u.user.id) return jsonErr("Forbidden", 403);
+
+    if (bookingStatusOf(booking.status) !== "requested") {
+      return jsonErr("Demande déjà traitée", 409, `status=${booking.status ?? "—"}`, "NOT_REQUESTED");
+    }
+
+    // ---------- Refus ----------
+    if (action === "decline") {
+      const closed = await closeBookingRequest(admin, booking, "declined", reason);
+      if (!closed) return jsonErr("Demande déjà traitée", 409, undefined, "NOT_REQUESTED");
+
+      await notifyBookingRequest(admin, booking, "declined", reason);
+      return jsonOk({ ok: true, status: "declined" });
+    }
+
+    // ---------- Acceptation ----------
+    if (paymentStatusOf(booking.payment_status) !== "authorized" || !booking.stripe_payment_intent_id) {
+      return jsonErr("Paiement non autorisé", 409, "Le client n'a pas encore validé son paiement.", "NOT_AUTHORIZED");
+    }
+
+    if (booking.request_expires_at && Date.parse(booking.request_expires_at) <= Date.now()) {
+      return jsonErr("Demande expirée", 409, undefined, "REQUEST_EXPIRED");
+    }
+
+    // ✅ on "réserve" la décision avant la capture (le job d'expiration ne touche que status = requested)
+    const claimed = await transitionBooking(
+      admin,
+      booking,
+      { status: "confirmed", payment_status: "capturing" },
+      { source: "owner-decision:accept", patch: { decided_at: new Date().toISOString() } }
+    );
+
+    if (!claimed.ok) {
+      if (claimed.code === "DB_ERROR") return jsonErr("Update failed", 500, claimed.detail);
+      return jsonErr("Demande déjà traitée", 409, undefined, "NOT_REQUESTED");
+    }
+
+    const capturing = { id: booking.id, status: "confirmed", payment_status: "capturing" };
+
+    try {
+      await stripe.paymentIntents.capture(booking.stripe_payment_intent_id);
+    } catch (e: unknown) {
+      // autorisation invalide (annulée / expirée côté Stripe): la demande reste en attente
+      await transitionBooking(admin, capturing, { status: "requested", payment_status: "authorized" }, {
+        source: "owner-decision:capture-failed",
+        patch: { decided_at: null },
+      });
+
+      return jsonErr("Capture du paiement impossible", 502, e instanceof Error ? e.message : undefined, "CAPTURE_FAILED");
+    }
+
+    await transitionBooking(admin, capturing, { payment_status: "paid" }, { source: "owner-decision:captured" });
+
+    // grand livre best effort (paiement capturé = encaissé)
+    await recordPayment(admin, booking.stripe_payment_intent_id, { bookingIds: [booking.id] }).catch((e) =>
+      console.error("Ledger (capture) failed:", e)
+    );
+
+    await notifyBookingRequest(admin, booking, "accepted");
+    return jsonOk({ ok: true, status: "confirmed" });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
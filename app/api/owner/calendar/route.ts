@@ -1,6 +1,15 @@
 // app/api/owner/calendar/route.ts
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import {
+  getBuffers,
+  getCapacity,
+  loadBlackouts,
+  resolveTimeZone,
+  spotOf,
+  type BufferColumns,
+} from "@/app/lib/availability";
+import { bookingStatusOf, type BookingStatus } from "@/app/lib/bookingLifecycle";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -21,13 +30,18 @@ function isUuid(v: string) {
   return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
 }
 
+// filtre "active" du calendrier
+const ACTIVE_CALENDAR_STATUSES: BookingStatus[] = ["pending_payment", "confirmed", "in_progress", "completed"];
+
 type ParkingJoin = {
   id: string;
   title: string | null;
   owner_id: string;
+  timezone: string | null;
+  capacity: number | null;
 };
 
-type RawBooking = {
+type RawBooking = BufferColumns & {
   id: string;
   parking_id: string | null;
   start_time: string;
@@ -36,6 +50,7 @@ type RawBooking = {
   payment_status: string | null;
   total_price: string | number;
   currency: string | null;
+  spot_number: number | null;
 
   // join supabase peut renvoyer objet OU tableau
   parkings: ParkingJoin | ParkingJoin[] | null;
@@ -91,7 +106,7 @@ export async function GET(req: Request) {
     let q = admin
       .from("bookings")
       .select(
-        "id,parking_id,start_time,end_time,status,payment_status,total_price,currency,parkings!inner(id,title,owner_id)"
+        "id,parking_id,start_time,end_time,status,payment_status,total_price,currency,buffer_before_minutes,buffer_after_minutes,spot_number,parkings!inner(id,title,owner_id,timezone,capacity)"
       )
       .gte("start_time", start)
       .lt("start_time", end)
@@ -100,7 +115,7 @@ export async function GET(req: Request) {
     if (parkingId !== "all") q = q.eq("parking_id", parkingId);
 
     if (statusFilter !== "all") {
-      q = q.in("status", ["pending_payment", "confirmed"]);
+      q = q.in("status", ACTIVE_CALENDAR_STATUSES);
     }
 
     const { data, error } = await q.order("start_time", { ascending: true });
@@ -112,19 +127,28 @@ export async function GET(req: Request) {
       const parking = normalizeParking(b.parkings);
 
       const parkingTitle = parking?.title ?? "Place";
-      const st = b.status ?? "unknown";
+      const st = bookingStatusOf(b.status) ?? b.status ?? "unknown";
       const pay = b.payment_status ?? "unknown";
       const cur = (b.currency ?? "chf").toUpperCase();
 
       const priceNum = typeof b.total_price === "string" ? Number(b.total_price) : Number(b.total_price);
       const price = Number.isFinite(priceNum) ? priceNum : null;
 
+      const buffers = getBuffers(b);
+      const capacity = getCapacity(parking);
+      // annonce multi-places => numéro de place dans le titre
+      const label = capacity > 1 ? `${parkingTitle} · #${spotOf(b)}` : parkingTitle;
+
       const title =
         st === "confirmed"
-          ? `✅ ${parkingTitle}`
+          ? `✅ ${label}`
+          : st === "in_progress"
+          ? `🚗 ${label}`
+          : st === "completed"
+          ? `🏁 ${label}`
           : st === "pending_payment"
-          ? `🕒 ${parkingTitle}`
-          : `ℹ️ ${parkingTitle}`;
+          ? `🕒 ${label}`
+          : `ℹ️ ${label}`;
 
       return {
         id: b.id,
@@ -135,15 +159,45 @@ export async function GET(req: Request) {
           bookingId: b.id,
           parkingId: b.parking_id,
           parkingTitle,
+          timeZone: resolveTimeZone(parking?.timezone),
           status: st,
           paymentStatus: pay,
           totalPrice: price,
           currency: cur,
+          // battements figés sur la réservation => bloc "turnover" grisé autour de l'événement
+          bufferBeforeMinutes: buffers.before,
+          bufferAfterMinutes: buffers.after,
+          capacity,
+          spotNumber: spotOf(b),
         },
       };
     });
 
-    return NextResponse.json({ ok: true, events }, { status: 200 });
+    // ✅ Blackouts (moteur de disponibilité) => affichés en fond dans le calendrier
+    let ownedQ = admin.from("parkings").select("id,timezone").eq("owner_id", userId);
+    if (parkingId !== "all") ownedQ = ownedQ.eq("id", parkingId);
+
+    const { data: owned, error: oErr } = await ownedQ;
+    if (oErr) return NextResponse.json({ ok: false, error: oErr.message }, { status: 500 });
+
+    const tzById = new Map(
+      ((owned ?? []) as Array<{ id: string; timezone: string | null }>).map((x) => [x.id, resolveTimeZone(x.timezone)])
+    );
+
+    const blackoutRows = await loadBlackouts(admin, Array.from(tzById.keys()), start, end);
+
+    // 🔁 = occurrence d'un blackout récurrent (même ruleId pour toute la série)
+    const blackouts = blackoutRows.map((bo) => ({
+      id: `blackout-${bo.id}`,
+      ruleId: bo.rule_id,
+      title: `${bo.rule_id ? "🔁" : "⛔"} ${bo.reason || "Indisponible"}`,
+      start: bo.start_time,
+      end: bo.end_time,
+      parkingId: bo.parking_id,
+      timeZone: tzById.get(bo.parking_id) ?? resolveTimeZone(null),
+    }));
+
+    return NextResponse.json({ ok: true, events, blackouts }, { status: 200 });
   } catch (e: unknown) {
     return NextResponse.json(
       { ok: false, error: e instanceof Error ? e.message : "Server error" },
@@ -35,39 +35,44 @@ export async function GET(req: Request) {
     const ownerId = u.user.id;
     const admin = createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } });
 
+    // ✅ gains nets = mouvements du compte owner_available (grand livre), hors versements bancaires:
+    // release (réservation terminée), part conservée sur annulation, reprises de transfert, pénalités
     const { data, error } = await admin
-      .from("bookings")
-      .select(`total_price, currency, status, payment_status, created_at, parkings:parking_id!inner(owner_id)`)
-      .eq("parkings.owner_id", ownerId);
+      .from("ledger_entries")
+      .select("amount,currency,created_at")
+      .eq("party_id", ownerId)
+      .eq("account", "owner_available")
+      .neq("kind", "payout");
 
     if (error) return NextResponse.json({ ok: false, error: "DB error", detail: error.message }, { status: 500 });
 
-    // Agrégation par YYYY-MM
-    const map = new Map<string, number>();
-    let currency = "CHF";
+    // Agrégation par YYYY-MM (UTC, date d'écriture) et par devise: jamais de somme CHF + EUR
+    const map = new Map<string, { month: string; currency: string; total: number }>();
 
-    for (const b of data ?? []) {
-      const s = String(b.status ?? "").toLowerCase();
-      const pay = String(b.payment_status ?? "").toLowerCase();
-      if (s === "cancelled") continue;
-      if (pay !== "paid") continue;
-
-      currency = (b.currency ?? currency) as string;
-
-      const dt = new Date(b.created_at as string);
+    for (const e of data ?? []) {
+      const dt = new Date(e.created_at as string);
       if (Number.isNaN(dt.getTime())) continue;
 
-      const key = `${dt.getFullYear()}-${String(dt.getMonth() + 1).padStart(2, "0")}`;
-      const amount = typeof b.total_price === "number" ? b.total_price : Number(b.total_price ?? 0);
-      map.set(key, (map.get(key) ?? 0) + (Number.isFinite(amount) ? amount : 0));
+      const month = `${dt.getUTCFullYear()}-${String(dt.getUTCMonth() + 1).padStart(2, "0")}`;
+      const currency = String(e.currency ?? "CHF").toUpperCase();
+      const amount = typeof e.amount === "number" ? e.amount : Number(e.amount ?? 0);
+
+      const key = `${month}|${currency}`;
+      const bucket = map.get(key) ?? { month, currency, total: 0 };
+      bucket.total += Number.isFinite(amount) ? amount : 0;
+      map.set(key, bucket);
     }
 
-    const items = Array.from(map.entries())
-      .sort((a, b) => a[0].localeCompare(b[0]))
-      .slice(-12) // 12 derniers mois
-      .map(([month, total]) => ({ month, total }));
+    // 12 derniers mois (toutes devises)
+    const months = Array.from(new Set(Array.from(map.values()).map((b) => b.month)))
+      .sort()
+      .slice(-12);
+
+    const items = Array.from(map.values())
+      .filter((b) => months.includes(b.month))
+      .sort((a, b) => a.month.localeCompare(b.month) || a.currency.localeCompare(b.currency));
 
-    return NextResponse.json({ ok: true, currency: currency.toUpperCase(), items }, { status: 200 });
+    return NextResponse.json({ ok: true, items }, { status: 200 });
   } catch (e: unknown) {
     return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
   }
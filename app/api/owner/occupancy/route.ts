@@ -0,0 +1,119 @@
+// app/api/owner/occupancy/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { bookingStatusOf, paymentStatusOf } from "@/app/lib/bookingLifecycle";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function env(name: string) {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`ENV manquante: ${name}`);
+  return v;
+}
+
+function getBearerToken(req: Request) {
+  const auth = req.headers.get("authorization") || "";
+  if (!auth.startsWith("Bearer ")) return null;
+  return auth.slice(7);
+}
+
+type ParkingRow = { id: string; title: string | null; capacity: number | null };
+
+type OccupancyBookingRow = {
+  id: string;
+  parking_id: string;
+  status: string | null;
+  payment_status: string | null;
+  start_time: string;
+  end_time: string;
+  spot_number: number | null;
+  checked_in_at: string | null;
+  lease_id: string | null;
+};
+
+/**
+ * GET /api/owner/occupancy
+ * Occupation en direct de chaque place du owner:
+ * - réservations en cours (check-in fait ou passage automatique in_progress)
+ * - + réservations confirmées dont le créneau a commencé (arrivée attendue, location au mois)
+ */
+export async function GET(req: Request) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const anonKey = env("NEXT_PUBLIC_SUPABASE_ANON_KEY");
+    const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
+
+    const token = getBearerToken(req);
+    if (!token) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const supabaseAuth = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { data: u, error: uErr } = await supabaseAuth.auth.getUser();
+    if (uErr || !u.user) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const admin = createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } });
+
+    const { data: pData, error: pErr } = await admin
+      .from("parkings")
+      .select("id,title,capacity")
+      .eq("owner_id", u.user.id);
+
+    if (pErr) return NextResponse.json({ ok: false, error: "DB error", detail: pErr.message }, { status: 500 });
+
+    const parkings = (pData ?? []) as ParkingRow[];
+    if (parkings.length === 0) return NextResponse.json({ ok: true, items: [] }, { status: 200 });
+
+    const nowIso = new Date().toISOString();
+
+    const { data: bData, error: bErr } = await admin
+      .from("bookings")
+      .select("id,parking_id,status,payment_status,start_time,end_time,spot_number,checked_in_at,lease_id")
+      .in(
+        "parking_id",
+        parkings.map((p) => p.id)
+      )
+      .in("status", ["confirmed", "in_progress"])
+      .lte("start_time", nowIso)
+      .gt("end_time", nowIso)
+      .order("end_time", { ascending: true });
+
+    if (bErr) return NextResponse.json({ ok: false, error: "DB error", detail: bErr.message }, { status: 500 });
+
+    const byParking = new Map<string, OccupancyBookingRow[]>();
+    for (const b of (bData ?? []) as OccupancyBookingRow[]) {
+      const st = bookingStatusOf(b.status);
+      // confirmée non payée (ancienne ligne): pas d'occupation
+      if (st === "confirmed" && paymentStatusOf(b.payment_status) !== "paid") continue;
+      const list = byParking.get(b.parking_id) ?? [];
+      list.push(b);
+      byParking.set(b.parking_id, list);
+    }
+
+    const items = parkings.map((p) => {
+      const current = byParking.get(p.id) ?? [];
+      return {
+        parkingId: p.id,
+        title: p.title,
+        capacity: Math.max(1, Math.floor(Number(p.capacity ?? 1)) || 1),
+        occupied: current.length,
+        bookings: current.map((b) => ({
+          id: b.id,
+          spotNumber: b.spot_number ?? 1,
+          status: bookingStatusOf(b.status),
+          checkedIn: bookingStatusOf(b.status) === "in_progress",
+          checkedInAt: b.checked_in_at,
+          endTime: b.end_time,
+          isLease: !!b.lease_id,
+        })),
+      };
+    });
+
+    return NextResponse.json({ ok: true, items }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,118 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function env(name: string) {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`ENV manquante: ${name}`);
+  return v;
+}
+
+function getBearerToken(req: Request) {
+  const auth = req.headers.get("authorization") || "";
+  if (!auth.startsWith("Bearer ")) return null;
+  return auth.slice(7);
+}
+
+// historique affiché (/owner/payouts/history)
+const PAYOUTS_LIMIT = 50;
+
+type PayoutRow = {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  arrival_date: string | null;
+  failure_message: string | null;
+  booking_count: number;
+  created_at: string;
+};
+
+type PaidBookingRow = {
+  id: string;
+  start_time: string;
+  end_time: string;
+  total_price: number | null;
+  currency: string | null;
+  stripe_payout_id: string;
+  parkings: { title: string | null } | Array<{ title: string | null }> | null;
+};
+
+export async function GET(req: Request) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const anonKey = env("NEXT_PUBLIC_SUPABASE_ANON_KEY");
+    const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
+
+    const token = getBearerToken(req);
+    if (!token) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const supabaseAuth = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { data: u, error: uErr } = await supabaseAuth.auth.getUser();
+    if (uErr || !u.user) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+    const ownerId = u.user.id;
+    const admin = createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } });
+
+    // ✅ payouts Connect (webhook payout.paid / payout.failed: app/lib/payouts.ts)
+    const { data, error } = await admin
+      .from("owner_payouts")
+      .select("id,amount,currency,status,arrival_date,failure_message,booking_count,created_at")
+      .eq("owner_id", ownerId)
+      .order("created_at", { ascending: false })
+      .limit(PAYOUTS_LIMIT);
+
+    if (error) return NextResponse.json({ ok: false, error: "DB error", detail: error.message }, { status: 500 });
+
+    const payouts = (data ?? []) as PayoutRow[];
+    const payoutIds = payouts.map((p) => p.id);
+
+    // réservations réglées par chaque payout (bookings.stripe_payout_id)
+    const byPayout = new Map<string, Array<Record<string, unknown>>>();
+    if (payoutIds.length > 0) {
+      const { data: bData, error: bErr } = await admin
+        .from("bookings")
+        .select("id,start_time,end_time,total_price,currency,stripe_payout_id,parkings:parking_id(title)")
+        .in("stripe_payout_id", payoutIds)
+        .order("start_time", { ascending: true });
+
+      if (bErr) return NextResponse.json({ ok: false, error: "DB error", detail: bErr.message }, { status: 500 });
+
+      for (const b of (bData ?? []) as unknown as PaidBookingRow[]) {
+        const p = Array.isArray(b.parkings) ? b.parkings[0] : b.parkings;
+        const list = byPayout.get(b.stripe_payout_id) ?? [];
+        list.push({
+          id: b.id,
+          parkingTitle: p?.title ?? null,
+          startTime: b.start_time,
+          endTime: b.end_time,
+          totalPrice: b.total_price,
+          currency: (b.currency ?? "CHF").toUpperCase(),
+        });
+        byPayout.set(b.stripe_payout_id, list);
+      }
+    }
+
+    const items = payouts.map((p) => ({
+      id: p.id,
+      amount: Number(p.amount ?? 0) || 0,
+      currency: (p.currency ?? "CHF").toUpperCase(),
+      status: p.status,
+      arrivalDate: p.arrival_date,
+      failureMessage: p.failure_message,
+      bookingCount: p.booking_count,
+      createdAt: p.created_at,
+      bookings: byPayout.get(p.id) ?? [],
+    }));
+
+    return NextResponse.json({ ok: true, items }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
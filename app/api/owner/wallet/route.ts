@@ -21,6 +21,15 @@ function moneySafe(n: unknown) {
   return Number.isFinite(x) ? x : 0;
 }
 
+type Balance = {
+  currency: string;
+  pending: number;
+  available: number;
+  paidOut: number;
+  penaltiesPending: number;
+  penaltiesApplied: number;
+};
+
 export async function GET(req: Request) {
   try {
     const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
@@ -42,62 +51,70 @@ export async function GET(req: Request) {
     const ownerId = u.user.id;
     const admin = createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } });
 
-    // On récupère les bookings payés de toutes les places du owner
+    // ✅ soldes = sommes du grand livre (app/lib/ledger.ts)
+    // - pending   : owner_pending (réservations payées pas encore terminées)
+    // - available : owner_available (terminées, part conservée sur annulation, pénalités reprises déduites)
+    // - paidOut   : owner_bank (versé sur le compte bancaire)
     const { data, error } = await admin
-      .from("bookings")
-      .select(
-        `
-        id,
-        total_price,
-        currency,
-        status,
-        payment_status,
-        end_time,
-        owner_paid_out,
-        parkings:parking_id!inner ( owner_id )
-      `
-      )
-      .eq("parkings.owner_id", ownerId);
+      .from("ledger_entries")
+      .select("account,kind,amount,currency")
+      .eq("party_id", ownerId)
+      .in("account", ["owner_pending", "owner_available", "owner_bank"]);
 
     if (error) return NextResponse.json({ ok: false, error: "DB error", detail: error.message }, { status: 500 });
 
-    const now = Date.now();
+    // ⚠️ un solde par devise (places en CHF et en EUR: jamais additionnées)
+    const balances = new Map<string, Balance>();
+    const balanceOf = (currency: unknown) => {
+      const key = String(currency ?? "CHF").toUpperCase();
+      let b = balances.get(key);
+      if (!b) {
+        b = { currency: key, pending: 0, available: 0, paidOut: 0, penaltiesPending: 0, penaltiesApplied: 0 };
+        balances.set(key, b);
+      }
+      return b;
+    };
 
-    let pending = 0;
-    let available = 0;
-    let paidOut = 0;
-    let currency = "CHF";
+    for (const e of data ?? []) {
+      const amount = moneySafe(e.amount);
+      const b = balanceOf(e.currency);
 
-    for (const b of data ?? []) {
-      const s = String(b.status ?? "").toLowerCase();
-      const pay = String(b.payment_status ?? "").toLowerCase();
-      const isCancelled = s === "cancelled";
-      const isPaid = pay === "paid" || pay === "refunded" || pay === "refunding"; // payé initialement
-      if (!isPaid || isCancelled) continue;
+      if (e.account === "owner_pending") b.pending += amount;
+      else if (e.account === "owner_available") b.available += amount;
+      else b.paidOut += amount;
 
-      currency = (b.currency ?? currency) as string;
+      if (e.kind === "penalty") b.penaltiesApplied -= amount;
+    }
 
-      const amount = moneySafe(b.total_price);
-      const endMs = new Date(b.end_time as string).getTime();
-      const isPast = Number.isFinite(endMs) ? endMs <= now : false;
+    // pénalités d'annulation propriétaire pas encore reprises (reversal à venir): retenues sur le disponible
+    const { data: pData, error: pErr } = await admin
+      .from("owner_cancellations")
+      .select("penalty_amount,penalty_applied_amount,currency")
+      .eq("owner_id", ownerId)
+      .eq("penalty_status", "pending");
 
-      if (b.owner_paid_out) {
-        paidOut += amount;
-      } else if (isPast) {
-        available += amount;
-      } else {
-        pending += amount;
-      }
+    if (pErr) return NextResponse.json({ ok: false, error: "DB error", detail: pErr.message }, { status: 500 });
+
+    for (const p of pData ?? []) {
+      balanceOf(p.currency).penaltiesPending += Math.max(
+        0,
+        moneySafe(p.penalty_amount) - moneySafe(p.penalty_applied_amount)
+      );
     }
 
     return NextResponse.json(
       {
         ok: true,
-        currency: (currency ?? "CHF").toUpperCase(),
-        pending,
-        available,
-        paidOut,
-        total: pending + available + paidOut,
+        balances: Array.from(balances.values())
+          .sort((a, b) => a.currency.localeCompare(b.currency))
+          .map((b) => ({
+            currency: b.currency,
+            pending: b.pending,
+            available: Math.max(0, b.available - b.penaltiesPending),
+            paidOut: b.paidOut,
+            penalties: { pending: b.penaltiesPending, applied: b.penaltiesApplied },
+            total: b.pending + b.available + b.paidOut - b.penaltiesPending,
+          })),
       },
       { status: 200 }
     );
@@ -0,0 +1,81 @@
+// app/api/parkings/[id]/free-windows/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { computeFreeWindows, isPlanningEnabled, loadAvailabilityData } from "@/app/lib/availability";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// au-delà, la réponse devient trop lourde pour une timeline
+const MAX_RANGE_DAYS = 31;
+
+function env(name: string) {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`ENV manquante: ${name}`);
+  return v;
+}
+
+/**
+ * GET /api/parkings/:id/free-windows?from=...&to=...
+ * Toutes les fenêtres réservables (planning − blackouts − réservations) sur la période.
+ */
+export async function GET(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
+
+    const { id } = await ctx.params;
+    const parkingId = String(id ?? "").trim();
+
+    const { searchParams } = new URL(req.url);
+    const fromRaw = searchParams.get("from") ?? "";
+    const toRaw = searchParams.get("to") ?? "";
+
+    if (!parkingId || !fromRaw || !toRaw) {
+      return NextResponse.json(
+        { ok: false, error: "Missing query params", expected: ["from", "to"] },
+        { status: 400 }
+      );
+    }
+
+    const from = new Date(fromRaw);
+    const to = new Date(toRaw);
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      return NextResponse.json({ ok: false, error: "Invalid date format" }, { status: 400 });
+    }
+    if (to <= from) {
+      return NextResponse.json({ ok: false, error: "to must be after from" }, { status: 400 });
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { ok: false, error: `Période trop longue (max ${MAX_RANGE_DAYS} jours)` },
+        { status: 400 }
+      );
+    }
+
+    const admin = createClient(supabaseUrl, serviceKey, {
+      auth: { persistSession: false },
+    });
+
+    const fromISO = from.toISOString();
+    const toISO = to.toISOString();
+
+    const data = await loadAvailabilityData(admin, parkingId, fromISO, toISO);
+    if (!data.parking) {
+      return NextResponse.json({ ok: false, error: "Parking introuvable" }, { status: 404 });
+    }
+
+    const windows = computeFreeWindows(data, fromISO, toISO, { planningEnabled: isPlanningEnabled() });
+
+    return NextResponse.json(
+      { ok: true, parkingId, from: fromISO, to: toISO, windows },
+      { status: 200, headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
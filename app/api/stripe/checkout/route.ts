@@ -1,6 +1,22 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
-import { createBookingCheckoutSession} from "@/app/lib/stripe";
+import { createBookingCheckoutSession, stripe } from "@/app/lib/stripe";
+import { computeQuote, sameAmount } from "@/app/lib/pricing";
+import { isLapsedHold } from "@/app/lib/availability";
+import {
+  bookingHoldDeadlineMs,
+  checkoutExpiresAt,
+  checkoutExpiresAtWithin,
+  holdFromSession,
+  releaseExpiredHolds,
+} from "@/app/lib/holds";
+import {
+  bookingStatusOf,
+  checkTransition,
+  paymentStatusOf,
+  transitionBooking,
+  type TransitionTarget,
+} from "@/app/lib/bookingLifecycle";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -66,10 +82,18 @@ export async function POST(req: Request) {
         user_id,
         status,
         payment_status,
+        start_time,
+        end_time,
         total_price,
         currency,
         parking_id,
-        parkings:parking_id ( id, title, owner_id )
+        lease_id,
+        series_id,
+        stripe_session_id,
+        created_at,
+        request_expires_at,
+        hold_expires_at,
+        parkings:parking_id ( id, title, owner_id, price_hour, price_day )
       `
       )
       .eq("id", bookingId)
@@ -88,8 +112,8 @@ export async function POST(req: Request) {
     }
 
     // Empêcher checkout si déjà payé / déjà remboursé / annulé
-    const pay = (booking.payment_status ?? "").toLowerCase();
-    const st = (booking.status ?? "").toLowerCase();
+    const pay = paymentStatusOf(booking.payment_status);
+    const st = bookingStatusOf(booking.status);
 
     if (pay === "paid" || pay === "refunded") {
       return NextResponse.json({ ok: false, error: "Booking déjà payé" }, { status: 409 });
@@ -97,12 +121,61 @@ export async function POST(req: Request) {
     if (st === "cancelled") {
       return NextResponse.json({ ok: false, error: "Booking annulé" }, { status: 409 });
     }
+    if (pay === "authorized") {
+      return NextResponse.json({ ok: false, error: "Paiement déjà autorisé (demande en attente)" }, { status: 409 });
+    }
+    if (st === "declined") {
+      return NextResponse.json({ ok: false, error: "Demande close", detail: `status=${st}` }, { status: 409 });
+    }
+
+    // ✅ Hold dépassé: le créneau a pu être repris => nouvelle réservation nécessaire
+    if (st === "expired" || isLapsedHold(booking)) {
+      if (st !== "expired") await releaseExpiredHolds(admin, { parkingId: booking.parking_id });
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "Réservation expirée",
+          detail: "Le délai de paiement est dépassé, recommence la réservation.",
+          code: "HOLD_EXPIRED",
+        },
+        { status: 409 }
+      );
+    }
+    if (booking.lease_id) {
+      return NextResponse.json({ ok: false, error: "Location au mois (abonnement)" }, { status: 409 });
+    }
 
     const parking = Array.isArray(booking.parkings) ? booking.parkings[0] : booking.parkings;
     if (!parking?.owner_id) {
       return NextResponse.json({ ok: false, error: "Parking owner introuvable" }, { status: 500 });
     }
 
+    // ✅ Recalcul du prix: le total stocké doit correspondre au devis serveur
+    const quote = computeQuote({
+      startTime: booking.start_time,
+      endTime: booking.end_time,
+      priceHour: parking.price_hour,
+      priceDay: parking.price_day,
+      currency: booking.currency ?? "CHF",
+    });
+
+    if (!quote) {
+      return NextResponse.json({ ok: false, error: "Tarif invalide pour cette place" }, { status: 422 });
+    }
+
+    if (!sameAmount(booking.total_price, quote.total)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "Prix modifié",
+          detail: `Le montant de la réservation ne correspond plus au tarif (${quote.total} ${quote.currency}).`,
+          code: "PRICE_MISMATCH",
+          quote,
+        },
+        { status: 409 }
+      );
+    }
+
     // 4) Récupérer le compte Stripe Connect du propriétaire
     const { data: ownerProfile, error: pErr } = await admin
       .from("profiles")
@@ -136,28 +209,100 @@ export async function POST(req: Request) {
       );
     }
 
+    // ✅ Réservation sur demande: autorisation seulement, capture à l'acceptation du propriétaire
+    const isRequest = st === "requested";
+    if (isRequest && booking.request_expires_at && Date.parse(booking.request_expires_at) <= Date.now()) {
+      return NextResponse.json({ ok: false, error: "Demande expirée" }, { status: 409 });
+    }
+
+    // une demande reste "requested" (hold pendant le Checkout, puis échéance de réponse du propriétaire)
+    const next: TransitionTarget = { status: isRequest ? "requested" : "pending_payment", payment_status: "unpaid" };
+    const allowed = checkTransition(booking, next, "checkout");
+    if (!allowed.ok) {
+      return NextResponse.json(
+        { ok: false, error: "Paiement impossible", detail: allowed.detail, code: allowed.code },
+        { status: 409 }
+      );
+    }
+
+    // ✅ Checkout déjà ouvert: on renvoie le même lien (le hold n'est pas prolongé)
+    if (booking.stripe_session_id) {
+      const open = await stripe.checkout.sessions.retrieve(booking.stripe_session_id).catch(() => null);
+      if (open?.status === "open" && open.url && open.expires_at * 1000 > Date.now()) {
+        return NextResponse.json({ ok: true, url: open.url, reused: true }, { status: 200 });
+      }
+    }
+
+    // hold: la session expire à l'échéance fixe de la réservation (created_at + CHECKOUT_HOLD_MAX_MINUTES),
+    // occurrence de série: session standard, tant qu'elle finit avant l'échéance de paiement de l'occurrence
+    const occurrence = !!booking.series_id;
+    let expiresAt: number | null = null;
+    if (booking.hold_expires_at) {
+      const deadlineMs = bookingHoldDeadlineMs(booking);
+      expiresAt = checkoutExpiresAtWithin(occurrence ? Math.min(deadlineMs, checkoutExpiresAt() * 1000) : deadlineMs);
+      if (expiresAt === null) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: "Réservation expirée",
+            detail: "Le délai de paiement est bientôt dépassé, recommence la réservation.",
+            code: "HOLD_EXPIRED",
+          },
+          { status: 409 }
+        );
+      }
+    }
+
     // 5) Créer session Stripe Checkout via ton helper (15% automatique)
     //    -> on ne passe PAS platformFeeAmount => 15% par défaut
     const session = await createBookingCheckoutSession({
       bookingId: booking.id,
       parkingTitle: parking.title ?? "Réservation parking",
-      amountTotal: typeof booking.total_price === "number" ? booking.total_price : 0,
-      currency: booking.currency ?? "CHF",
+      amountTotal: quote.total,
+      currency: quote.currency,
       connectedAccountId,
-      successPath: `/payment/success?bookingId=${encodeURIComponent(booking.id)}&session_id={CHECKOUT_SESSION_ID}`,
+      successPath: isRequest
+        ? "/my-bookings?requested=1"
+        : `/payment/success?bookingId=${encodeURIComponent(booking.id)}&session_id={CHECKOUT_SESSION_ID}`,
       cancelPath: `/payment/cancel?bookingId=${encodeURIComponent(booking.id)}`,
       customerEmail: u.user.email ?? null,
+      ...(isRequest ? { captureMethod: "manual" as const, metadata: { approval: "request" } } : {}),
+      // réservation tenue par un hold: la session expire avec lui (checkout.session.expired => libération)
+      ...(expiresAt ? { expiresAt } : {}),
     });
 
     // 6) Sauvegarder la session ID (utile pour debug + retrieve)
-    await admin
-      .from("bookings")
-      .update({
+    const saved = await transitionBooking(admin, booking, next, {
+      source: "checkout",
+      patch: {
         stripe_session_id: session.id,
-        status: "pending_payment",
-        payment_status: "unpaid",
-      })
-      .eq("id", booking.id);
+        // l'échéance d'une occurrence ne suit pas la session (un Checkout abandonné ne l'avance pas)
+        ...(expiresAt && !occurrence ? { hold_expires_at: holdFromSession(session) } : {}),
+      },
+    });
+
+    // réservation modifiée pendant la création de la session (annulée, payée...): la session ne doit pas servir
+    if (!saved.ok) {
+      try {
+        await stripe.checkout.sessions.expire(session.id);
+      } catch {
+        // déjà expirée
+      }
+      return NextResponse.json(
+        { ok: false, error: "Réservation modifiée entre-temps", detail: saved.detail, code: saved.code },
+        { status: 409 }
+      );
+    }
+
+    // un seul Checkout ouvert par réservation (évite un double paiement via l'ancien lien).
+    // Après la mise à jour: son checkout.session.expired ne correspond plus à la réservation.
+    if (booking.stripe_session_id && booking.stripe_session_id !== session.id) {
+      try {
+        await stripe.checkout.sessions.expire(booking.stripe_session_id);
+      } catch {
+        // déjà expirée / complétée
+      }
+    }
 
     return NextResponse.json({ ok: true, url: session.url }, { status: 200 });
   } catch (e: unknown) {
@@ -0,0 +1,78 @@
+// app/api/stripe/events/replay/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { replayStripeEvents } from "@/app/lib/stripeEvents";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function env(name: string) {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`ENV manquante: ${name}`);
+  return v;
+}
+
+function getBearerToken(req: Request) {
+  const auth = req.headers.get("authorization") || "";
+  if (!auth.startsWith("Bearer ")) return null;
+  return auth.slice(7);
+}
+
+type Body = { eventIds?: unknown };
+
+/**
+ * POST /api/stripe/events/replay?dryRun=1
+ * Rejoue des événements Stripe depuis stripe_events (payload enregistré à la réception).
+ * - body { eventIds: ["evt_..."] } => ces événements, même déjà traités (handlers idempotents)
+ * - body vide => tous les événements "failed" encore rejouables (même sélection que le job replay-stripe-events)
+ * Sécurisé par Authorization: Bearer CRON_SECRET.
+ */
+export async function POST(req: Request) {
+  try {
+    const secret = env("CRON_SECRET");
+    if (getBearerToken(req) !== secret) {
+      return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+
+    let eventIds: string[] | undefined;
+    if (body.eventIds !== undefined) {
+      if (
+        !Array.isArray(body.eventIds) ||
+        body.eventIds.length > 100 ||
+        !body.eventIds.every((id) => typeof id === "string" && id.startsWith("evt_"))
+      ) {
+        return NextResponse.json(
+          { ok: false, error: "eventIds invalide", detail: "Liste d'ids evt_... (max 100)" },
+          { status: 400 }
+        );
+      }
+      eventIds = body.eventIds as string[];
+    }
+
+    const dryRun = new URL(req.url).searchParams.get("dryRun") === "1";
+
+    const supabaseUrl = env("NEXT_PUBLIC_SUPABASE_URL");
+    const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
+    const supabaseAdmin = createClient(supabaseUrl, serviceKey, {
+      auth: { persistSession: false },
+    });
+
+    const runs = await replayStripeEvents(supabaseAdmin, { eventIds, dryRun });
+
+    const found = new Set(runs.map((r) => r.eventId));
+    const missing = (eventIds ?? []).filter((id) => !found.has(id));
+    if (eventIds && runs.length === 0) {
+      return NextResponse.json({ ok: false, error: "Événement introuvable", detail: missing.join(", ") }, { status: 404 });
+    }
+
+    const ok = runs.every((r) => r.status !== "failed");
+    return NextResponse.json({ ok, dryRun, runs, missing }, { status: ok ? 200 : 500 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
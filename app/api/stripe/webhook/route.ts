@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import Stripe from "stripe";
 import { createClient } from "@supabase/supabase-js";
+import { processStripeEvent, recordStripeEvent } from "@/app/lib/stripeEvents";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -93,152 +94,28 @@ export async function POST(req: Request) {
       auth: { persistSession: false },
     });
 
-    // -----------------------------
-    // (A) Plateforme: Paiement réussi
-    // -----------------------------
-    if (event.type === "checkout.session.completed") {
-      const session = event.data.object as Stripe.Checkout.Session;
-
-      const bookingId =
-        (session.metadata?.bookingId as string | undefined) ??
-        (typeof session.client_reference_id === "string" ? session.client_reference_id : undefined);
-
-      if (!bookingId) {
-        return NextResponse.json(
-          { ok: true, warning: "Missing bookingId in metadata/client_reference_id", source },
-          { status: 200 }
-        );
-      }
-
-      const paymentIntentId =
-        typeof session.payment_intent === "string"
-          ? session.payment_intent
-          : session.payment_intent?.id ?? null;
-
-      const { error } = await supabaseAdmin
-        .from("bookings")
-        .update({
-          payment_status: "paid",
-          status: "confirmed",
-          stripe_session_id: session.id,
-          stripe_payment_intent_id: paymentIntentId,
-        })
-        .eq("id", bookingId);
-
-      if (error) {
-        // ⚠️ 200 pour éviter les retries Stripe et les doubles updates
-        return NextResponse.json({ ok: true, db_error: error.message, source }, { status: 200 });
-      }
-
-      return NextResponse.json({ ok: true, source }, { status: 200 });
-    }
-
-    // -----------------------------
-    // (B) Plateforme: Checkout expiré
-    // -----------------------------
-    if (event.type === "checkout.session.expired") {
-      const session = event.data.object as Stripe.Checkout.Session;
-
-      const bookingId =
-        (session.metadata?.bookingId as string | undefined) ??
-        (typeof session.client_reference_id === "string" ? session.client_reference_id : undefined);
-
-      if (bookingId) {
-        await supabaseAdmin
-          .from("bookings")
-          .update({
-            status: "expired",
-            payment_status: "unpaid",
-            stripe_session_id: session.id,
-          })
-          .eq("id", bookingId);
-      }
-
-      return NextResponse.json({ ok: true, source }, { status: 200 });
-    }
-
-    // -----------------------------
-    // (C) Connect: suivi onboarding owner
-    // -----------------------------
-    if (event.type === "account.updated") {
-      const account = event.data.object as Stripe.Account;
-
-      const stripeAccountId = account.id;
-      const chargesEnabled = !!account.charges_enabled;
-      const payoutsEnabled = !!account.payouts_enabled;
-      const detailsSubmitted = !!account.details_submitted;
-
-      // ✅ règle simple
-      const onboardingComplete = detailsSubmitted && payoutsEnabled;
-
-      await supabaseAdmin
-        .from("profiles")
-        .update({
-          stripe_charges_enabled: chargesEnabled,
-          stripe_payouts_enabled: payoutsEnabled,
-          stripe_details_submitted: detailsSubmitted,
-          stripe_onboarding_complete: onboardingComplete,
-          stripe_updated_at: new Date().toISOString(),
-        })
-        .eq("stripe_account_id", stripeAccountId);
-
-      return NextResponse.json({ ok: true, source }, { status: 200 });
-    }
+    // ✅ journal d'abord (stripe_events): traitement idempotent, relivraisons ignorées
+    // (handlers métier: app/lib/stripeWebhook.ts)
+    await recordStripeEvent(supabaseAdmin, event, source);
+    const run = await processStripeEvent(supabaseAdmin, event);
 
-    // -----------------------------
-    // (D) Refund: mise à jour refund_status
-    // -----------------------------
-    if (event.type === "refund.updated") {
-      const refund = event.data.object as Stripe.Refund;
-
-      const pi =
-        typeof refund.payment_intent === "string"
-          ? refund.payment_intent
-          : refund.payment_intent?.id ?? null;
-
-      if (pi) {
-        const status = refund.status; // pending | succeeded | failed | ...
-        const refundStatus =
-          status === "succeeded" ? "refunded" : status === "failed" ? "failed" : "processing";
-
-        await supabaseAdmin
-          .from("bookings")
-          .update({
-            refund_status: refundStatus,
-            refund_id: refund.id,
-            payment_status: status === "succeeded" ? "refunded" : "refunding",
-            refunded_at: status === "succeeded" ? new Date().toISOString() : null,
-          })
-          .eq("stripe_payment_intent_id", pi);
-      }
-
-      return NextResponse.json({ ok: true, source }, { status: 200 });
+    if (run.status === "failed") {
+      // 500 => Stripe relivre (sinon rejeu via /api/stripe/events/replay)
+      return NextResponse.json(
+        { ok: false, eventId: event.id, error: run.error, attempts: run.attempts, source },
+        { status: 500 }
+      );
     }
 
-    if (event.type === "charge.refunded") {
-      const charge = event.data.object as Stripe.Charge;
-
-      const pi =
-        typeof charge.payment_intent === "string"
-          ? charge.payment_intent
-          : charge.payment_intent?.id ?? null;
-
-      if (pi) {
-        await supabaseAdmin
-          .from("bookings")
-          .update({
-            refund_status: "refunded",
-            payment_status: "refunded",
-            refunded_at: new Date().toISOString(),
-          })
-          .eq("stripe_payment_intent_id", pi);
-      }
-
-      return NextResponse.json({ ok: true, source }, { status: 200 });
+    if (run.duplicate && run.status === "processing") {
+      // traitement en cours sur une autre livraison: Stripe relivrera plus tard
+      return NextResponse.json({ ok: false, eventId: event.id, error: "Event in progress", source }, { status: 409 });
     }
 
-    // Default ignore
-    return NextResponse.json({ ok: true, ignored: event.type, source }, { status: 200 });
+    return NextResponse.json(
+      { ok: true, eventId: event.id, status: run.status, duplicate: run.duplicate, ...run.detail, source },
+      { status: 200 }
+    );
   } catch (e: unknown) {
     return NextResponse.json(
       { ok: false, error: e instanceof Error ? e.message : "Server error" },
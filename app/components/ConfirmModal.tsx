@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect } from "react";
+import { useEffect, type ReactNode } from "react";
 
 type SummaryTone = "success" | "warning" | "danger" | "info";
 
@@ -48,6 +48,7 @@ export default function ConfirmModal({
   loading = false,
   onConfirm,
   onClose,
+  children,
 }: {
   open: boolean;
   title: string;
@@ -66,6 +67,9 @@ export default function ConfirmModal({
   loading?: boolean;
   onConfirm: () => void;
   onClose: () => void;
+
+  // champs additionnels (ex: motif d'annulation), sous les détails
+  children?: ReactNode;
 }) {
   useEffect(() => {
     if (!open) return;
@@ -135,6 +139,8 @@ export default function ConfirmModal({
                 </p>
               ))}
             </div>
+
+            {children}
           </div>
 
           <div className="p-5 border-t flex items-center justify-end gap-2">
@@ -0,0 +1,87 @@
+"use client";
+
+import { UI } from "@/app/components/ui";
+import { paymentStatusOf } from "@/app/lib/bookingLifecycle";
+import {
+  OWNER_CANCEL_REASONS,
+  OWNER_CANCEL_REASON_LABELS,
+  ownerPenaltyQuote,
+  type OwnerCancelReason,
+} from "@/app/lib/ownerPenalties";
+
+function money(amount: number, currency: string | null) {
+  return `${amount.toFixed(2)} ${(currency ?? "CHF").toUpperCase()}`;
+}
+
+/**
+ * Motif d'annulation propriétaire (dans ConfirmModal), envoyé à /api/owner/bookings/cancel
+ * + pénalité estimée (même barème que la route), calculée à l'ouverture de la modale (nowMs)
+ */
+export default function OwnerCancelReasonFields({
+  booking,
+  nowMs,
+  reason,
+  note,
+  onReasonChange,
+  onNoteChange,
+  disabled = false,
+}: {
+  booking: { start_time: string; total_price: number | null; currency: string | null; payment_status: string | null };
+  nowMs: number;
+  reason: OwnerCancelReason;
+  note: string;
+  onReasonChange: (r: OwnerCancelReason) => void;
+  onNoteChange: (n: string) => void;
+  disabled?: boolean;
+}) {
+  const penalty = ownerPenaltyQuote({
+    startIso: booking.start_time,
+    totalPrice: booking.total_price,
+    reason,
+    paid: paymentStatusOf(booking.payment_status) === "paid",
+    nowMs,
+  });
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-slate-900">
+        Motif
+        <select
+          className={[UI.select, "mt-1"].join(" ")}
+          value={reason}
+          disabled={disabled}
+          onChange={(e) => onReasonChange(e.target.value as OwnerCancelReason)}
+        >
+          {OWNER_CANCEL_REASONS.map((r) => (
+            <option key={r} value={r}>
+              {OWNER_CANCEL_REASON_LABELS[r]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block text-sm font-medium text-slate-900">
+        Précisions (optionnel)
+        <textarea
+          className={[UI.input, "mt-1"].join(" ")}
+          rows={2}
+          maxLength={500}
+          value={note}
+          disabled={disabled}
+          onChange={(e) => onNoteChange(e.target.value)}
+        />
+      </label>
+
+      {penalty.amountCents > 0 ? (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+          Pénalité d’annulation : <b>{money(penalty.amount, booking.currency)}</b> ({penalty.percent} %), déduite de
+          tes prochains versements. L’annulation compte dans ton score de fiabilité affiché sur tes annonces.
+        </div>
+      ) : !penalty.exempt ? (
+        <p className={UI.subtle}>
+          Pas de pénalité (préavis suffisant), mais l’annulation compte dans ton score de fiabilité.
+        </p>
+      ) : null}
+    </div>
+  );
+}
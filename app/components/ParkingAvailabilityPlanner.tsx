@@ -5,13 +5,17 @@ import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/app/providers/AuthProvider";
 import { UI } from "@/app/components/ui";
+import {
+  validateOverride,
+  validateWeeklySlots,
+  type AvailabilityOverride,
+  type WeeklySlot,
+} from "@/app/lib/availability";
 
-type Slot = {
-  weekday: number; // 1..7
-  start_time: string; // "HH:MM" (UI) - API peut renvoyer "HH:MM:SS"
-  end_time: string; // "HH:MM"
-  enabled: boolean;
-};
+// "HH:MM" côté UI - l'API peut renvoyer "HH:MM:SS"
+type Slot = WeeklySlot;
+
+type OverrideRow = AvailabilityOverride & { id: string; note: string | null };
 
 const DAYS: Array<{ weekday: number; label: string; short: string }> = [
   { weekday: 1, label: "Lundi", short: "Lun" },
@@ -37,22 +41,6 @@ function toHHMM(t: string) {
   return "08:00";
 }
 
-// ✅ accepte HH:MM ou HH:MM:SS
-function isTime(v: string) {
-  const s = String(v ?? "").trim();
-  return /^\d{2}:\d{2}$/.test(s) || /^\d{2}:\d{2}:\d{2}$/.test(s);
-}
-
-// ✅ compare en minutes (tolère HH:MM:SS)
-function minutesOf(t: string) {
-  const s = String(t ?? "").trim();
-  const [hh, mm] = s.split(":");
-  const h = Number(hh ?? "0");
-  const m = Number(mm ?? "0");
-  if (!Number.isFinite(h) || !Number.isFinite(m)) return NaN;
-  return h * 60 + m;
-}
-
 function defaultSlots(): Slot[] {
   return DAYS.map((d) => ({
     weekday: d.weekday,
@@ -89,29 +77,52 @@ function presetAllDay(): Slot[] {
   }));
 }
 
+// YYYY-MM-DD (jour local navigateur) pour <input type="date">
+function todayYmd() {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function formatOverrideDate(ymd: string) {
+  const [y, m, d] = ymd.split("-").map(Number);
+  // midi UTC: pas de décalage de jour quel que soit le fuseau du navigateur
+  return new Date(Date.UTC(y, m - 1, d, 12)).toLocaleDateString("fr-CH", {
+    timeZone: "UTC",
+    weekday: "long",
+    day: "2-digit",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+// ✅ plusieurs plages par jour: on garde toutes les lignes, triées par jour puis heure
 function normalizeSlotsFromApi(apiSlots: Slot[]): Slot[] {
-  const map = new Map<number, Slot>();
-
-  for (const s of apiSlots ?? []) {
-    map.set(s.weekday, {
-      weekday: s.weekday,
-      // ✅ normalisation au chargement
-      start_time: toHHMM(s.start_time),
-      end_time: toHHMM(s.end_time),
-      enabled: Boolean(s.enabled),
-    });
-  }
+  const rows = (apiSlots ?? []).map((s) => ({
+    weekday: s.weekday,
+    // ✅ normalisation au chargement
+    start_time: toHHMM(s.start_time),
+    end_time: toHHMM(s.end_time),
+    enabled: Boolean(s.enabled),
+  }));
 
-  if (map.size === 0) return defaultSlots();
+  if (rows.length === 0) return defaultSlots();
 
-  return DAYS.map((d) => {
-    const found = map.get(d.weekday);
-    return found
+  return DAYS.flatMap((d) => {
+    const found = rows
+      .filter((s) => s.weekday === d.weekday)
+      .sort((a, b) => a.start_time.localeCompare(b.start_time));
+    return found.length > 0
       ? found
-      : { weekday: d.weekday, start_time: "08:00", end_time: "18:00", enabled: false };
+      : [{ weekday: d.weekday, start_time: "08:00", end_time: "18:00", enabled: false }];
   });
 }
 
+function minutesOfHHMM(t: string) {
+  const [h, m] = t.split(":").map(Number);
+  return (h || 0) * 60 + (m || 0);
+}
+
 export default function ParkingAvailabilityPlanner({ parkingId }: { parkingId: string }) {
   const router = useRouter();
   const { ready, session } = useAuth();
@@ -122,6 +133,15 @@ export default function ParkingAvailabilityPlanner({ parkingId }: { parkingId: s
   const [err, setErr] = useState<string | null>(null);
   const [okMsg, setOkMsg] = useState<string | null>(null);
 
+  // ✅ exceptions datées (enregistrées immédiatement, indépendamment du planning hebdo)
+  const [overrides, setOverrides] = useState<OverrideRow[]>([]);
+  const [ovDate, setOvDate] = useState<string>("");
+  const [ovStart, setOvStart] = useState<string>("08:00");
+  const [ovEnd, setOvEnd] = useState<string>("22:00");
+  const [ovClosed, setOvClosed] = useState(false);
+  const [ovNote, setOvNote] = useState<string>("");
+  const [ovBusy, setOvBusy] = useState(false);
+
   const authHeader = useMemo(() => {
     const t = session?.access_token;
     return t ? { Authorization: `Bearer ${t}` } : null;
@@ -130,53 +150,63 @@ export default function ParkingAvailabilityPlanner({ parkingId }: { parkingId: s
   const parkingIdSafe = useMemo(() => String(parkingId ?? "").trim(), [parkingId]);
   const parkingReady = useMemo(() => isUuid(parkingIdSafe), [parkingIdSafe]);
 
-  const setSlot = (weekday: number, patch: Partial<Slot>) => {
-    setSlots((prev) =>
-      prev.map((s) =>
-        s.weekday === weekday
-          ? {
-              ...s,
-              ...patch,
-              weekday,
-              // ✅ on garde l’UI propre en HH:MM
-              start_time: patch.start_time !== undefined ? toHHMM(patch.start_time) : s.start_time,
-              end_time: patch.end_time !== undefined ? toHHMM(patch.end_time) : s.end_time,
-            }
-          : s
-      )
-    );
+  const daySlots = (weekday: number) => slots.filter((s) => s.weekday === weekday);
+
+  // index = position de la plage dans la journée
+  const setRange = (weekday: number, index: number, patch: Partial<Slot>) => {
+    setSlots((prev) => {
+      let i = -1;
+      return prev.map((s) => {
+        if (s.weekday !== weekday || ++i !== index) return s;
+        return {
+          ...s,
+          ...patch,
+          weekday,
+          // ✅ on garde l’UI propre en HH:MM
+          start_time: patch.start_time !== undefined ? toHHMM(patch.start_time) : s.start_time,
+          end_time: patch.end_time !== undefined ? toHHMM(patch.end_time) : s.end_time,
+        };
+      });
+    });
   };
 
-  const copyToAll = (weekday: number) => {
-    const src = slots.find((s) => s.weekday === weekday);
-    if (!src) return;
-    setSlots((prev) =>
-      prev.map((s) => ({
-        ...s,
-        start_time: src.start_time,
-        end_time: src.end_time,
-        enabled: src.enabled,
-      }))
-    );
+  // ON/OFF agit sur toutes les plages du jour
+  const toggleDay = (weekday: number, enabled: boolean) => {
+    setSlots((prev) => prev.map((s) => (s.weekday === weekday ? { ...s, enabled } : s)));
   };
 
-  const validate = (): string | null => {
-    for (const s of slots) {
-      if (s.weekday < 1 || s.weekday > 7) return "weekday invalide";
+  const addRange = (weekday: number) => {
+    setSlots((prev) => {
+      const day = prev.filter((s) => s.weekday === weekday);
+      const lastEnd = day.length ? minutesOfHHMM(day[day.length - 1].end_time) : 8 * 60;
+      // nouvelle plage juste après la dernière (1h), bornée à la journée
+      const startMin = Math.min(lastEnd + 60, 22 * 60);
+      const hhmm = (m: number) => `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+      const added: Slot = { weekday, start_time: hhmm(startMin), end_time: hhmm(startMin + 60), enabled: true };
+
+      // on garde l'ordre jour par jour (insertion après la dernière plage du jour)
+      const lastIdx = prev.map((s) => s.weekday).lastIndexOf(weekday);
+      if (lastIdx < 0) return [...prev, added];
+      return [...prev.slice(0, lastIdx + 1), added, ...prev.slice(lastIdx + 1)];
+    });
+  };
 
-      // ✅ tolère HH:MM:SS (au cas où)
-      if (!isTime(s.start_time) || !isTime(s.end_time)) return "Heures invalides.";
+  const removeRange = (weekday: number, index: number) => {
+    setSlots((prev) => {
+      let i = -1;
+      return prev.filter((s) => s.weekday !== weekday || ++i !== index);
+    });
+  };
 
-      if (s.enabled) {
-        const a = minutesOf(s.start_time);
-        const b = minutesOf(s.end_time);
-        if (!Number.isFinite(a) || !Number.isFinite(b)) return "Heures invalides.";
-        if (b <= a) return "end_time doit être après start_time";
-      }
-    }
-    return null;
+  const copyToAll = (weekday: number) => {
+    const src = slots.filter((s) => s.weekday === weekday);
+    if (src.length === 0) return;
+    setSlots(DAYS.flatMap((d) => src.map((s) => ({ ...s, weekday: d.weekday }))));
   };
 
+  // ✅ mêmes règles que /api/owner/availability/upsert
+  const validate = (): string | null => validateWeeklySlots(slots);
+
   const load = async () => {
     if (!authHeader) return;
     if (!parkingReady) {
@@ -264,14 +294,126 @@ export default function ParkingAvailabilityPlanner({ parkingId }: { parkingId: s
     }
   };
 
+  const loadOverrides = async () => {
+    if (!authHeader || !parkingReady) return;
+
+    try {
+      const url = `/api/owner/availability/overrides?parkingId=${encodeURIComponent(
+        parkingIdSafe
+      )}&from=${todayYmd()}`;
+      const res = await fetch(url, { headers: authHeader });
+
+      const json = (await res.json().catch(() => ({}))) as
+        | { ok: true; rows: OverrideRow[] }
+        | { ok: false; error: string };
+
+      if (!res.ok || !("ok" in json) || json.ok === false) {
+        setErr("error" in json ? json.error : `Erreur exceptions (${res.status})`);
+        return;
+      }
+
+      setOverrides(
+        (json.rows ?? []).map((o) => ({ ...o, start_time: toHHMM(o.start_time), end_time: toHHMM(o.end_time) }))
+      );
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Erreur chargement exceptions");
+    }
+  };
+
+  const addOverride = async () => {
+    if (!authHeader || !parkingReady) return;
+
+    setErr(null);
+    setOkMsg(null);
+
+    const candidate: AvailabilityOverride = {
+      date: ovDate,
+      start_time: ovStart,
+      end_time: ovEnd,
+      enabled: !ovClosed,
+    };
+
+    // ✅ mêmes règles que /api/owner/availability/overrides
+    const v = validateOverride(candidate);
+    if (v) {
+      setErr(v);
+      return;
+    }
+
+    setOvBusy(true);
+
+    try {
+      const res = await fetch("/api/owner/availability/overrides", {
+        method: "POST",
+        headers: { ...authHeader, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          parkingId: parkingIdSafe,
+          date: candidate.date,
+          startTime: candidate.start_time,
+          endTime: candidate.end_time,
+          enabled: candidate.enabled,
+          note: ovNote,
+        }),
+      });
+
+      const json = (await res.json().catch(() => ({}))) as { ok?: boolean; error?: string };
+
+      if (!res.ok || !json.ok) {
+        setErr(json.error ?? `Erreur (${res.status})`);
+        setOvBusy(false);
+        return;
+      }
+
+      setOvNote("");
+      setOkMsg("✅ Exception ajoutée !");
+      setOvBusy(false);
+      await loadOverrides();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Erreur ajout exception");
+      setOvBusy(false);
+    }
+  };
+
+  const removeOverride = async (id: string) => {
+    if (!authHeader) return;
+
+    setErr(null);
+    setOkMsg(null);
+    setOvBusy(true);
+
+    try {
+      const res = await fetch(`/api/owner/availability/overrides?id=${encodeURIComponent(id)}`, {
+        method: "DELETE",
+        headers: authHeader,
+      });
+
+      const json = (await res.json().catch(() => ({}))) as { ok?: boolean; error?: string };
+
+      if (!res.ok || !json.ok) {
+        setErr(json.error ?? `Erreur (${res.status})`);
+        setOvBusy(false);
+        return;
+      }
+
+      setOverrides((prev) => prev.filter((o) => o.id !== id));
+      setOvBusy(false);
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Erreur suppression exception");
+      setOvBusy(false);
+    }
+  };
+
   useEffect(() => {
     if (!ready || !session || !authHeader) return;
     if (!parkingId || !isUuid(parkingId)) return;
-    queueMicrotask(() => void load());
+    queueMicrotask(() => {
+      void load();
+      void loadOverrides();
+    });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [ready, session?.user?.id, parkingId]);
 
-  const enabledCount = useMemo(() => slots.filter((s) => s.enabled).length, [slots]);
+  const enabledCount = useMemo(() => new Set(slots.filter((s) => s.enabled).map((s) => s.weekday)).size, [slots]);
 
   if (!ready) return <p className={UI.p}>Chargement…</p>;
   if (!session) return <p className={UI.p}>Tu dois être connecté.</p>;
@@ -325,13 +467,8 @@ export default function ParkingAvailabilityPlanner({ parkingId }: { parkingId: s
 
       <div className="grid gap-3">
         {DAYS.map((d) => {
-          const s =
-            slots.find((x) => x.weekday === d.weekday) ?? {
-              weekday: d.weekday,
-              start_time: "08:00",
-              end_time: "18:00",
-              enabled: false,
-            };
+          const ranges = daySlots(d.weekday);
+          const dayOn = ranges.some((r) => r.enabled);
 
           return (
             <div
@@ -339,7 +476,7 @@ export default function ParkingAvailabilityPlanner({ parkingId }: { parkingId: s
               className={[
                 "rounded-2xl border border-slate-200/70 bg-white/70 backdrop-blur",
                 "p-4 sm:p-5",
-                "flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-4",
+                "flex flex-col sm:flex-row sm:items-start gap-3 sm:gap-4",
               ].join(" ")}
             >
               <div className="flex items-center justify-between sm:w-[240px]">
@@ -347,52 +484,77 @@ export default function ParkingAvailabilityPlanner({ parkingId }: { parkingId: s
                   <div
                     className={[
                       "w-10 h-10 rounded-2xl flex items-center justify-center font-semibold",
-                      s.enabled ? "bg-violet-600 text-white" : "bg-slate-100 text-slate-700",
+                      dayOn ? "bg-violet-600 text-white" : "bg-slate-100 text-slate-700",
                     ].join(" ")}
                   >
                     {d.short}
                   </div>
                   <div>
                     <div className="font-semibold text-slate-900">{d.label}</div>
-                    <div className="text-xs text-slate-500">{s.enabled ? "Disponible" : "Fermé"}</div>
+                    <div className="text-xs text-slate-500">
+                      {dayOn ? (ranges.length > 1 ? `${ranges.length} plages` : "Disponible") : "Fermé"}
+                    </div>
                   </div>
                 </div>
 
                 <button
                   type="button"
                   className={`${UI.btnBase} ${UI.btnGhost} px-3 py-2 rounded-full`}
-                  onClick={() => setSlot(d.weekday, { enabled: !s.enabled })}
+                  onClick={() => (ranges.length ? toggleDay(d.weekday, !dayOn) : addRange(d.weekday))}
                 >
-                  {s.enabled ? "ON" : "OFF"}
+                  {dayOn ? "ON" : "OFF"}
                 </button>
               </div>
 
-              <div className="flex flex-col sm:flex-row sm:items-center gap-2 flex-1">
-                <div className="flex items-center gap-2">
-                  <span className="text-xs text-slate-500 w-14">Début</span>
-                  <input
-                    type="time"
-                    className={UI.input}
-                    value={s.start_time}
-                    onChange={(e) => setSlot(d.weekday, { start_time: e.target.value })}
-                    disabled={!s.enabled}
-                  />
-                </div>
-
-                <div className="hidden sm:block text-slate-400">→</div>
-
-                <div className="flex items-center gap-2">
-                  <span className="text-xs text-slate-500 w-14">Fin</span>
-                  <input
-                    type="time"
-                    className={UI.input}
-                    value={s.end_time}
-                    onChange={(e) => setSlot(d.weekday, { end_time: e.target.value })}
-                    disabled={!s.enabled}
-                  />
-                </div>
-
-                <div className="sm:ml-auto">
+              <div className="flex flex-col gap-2 flex-1">
+                {ranges.map((s, i) => (
+                  <div key={i} className="flex flex-col sm:flex-row sm:items-center gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-slate-500 w-14">Début</span>
+                      <input
+                        type="time"
+                        className={UI.input}
+                        value={s.start_time}
+                        onChange={(e) => setRange(d.weekday, i, { start_time: e.target.value })}
+                        disabled={!dayOn}
+                      />
+                    </div>
+
+                    <div className="hidden sm:block text-slate-400">→</div>
+
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-slate-500 w-14">Fin</span>
+                      <input
+                        type="time"
+                        className={UI.input}
+                        value={s.end_time}
+                        onChange={(e) => setRange(d.weekday, i, { end_time: e.target.value })}
+                        disabled={!dayOn}
+                      />
+                    </div>
+
+                    {ranges.length > 1 ? (
+                      <button
+                        type="button"
+                        className={`${UI.btnBase} ${UI.btnGhost} px-3 py-2`}
+                        onClick={() => removeRange(d.weekday, i)}
+                        title="Supprimer cette plage"
+                      >
+                        ✕
+                      </button>
+                    ) : null}
+                  </div>
+                ))}
+
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    className={`${UI.btnBase} ${UI.btnGhost}`}
+                    onClick={() => addRange(d.weekday)}
+                    disabled={!dayOn && ranges.length > 0}
+                  >
+                    + Plage
+                  </button>
                   <button type="button" className={`${UI.btnBase} ${UI.btnGhost}`} onClick={() => copyToAll(d.weekday)}>
                     Copier → Tous
                   </button>
@@ -400,13 +562,32 @@ export default function ParkingAvailabilityPlanner({ parkingId }: { parkingId: s
               </div>
 
               <div className="sm:w-[180px]">
-                <div className="h-3 rounded-full bg-slate-100 overflow-hidden border border-slate-200/70">
-                  <div
-                    className={["h-full", s.enabled ? "bg-violet-600/70" : "bg-slate-300/60"].join(" ")}
-                    style={{ width: s.enabled ? "100%" : "25%" }}
-                  />
+                {/* mini-timeline 00:00 → 24:00 */}
+                <div className="relative h-3 rounded-full bg-slate-100 overflow-hidden border border-slate-200/70">
+                  {dayOn
+                    ? ranges
+                        .filter((r) => r.enabled)
+                        .map((r, i) => {
+                          const a = minutesOfHHMM(r.start_time);
+                          const b = Math.max(a, minutesOfHHMM(r.end_time));
+                          return (
+                            <div
+                              key={i}
+                              className="absolute top-0 h-full bg-violet-600/70"
+                              style={{ left: `${(a / 1440) * 100}%`, width: `${((b - a) / 1440) * 100}%` }}
+                            />
+                          );
+                        })
+                    : null}
+                </div>
+                <div className="mt-1 text-xs text-slate-500">
+                  {dayOn
+                    ? ranges
+                        .filter((r) => r.enabled)
+                        .map((r) => `${r.start_time} → ${r.end_time}`)
+                        .join(" · ")
+                    : "Désactivé"}
                 </div>
-                <div className="mt-1 text-xs text-slate-500">{s.enabled ? `${s.start_time} → ${s.end_time}` : "Désactivé"}</div>
               </div>
             </div>
           );
@@ -421,6 +602,90 @@ export default function ParkingAvailabilityPlanner({ parkingId }: { parkingId: s
           {loading ? "…" : "Recharger"}
         </button>
       </div>
+
+      {/* Exceptions datées */}
+      <div className="rounded-2xl border border-slate-200/70 bg-white/70 backdrop-blur p-4 sm:p-5 space-y-4">
+        <div>
+          <div className="font-semibold text-slate-900">Exceptions par date</div>
+          <div className="text-xs text-slate-500">
+            Remplacent le planning hebdo pour le jour choisi (ex : ouvert un dimanche pour le marché, ou fermé un jour
+            férié). Enregistrées immédiatement.
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:flex-wrap sm:items-center gap-2">
+          <input
+            type="date"
+            className={UI.input}
+            value={ovDate}
+            min={todayYmd()}
+            onChange={(e) => setOvDate(e.target.value)}
+          />
+          <input
+            type="time"
+            className={UI.input}
+            value={ovStart}
+            onChange={(e) => setOvStart(toHHMM(e.target.value))}
+            disabled={ovClosed}
+          />
+          <div className="hidden sm:block text-slate-400">→</div>
+          <input
+            type="time"
+            className={UI.input}
+            value={ovEnd}
+            onChange={(e) => setOvEnd(toHHMM(e.target.value))}
+            disabled={ovClosed}
+          />
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              className="accent-violet-600"
+              checked={ovClosed}
+              onChange={(e) => setOvClosed(e.target.checked)}
+            />
+            Fermé toute la journée
+          </label>
+          <input
+            className={UI.input}
+            value={ovNote}
+            onChange={(e) => setOvNote(e.target.value)}
+            placeholder="Note (optionnel)"
+            maxLength={140}
+          />
+          <button
+            type="button"
+            className={`${UI.btnBase} ${UI.btnPrimary}`}
+            onClick={() => void addOverride()}
+            disabled={ovBusy || !ovDate}
+          >
+            {ovBusy ? "…" : "Ajouter"}
+          </button>
+        </div>
+
+        {overrides.length === 0 ? (
+          <div className="text-xs text-slate-500">Aucune exception à venir.</div>
+        ) : (
+          <div className="grid gap-2">
+            {overrides.map((o) => (
+              <div key={o.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <b className="text-slate-900">{formatOverrideDate(o.date)}</b>{" "}
+                  <span className={UI.chip}>{o.enabled ? `${o.start_time} → ${o.end_time}` : "Fermé"}</span>
+                  {o.note ? <span className="ml-2 text-xs text-slate-500">{o.note}</span> : null}
+                </div>
+                <button
+                  type="button"
+                  className={`${UI.btnBase} ${UI.btnGhost}`}
+                  onClick={() => void removeOverride(o.id)}
+                  disabled={ovBusy}
+                >
+                  Supprimer
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
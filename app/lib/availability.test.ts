@@ -0,0 +1,213 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeFreeWindows,
+  evaluateAvailability,
+  getLocalParts,
+  isBookingCoveredByAvailability,
+  nextLocalMidnight,
+  parseLocalDateTime,
+  toLocalDateTimeInput,
+  type AvailabilityData,
+  type WeeklySlot,
+} from "@/app/lib/availability";
+
+// Europe/Zurich 2026: passage à l'heure d'été le dimanche 29.03 (02:00 → 03:00),
+// retour à l'heure d'hiver le dimanche 25.10 (03:00 → 02:00)
+const TZ = "Europe/Zurich";
+const HOUR = 3600 * 1000;
+
+function slot(weekday: number, start_time: string, end_time: string, enabled = true): WeeklySlot {
+  return { weekday, start_time, end_time, enabled };
+}
+
+/** 7 jours sur 7, 24/24 (sauf les jours exclus) */
+function allWeek(except: number[] = []) {
+  return [1, 2, 3, 4, 5, 6, 7].filter((d) => !except.includes(d)).map((d) => slot(d, "00:00", "23:59"));
+}
+
+function data(over: Partial<AvailabilityData> = {}): AvailabilityData {
+  return {
+    parking: { id: "p1", is_active: true, timezone: TZ, capacity: 1 },
+    slots: [],
+    overrides: [],
+    blackouts: [],
+    bookings: [],
+    ...over,
+  };
+}
+
+function local(s: string) {
+  return parseLocalDateTime(s, TZ) as string;
+}
+
+describe("heure locale ↔ UTC (Europe/Zurich)", () => {
+  it("convertit de part et d'autre du passage à l'heure d'été", () => {
+    expect(local("2026-03-29T01:30")).toBe("2026-03-29T00:30:00.000Z");
+    expect(local("2026-03-29T03:30")).toBe("2026-03-29T01:30:00.000Z");
+  });
+
+  it("convertit de part et d'autre du retour à l'heure d'hiver", () => {
+    expect(local("2026-10-25T01:30")).toBe("2026-10-24T23:30:00.000Z");
+    expect(local("2026-10-25T04:00")).toBe("2026-10-25T03:00:00.000Z");
+  });
+
+  it("lit deux instants UTC différents comme la même heure locale pendant l'heure répétée", () => {
+    const summer = getLocalParts(new Date("2026-10-25T00:30:00Z"), TZ);
+    const winter = getLocalParts(new Date("2026-10-25T01:30:00Z"), TZ);
+
+    expect(summer).toMatchObject({ ymd: "2026-10-25", weekday: 7, hour: 2, minutes: 150 });
+    expect(winter).toMatchObject({ ymd: "2026-10-25", weekday: 7, hour: 2, minutes: 150 });
+  });
+
+  it("garde une valeur avec fuseau telle quelle et fait l'aller-retour datetime-local", () => {
+    expect(parseLocalDateTime("2026-03-29T03:30:00+02:00", TZ)).toBe("2026-03-29T01:30:00.000Z");
+    expect(toLocalDateTimeInput("2026-10-25T03:00:00.000Z", TZ)).toBe("2026-10-25T04:00");
+  });
+});
+
+describe("minuit local", () => {
+  it("fait un jour de 23 h au passage à l'heure d'été", () => {
+    const start = new Date(local("2026-03-29T00:00"));
+    const next = nextLocalMidnight(new Date("2026-03-29T10:00:00Z"), TZ);
+
+    expect(next.toISOString()).toBe("2026-03-29T22:00:00.000Z");
+    expect(next.getTime() - start.getTime()).toBe(23 * HOUR);
+  });
+
+  it("fait un jour de 25 h au retour à l'heure d'hiver", () => {
+    const start = new Date(local("2026-10-25T00:00"));
+    const next = nextLocalMidnight(new Date("2026-10-25T10:00:00Z"), TZ);
+
+    expect(next.toISOString()).toBe("2026-10-25T23:00:00.000Z");
+    expect(next.getTime() - start.getTime()).toBe(25 * HOUR);
+  });
+});
+
+describe("couverture par le planning", () => {
+  const sundayDay = [slot(7, "08:00", "18:00")];
+
+  it("suit l'heure locale le jour du passage à l'heure d'été", () => {
+    expect(isBookingCoveredByAvailability(local("2026-03-29T08:00"), local("2026-03-29T18:00"), sundayDay, TZ)).toBe(
+      true
+    );
+    expect(isBookingCoveredByAvailability(local("2026-03-29T07:30"), local("2026-03-29T12:00"), sundayDay, TZ)).toBe(
+      false
+    );
+  });
+
+  it("suit l'heure locale le jour du retour à l'heure d'hiver", () => {
+    expect(isBookingCoveredByAvailability(local("2026-10-25T08:00"), local("2026-10-25T18:00"), sundayDay, TZ)).toBe(
+      true
+    );
+    expect(isBookingCoveredByAvailability(local("2026-10-25T12:00"), local("2026-10-25T18:30"), sundayDay, TZ)).toBe(
+      false
+    );
+  });
+
+  it("couvre une journée entière de 23 h ou de 25 h avec un planning 24/24", () => {
+    const sunday = [slot(7, "00:00", "23:59")];
+
+    expect(isBookingCoveredByAvailability("2026-03-28T23:00:00Z", "2026-03-29T22:00:00Z", sunday, TZ)).toBe(true);
+    expect(isBookingCoveredByAvailability("2026-10-24T22:00:00Z", "2026-10-25T23:00:00Z", sunday, TZ)).toBe(true);
+  });
+
+  it("accepte une nuit couverte par les plages des deux jours", () => {
+    const nights = [slot(5, "18:00", "23:59"), slot(6, "00:00", "08:00")];
+
+    expect(isBookingCoveredByAvailability(local("2026-06-12T20:00"), local("2026-06-13T07:00"), nights, TZ)).toBe(
+      true
+    );
+    expect(isBookingCoveredByAvailability(local("2026-06-12T20:00"), local("2026-06-13T09:00"), nights, TZ)).toBe(
+      false
+    );
+    expect(isBookingCoveredByAvailability(local("2026-06-12T17:00"), local("2026-06-13T07:00"), nights, TZ)).toBe(
+      false
+    );
+  });
+
+  it("accepte une nuit qui traverse le retour à l'heure d'hiver", () => {
+    const nights = [slot(6, "20:00", "23:59"), slot(7, "00:00", "08:00")];
+    const start = local("2026-10-24T22:00");
+    const end = local("2026-10-25T07:00");
+
+    // 9 h d'horloge, 10 h réelles
+    expect(Date.parse(end) - Date.parse(start)).toBe(10 * HOUR);
+    expect(isBookingCoveredByAvailability(start, end, nights, TZ)).toBe(true);
+  });
+
+  it("accepte une nuit qui traverse le passage à l'heure d'été", () => {
+    const nights = [slot(6, "20:00", "23:59"), slot(7, "00:00", "08:00")];
+    const start = local("2026-03-28T22:00");
+    const end = local("2026-03-29T07:00");
+
+    // 9 h d'horloge, 8 h réelles
+    expect(Date.parse(end) - Date.parse(start)).toBe(8 * HOUR);
+    expect(isBookingCoveredByAvailability(start, end, nights, TZ)).toBe(true);
+  });
+
+  it("vérifie chaque jour d'un séjour de plusieurs jours", () => {
+    // lundi 22.06 → vendredi 26.06
+    const start = local("2026-06-22T10:00");
+    const end = local("2026-06-26T10:00");
+
+    expect(isBookingCoveredByAvailability(start, end, allWeek(), TZ)).toBe(true);
+    // mercredi fermé
+    expect(isBookingCoveredByAvailability(start, end, allWeek([3]), TZ)).toBe(false);
+    // exception: fermé le jeudi 25.06
+    expect(
+      isBookingCoveredByAvailability(start, end, allWeek(), TZ, [
+        { date: "2026-06-25", start_time: "00:00", end_time: "00:00", enabled: false },
+      ])
+    ).toBe(false);
+  });
+
+  it("accepte un séjour de plusieurs jours à travers le retour à l'heure d'hiver", () => {
+    expect(isBookingCoveredByAvailability(local("2026-10-23T12:00"), local("2026-10-27T12:00"), allWeek(), TZ)).toBe(
+      true
+    );
+  });
+});
+
+describe("verdict et fenêtres libres", () => {
+  it("refuse un séjour de plusieurs jours qui chevauche une réservation, sauf place libre", () => {
+    const booked = { id: "b1", start_time: local("2026-06-24T08:00"), end_time: local("2026-06-24T12:00"), spot_number: 1 };
+    const start = local("2026-06-22T10:00");
+    const end = local("2026-06-26T10:00");
+
+    expect(evaluateAvailability(data({ slots: allWeek(), bookings: [booked] }), start, end)).toMatchObject({
+      available: false,
+      code: "BOOKING_OVERLAP",
+    });
+
+    const twoSpots = data({ slots: allWeek(), bookings: [booked] });
+    twoSpots.parking = { id: "p1", is_active: true, timezone: TZ, capacity: 2 };
+    expect(evaluateAvailability(twoSpots, start, end)).toEqual({ available: true, spot: 2 });
+  });
+
+  it("lit le planning dans le fuseau de la place", () => {
+    // 08:00-18:00 à Zurich le dimanche 25.10 (heure d'hiver) = 07:00-17:00 UTC
+    const verdict = (s: string, e: string) => evaluateAvailability(data({ slots: [slot(7, "08:00", "18:00")] }), s, e);
+
+    expect(verdict("2026-10-25T07:00:00Z", "2026-10-25T17:00:00Z").available).toBe(true);
+    expect(verdict("2026-10-25T06:00:00Z", "2026-10-25T16:00:00Z")).toMatchObject({ code: "OUTSIDE_AVAILABILITY" });
+  });
+
+  it("place les fenêtres libres à l'heure locale les jours de changement d'heure", () => {
+    const slots = [slot(7, "08:00", "18:00")];
+
+    expect(computeFreeWindows(data({ slots }), "2026-03-28T23:00:00Z", "2026-03-29T22:00:00Z")).toEqual([
+      { start: "2026-03-29T06:00:00.000Z", end: "2026-03-29T16:00:00.000Z" },
+    ]);
+    expect(computeFreeWindows(data({ slots }), "2026-10-24T22:00:00Z", "2026-10-25T23:00:00Z")).toEqual([
+      { start: "2026-10-25T07:00:00.000Z", end: "2026-10-25T17:00:00.000Z" },
+    ]);
+  });
+
+  it("renvoie une nuit ouverte comme une seule fenêtre", () => {
+    const slots = [slot(5, "18:00", "23:59"), slot(6, "00:00", "08:00")];
+
+    expect(computeFreeWindows(data({ slots }), local("2026-06-12T00:00"), local("2026-06-14T00:00"))).toEqual([
+      { start: local("2026-06-12T18:00"), end: local("2026-06-13T08:00") },
+    ]);
+  });
+});
@@ -0,0 +1,996 @@
+// app/lib/availability.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { expandRRule, isYmd, parseRRule } from "@/app/lib/rrule";
+import { paymentStatusOf, type BookingStatus } from "@/app/lib/bookingLifecycle";
+
+/**
+ * Moteur de disponibilité partagé
+ * - utilisé par /api/bookings/availability, /api/bookings/create,
+ *   le calendrier owner et les plannings
+ * - verdict structuré avec des codes stables (les textes peuvent changer, pas les codes)
+ *
+ * Ordre des règles (toujours le même):
+ * 1) place introuvable / désactivée
+ * 2) blackout propriétaire (ponctuel ou récurrent RRULE)
+ * 3) planning: exception datée si présente pour le jour, sinon planning hebdo (si configuré)
+ * 4) chevauchement avec une réservation
+ * 5) battement (buffer) avant / après une réservation voisine
+ * 4-5 sont évalués place par place (capacité): il faut au moins une place numérotée libre
+ * sur tout le créneau (on ne change pas de place en cours de réservation).
+ */
+
+export const DEFAULT_TZ = "Europe/Zurich";
+
+/** Fuseaux proposés aux propriétaires (CH + zones frontalières) */
+// ⚠️ garder aligné avec parkings_timezone_check (supabase/migrations)
+export const SUPPORTED_TIMEZONES: Array<{ value: string; label: string }> = [
+  { value: "Europe/Zurich", label: "Suisse (Europe/Zurich)" },
+  { value: "Europe/Paris", label: "France (Europe/Paris)" },
+  { value: "Europe/Rome", label: "Italie (Europe/Rome)" },
+];
+
+export type AvailabilityCode =
+  | "PARKING_NOT_FOUND"
+  | "PARKING_OFF"
+  | "BLACKOUT"
+  | "CLOSED"
+  | "OUTSIDE_AVAILABILITY"
+  | "BOOKING_OVERLAP"
+  | "BUFFER_CONFLICT"
+  | "FULLY_BOOKED";
+
+export type AvailabilityVerdict =
+  | { available: true; spot?: number } // spot = place numérotée attribuée (1..capacity)
+  | { available: false; code: AvailabilityCode; reason: string };
+
+export const AVAILABILITY_REASONS: Record<AvailabilityCode, string> = {
+  PARKING_NOT_FOUND: "Parking introuvable",
+  PARKING_OFF: "Cette place est désactivée par le propriétaire.",
+  BLACKOUT: "Cette place est indisponible sur ce créneau (planning propriétaire).",
+  CLOSED: "Cette place est fermée (planning OFF).",
+  OUTSIDE_AVAILABILITY: "La réservation est hors des horaires définis par le propriétaire.",
+  BOOKING_OVERLAP: "Cette place est déjà réservée sur ce créneau.",
+  BUFFER_CONFLICT: "Trop proche d'une autre réservation (temps de battement entre deux clients).",
+  FULLY_BOOKED: "Toutes les places sont réservées sur ce créneau.",
+};
+
+/** Une plage horaire d'un jour de semaine (plusieurs plages possibles par jour, sans chevauchement) */
+export type WeeklySlot = {
+  weekday: number; // 1..7 (1 = lundi)
+  start_time: string; // "HH:MM" ou "HH:MM:SS"
+  end_time: string;
+  enabled: boolean;
+};
+
+/**
+ * Exception datée (parking_availability_overrides): remplace le planning hebdo pour ce jour local.
+ * - enabled=true  => plage ouverte ce jour-là (plusieurs lignes possibles)
+ * - enabled=false => fermé toute la journée
+ */
+export type AvailabilityOverride = {
+  date: string; // YYYY-MM-DD (jour local de la place)
+  start_time: string;
+  end_time: string;
+  enabled: boolean;
+};
+
+export type TimeInterval = {
+  start_time: string; // ISO
+  end_time: string; // ISO
+};
+
+/** Temps de battement en minutes (0 = aucun). Sur la place = réglage, sur une réservation = copie figée. */
+export type BufferColumns = {
+  buffer_before_minutes?: number | null;
+  buffer_after_minutes?: number | null;
+};
+
+export type BookingInterval = TimeInterval &
+  BufferColumns & {
+    id?: string;
+    spot_number?: number | null; // place numérotée (null = 1, réservations legacy)
+  };
+
+/** Modification d'une réservation existante: elle ne se bloque pas elle-même, et garde sa place si possible */
+export type RebookOptions = {
+  ignoreBookingId?: string;
+  preferSpot?: number;
+};
+
+export type AvailabilityData = {
+  parking:
+    | ({ id: string; is_active: boolean | null; timezone?: string | null; capacity?: number | null } & BufferColumns)
+    | null;
+  slots: WeeklySlot[];
+  overrides: AvailabilityOverride[];
+  blackouts: TimeInterval[];
+  bookings: BookingInterval[];
+};
+
+const DAY_MINUTES = 24 * 60;
+
+/**
+ * Statuts qui ne bloquent plus un créneau
+ * ⚠️ garder aligné avec la contrainte bookings_no_overlap (supabase/migrations)
+ */
+export const NON_BLOCKING_BOOKING_STATUSES: BookingStatus[] = ["cancelled", "expired", "declined"];
+
+/**
+ * Hold de paiement dépassé: réservation jamais payée dont le Checkout a expiré.
+ * Elle ne bloque plus le créneau, même si le cron / webhook ne l'a pas encore passée en "expired".
+ */
+export function isLapsedHold(
+  b: { payment_status?: string | null; hold_expires_at?: string | null },
+  nowMs = Date.now()
+) {
+  if (!b.hold_expires_at || paymentStatusOf(b.payment_status) !== "unpaid") return false;
+  const t = Date.parse(b.hold_expires_at);
+  return !Number.isNaN(t) && t <= nowMs;
+}
+
+/** Code Postgres levé par la contrainte d'exclusion bookings_no_overlap */
+export const PG_EXCLUSION_VIOLATION = "23P01";
+
+/** ⚠️ garder aligné avec parkings_buffers_check (supabase/migrations) */
+export const MAX_BUFFER_MINUTES = 240;
+
+export const BUFFER_COLUMNS = "buffer_before_minutes,buffer_after_minutes";
+
+/** ⚠️ garder aligné avec parkings_capacity_check (supabase/migrations) */
+export const MAX_CAPACITY = 500;
+
+/** Nombre de places identiques de l'annonce (1 = place unique) */
+export function getCapacity(row: { capacity?: number | null } | null | undefined) {
+  const n = Number(row?.capacity ?? 1);
+  return Number.isInteger(n) && n >= 1 ? Math.min(n, MAX_CAPACITY) : 1;
+}
+
+export function spotOf(row: { spot_number?: number | null }) {
+  const n = Number(row.spot_number ?? 1);
+  return Number.isInteger(n) && n >= 1 ? n : 1;
+}
+
+function bufferMinutes(v: number | null | undefined) {
+  const n = Number(v ?? 0);
+  return Number.isInteger(n) && n > 0 ? Math.min(n, MAX_BUFFER_MINUTES) : 0;
+}
+
+export function getBuffers(row: BufferColumns | null | undefined) {
+  return { before: bufferMinutes(row?.buffer_before_minutes), after: bufferMinutes(row?.buffer_after_minutes) };
+}
+
+/** Zone bloquée [start - before, end + after[ en ms (même calcul que booking_blocked_range en SQL). */
+export function blockedRange(startMs: number, endMs: number, buffers: { before: number; after: number }) {
+  return { s: startMs - buffers.before * 60000, e: endMs + buffers.after * 60000 };
+}
+
+/**
+ * Le planning hebdo peut être coupé globalement (NEXT_PUBLIC_AVAILABILITY_ENABLED=false)
+ * => seuls OFF / blackouts / chevauchements restent bloquants.
+ */
+export function isPlanningEnabled() {
+  return (process.env.NEXT_PUBLIC_AVAILABILITY_ENABLED ?? "true").toLowerCase() !== "false";
+}
+
+/* =========================
+   Helpers timezone
+========================= */
+
+const WEEKDAY_MAP: Record<string, number> = {
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+  Sun: 7,
+};
+
+/** Fuseau IANA reconnu par Intl (ex: "Europe/Zurich"). */
+export function isValidTimeZone(tz: string) {
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Fuseau d'une place (colonne parkings.timezone), DEFAULT_TZ si vide ou inconnu. */
+export function resolveTimeZone(tz?: string | null) {
+  const v = String(tz ?? "").trim();
+  return v && isValidTimeZone(v) ? v : DEFAULT_TZ;
+}
+
+/**
+ * Convertit une date en "parties" locales:
+ * - weekday: 1=lundi ... 7=dimanche
+ * - minutes: minutes depuis 00:00 locale
+ * - ymd: YYYY-MM-DD locale
+ */
+export function getLocalParts(d: Date, tz: string = DEFAULT_TZ) {
+  const fmt = new Intl.DateTimeFormat("en-GB", {
+    timeZone: tz,
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+
+  const parts = fmt.formatToParts(d);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+
+  const weekday = WEEKDAY_MAP[get("weekday")] ?? 0;
+
+  const year = Number(get("year"));
+  const month = Number(get("month"));
+  const day = Number(get("day"));
+  const ymd = `${get("year")}-${get("month")}-${get("day")}`;
+
+  // Intl peut renvoyer "24" pour minuit selon le moteur
+  const hour = Number(get("hour")) % 24;
+  const minute = Number(get("minute"));
+  const minutes = hour * 60 + minute;
+
+  return { weekday, minutes, ymd, year, month, day, hour, minute };
+}
+
+/**
+ * Heure locale (y, m, d, hh, mm) dans `tz` => ISO UTC.
+ * 2 itérations suffisent pour absorber les changements d'heure (DST).
+ */
+export function zonedToUtcIso(
+  y: number,
+  m: number,
+  d: number,
+  hh: number,
+  mm: number,
+  tz: string = DEFAULT_TZ
+) {
+  let guess = new Date(Date.UTC(y, m - 1, d, hh, mm, 0));
+
+  for (let i = 0; i < 2; i++) {
+    const p = getLocalParts(guess, tz);
+    const desiredLocalAsUtc = Date.UTC(y, m - 1, d, hh, mm, 0);
+    const actualLocalAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, 0);
+    const delta = desiredLocalAsUtc - actualLocalAsUtc;
+    if (delta === 0) break;
+    guess = new Date(guess.getTime() + delta);
+  }
+
+  return guess.toISOString();
+}
+
+/** Prochain minuit local (début du jour suivant) après `d`. */
+export function nextLocalMidnight(d: Date, tz: string = DEFAULT_TZ) {
+  const p = getLocalParts(d, tz);
+  // Date.UTC gère le débordement de mois / année
+  const next = new Date(Date.UTC(p.year, p.month - 1, p.day + 1));
+  return new Date(
+    zonedToUtcIso(next.getUTCFullYear(), next.getUTCMonth() + 1, next.getUTCDate(), 0, 0, tz)
+  );
+}
+
+/**
+ * Si la string n'a pas de timezone (ex "YYYY-MM-DDTHH:MM", valeur d'un datetime-local),
+ * on l'interprète comme heure locale de `tz`, puis on convertit en ISO UTC.
+ * Si déjà "Z" ou "+02:00" => simple normalisation.
+ */
+export function parseLocalDateTime(s: unknown, tz: string = DEFAULT_TZ): string | null {
+  if (typeof s !== "string") return null;
+  const v = s.trim();
+  if (!v) return null;
+
+  const hasTz = /Z$/.test(v) || /[+-]\d{2}:\d{2}$/.test(v) || /[+-]\d{4}$/.test(v);
+  const m = v.match(/^(\d{4})-(\d{2})-(\d{2})(?:T| )(\d{2}):(\d{2})(?::(\d{2}))?$/);
+
+  if (!hasTz && m) {
+    const [y, mo, d, hh, mm] = [m[1], m[2], m[3], m[4], m[5]].map(Number);
+    if ([y, mo, d, hh, mm].some((n) => !Number.isFinite(n))) return null;
+    return zonedToUtcIso(y, mo, d, hh, mm, tz);
+  }
+
+  const t = Date.parse(v);
+  if (Number.isNaN(t)) return null;
+  return new Date(t).toISOString();
+}
+
+/** ISO => "YYYY-MM-DDTHH:MM" en heure locale de `tz` (pour <input type="datetime-local">). */
+export function toLocalDateTimeInput(iso: string, tz: string = DEFAULT_TZ) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  const p = getLocalParts(d, tz);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+export function parseTimeToMinutes(t: string) {
+  // formats possibles: "HH:MM:SS" ou "HH:MM"
+  const [hh, mm] = String(t ?? "").split(":");
+  const h = Number(hh ?? "0");
+  const m = Number(mm ?? "0");
+  return h * 60 + m;
+}
+
+/* =========================
+   Planning hebdo
+========================= */
+
+export function isTimeString(v: string) {
+  // accepte HH:MM ou HH:MM:SS
+  return /^\d{2}:\d{2}(:\d{2})?$/.test(String(v ?? "").trim());
+}
+
+const WEEKDAY_LABELS = ["", "Lundi", "Mardi", "Mercredi", "Jeudi", "Vendredi", "Samedi", "Dimanche"];
+
+/**
+ * Validation commune du planning hebdo (UI planner + routes owner).
+ * Plusieurs plages par jour: OK si elles ne se chevauchent pas (des plages bout à bout sont acceptées).
+ * Retourne un message d'erreur, ou null si OK.
+ */
+export function validateWeeklySlots(slots: WeeklySlot[]): string | null {
+  for (const s of slots) {
+    if (!s || typeof s.weekday !== "number") return "slots invalides";
+    if (s.weekday < 1 || s.weekday > 7) return "weekday invalide";
+    if (!isTimeString(s.start_time) || !isTimeString(s.end_time)) return "Heures invalides";
+    if (s.enabled && parseTimeToMinutes(s.end_time) <= parseTimeToMinutes(s.start_time)) {
+      return "end_time doit être après start_time";
+    }
+  }
+
+  for (let weekday = 1; weekday <= 7; weekday++) {
+    const day = slots
+      .filter((s) => s.weekday === weekday && !!s.enabled)
+      .sort((a, b) => parseTimeToMinutes(a.start_time) - parseTimeToMinutes(b.start_time));
+
+    for (let i = 1; i < day.length; i++) {
+      const prev = day[i - 1];
+      const cur = day[i];
+      if (parseTimeToMinutes(cur.start_time) < parseTimeToMinutes(prev.end_time)) {
+        return `Chevauchement ${WEEKDAY_LABELS[weekday]} : ${prev.start_time}-${prev.end_time} chevauche ${cur.start_time}-${cur.end_time}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/** Validation commune des exceptions datées (UI planner + route owner). */
+export function validateOverride(o: AvailabilityOverride): string | null {
+  if (!o || !isYmd(o.date)) return "Date invalide";
+  if (!o.enabled) return null;
+  if (!isTimeString(o.start_time) || !isTimeString(o.end_time)) return "Heures invalides";
+  if (parseTimeToMinutes(o.end_time) <= parseTimeToMinutes(o.start_time)) {
+    return "end_time doit être après start_time";
+  }
+  return null;
+}
+
+/** Exceptions d'un jour local => slots équivalents (même logique de couverture que l'hebdo). */
+function overridesAsSlots(overrides: AvailabilityOverride[], ymd: string, weekday: number): WeeklySlot[] | null {
+  const rows = overrides.filter((o) => o.date === ymd);
+  if (rows.length === 0) return null;
+  return rows.map((o) => ({ weekday, start_time: o.start_time, end_time: o.end_time, enabled: !!o.enabled }));
+}
+
+/**
+ * Le segment [startMin, endMin] du jour est-il couvert par les plages du jour ?
+ * Les plages bout à bout (07:00-08:30 + 08:30-10:00) sont fusionnées avant le test.
+ */
+export function isWithinDaySlots(weekday: number, startMin: number, endMin: number, slots: WeeklySlot[]) {
+  const daySlots = slots
+    .filter((s) => s.weekday === weekday && !!s.enabled)
+    .map((s) => {
+      const start = parseTimeToMinutes(s.start_time);
+      const end = parseTimeToMinutes(s.end_time);
+      // Un slot qui finit à 23:59 couvre jusqu'à 24:00 (usage classique pour "24/24")
+      return { start, end: end === DAY_MINUTES - 1 ? DAY_MINUTES : end };
+    })
+    .filter((s) => Number.isFinite(s.start) && Number.isFinite(s.end) && s.end > s.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const s of daySlots) {
+    const last = merged[merged.length - 1];
+    if (last && s.start <= last.end) last.end = Math.max(last.end, s.end);
+    else merged.push({ ...s });
+  }
+
+  return merged.some((s) => s.start <= startMin && s.end >= endMin);
+}
+
+/**
+ * Découpe la réservation en segments par jour local (minuit local exact, DST inclus),
+ * et vérifie que chaque segment est couvert par un slot de disponibilité.
+ * Un jour avec exception datée utilise l'exception; un jour sans exception ni planning hebdo est ouvert.
+ */
+export function isBookingCoveredByAvailability(
+  startISO: string,
+  endISO: string,
+  slots: WeeklySlot[],
+  tz: string = DEFAULT_TZ,
+  overrides: AvailabilityOverride[] = []
+) {
+  const start = new Date(startISO);
+  const end = new Date(endISO);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) return false;
+  if (end.getTime() <= start.getTime()) return false;
+
+  let cursor = start;
+  let guard = 0;
+
+  while (cursor.getTime() < end.getTime()) {
+    if (++guard > 400) return false; // safety (~1 an)
+
+    const midnight = nextLocalMidnight(cursor, tz);
+    const segEnd = midnight.getTime() < end.getTime() ? midnight : end;
+
+    const startParts = getLocalParts(cursor, tz);
+    if (startParts.weekday < 1 || startParts.weekday > 7) return false;
+
+    // segment qui s'arrête pile à minuit => 24:00 pour le jour courant
+    const segEndMin =
+      segEnd.getTime() === midnight.getTime() ? DAY_MINUTES : getLocalParts(segEnd, tz).minutes;
+
+    if (segEndMin <= startParts.minutes) return false;
+
+    const daySlots = overridesAsSlots(overrides, startParts.ymd, startParts.weekday) ?? slots;
+    const open = daySlots.length === 0 && slots.length === 0;
+
+    if (!open && !isWithinDaySlots(startParts.weekday, startParts.minutes, segEndMin, daySlots)) return false;
+
+    cursor = segEnd;
+  }
+
+  return true;
+}
+
+/* =========================
+   Verdict
+========================= */
+
+function overlapsRange(row: TimeInterval, startMs: number, endMs: number) {
+  const s = Date.parse(row.start_time);
+  const e = Date.parse(row.end_time);
+  if (Number.isNaN(s) || Number.isNaN(e)) return false;
+  return s < endMs && e > startMs;
+}
+
+function refuse(code: AvailabilityCode): AvailabilityVerdict {
+  return { available: false, code, reason: AVAILABILITY_REASONS[code] };
+}
+
+/**
+ * Évalue la disponibilité à partir de données déjà chargées (pur, testable).
+ * Le planning hebdo est lu dans le fuseau de la place (sauf `opts.tz` explicite).
+ * Règle planning:
+ * - 0 ligne => fallback legacy (ouvert)
+ * - ≥1 ligne => planning configuré => obligatoire (même si tout OFF)
+ */
+export function evaluateAvailability(
+  data: AvailabilityData,
+  startISO: string,
+  endISO: string,
+  opts?: { planningEnabled?: boolean; tz?: string } & RebookOptions
+): AvailabilityVerdict {
+  const planningEnabled = opts?.planningEnabled ?? true;
+  const tz = opts?.tz ?? resolveTimeZone(data.parking?.timezone);
+
+  if (!data.parking) return refuse("PARKING_NOT_FOUND");
+  if (data.parking.is_active === false) return refuse("PARKING_OFF");
+
+  const startMs = Date.parse(startISO);
+  const endMs = Date.parse(endISO);
+
+  if (planningEnabled) {
+    if (data.blackouts.some((b) => overlapsRange(b, startMs, endMs))) return refuse("BLACKOUT");
+
+    const slotRows = data.slots.filter((s) => s && typeof s.weekday === "number");
+    const overrides = data.overrides ?? [];
+
+    if (slotRows.length > 0 || overrides.length > 0) {
+      const anyOpen = slotRows.some((s) => !!s.enabled) || overrides.some((o) => !!o.enabled);
+      if (slotRows.length > 0 && !anyOpen) return refuse("CLOSED");
+      if (!isBookingCoveredByAvailability(startISO, endISO, slotRows, tz, overrides)) {
+        return refuse("OUTSIDE_AVAILABILITY");
+      }
+    }
+  }
+
+  const others = opts?.ignoreBookingId ? data.bookings.filter((b) => b.id !== opts.ignoreBookingId) : data.bookings;
+  const found = findFreeSpot({ ...data, bookings: others }, startMs, endMs, opts?.preferSpot);
+  if ("code" in found) return refuse(found.code);
+
+  return { available: true, spot: found.spot };
+}
+
+/**
+ * Première place numérotée libre sur [startMs, endMs[ (réservations + battements).
+ * Les réservations sur une place > capacité (capacité réduite depuis) ne bloquent plus.
+ */
+function findFreeSpot(
+  data: AvailabilityData,
+  startMs: number,
+  endMs: number,
+  preferSpot?: number
+): { spot: number } | { code: "BOOKING_OVERLAP" | "BUFFER_CONFLICT" | "FULLY_BOOKED" } {
+  const capacity = getCapacity(data.parking);
+  // zones bloquées (réservation + battements) de part et d'autre
+  const mine = blockedRange(startMs, endMs, getBuffers(data.parking));
+  let taken = 0;
+
+  const order = Array.from({ length: capacity }, (_, i) => i + 1);
+  if (preferSpot && preferSpot <= capacity) order.sort((a, b) => Number(b === preferSpot) - Number(a === preferSpot));
+
+  for (const spot of order) {
+    const onSpot = data.bookings.filter((b) => spotOf(b) === spot);
+
+    if (onSpot.some((b) => overlapsRange(b, startMs, endMs))) {
+      taken++;
+      continue;
+    }
+
+    const tooClose = onSpot.some((b) => {
+      const r = toMsRange(b);
+      if (!r) return false;
+      const other = blockedRange(r.s, r.e, getBuffers(b));
+      return other.s < mine.e && other.e > mine.s;
+    });
+    if (!tooClose) return { spot };
+  }
+
+  if (taken < capacity) return { code: "BUFFER_CONFLICT" };
+  return { code: capacity > 1 ? "FULLY_BOOKED" : "BOOKING_OVERLAP" };
+}
+
+/* =========================
+   Fenêtres libres
+========================= */
+
+export type FreeWindow = { start: string; end: string };
+
+type MsRange = { s: number; e: number };
+
+function mergeRanges(ranges: MsRange[]): MsRange[] {
+  const sorted = ranges.filter((r) => r.e > r.s).sort((a, b) => a.s - b.s);
+  const out: MsRange[] = [];
+  for (const r of sorted) {
+    const last = out[out.length - 1];
+    // adjacent (ex: 23:59/24:00 puis 00:00) => fusion pour les séjours multi-jours
+    if (last && r.s <= last.e) last.e = Math.max(last.e, r.e);
+    else out.push({ ...r });
+  }
+  return out;
+}
+
+function subtractRanges(base: MsRange[], holes: MsRange[]): MsRange[] {
+  let out = base;
+  for (const h of mergeRanges(holes)) {
+    const next: MsRange[] = [];
+    for (const r of out) {
+      if (h.e <= r.s || h.s >= r.e) {
+        next.push(r);
+        continue;
+      }
+      if (h.s > r.s) next.push({ s: r.s, e: h.s });
+      if (h.e < r.e) next.push({ s: h.e, e: r.e });
+    }
+    out = next;
+  }
+  return out;
+}
+
+function toMsRange(row: TimeInterval): MsRange | null {
+  const s = Date.parse(row.start_time);
+  const e = Date.parse(row.end_time);
+  if (Number.isNaN(s) || Number.isNaN(e)) return null;
+  return { s, e };
+}
+
+/**
+ * Plages d'ouverture (exceptions datées, sinon planning hebdo) sur [from, to[, en UTC.
+ * Un slot qui finit à 23:59 est étendu jusqu'à minuit (même convention que la couverture).
+ */
+function scheduleOpenRanges(
+  slots: WeeklySlot[],
+  fromMs: number,
+  toMs: number,
+  tz: string,
+  overrides: AvailabilityOverride[] = []
+): MsRange[] {
+  const out: MsRange[] = [];
+
+  const first = getLocalParts(new Date(fromMs), tz);
+  let dayStart = new Date(zonedToUtcIso(first.year, first.month, first.day, 0, 0, tz));
+  let guard = 0;
+
+  while (dayStart.getTime() < toMs) {
+    if (++guard > 400) break;
+
+    const p = getLocalParts(dayStart, tz);
+    const midnight = nextLocalMidnight(dayStart, tz);
+    const daySlots = overridesAsSlots(overrides, p.ymd, p.weekday) ?? slots;
+
+    // ni exception ni planning hebdo => journée ouverte (fallback legacy)
+    if (daySlots.length === 0) out.push({ s: dayStart.getTime(), e: midnight.getTime() });
+
+    for (const s of daySlots) {
+      if (!s.enabled) continue;
+      if (s.weekday !== p.weekday) continue;
+      const a = parseTimeToMinutes(s.start_time);
+      const b = parseTimeToMinutes(s.end_time);
+      if (!Number.isFinite(a) || !Number.isFinite(b) || b <= a) continue;
+
+      const startMs = Date.parse(zonedToUtcIso(p.year, p.month, p.day, Math.floor(a / 60), a % 60, tz));
+      const endMs =
+        b >= DAY_MINUTES - 1
+          ? midnight.getTime()
+          : Date.parse(zonedToUtcIso(p.year, p.month, p.day, Math.floor(b / 60), b % 60, tz));
+
+      out.push({ s: startMs, e: endMs });
+    }
+
+    dayStart = midnight;
+  }
+
+  return out;
+}
+
+/**
+ * Toutes les fenêtres réservables de [fromISO, toISO[ (planning − blackouts − réservations).
+ * Mêmes règles que evaluateAvailability: une fenêtre renvoyée est toujours "available".
+ */
+export function computeFreeWindows(
+  data: AvailabilityData,
+  fromISO: string,
+  toISO: string,
+  opts?: { planningEnabled?: boolean; tz?: string }
+): FreeWindow[] {
+  const planningEnabled = opts?.planningEnabled ?? true;
+  const tz = opts?.tz ?? resolveTimeZone(data.parking?.timezone);
+
+  const fromMs = Date.parse(fromISO);
+  const toMs = Date.parse(toISO);
+  if (Number.isNaN(fromMs) || Number.isNaN(toMs) || toMs <= fromMs) return [];
+
+  if (!data.parking || data.parking.is_active === false) return [];
+
+  let open: MsRange[] = [{ s: fromMs, e: toMs }];
+  const holes: MsRange[] = [];
+
+  if (planningEnabled) {
+    const slotRows = data.slots.filter((s) => s && typeof s.weekday === "number");
+    const overrides = data.overrides ?? [];
+    if (slotRows.length > 0 || overrides.length > 0) {
+      open = mergeRanges(scheduleOpenRanges(slotRows, fromMs, toMs, tz, overrides));
+    }
+    for (const b of data.blackouts) {
+      const r = toMsRange(b);
+      if (r) holes.push(r);
+    }
+  }
+
+  // une nouvelle réservation [s, e[ doit rester hors de la zone bloquée voisine, battements de la place inclus
+  const mine = getBuffers(data.parking);
+  const bookingHoles = (spot: number) => {
+    const out: MsRange[] = [];
+    for (const b of data.bookings) {
+      if (spotOf(b) !== spot) continue;
+      const r = toMsRange(b);
+      if (!r) continue;
+      const other = blockedRange(r.s, r.e, getBuffers(b));
+      out.push({ s: other.s - mine.after * 60000, e: other.e + mine.before * 60000 });
+    }
+    return out;
+  };
+
+  // fenêtres de chaque place, sans fusion entre places (une fenêtre = réservable d'un bout à l'autre)
+  const perSpot: MsRange[] = [];
+  for (let spot = 1; spot <= getCapacity(data.parking); spot++) {
+    for (const r of subtractRanges(open, [...holes, ...bookingHoles(spot)])) {
+      const clipped = { s: Math.max(r.s, fromMs), e: Math.min(r.e, toMs) };
+      if (clipped.e > clipped.s) perSpot.push(clipped);
+    }
+  }
+
+  // places identiques => mêmes fenêtres: on garde celles qui ne sont pas incluses dans une autre
+  perSpot.sort((a, b) => a.s - b.s || b.e - a.e);
+  const windows: MsRange[] = [];
+  for (const r of perSpot) {
+    if (windows.some((w) => w.s <= r.s && w.e >= r.e)) continue;
+    windows.push(r);
+  }
+
+  return windows.map((r) => ({ start: new Date(r.s).toISOString(), end: new Date(r.e).toISOString() }));
+}
+
+export type OccupancySegment = { start: string; end: string; count: number };
+
+/** Nombre de réservations simultanées par tranche (balayage), tranches à 0 omises. */
+export function computeOccupancy(rows: TimeInterval[]): OccupancySegment[] {
+  const points: Array<{ t: number; d: number }> = [];
+  for (const row of rows) {
+    const r = toMsRange(row);
+    if (!r || r.e <= r.s) continue;
+    points.push({ t: r.s, d: 1 }, { t: r.e, d: -1 });
+  }
+  points.sort((a, b) => a.t - b.t || a.d - b.d);
+
+  const out: OccupancySegment[] = [];
+  let count = 0;
+  let i = 0;
+  while (i < points.length) {
+    const t = points[i].t;
+    while (i < points.length && points[i].t === t) count += points[i++].d;
+    const next = points[i]?.t;
+    if (count <= 0 || next === undefined) continue;
+
+    const last = out[out.length - 1];
+    if (last && last.count === count && Date.parse(last.end) === t) last.end = new Date(next).toISOString();
+    else out.push({ start: new Date(t).toISOString(), end: new Date(next).toISOString(), count });
+  }
+  return out;
+}
+
+export type BlackoutRow = TimeInterval & {
+  id: string;
+  parking_id: string;
+  reason: string | null;
+  rule_id: string | null; // occurrence d'un blackout récurrent (null = ponctuel)
+};
+
+/**
+ * Blackout récurrent (parking_blackout_rules)
+ * - rrule: "FREQ=MONTHLY;BYDAY=1MO" (cf. app/lib/rrule.ts)
+ * - dtstart: premier jour local de la série
+ * - start_time / end_time: heures locales de chaque occurrence (end <= start => finit le lendemain)
+ * - exdates: jours locaux exclus de la série
+ */
+export type BlackoutRule = {
+  id: string;
+  parking_id: string;
+  rrule: string;
+  dtstart: string;
+  start_time: string;
+  end_time: string;
+  exdates: string[] | null;
+  reason: string | null;
+};
+
+/** Validation commune (route owner). Retourne un message d'erreur, ou null si OK. */
+export function validateBlackoutRule(
+  r: Pick<BlackoutRule, "rrule" | "dtstart" | "start_time" | "end_time" | "exdates">
+): string | null {
+  const parsed = parseRRule(r.rrule);
+  if (typeof parsed === "string") return parsed;
+  if (!isYmd(r.dtstart)) return "dtstart invalide (YYYY-MM-DD)";
+  if (!isTimeString(r.start_time) || !isTimeString(r.end_time)) return "Heures invalides";
+  if (parseTimeToMinutes(r.start_time) === parseTimeToMinutes(r.end_time)) return "start_time et end_time identiques";
+  if ((r.exdates ?? []).some((d) => !isYmd(d))) return "exdates invalides (YYYY-MM-DD)";
+  return null;
+}
+
+/** Occurrences d'une règle qui touchent [startISO, endISO[, dans le fuseau de la place. */
+export function expandBlackoutRule(
+  rule: BlackoutRule,
+  startISO: string,
+  endISO: string,
+  tz: string = DEFAULT_TZ
+): BlackoutRow[] {
+  const parsed = parseRRule(rule.rrule);
+  if (typeof parsed === "string") return [];
+
+  const startMs = Date.parse(startISO);
+  const endMs = Date.parse(endISO);
+  if (Number.isNaN(startMs) || Number.isNaN(endMs) || endMs <= startMs) return [];
+
+  // la veille compte: une occurrence de nuit (22:00 → 06:00) peut déborder sur la fenêtre
+  const fromYmd = getLocalParts(new Date(startMs - DAY_MINUTES * 60 * 1000), tz).ymd;
+  const toYmd = getLocalParts(new Date(endMs), tz).ymd;
+
+  const a = parseTimeToMinutes(rule.start_time);
+  const b = parseTimeToMinutes(rule.end_time);
+  const out: BlackoutRow[] = [];
+
+  for (const ymd of expandRRule(parsed, rule.dtstart, fromYmd, toYmd, rule.exdates ?? [])) {
+    const [y, m, d] = ymd.split("-").map(Number);
+    const s = zonedToUtcIso(y, m, d, Math.floor(a / 60), a % 60, tz);
+
+    let e: string;
+    if (b >= DAY_MINUTES - 1) {
+      e = nextLocalMidnight(new Date(s), tz).toISOString();
+    } else if (b <= a) {
+      const next = new Date(Date.UTC(y, m - 1, d + 1));
+      e = zonedToUtcIso(next.getUTCFullYear(), next.getUTCMonth() + 1, next.getUTCDate(), Math.floor(b / 60), b % 60, tz);
+    } else {
+      e = zonedToUtcIso(y, m, d, Math.floor(b / 60), b % 60, tz);
+    }
+
+    if (Date.parse(s) < endMs && Date.parse(e) > startMs) {
+      out.push({
+        id: `${rule.id}:${ymd}`,
+        parking_id: rule.parking_id,
+        start_time: s,
+        end_time: e,
+        reason: rule.reason,
+        rule_id: rule.id,
+      });
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Blackouts qui touchent [startISO, endISO[ pour une ou plusieurs places:
+ * ponctuels + occurrences des règles récurrentes (développées dans le fuseau de chaque place).
+ */
+export async function loadBlackouts(
+  admin: SupabaseClient,
+  parkingIds: string[],
+  startISO: string,
+  endISO: string
+): Promise<BlackoutRow[]> {
+  if (parkingIds.length === 0) return [];
+
+  const [single, rules] = await Promise.all([
+    admin
+      .from("parking_blackouts")
+      .select("id,parking_id,start_time,end_time,reason")
+      .in("parking_id", parkingIds)
+      .lt("start_time", endISO)
+      .gt("end_time", startISO),
+    admin
+      .from("parking_blackout_rules")
+      .select("id,parking_id,rrule,dtstart,start_time,end_time,exdates,reason")
+      .in("parking_id", parkingIds)
+      // marge d'un jour: le jour local de endISO peut être le lendemain du jour UTC
+      .lte("dtstart", new Date(Date.parse(endISO) + DAY_MINUTES * 60 * 1000).toISOString().slice(0, 10)),
+  ]);
+
+  const err = single.error ?? rules.error;
+  if (err) throw new Error(err.message);
+
+  const out: BlackoutRow[] = ((single.data ?? []) as Array<Omit<BlackoutRow, "rule_id">>).map((b) => ({
+    ...b,
+    rule_id: null,
+  }));
+
+  const ruleRows = (rules.data ?? []) as BlackoutRule[];
+  if (ruleRows.length > 0) {
+    const { data: zones, error: zErr } = await admin
+      .from("parkings")
+      .select("id,timezone")
+      .in("id", Array.from(new Set(ruleRows.map((r) => r.parking_id))));
+    if (zErr) throw new Error(zErr.message);
+
+    const tzById = new Map(
+      ((zones ?? []) as Array<{ id: string; timezone: string | null }>).map((z) => [z.id, resolveTimeZone(z.timezone)])
+    );
+
+    for (const r of ruleRows) {
+      out.push(...expandBlackoutRule(r, startISO, endISO, tzById.get(r.parking_id) ?? DEFAULT_TZ));
+    }
+  }
+
+  return out.sort((x, y) => Date.parse(x.start_time) - Date.parse(y.start_time));
+}
+
+/**
+ * Charge en une seule série de requêtes (5 au total) les données de plusieurs places.
+ * Throw si une requête échoue (les routes renvoient alors 500).
+ */
+export async function loadAvailabilityDataBatch(
+  admin: SupabaseClient,
+  parkingIds: string[],
+  startISO: string,
+  endISO: string
+): Promise<Map<string, AvailabilityData>> {
+  const ids = Array.from(new Set(parkingIds.filter(Boolean)));
+  const out = new Map<string, AvailabilityData>();
+  if (ids.length === 0) return out;
+
+  // jours locaux touchés: marge d'un jour de chaque côté (quel que soit le fuseau de la place)
+  const dayMs = 24 * 60 * 60 * 1000;
+  const fromYmd = new Date(Date.parse(startISO) - dayMs).toISOString().slice(0, 10);
+  const toYmd = new Date(Date.parse(endISO) + dayMs).toISOString().slice(0, 10);
+
+  // réservations voisines: marge des battements max (les deux côtés peuvent en avoir)
+  const bufferMs = 2 * MAX_BUFFER_MINUTES * 60000;
+  const bookingsFrom = new Date(Date.parse(startISO) - bufferMs).toISOString();
+  const bookingsTo = new Date(Date.parse(endISO) + bufferMs).toISOString();
+
+  const [pRes, slRes, ovRes, blackouts, bkRes] = await Promise.all([
+    admin.from("parkings").select(`id,is_active,timezone,capacity,${BUFFER_COLUMNS}`).in("id", ids),
+    admin
+      .from("parking_availability")
+      .select("parking_id,weekday,start_time,end_time,enabled")
+      .in("parking_id", ids),
+    admin
+      .from("parking_availability_overrides")
+      .select("parking_id,date,start_time,end_time,enabled")
+      .in("parking_id", ids)
+      .gte("date", fromYmd)
+      .lte("date", toYmd),
+    loadBlackouts(admin, ids, startISO, endISO),
+    admin
+      .from("bookings")
+      .select(`id,parking_id,start_time,end_time,spot_number,payment_status,hold_expires_at,${BUFFER_COLUMNS}`)
+      .in("parking_id", ids)
+      .not("status", "in", `(${NON_BLOCKING_BOOKING_STATUSES.join(",")})`)
+      .lt("start_time", bookingsTo)
+      .gt("end_time", bookingsFrom),
+  ]);
+
+  const err = pRes.error ?? slRes.error ?? ovRes.error ?? bkRes.error;
+  if (err) throw new Error(err.message);
+
+  for (const id of ids) out.set(id, { parking: null, slots: [], overrides: [], blackouts: [], bookings: [] });
+
+  for (const p of (pRes.data ?? []) as Array<
+    { id: string; is_active: boolean | null; timezone: string | null; capacity: number | null } & BufferColumns
+  >) {
+    const d = out.get(p.id);
+    if (d) d.parking = p;
+  }
+  for (const s of (slRes.data ?? []) as Array<WeeklySlot & { parking_id: string }>) {
+    out.get(s.parking_id)?.slots.push(s);
+  }
+  for (const o of (ovRes.data ?? []) as Array<AvailabilityOverride & { parking_id: string }>) {
+    out.get(o.parking_id)?.overrides.push(o);
+  }
+  for (const b of blackouts) {
+    out.get(b.parking_id)?.blackouts.push(b);
+  }
+  const nowMs = Date.now();
+  for (const b of (bkRes.data ?? []) as Array<
+    BookingInterval & { parking_id: string; payment_status: string | null; hold_expires_at: string | null }
+  >) {
+    if (isLapsedHold(b, nowMs)) continue;
+    out.get(b.parking_id)?.bookings.push(b);
+  }
+
+  return out;
+}
+
+/** Charge tout ce qu'il faut pour évaluer [startISO, endISO[ sur une place. */
+export async function loadAvailabilityData(
+  admin: SupabaseClient,
+  parkingId: string,
+  startISO: string,
+  endISO: string
+): Promise<AvailabilityData> {
+  const batch = await loadAvailabilityDataBatch(admin, [parkingId], startISO, endISO);
+  return batch.get(parkingId) ?? { parking: null, slots: [], overrides: [], blackouts: [], bookings: [] };
+}
+
+export async function checkAvailability(
+  admin: SupabaseClient,
+  parkingId: string,
+  startISO: string,
+  endISO: string,
+  opts?: RebookOptions
+): Promise<AvailabilityVerdict> {
+  const data = await loadAvailabilityData(admin, parkingId, startISO, endISO);
+  return evaluateAvailability(data, startISO, endISO, { ...opts, planningEnabled: isPlanningEnabled() });
+}
+
+/** Verdicts de plusieurs places sur la même fenêtre (listing, carte). */
+export async function checkAvailabilityBatch(
+  admin: SupabaseClient,
+  parkingIds: string[],
+  startISO: string,
+  endISO: string
+): Promise<Record<string, AvailabilityVerdict>> {
+  const batch = await loadAvailabilityDataBatch(admin, parkingIds, startISO, endISO);
+  const planningEnabled = isPlanningEnabled();
+
+  const out: Record<string, AvailabilityVerdict> = {};
+  for (const [id, data] of batch) {
+    out[id] = evaluateAvailability(data, startISO, endISO, { planningEnabled });
+  }
+  return out;
+}
@@ -0,0 +1,213 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  bookingStatusOf,
+  canTransitionPayment,
+  canTransitionStatus,
+  checkTransition,
+  paymentStatusOf,
+  paymentsTransitionableTo,
+  statusesTransitionableTo,
+  transitionBooking,
+  transitionBookings,
+  type BookingState,
+} from "@/app/lib/bookingLifecycle";
+
+function state(status: string | null, payment_status: string | null, id = "b1"): BookingState {
+  return { id, status, payment_status };
+}
+
+/** Client Supabase minimal: enregistre l'update et ses filtres, renvoie `rows` au select */
+function fakeAdmin(rows: Array<{ id: string }>, error: { message: string; code?: string } | null = null) {
+  const calls: { patch?: Record<string, unknown>; filters: Array<[string, string, unknown]> } = { filters: [] };
+  const query = {
+    update(patch: Record<string, unknown>) {
+      calls.patch = patch;
+      return query;
+    },
+    eq(column: string, value: unknown) {
+      calls.filters.push(["eq", column, value]);
+      return query;
+    },
+    is(column: string, value: unknown) {
+      calls.filters.push(["is", column, value]);
+      return query;
+    },
+    in(column: string, value: unknown) {
+      calls.filters.push(["in", column, value]);
+      return query;
+    },
+    select: async () => ({ data: error ? null : rows, error }),
+  };
+  const admin = { from: () => query } as unknown as SupabaseClient;
+  return { admin, calls };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("statuts", () => {
+  it("normalise les anciennes valeurs et refuse l'inconnu", () => {
+    expect(bookingStatusOf(" CONFIRMED ")).toBe("confirmed");
+    expect(bookingStatusOf("paid")).toBeNull();
+    expect(bookingStatusOf(null)).toBeNull();
+    expect(paymentStatusOf("Refunding")).toBe("refunding");
+    expect(paymentStatusOf("confirmed")).toBeNull();
+  });
+});
+
+describe("tables de transitions", () => {
+  it("suit le parcours d'une réservation payée", () => {
+    expect(canTransitionStatus("pending", "pending_payment")).toBe(true);
+    expect(canTransitionStatus("pending_payment", "confirmed")).toBe(true);
+    expect(canTransitionStatus("confirmed", "in_progress")).toBe(true);
+    expect(canTransitionStatus("in_progress", "completed")).toBe(true);
+    // paiement arrivé après la fin du hold
+    expect(canTransitionStatus("expired", "confirmed")).toBe(true);
+  });
+
+  it("garde les statuts finaux", () => {
+    for (const to of ["confirmed", "pending", "expired"] as const) {
+      expect(canTransitionStatus("cancelled", to)).toBe(false);
+      expect(canTransitionStatus("completed", to)).toBe(false);
+      expect(canTransitionStatus("declined", to)).toBe(false);
+    }
+    expect(canTransitionStatus("in_progress", "cancelled")).toBe(false);
+    expect(canTransitionPayment("refunded", "paid")).toBe(false);
+    expect(canTransitionPayment("voided", "paid")).toBe(false);
+  });
+
+  it("accepte une transition vers le même statut", () => {
+    expect(canTransitionStatus("completed", "completed")).toBe(true);
+    expect(canTransitionPayment("refunded", "refunded")).toBe(true);
+  });
+
+  it("suit le paiement: autorisation, capture, remboursement et retour arrière", () => {
+    expect(canTransitionPayment("unpaid", "refunding")).toBe(true);
+    expect(canTransitionPayment("authorized", "capturing")).toBe(true);
+    expect(canTransitionPayment("capturing", "authorized")).toBe(true);
+    expect(canTransitionPayment("refunding", "paid")).toBe(true);
+    expect(canTransitionPayment("unpaid", "refunded")).toBe(false);
+    expect(canTransitionPayment("paid", "unpaid")).toBe(false);
+  });
+
+  it("liste les statuts qui peuvent passer à un statut cible", () => {
+    expect(statusesTransitionableTo("expired")).toEqual(["pending", "pending_payment", "requested", "expired"]);
+    expect(statusesTransitionableTo("completed", ["confirmed", "in_progress", "cancelled"])).toEqual([
+      "confirmed",
+      "in_progress",
+    ]);
+    expect(paymentsTransitionableTo("refunded")).toEqual(["paid", "refunding", "refunded"]);
+  });
+});
+
+describe("checkTransition", () => {
+  it("vérifie statut et paiement ensemble", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(checkTransition(state("pending_payment", "unpaid"), { status: "confirmed", payment_status: "paid" }, "t")).toEqual({
+      ok: true,
+    });
+    expect(checkTransition(state("cancelled", "unpaid"), { status: "confirmed", payment_status: "paid" }, "t")).toEqual({
+      ok: false,
+      code: "ILLEGAL_TRANSITION",
+      detail: "status cancelled -> confirmed, payment unpaid -> paid",
+    });
+    expect(checkTransition(state("confirmed", "refunded"), { payment_status: "paid" }, "t").ok).toBe(false);
+  });
+
+  it("refuse une cible sur un statut inconnu (ligne legacy) et logge la source", () => {
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(checkTransition(state(null, "unpaid"), { status: "expired" }, "job:test").ok).toBe(false);
+    expect(log).toHaveBeenCalledWith(expect.stringContaining("source=job:test"));
+    // sans cible de statut, un statut inconnu ne bloque pas
+    expect(checkTransition(state(null, "paid"), { payment_status: "refunding" }, "t").ok).toBe(true);
+  });
+
+  it("ne revient à requested que sur une capture qui échoue", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const back = { status: "requested", payment_status: "authorized" } as const;
+
+    expect(checkTransition(state("confirmed", "capturing"), back, "t").ok).toBe(true);
+    expect(checkTransition(state("confirmed", "paid"), back, "t").ok).toBe(false);
+    expect(checkTransition(state("confirmed", "capturing"), { status: "requested" }, "t").ok).toBe(false);
+  });
+});
+
+describe("transitionBooking", () => {
+  it("conditionne l'update sur le statut lu et les colonnes de `match`", async () => {
+    const { admin, calls } = fakeAdmin([{ id: "b1" }]);
+
+    const res = await transitionBooking(
+      admin,
+      state("confirmed", "paid"),
+      {},
+      { source: "t", patch: { total_price: 12 }, match: { start_time: "2026-06-01T08:00:00Z" } }
+    );
+
+    expect(res).toEqual({ ok: true });
+    expect(calls.patch).toEqual({ total_price: 12 });
+    expect(calls.filters).toEqual([
+      ["eq", "id", "b1"],
+      ["eq", "start_time", "2026-06-01T08:00:00Z"],
+      ["eq", "status", "confirmed"],
+      ["eq", "payment_status", "paid"],
+    ]);
+  });
+
+  it("renvoie CONFLICT quand la ligne a changé entre-temps", async () => {
+    const { admin } = fakeAdmin([]);
+
+    const res = await transitionBooking(admin, state("pending", "unpaid"), { status: "expired" }, { source: "t" });
+    expect(res).toMatchObject({ ok: false, code: "CONFLICT" });
+  });
+
+  it("remonte le code Postgres (ex: contrainte d'exclusion)", async () => {
+    const { admin } = fakeAdmin([], { message: "conflicting key value", code: "23P01" });
+
+    const res = await transitionBooking(admin, state("expired", "unpaid"), { status: "confirmed" }, { source: "t" });
+    expect(res).toEqual({ ok: false, code: "DB_ERROR", detail: "conflicting key value", dbCode: "23P01" });
+  });
+
+  it("n'écrit rien sur une transition illégale", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { admin, calls } = fakeAdmin([{ id: "b1" }]);
+
+    const res = await transitionBooking(admin, state("cancelled", "refunded"), { status: "confirmed" }, { source: "t" });
+    expect(res).toMatchObject({ ok: false, code: "ILLEGAL_TRANSITION" });
+    expect(calls.patch).toBeUndefined();
+  });
+});
+
+describe("transitionBookings", () => {
+  it("écarte les lignes illégales et conditionne l'update sur les statuts lus", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { admin, calls } = fakeAdmin([{ id: "b1" }]);
+
+    const res = await transitionBookings(
+      admin,
+      [state("pending", "unpaid", "b1"), state("pending_payment", "unpaid", "b2"), state("cancelled", "unpaid", "b3")],
+      { status: "expired" },
+      { source: "t" }
+    );
+
+    // b2 modifiée entre-temps: absente des ids mis à jour
+    expect(res).toEqual({ ok: true, ids: ["b1"], rejected: ["b3"] });
+    expect(calls.filters).toEqual([
+      ["in", "id", ["b1", "b2"]],
+      ["in", "status", ["pending", "pending_payment"]],
+      ["in", "payment_status", ["unpaid"]],
+    ]);
+  });
+
+  it("n'écrit rien quand aucune ligne n'est légale", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { admin, calls } = fakeAdmin([]);
+
+    const res = await transitionBookings(admin, [state("completed", "paid")], { status: "expired" }, { source: "t" });
+    expect(res).toEqual({ ok: true, ids: [], rejected: ["b1"] });
+    expect(calls.patch).toBeUndefined();
+  });
+});
@@ -0,0 +1,228 @@
+// app/lib/bookingLifecycle.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Cycle de vie d'une réservation (bookings.status × bookings.payment_status)
+ * - statuts typés + normalisation (les anciennes lignes peuvent être en majuscules)
+ * - transitions autorisées, vérifiées AVANT chaque écriture (transitionBooking)
+ * - transition illégale (ex: webhook tardif qui confirme une réservation annulée) => refusée + loggée
+ *
+ *   pending ─┬─> pending_payment ─┬─> confirmed ─┬─> in_progress ──> completed
+ *            │                    │               ├─> completed (fin passée sans check-in)
+ *            │                    │               └─> cancelled
+ *            │                    ├─> cancelled
+ *            │                    └─> expired ──> confirmed (paiement arrivé après la fin du hold, place libre)
+ *   requested ─> confirmed | declined | expired | cancelled
+ *
+ *   unpaid ─> authorized ─> capturing ─> paid ─> refunding ─> refunded
+ *         └─> paid      └─> voided             └─> refunded
+ */
+
+export const BOOKING_STATUSES = [
+  "pending",
+  "pending_payment",
+  "requested",
+  "confirmed",
+  "in_progress",
+  "completed",
+  "cancelled",
+  "expired",
+  "declined",
+] as const;
+
+export type BookingStatus = (typeof BOOKING_STATUSES)[number];
+
+export const PAYMENT_STATUSES = [
+  "unpaid",
+  "authorized",
+  "capturing",
+  "paid",
+  "voided",
+  "refunding",
+  "refunded",
+] as const;
+
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+const BOOKING_TRANSITIONS: Record<BookingStatus, readonly BookingStatus[]> = {
+  pending: ["pending_payment", "confirmed", "cancelled", "expired"],
+  pending_payment: ["confirmed", "cancelled", "expired"],
+  requested: ["confirmed", "declined", "expired", "cancelled"],
+  // confirmed -> requested: uniquement pour annuler une acceptation dont la capture a échoué (voir checkTransition)
+  confirmed: ["in_progress", "completed", "cancelled", "requested"],
+  // check-in (client ou job) puis check-out (client ou job à la fin du créneau)
+  in_progress: ["completed"],
+  completed: [],
+  // hold libéré puis paiement reçu: la réservation est reprise si le créneau est encore libre
+  expired: ["confirmed"],
+  cancelled: [],
+  declined: [],
+};
+
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, readonly PaymentStatus[]> = {
+  // unpaid -> refunding: paiement reçu pour une réservation qui ne peut plus être confirmée
+  unpaid: ["authorized", "paid", "refunding"],
+  authorized: ["capturing", "paid", "voided"],
+  capturing: ["paid", "authorized"],
+  paid: ["refunding", "refunded"],
+  // refunding -> paid: remboursement impossible (échec Stripe / PaymentIntent manquant)
+  refunding: ["refunded", "paid"],
+  refunded: [],
+  voided: [],
+};
+
+export function bookingStatusOf(v: unknown): BookingStatus | null {
+  const s = String(v ?? "").trim().toLowerCase();
+  return (BOOKING_STATUSES as readonly string[]).includes(s) ? (s as BookingStatus) : null;
+}
+
+export function paymentStatusOf(v: unknown): PaymentStatus | null {
+  const s = String(v ?? "").trim().toLowerCase();
+  return (PAYMENT_STATUSES as readonly string[]).includes(s) ? (s as PaymentStatus) : null;
+}
+
+export function canTransitionStatus(from: BookingStatus, to: BookingStatus) {
+  return from === to || BOOKING_TRANSITIONS[from].includes(to);
+}
+
+export function canTransitionPayment(from: PaymentStatus, to: PaymentStatus) {
+  return from === to || PAYMENT_TRANSITIONS[from].includes(to);
+}
+
+/** Statuts (parmi `among`) qui peuvent passer à `to`: filtre des mises à jour groupées */
+export function statusesTransitionableTo(to: BookingStatus, among: readonly BookingStatus[] = BOOKING_STATUSES) {
+  return among.filter((s) => canTransitionStatus(s, to));
+}
+
+/** Idem pour payment_status */
+export function paymentsTransitionableTo(to: PaymentStatus, among: readonly PaymentStatus[] = PAYMENT_STATUSES) {
+  return among.filter((p) => canTransitionPayment(p, to));
+}
+
+export type BookingState = { id: string; status: string | null; payment_status: string | null };
+
+// colonnes à lire avant une transition (select)
+export const BOOKING_STATE_COLUMNS = "id,status,payment_status";
+
+export type TransitionTarget = { status?: BookingStatus; payment_status?: PaymentStatus };
+
+export type TransitionResult =
+  | { ok: true }
+  | { ok: false; code: "ILLEGAL_TRANSITION" | "CONFLICT"; detail: string }
+  | { ok: false; code: "DB_ERROR"; detail: string; dbCode?: string };
+
+function describe(current: BookingState, target: TransitionTarget) {
+  const st = `${current.status ?? "—"} -> ${target.status ?? current.status ?? "—"}`;
+  const pay = `${current.payment_status ?? "—"} -> ${target.payment_status ?? current.payment_status ?? "—"}`;
+  return `status ${st}, payment ${pay}`;
+}
+
+/**
+ * Vérifie une transition sans écrire (ex: refuser une action avant un appel Stripe).
+ * Une transition illégale est loggée avec sa source.
+ */
+export function checkTransition(
+  current: BookingState,
+  target: TransitionTarget,
+  source: string
+): { ok: true } | { ok: false; code: "ILLEGAL_TRANSITION"; detail: string } {
+  const fromStatus = bookingStatusOf(current.status);
+  const fromPayment = paymentStatusOf(current.payment_status);
+
+  let legal = true;
+  if (target.status) legal = !!fromStatus && canTransitionStatus(fromStatus, target.status);
+  if (legal && target.payment_status) legal = !!fromPayment && canTransitionPayment(fromPayment, target.payment_status);
+
+  // retour à "requested": seulement une capture en cours qui échoue
+  if (legal && fromStatus === "confirmed" && target.status === "requested") {
+    legal = fromPayment === "capturing" && target.payment_status === "authorized";
+  }
+
+  if (legal) return { ok: true };
+
+  const detail = describe(current, target);
+  console.error(`[booking-lifecycle] illegal transition booking=${current.id} (${detail}) source=${source}`);
+  return { ok: false, code: "ILLEGAL_TRANSITION", detail };
+}
+
+/**
+ * Transition gardée d'une réservation:
+ * 1) transition vérifiée (checkTransition)
+ * 2) update conditionnel sur le statut lu (status + payment_status): un changement concurrent => CONFLICT
+ * `patch` = colonnes annexes écrites avec la transition (dates, ids Stripe, motif...)
+ * `match` = autres colonnes qui doivent encore valoir la valeur lue (ex: créneau avant modification)
+ */
+export async function transitionBooking(
+  admin: SupabaseClient,
+  current: BookingState,
+  target: TransitionTarget,
+  opts: { source: string; patch?: Record<string, unknown>; match?: Record<string, string | number> }
+): Promise<TransitionResult> {
+  const check = checkTransition(current, target, opts.source);
+  if (!check.ok) return check;
+
+  let q = admin
+    .from("bookings")
+    .update({ ...(opts.patch ?? {}), ...target })
+    .eq("id", current.id);
+  for (const [column, value] of Object.entries(opts.match ?? {})) q = q.eq(column, value);
+  q = current.status === null ? q.is("status", null) : q.eq("status", current.status);
+  q = current.payment_status === null ? q.is("payment_status", null) : q.eq("payment_status", current.payment_status);
+
+  const { data, error } = await q.select("id");
+
+  if (error) return { ok: false, code: "DB_ERROR", detail: error.message, dbCode: error.code };
+  if (!data || data.length === 0) {
+    return { ok: false, code: "CONFLICT", detail: `Réservation modifiée entre-temps (${describe(current, target)})` };
+  }
+  return { ok: true };
+}
+
+export type BatchTransitionResult =
+  | { ok: true; ids: string[]; rejected: string[] }
+  | { ok: false; code: "DB_ERROR"; detail: string; dbCode?: string };
+
+/**
+ * Même transition pour plusieurs réservations (jobs, webhooks de série / location):
+ * 1) chaque ligne lue est vérifiée (checkTransition): les illégales sont loggées et ignorées (rejected)
+ * 2) un seul update, conditionné sur les statuts lus des lignes légales
+ * ids = réservations réellement mises à jour (une ligne modifiée entre-temps n'y figure pas)
+ */
+export async function transitionBookings(
+  admin: SupabaseClient,
+  rows: BookingState[],
+  target: TransitionTarget,
+  opts: { source: string; patch?: Record<string, unknown> }
+): Promise<BatchTransitionResult> {
+  const legal = rows.filter((r) => checkTransition(r, target, opts.source).ok);
+  const rejected = rows.filter((r) => !legal.includes(r)).map((r) => r.id);
+  if (legal.length === 0) return { ok: true, ids: [], rejected };
+
+  const statuses = Array.from(new Set(legal.map((r) => r.status)));
+  const payments = Array.from(new Set(legal.map((r) => r.payment_status)));
+
+  // statut NULL (lignes legacy) jamais légal: checkTransition l'a déjà écarté quand il est ciblé
+  let q = admin
+    .from("bookings")
+    .update({ ...(opts.patch ?? {}), ...target })
+    .in("id", legal.map((r) => r.id));
+  if (!statuses.includes(null)) q = q.in("status", statuses as string[]);
+  if (!payments.includes(null)) q = q.in("payment_status", payments as string[]);
+
+  const { data, error } = await q.select("id");
+  if (error) return { ok: false, code: "DB_ERROR", detail: error.message, dbCode: error.code };
+
+  return { ok: true, ids: ((data ?? []) as Array<{ id: string }>).map((b) => b.id), rejected };
+}
+
+/** Statut courant (pour une transition depuis un événement externe: webhook, job) */
+export async function loadBookingState(admin: SupabaseClient, bookingId: string): Promise<BookingState | null> {
+  const { data, error } = await admin
+    .from("bookings")
+    .select(BOOKING_STATE_COLUMNS)
+    .eq("id", bookingId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return (data as BookingState | null) ?? null;
+}
@@ -0,0 +1,230 @@
+// app/lib/bookingModifications.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { BUFFER_COLUMNS, PG_EXCLUSION_VIOLATION, getBuffers, type BufferColumns } from "@/app/lib/availability";
+import { sendEmail, bookingModifiedEmailHtml } from "@/app/lib/mailer";
+import { releaseExpiredHolds } from "@/app/lib/holds";
+import { bookingStatusOf, paymentStatusOf, transitionBooking, type BookingState } from "@/app/lib/bookingLifecycle";
+
+/**
+ * Modifications de réservation (table booking_modifications)
+ * - créées par /api/bookings/:id/modify
+ * - appliquées ici: directement (remboursement / même prix) ou par le webhook Stripe (supplément payé)
+ * La réservation n'est touchée qu'à l'application => un supplément non payé ne change rien.
+ */
+
+export type BookingModificationStatus = "pending_payment" | "applied" | "failed" | "expired";
+
+export type BookingModificationRow = {
+  id: string;
+  booking_id: string;
+  old_start_time: string;
+  old_end_time: string;
+  new_start_time: string;
+  new_end_time: string;
+  new_spot_number: number;
+  old_total: number;
+  new_total: number;
+  currency: string;
+  status: BookingModificationStatus;
+  stripe_session_id: string | null;
+  stripe_payment_intent_id: string | null;
+  stripe_refund_id: string | null;
+  failure_reason: string | null;
+  created_at: string;
+  applied_at: string | null;
+};
+
+export const BOOKING_MODIFICATION_COLUMNS =
+  "id,booking_id,old_start_time,old_end_time,new_start_time,new_end_time,new_spot_number,old_total,new_total,currency,status,stripe_session_id,stripe_payment_intent_id,stripe_refund_id,failure_reason,created_at,applied_at";
+
+/** Différence de prix arrondie au centime (> 0 = supplément, < 0 = remboursement) */
+export function modificationDelta(m: Pick<BookingModificationRow, "old_total" | "new_total">) {
+  return Math.round((Number(m.new_total) - Number(m.old_total)) * 100) / 100;
+}
+
+export type ApplyModificationResult =
+  | { ok: true; already?: boolean; modification: BookingModificationRow }
+  | { ok: false; code: "NOT_FOUND" | "NOT_PENDING" | "BOOKING_INACTIVE" | "BOOKING_OVERLAP" | "DB_ERROR"; error: string };
+
+type ApplyModificationOptions = {
+  // supplément payé (webhook): gardé sur la modification, remboursable ensuite
+  paymentIntentId?: string | null;
+  // prix gardé après une baisse (politique d'annulation), sinon new_total
+  totalPrice?: number;
+};
+
+/** Modification refusée: "failed" + motif (le webhook rembourse alors le supplément payé) */
+async function failModification(
+  admin: SupabaseClient,
+  mod: BookingModificationRow,
+  opts: ApplyModificationOptions | undefined,
+  code: "BOOKING_INACTIVE" | "BOOKING_OVERLAP" | "DB_ERROR",
+  reason: string
+): Promise<ApplyModificationResult> {
+  await admin
+    .from("booking_modifications")
+    .update({
+      status: "failed",
+      failure_reason: reason,
+      stripe_payment_intent_id: opts?.paymentIntentId ?? mod.stripe_payment_intent_id,
+    })
+    .eq("id", mod.id);
+
+  return { ok: false, code, error: reason };
+}
+
+/**
+ * Applique la modification sur la réservation (dates, total, place, battements actuels de la place).
+ * Idempotent: une modification déjà appliquée renvoie { ok, already }.
+ * La contrainte bookings_no_overlap peut refuser (créneau pris entre la demande et le paiement).
+ * Une réservation qui n'est plus confirmée + payée (annulée pendant le Checkout du supplément),
+ * ou dont le créneau a changé depuis le devis (autre modification), est refusée.
+ */
+export async function applyBookingModification(
+  admin: SupabaseClient,
+  modificationId: string,
+  opts?: ApplyModificationOptions
+): Promise<ApplyModificationResult> {
+  const { data, error } = await admin
+    .from("booking_modifications")
+    .select(BOOKING_MODIFICATION_COLUMNS)
+    .eq("id", modificationId)
+    .maybeSingle();
+
+  if (error) return { ok: false, code: "DB_ERROR", error: error.message };
+  if (!data) return { ok: false, code: "NOT_FOUND", error: "Modification introuvable" };
+
+  const mod = data as BookingModificationRow;
+  if (mod.status === "applied") return { ok: true, already: true, modification: mod };
+  if (mod.status !== "pending_payment") {
+    return { ok: false, code: "NOT_PENDING", error: `Modification ${mod.status}` };
+  }
+
+  const { data: booking, error: bErr } = await admin
+    .from("bookings")
+    .select("id,parking_id,status,payment_status,start_time,end_time")
+    .eq("id", mod.booking_id)
+    .maybeSingle();
+
+  if (bErr) return { ok: false, code: "DB_ERROR", error: bErr.message };
+  if (!booking) return { ok: false, code: "NOT_FOUND", error: "Réservation introuvable" };
+
+  const state = booking as BookingState;
+  const st = bookingStatusOf(state.status);
+  if ((st !== "confirmed" && st !== "in_progress") || paymentStatusOf(state.payment_status) !== "paid") {
+    const reason = `Réservation ${state.status ?? "—"} / ${state.payment_status ?? "—"}`;
+    console.error(`[booking-lifecycle] modification ${mod.id} rejected on booking=${state.id} (${reason})`);
+    return failModification(admin, mod, opts, "BOOKING_INACTIVE", reason);
+  }
+
+  // ⚠️ réservation modifiée depuis le devis (autre modification appliquée): ce devis ne vaut plus
+  const slot = booking as { start_time: string; end_time: string };
+  if (
+    Date.parse(slot.start_time) !== Date.parse(mod.old_start_time) ||
+    Date.parse(slot.end_time) !== Date.parse(mod.old_end_time)
+  ) {
+    return failModification(admin, mod, opts, "BOOKING_INACTIVE", "Réservation modifiée entre-temps");
+  }
+
+  const { data: parking } = await admin
+    .from("parkings")
+    .select(`id,${BUFFER_COLUMNS}`)
+    .eq("id", (booking as { parking_id: string }).parking_id)
+    .maybeSingle();
+
+  const buffers = getBuffers(parking as BufferColumns | null);
+
+  // un hold dépassé compte encore pour la contrainte DB
+  await releaseExpiredHolds(admin, { parkingId: (booking as { parking_id: string }).parking_id });
+
+  // transition "sur place" (statut inchangé), conditionnée sur le statut et le créneau lus
+  const saved = await transitionBooking(admin, state, {}, {
+    source: "booking-modification",
+    match: { start_time: slot.start_time, end_time: slot.end_time },
+    patch: {
+      start_time: mod.new_start_time,
+      end_time: mod.new_end_time,
+      // baisse: le prix gardé (politique d'annulation), pas le nouveau tarif
+      total_price: opts?.totalPrice ?? mod.new_total,
+      spot_number: mod.new_spot_number,
+      buffer_before_minutes: buffers.before,
+      buffer_after_minutes: buffers.after,
+    },
+  });
+
+  if (!saved.ok) {
+    const overlap = saved.code === "DB_ERROR" && saved.dbCode === PG_EXCLUSION_VIOLATION;
+    const code = saved.code === "CONFLICT" ? "BOOKING_INACTIVE" : overlap ? "BOOKING_OVERLAP" : "DB_ERROR";
+    return failModification(admin, mod, opts, code, overlap ? "Créneau pris entre-temps" : saved.detail);
+  }
+
+  const appliedAt = new Date().toISOString();
+  await admin
+    .from("booking_modifications")
+    .update({
+      status: "applied",
+      applied_at: appliedAt,
+      stripe_payment_intent_id: opts?.paymentIntentId ?? mod.stripe_payment_intent_id,
+    })
+    .eq("id", mod.id);
+
+  return { ok: true, modification: { ...mod, status: "applied", applied_at: appliedAt } };
+}
+
+/** Emails client + propriétaire (best effort, n'échoue jamais). */
+export async function notifyBookingModified(admin: SupabaseClient, mod: BookingModificationRow) {
+  try {
+    const { data: booking } = await admin
+      .from("bookings")
+      .select("id,user_id,parking_id")
+      .eq("id", mod.booking_id)
+      .maybeSingle();
+    if (!booking) return;
+
+    const { data: parking } = await admin
+      .from("parkings")
+      .select("id,title,owner_id,timezone")
+      .eq("id", (booking as { parking_id: string }).parking_id)
+      .maybeSingle();
+
+    const p = parking as { title: string | null; owner_id: string; timezone: string | null } | null;
+
+    const [clientRes, ownerRes] = await Promise.all([
+      admin.auth.admin.getUserById((booking as { user_id: string }).user_id),
+      p?.owner_id ? admin.auth.admin.getUserById(p.owner_id) : Promise.resolve(null),
+    ]);
+
+    const common = {
+      parkingTitle: p?.title ?? "Place",
+      oldStartIso: mod.old_start_time,
+      oldEndIso: mod.old_end_time,
+      newStartIso: mod.new_start_time,
+      newEndIso: mod.new_end_time,
+      timeZone: p?.timezone,
+      newTotal: Number(mod.new_total),
+      delta: modificationDelta(mod),
+      currency: mod.currency,
+      bookingId: mod.booking_id,
+    };
+
+    const clientEmail = clientRes.data?.user?.email ?? null;
+    const ownerEmail = ownerRes?.data?.user?.email ?? null;
+
+    if (clientEmail) {
+      await sendEmail({
+        to: clientEmail,
+        subject: "Réservation modifiée — Parkeo",
+        html: bookingModifiedEmailHtml({ ...common, audience: "client" }),
+      });
+    }
+    if (ownerEmail) {
+      await sendEmail({
+        to: ownerEmail,
+        subject: "Un client a modifié sa réservation — Parkeo",
+        html: bookingModifiedEmailHtml({ ...common, audience: "owner" }),
+      });
+    }
+  } catch (e) {
+    console.error("Modification emails failed:", e);
+  }
+}
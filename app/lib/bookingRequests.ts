@@ -0,0 +1,190 @@
+// app/lib/bookingRequests.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { stripe } from "@/app/lib/stripe";
+import { sendEmail, bookingRequestEmailHtml } from "@/app/lib/mailer";
+import { bookingStatusOf, paymentStatusOf, transitionBooking } from "@/app/lib/bookingLifecycle";
+
+/**
+ * Réservation sur demande (parkings.booking_mode = "request")
+ * - bookings/create crée une réservation "requested" (le créneau est bloqué)
+ * - stripe/checkout autorise le paiement (capture_method manual) => payment_status "authorized"
+ * - le propriétaire accepte (capture) ou refuse (annulation de l'autorisation) via /api/owner/bookings/decision
+ * - sans réponse avant request_expires_at: le job expire-requests (app/lib/jobs.ts) annule l'autorisation
+ * Une demande jamais autorisée (Checkout abandonné) est libérée par son hold (app/lib/holds.ts).
+ */
+
+export type BookingMode = "instant" | "request";
+
+export const BOOKING_MODES: BookingMode[] = ["instant", "request"];
+
+// délai de réponse du propriétaire (borné par le début du créneau)
+export const BOOKING_REQUEST_TTL_HOURS = 24;
+
+export function normalizeBookingMode(v: unknown): BookingMode {
+  return v === "request" ? "request" : "instant";
+}
+
+/** Échéance de réponse: now + TTL, au plus tard le début de la réservation */
+export function requestExpiresAt(startIso: string, nowMs = Date.now()) {
+  const ttlEnd = nowMs + BOOKING_REQUEST_TTL_HOURS * 60 * 60 * 1000;
+  const start = Date.parse(startIso);
+  return new Date(Number.isNaN(start) ? ttlEnd : Math.min(ttlEnd, start)).toISOString();
+}
+
+export type BookingRequestRow = {
+  id: string;
+  parking_id: string;
+  user_id: string;
+  start_time: string;
+  end_time: string;
+  total_price: number | null;
+  currency: string | null;
+  status: string | null;
+  payment_status: string | null;
+  stripe_payment_intent_id: string | null;
+  request_expires_at: string | null;
+};
+
+export const BOOKING_REQUEST_COLUMNS =
+  "id,parking_id,user_id,start_time,end_time,total_price,currency,status,payment_status,stripe_payment_intent_id,request_expires_at";
+
+/**
+ * Annule une autorisation de paiement (aucun débit pour le client).
+ * Idempotent: un PaymentIntent déjà annulé (ou jamais confirmé) est ignoré.
+ */
+export async function voidAuthorization(paymentIntentId: string | null) {
+  if (!paymentIntentId) return { ok: true as const, voided: false };
+
+  try {
+    const pi = await stripe.paymentIntents.retrieve(paymentIntentId);
+    if (pi.status === "canceled") return { ok: true as const, voided: true };
+    if (pi.status === "succeeded") return { ok: false as const, error: "Paiement déjà capturé" };
+
+    await stripe.paymentIntents.cancel(paymentIntentId);
+    return { ok: true as const, voided: true };
+  } catch (e: unknown) {
+    return { ok: false as const, error: e instanceof Error ? e.message : "Stripe error" };
+  }
+}
+
+/**
+ * Clôt une demande (refus propriétaire ou expiration) puis annule l'autorisation.
+ * ⚠️ transition gardée (status = "requested" lu): une demande acceptée entre-temps n'est pas touchée.
+ * Renvoie false si la demande n'était plus en attente.
+ */
+export async function closeBookingRequest(
+  admin: SupabaseClient,
+  b: BookingRequestRow,
+  status: "declined" | "expired",
+  reason?: string | null
+): Promise<boolean> {
+  if (bookingStatusOf(b.status) !== "requested") return false;
+  const authorized = paymentStatusOf(b.payment_status) === "authorized";
+
+  const res = await transitionBooking(
+    admin,
+    b,
+    { status, ...(authorized ? { payment_status: "voided" as const } : {}) },
+    {
+      source: `booking-request:${status}`,
+      patch: {
+        decided_at: new Date().toISOString(),
+        decline_reason: status === "declined" ? reason?.trim() || null : null,
+      },
+    }
+  );
+
+  if (!res.ok) {
+    if (res.code === "DB_ERROR") throw new Error(res.detail);
+    return false;
+  }
+
+  if (authorized) {
+    const voided = await voidAuthorization(b.stripe_payment_intent_id);
+    if (!voided.ok) console.error(`Booking request ${b.id}: void failed: ${voided.error}`);
+  }
+
+  return true;
+}
+
+/** Demandes sans réponse du propriétaire (échéance dépassée). dryRun: liste seulement */
+export async function expireBookingRequests(admin: SupabaseClient, nowMs = Date.now(), dryRun = false) {
+  const nowIso = new Date(nowMs).toISOString();
+
+  const { data, error } = await admin
+    .from("bookings")
+    .select(BOOKING_REQUEST_COLUMNS)
+    .eq("status", "requested")
+    .lt("request_expires_at", nowIso);
+
+  if (error) throw new Error(error.message);
+
+  const rows = (data ?? []) as BookingRequestRow[];
+  if (dryRun) return { expired: rows.map((b) => b.id), nowIso };
+
+  const expired: string[] = [];
+  for (const b of rows) {
+    if (!(await closeBookingRequest(admin, b, "expired"))) continue;
+    expired.push(b.id);
+
+    // le client n'est prévenu que s'il avait autorisé le paiement
+    if (paymentStatusOf(b.payment_status) === "authorized") {
+      await notifyBookingRequest(admin, b, "expired");
+    }
+  }
+
+  return { expired, nowIso };
+}
+
+/** Emails best effort: nouvelle demande (propriétaire) ou décision (client) */
+export async function notifyBookingRequest(
+  admin: SupabaseClient,
+  b: BookingRequestRow,
+  event: "requested" | "accepted" | "declined" | "expired",
+  reason?: string | null
+) {
+  try {
+    const { data: parking } = await admin
+      .from("parkings")
+      .select("id,title,owner_id,timezone")
+      .eq("id", b.parking_id)
+      .maybeSingle();
+
+    const p = parking as { title: string | null; owner_id: string; timezone: string | null } | null;
+    const recipientId = event === "requested" ? p?.owner_id : b.user_id;
+    if (!recipientId) return;
+
+    const recipient = await admin.auth.admin.getUserById(recipientId);
+    const to = recipient.data?.user?.email ?? null;
+    if (!to) return;
+
+    const title = p?.title ?? "Place";
+    const subject =
+      event === "requested"
+        ? `Nouvelle demande de réservation — ${title}`
+        : event === "accepted"
+        ? "Demande acceptée — Parkeo"
+        : event === "declined"
+        ? "Demande refusée — Parkeo"
+        : "Demande expirée — Parkeo";
+
+    await sendEmail({
+      to,
+      subject,
+      html: bookingRequestEmailHtml({
+        event,
+        parkingTitle: title,
+        startTimeIso: b.start_time,
+        endTimeIso: b.end_time,
+        timeZone: p?.timezone,
+        totalPrice: b.total_price !== null ? Number(b.total_price) : null,
+        currency: b.currency,
+        bookingId: b.id,
+        expiresAtIso: b.request_expires_at,
+        reason,
+      }),
+    });
+  } catch (e) {
+    console.error("Booking request emails failed:", e);
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  cancellationPolicyOf,
+  describeCancellationPolicy,
+  refundQuote,
+  type CancellationPolicy,
+} from "@/app/lib/cancellationPolicy";
+
+const START = "2026-06-10T12:00:00.000Z";
+const HOUR = 3600 * 1000;
+
+/** Devis d'annulation `hoursBefore` heures avant le début */
+function quote(policy: CancellationPolicy, hoursBefore: number, total: number | null = 40) {
+  return refundQuote(policy, START, total, Date.parse(START) - hoursBefore * HOUR);
+}
+
+describe("refundQuote", () => {
+  it("modérée: 100 % jusqu'à 24 h avant, 50 % jusqu'à 2 h, rien ensuite", () => {
+    expect(quote("moderate", 24)).toMatchObject({ percent: 100, amountCents: 4000, amount: 40 });
+    expect(quote("moderate", 23.99)).toMatchObject({ percent: 50, amountCents: 2000 });
+    expect(quote("moderate", 2)).toMatchObject({ percent: 50 });
+    expect(quote("moderate", 1.99)).toMatchObject({ percent: 0, amountCents: 0, nextChangeAtIso: null });
+  });
+
+  it("flexible: 50 % jusqu'au début, rien une fois commencée", () => {
+    expect(quote("flexible", 2).percent).toBe(100);
+    expect(quote("flexible", 0).percent).toBe(50);
+    expect(quote("flexible", -0.01).percent).toBe(0);
+  });
+
+  it("stricte: 100 % jusqu'à 7 jours avant, 50 % jusqu'à 48 h", () => {
+    expect(quote("strict", 7 * 24).percent).toBe(100);
+    expect(quote("strict", 7 * 24 - 1).percent).toBe(50);
+    expect(quote("strict", 48).percent).toBe(50);
+    expect(quote("strict", 47).percent).toBe(0);
+  });
+
+  it("donne la date du prochain palier moins favorable", () => {
+    expect(quote("moderate", 30).nextChangeAtIso).toBe("2026-06-09T12:00:00.000Z");
+    expect(quote("moderate", 10).nextChangeAtIso).toBe("2026-06-10T10:00:00.000Z");
+  });
+
+  it("arrondit au centime inférieur (jamais plus que le payé)", () => {
+    expect(quote("moderate", 10, 33.33)).toMatchObject({ amountCents: 1666, amount: 16.66 });
+    expect(quote("moderate", 10, 0.01)).toMatchObject({ amountCents: 0 });
+  });
+
+  it("ne rembourse rien sur un montant ou une date invalides", () => {
+    expect(quote("flexible", 10, null).amountCents).toBe(0);
+    expect(quote("flexible", 10, -5).amountCents).toBe(0);
+    expect(refundQuote("flexible", "pas une date", 40)).toMatchObject({ percent: 0, amountCents: 0, nextChangeAtIso: null });
+  });
+});
+
+describe("politique d'une place", () => {
+  it("retombe sur la politique modérée pour une valeur inconnue", () => {
+    expect(cancellationPolicyOf(" Strict ")).toBe("strict");
+    expect(cancellationPolicyOf("généreuse")).toBe("moderate");
+    expect(cancellationPolicyOf(null)).toBe("moderate");
+  });
+
+  it("décrit les paliers", () => {
+    expect(describeCancellationPolicy("strict")).toEqual([
+      "Remboursement intégral jusqu'à 7 jours avant le début",
+      "Remboursement de 50 % jusqu'à 2 jours avant le début",
+      "Aucun remboursement ensuite",
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+// app/lib/cancellationPolicy.ts
+
+/**
+ * Politiques d'annulation par place (parkings.cancellation_policy)
+ * - paliers "jusqu'à X h avant le début => Y % remboursé", du plus généreux au plus strict
+ * - figée sur la réservation à sa création (bookings.cancellation_policy): un changement
+ *   de politique par le propriétaire ne s'applique qu'aux nouvelles réservations
+ * - annulation client uniquement: une annulation propriétaire rembourse toujours 100 %
+ * Fonctions pures: utilisées par /api/bookings/cancel, la fiche place et "Mes réservations".
+ */
+
+export const CANCELLATION_POLICIES = ["flexible", "moderate", "strict"] as const;
+
+export type CancellationPolicy = (typeof CANCELLATION_POLICIES)[number];
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = "moderate";
+
+type RefundTier = { minHoursBefore: number; percent: number };
+
+// ⚠️ paliers triés par minHoursBefore décroissant; après le dernier: aucun remboursement
+const POLICY_TIERS: Record<CancellationPolicy, readonly RefundTier[]> = {
+  flexible: [
+    { minHoursBefore: 2, percent: 100 },
+    { minHoursBefore: 0, percent: 50 },
+  ],
+  moderate: [
+    { minHoursBefore: 24, percent: 100 },
+    { minHoursBefore: 2, percent: 50 },
+  ],
+  strict: [
+    { minHoursBefore: 7 * 24, percent: 100 },
+    { minHoursBefore: 48, percent: 50 },
+  ],
+};
+
+export const CANCELLATION_POLICY_LABELS: Record<CancellationPolicy, string> = {
+  flexible: "Flexible",
+  moderate: "Modérée",
+  strict: "Stricte",
+};
+
+export function cancellationPolicyOf(v: unknown): CancellationPolicy {
+  const s = String(v ?? "").trim().toLowerCase();
+  return (CANCELLATION_POLICIES as readonly string[]).includes(s)
+    ? (s as CancellationPolicy)
+    : DEFAULT_CANCELLATION_POLICY;
+}
+
+export function isCancellationPolicy(v: unknown): v is CancellationPolicy {
+  return typeof v === "string" && (CANCELLATION_POLICIES as readonly string[]).includes(v);
+}
+
+function hoursLabel(h: number) {
+  if (h === 0) return "le début";
+  if (h % 24 === 0) return `${h / 24} jour${h / 24 > 1 ? "s" : ""} avant le début`;
+  return `${h}h avant le début`;
+}
+
+/** Paliers lisibles (fiche place, modale d'annulation) */
+export function describeCancellationPolicy(policy: CancellationPolicy): string[] {
+  const tiers = POLICY_TIERS[policy];
+  const lines = tiers.map((t) =>
+    t.percent === 100
+      ? `Remboursement intégral jusqu'à ${hoursLabel(t.minHoursBefore)}`
+      : `Remboursement de ${t.percent} % jusqu'à ${hoursLabel(t.minHoursBefore)}`
+  );
+  lines.push("Aucun remboursement ensuite");
+  return lines;
+}
+
+export type RefundQuote = {
+  policy: CancellationPolicy;
+  percent: number;
+  // centimes (arrondi inférieur: jamais plus que le montant payé)
+  amountCents: number;
+  amount: number;
+  // prochain palier moins favorable (null = plus rien à perdre)
+  nextChangeAtIso: string | null;
+};
+
+/** Montant remboursé si le client annule maintenant */
+export function refundQuote(
+  policy: CancellationPolicy,
+  startIso: string,
+  totalPrice: number | null,
+  nowMs = Date.now()
+): RefundQuote {
+  const startMs = Date.parse(startIso);
+  const hoursBefore = (startMs - nowMs) / (1000 * 60 * 60);
+  const tier = Number.isFinite(hoursBefore)
+    ? POLICY_TIERS[policy].find((t) => hoursBefore >= t.minHoursBefore)
+    : undefined;
+
+  const percent = tier?.percent ?? 0;
+  const totalCents = Math.max(0, Math.round(Number(totalPrice ?? 0) * 100)) || 0;
+  const amountCents = Math.floor((totalCents * percent) / 100);
+
+  return {
+    policy,
+    percent,
+    amountCents,
+    amount: amountCents / 100,
+    nextChangeAtIso: tier ? new Date(startMs - tier.minHoursBefore * 60 * 60 * 1000).toISOString() : null,
+  };
+}
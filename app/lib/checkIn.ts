@@ -0,0 +1,56 @@
+// app/lib/checkIn.ts
+import { bookingStatusOf, paymentStatusOf } from "@/app/lib/bookingLifecycle";
+
+/**
+ * Check-in / check-out client (bookings.checked_in_at / checked_out_at)
+ * - check-in: réservation confirmée + payée, à partir de CHECK_IN_EARLY_MINUTES avant le début => in_progress
+ * - check-out: réservation en cours (ou commencée sans check-in) => completed
+ * Sans action du client, les jobs mark-in-progress / mark-completed font les mêmes transitions à l'heure.
+ * Fonctions pures: utilisées par /api/bookings/[id]/check-in|check-out et par "Mes réservations".
+ */
+
+export const CHECK_IN_EARLY_MINUTES = 15;
+
+type CheckInBooking = {
+  status: string | null;
+  payment_status: string | null;
+  start_time: string;
+  end_time: string;
+  lease_id?: string | null;
+};
+
+export type CheckInVerdict = { ok: true } | { ok: false; code: string; error: string };
+
+export function checkInVerdict(b: CheckInBooking, nowMs = Date.now()): CheckInVerdict {
+  if (b.lease_id) return { ok: false, code: "LEASE_BOOKING", error: "Pas de check-in pour une location au mois" };
+
+  const st = bookingStatusOf(b.status);
+  if (st === "in_progress") return { ok: false, code: "ALREADY_CHECKED_IN", error: "Check-in déjà fait" };
+  if (st !== "confirmed" || paymentStatusOf(b.payment_status) !== "paid") {
+    return { ok: false, code: "NOT_CONFIRMED", error: "Réservation non confirmée" };
+  }
+
+  const startMs = Date.parse(b.start_time);
+  const endMs = Date.parse(b.end_time);
+  if (nowMs < startMs - CHECK_IN_EARLY_MINUTES * 60 * 1000) {
+    return { ok: false, code: "TOO_EARLY", error: `Check-in possible ${CHECK_IN_EARLY_MINUTES} min avant le début` };
+  }
+  if (nowMs >= endMs) return { ok: false, code: "ALREADY_ENDED", error: "Réservation terminée" };
+
+  return { ok: true };
+}
+
+export function checkOutVerdict(b: CheckInBooking, nowMs = Date.now()): CheckInVerdict {
+  if (b.lease_id) return { ok: false, code: "LEASE_BOOKING", error: "Pas de check-out pour une location au mois" };
+
+  const st = bookingStatusOf(b.status);
+  if (st === "completed") return { ok: false, code: "ALREADY_CHECKED_OUT", error: "Check-out déjà fait" };
+  if (st === "in_progress") return { ok: true };
+
+  // check-in oublié: on peut libérer une réservation commencée
+  if (st === "confirmed" && paymentStatusOf(b.payment_status) === "paid" && nowMs >= Date.parse(b.start_time)) {
+    return { ok: true };
+  }
+
+  return { ok: false, code: "NOT_IN_PROGRESS", error: "Réservation pas en cours" };
+}
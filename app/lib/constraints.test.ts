@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkBookingConstraints,
+  constraintsFromRow,
+  DEFAULT_BOOKING_CONSTRAINTS,
+  formatMinutes,
+  validateConstraints,
+  type BookingConstraints,
+} from "@/app/lib/constraints";
+
+const NOW = Date.parse("2026-06-01T08:00:00Z");
+const MIN = 60 * 1000;
+const DAY = 24 * 60 * MIN;
+
+const NONE: BookingConstraints = {
+  minDurationMinutes: null,
+  maxDurationMinutes: null,
+  minNoticeMinutes: null,
+  maxAdvanceDays: null,
+  slotGranularityMinutes: null,
+};
+
+function iso(ms: number) {
+  return new Date(ms).toISOString();
+}
+
+/** Réservation qui commence `startIn` après NOW et dure `minutes` */
+function check(c: Partial<BookingConstraints>, startIn: number, minutes: number, tz = "Europe/Zurich") {
+  const s = NOW + startIn;
+  return checkBookingConstraints({ ...NONE, ...c }, iso(s), iso(s + minutes * MIN), { now: NOW, tz });
+}
+
+describe("checkBookingConstraints", () => {
+  it("accepte la durée min et max pile, refuse une minute de moins ou de plus", () => {
+    const c = { minDurationMinutes: 30, maxDurationMinutes: 120 };
+
+    expect(check(c, DAY, 30)).toEqual({ ok: true });
+    expect(check(c, DAY, 120)).toEqual({ ok: true });
+    expect(check(c, DAY, 29)).toMatchObject({ ok: false, code: "DURATION_TOO_SHORT", reason: "Durée minimum : 30 min." });
+    expect(check(c, DAY, 121)).toMatchObject({ ok: false, code: "DURATION_TOO_LONG", reason: "Durée maximum : 2 h." });
+  });
+
+  it("accepte le préavis pile, refuse juste en dessous", () => {
+    expect(check({ minNoticeMinutes: 60 }, 60 * MIN, 60)).toEqual({ ok: true });
+    expect(check({ minNoticeMinutes: 60 }, 59 * MIN, 60)).toMatchObject({ code: "NOTICE_TOO_SHORT" });
+  });
+
+  it("accepte l'horizon pile, refuse juste au-delà", () => {
+    expect(check({ maxAdvanceDays: 180 }, 180 * DAY, 60)).toEqual({ ok: true });
+    expect(check({ maxAdvanceDays: 180 }, 180 * DAY + MIN, 60)).toMatchObject({ code: "TOO_FAR_AHEAD" });
+  });
+
+  it("aligne la granularité sur l'heure locale de la place", () => {
+    // Asia/Kolkata = UTC+05:30: 04:30 UTC = 10:00 locale
+    const kolkata = (start: string) =>
+      checkBookingConstraints({ ...NONE, slotGranularityMinutes: 60 }, start, iso(Date.parse(start) + 60 * MIN), {
+        now: NOW,
+        tz: "Asia/Kolkata",
+      });
+
+    expect(kolkata("2026-06-02T04:30:00Z")).toEqual({ ok: true });
+    expect(kolkata("2026-06-02T04:00:00Z")).toMatchObject({ code: "BAD_GRANULARITY" });
+  });
+
+  it("refuse un début ou une fin hors pas, y compris à la seconde près", () => {
+    expect(check({ slotGranularityMinutes: 15 }, DAY, 45)).toEqual({ ok: true });
+    expect(check({ slotGranularityMinutes: 15 }, DAY, 50)).toMatchObject({ code: "BAD_GRANULARITY" });
+    expect(check({ slotGranularityMinutes: 15 }, DAY + 1000, 45)).toMatchObject({ code: "BAD_GRANULARITY" });
+  });
+
+  it("n'impose rien sans contrainte", () => {
+    expect(check({}, MIN, 1)).toEqual({ ok: true });
+  });
+});
+
+describe("réglages propriétaire", () => {
+  it("garde les valeurs par défaut pour une colonne absente, null pour une colonne vide", () => {
+    expect(constraintsFromRow(undefined)).toEqual(DEFAULT_BOOKING_CONSTRAINTS);
+    expect(constraintsFromRow({ min_duration_minutes: null, max_advance_days: 0 })).toMatchObject({
+      minDurationMinutes: null,
+      maxAdvanceDays: null,
+      minNoticeMinutes: DEFAULT_BOOKING_CONSTRAINTS.minNoticeMinutes,
+    });
+  });
+
+  it("valide max ≥ min, la granularité et l'horizon", () => {
+    expect(validateConstraints({ ...NONE, minDurationMinutes: 60, maxDurationMinutes: 60 })).toBeNull();
+    expect(validateConstraints({ ...NONE, minDurationMinutes: 60, maxDurationMinutes: 30 })).toMatch(/durée max/);
+    expect(validateConstraints({ ...NONE, slotGranularityMinutes: 20 })).toMatch(/Granularité/);
+    expect(validateConstraints({ ...NONE, maxAdvanceDays: 731 })).toBe("Horizon max: 730 jours.");
+  });
+
+  it("formate les durées", () => {
+    expect(formatMinutes(45)).toBe("45 min");
+    expect(formatMinutes(90)).toBe("1 h 30");
+    expect(formatMinutes(120)).toBe("2 h");
+    expect(formatMinutes(2 * 24 * 60)).toBe("2 j");
+  });
+});
@@ -0,0 +1,160 @@
+// app/lib/constraints.ts
+import { DEFAULT_TZ, getLocalParts } from "@/app/lib/availability";
+
+/**
+ * Contraintes de réservation par place (serveur + client)
+ * - durée min / max
+ * - préavis minimum avant le début
+ * - horizon max (on ne réserve pas 2 ans à l'avance)
+ * - granularité: début et fin alignés sur un pas (15 min, 30 min...) en heure locale de la place
+ *
+ * ⚠️ Source de vérité = bookings/create. Le formulaire l'utilise pour prévenir avant l'envoi.
+ * null = pas de contrainte.
+ */
+
+export type BookingConstraints = {
+  minDurationMinutes: number | null;
+  maxDurationMinutes: number | null;
+  minNoticeMinutes: number | null;
+  maxAdvanceDays: number | null;
+  slotGranularityMinutes: number | null;
+};
+
+/** Colonnes parkings correspondantes (cf. supabase/migrations) */
+export type BookingConstraintsRow = {
+  min_duration_minutes?: number | null;
+  max_duration_minutes?: number | null;
+  min_notice_minutes?: number | null;
+  max_advance_days?: number | null;
+  slot_granularity_minutes?: number | null;
+};
+
+export const BOOKING_CONSTRAINTS_COLUMNS =
+  "min_duration_minutes,max_duration_minutes,min_notice_minutes,max_advance_days,slot_granularity_minutes";
+
+// ⚠️ garder aligné avec les valeurs par défaut de la migration
+export const DEFAULT_BOOKING_CONSTRAINTS: BookingConstraints = {
+  minDurationMinutes: 30,
+  maxDurationMinutes: null,
+  minNoticeMinutes: 15,
+  maxAdvanceDays: 180,
+  slotGranularityMinutes: 15,
+};
+
+export const GRANULARITY_OPTIONS = [5, 10, 15, 30, 60];
+
+export type ConstraintCode =
+  | "DURATION_TOO_SHORT"
+  | "DURATION_TOO_LONG"
+  | "NOTICE_TOO_SHORT"
+  | "TOO_FAR_AHEAD"
+  | "BAD_GRANULARITY";
+
+export type ConstraintVerdict = { ok: true } | { ok: false; code: ConstraintCode; reason: string };
+
+function positiveIntOrNull(v: unknown): number | null {
+  const n = typeof v === "number" ? v : Number(v);
+  return v !== null && v !== undefined && Number.isInteger(n) && n > 0 ? n : null;
+}
+
+/** Ligne parkings => contraintes (colonne absente = valeur par défaut, null = pas de contrainte). */
+export function constraintsFromRow(row: BookingConstraintsRow | null | undefined): BookingConstraints {
+  const pick = (v: number | null | undefined, fallback: number | null) =>
+    v === undefined ? fallback : positiveIntOrNull(v);
+
+  return {
+    minDurationMinutes: pick(row?.min_duration_minutes, DEFAULT_BOOKING_CONSTRAINTS.minDurationMinutes),
+    maxDurationMinutes: pick(row?.max_duration_minutes, DEFAULT_BOOKING_CONSTRAINTS.maxDurationMinutes),
+    minNoticeMinutes: pick(row?.min_notice_minutes, DEFAULT_BOOKING_CONSTRAINTS.minNoticeMinutes),
+    maxAdvanceDays: pick(row?.max_advance_days, DEFAULT_BOOKING_CONSTRAINTS.maxAdvanceDays),
+    slotGranularityMinutes: pick(row?.slot_granularity_minutes, DEFAULT_BOOKING_CONSTRAINTS.slotGranularityMinutes),
+  };
+}
+
+export function constraintsToRow(c: BookingConstraints): Required<BookingConstraintsRow> {
+  return {
+    min_duration_minutes: c.minDurationMinutes,
+    max_duration_minutes: c.maxDurationMinutes,
+    min_notice_minutes: c.minNoticeMinutes,
+    max_advance_days: c.maxAdvanceDays,
+    slot_granularity_minutes: c.slotGranularityMinutes,
+  };
+}
+
+/** Validation des réglages propriétaire. Retourne un message d'erreur, ou null si OK. */
+export function validateConstraints(c: BookingConstraints): string | null {
+  const min = c.minDurationMinutes;
+  const max = c.maxDurationMinutes;
+  if (min !== null && max !== null && max < min) return "La durée max doit être ≥ à la durée min.";
+  if (c.slotGranularityMinutes !== null && !GRANULARITY_OPTIONS.includes(c.slotGranularityMinutes)) {
+    return `Granularité invalide (${GRANULARITY_OPTIONS.join(", ")} min).`;
+  }
+  if (c.maxAdvanceDays !== null && c.maxAdvanceDays > 730) return "Horizon max: 730 jours.";
+  return null;
+}
+
+export function formatMinutes(min: number) {
+  if (min % (24 * 60) === 0) return `${min / (24 * 60)} j`;
+  if (min % 60 === 0) return `${min / 60} h`;
+  if (min > 60) return `${Math.floor(min / 60)} h ${String(min % 60).padStart(2, "0")}`;
+  return `${min} min`;
+}
+
+function refuse(code: ConstraintCode, reason: string): ConstraintVerdict {
+  return { ok: false, code, reason };
+}
+
+/**
+ * Vérifie une réservation [startISO, endISO[ contre les contraintes de la place.
+ * `now` injectable (tests / cohérence avec l'horloge serveur).
+ */
+export function checkBookingConstraints(
+  c: BookingConstraints,
+  startISO: string,
+  endISO: string,
+  opts?: { now?: number; tz?: string }
+): ConstraintVerdict {
+  const now = opts?.now ?? Date.now();
+  const tz = opts?.tz ?? DEFAULT_TZ;
+
+  const s = Date.parse(startISO);
+  const e = Date.parse(endISO);
+  const durationMin = Math.round((e - s) / 60000);
+
+  if (c.slotGranularityMinutes !== null) {
+    const g = c.slotGranularityMinutes;
+    const aligned = (ms: number) => ms % 60000 === 0 && getLocalParts(new Date(ms), tz).minutes % g === 0;
+    if (!aligned(s) || !aligned(e)) {
+      return refuse("BAD_GRANULARITY", `Début et fin doivent tomber sur un pas de ${g} min.`);
+    }
+  }
+
+  if (c.minDurationMinutes !== null && durationMin < c.minDurationMinutes) {
+    return refuse("DURATION_TOO_SHORT", `Durée minimum : ${formatMinutes(c.minDurationMinutes)}.`);
+  }
+
+  if (c.maxDurationMinutes !== null && durationMin > c.maxDurationMinutes) {
+    return refuse("DURATION_TOO_LONG", `Durée maximum : ${formatMinutes(c.maxDurationMinutes)}.`);
+  }
+
+  if (c.minNoticeMinutes !== null && s - now < c.minNoticeMinutes * 60000) {
+    return refuse("NOTICE_TOO_SHORT", `Réservation au moins ${formatMinutes(c.minNoticeMinutes)} avant le début.`);
+  }
+
+  if (c.maxAdvanceDays !== null && s - now > c.maxAdvanceDays * 24 * 60 * 60000) {
+    return refuse("TOO_FAR_AHEAD", `Réservation au plus ${c.maxAdvanceDays} jours à l'avance.`);
+  }
+
+  return { ok: true };
+}
+
+/** Résumé lisible des contraintes (formulaire de réservation, page place). */
+export function describeConstraints(c: BookingConstraints): string[] {
+  const out: string[] = [];
+  if (c.minDurationMinutes !== null) out.push(`Durée min ${formatMinutes(c.minDurationMinutes)}`);
+  if (c.maxDurationMinutes !== null) out.push(`Durée max ${formatMinutes(c.maxDurationMinutes)}`);
+  if (c.minNoticeMinutes !== null) out.push(`Préavis ${formatMinutes(c.minNoticeMinutes)}`);
+  if (c.maxAdvanceDays !== null) out.push(`Jusqu'à ${c.maxAdvanceDays} j à l'avance`);
+  if (c.slotGranularityMinutes !== null) out.push(`Par pas de ${c.slotGranularityMinutes} min`);
+  return out;
+}
@@ -0,0 +1,137 @@
+// app/lib/holds.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  BOOKING_STATE_COLUMNS,
+  statusesTransitionableTo,
+  transitionBookings,
+  type BookingState,
+  type BookingStatus,
+} from "@/app/lib/bookingLifecycle";
+
+/**
+ * Hold de créneau pendant le paiement (bookings.hold_expires_at)
+ * - posé à la création de la réservation (devis accepté), puis aligné sur expires_at de la session Checkout
+ * - plafonné à created_at + CHECKOUT_HOLD_MAX_MINUTES: relancer le Checkout ne repousse pas l'échéance
+ * - occurrence de série payée à l'unité: échéance de paiement fixe (occurrenceHoldExpiresAt), gardée telle quelle
+ * - dépassé => ignoré par le moteur de dispo (isLapsedHold dans availability.ts)
+ * - libéré (status "expired") par checkout.session.expired, avant chaque insert sur la place, et par le job expire-holds
+ * - sans hold (lignes anciennes): libéré à created_at + CHECKOUT_HOLD_MAX_MINUTES, comme l'ancien nettoyage
+ */
+
+// ⚠️ Stripe impose expires_at entre 30 min et 24 h après la création de la session
+export const CHECKOUT_HOLD_MINUTES = 30;
+
+// échéance fixe du hold, comptée depuis la création de la réservation
+export const CHECKOUT_HOLD_MAX_MINUTES = 60;
+
+// occurrence d'une série payée à l'unité: à payer dans ce délai après la création...
+export const OCCURRENCE_PAYMENT_DAYS = 7;
+
+// ...et au plus tard ce nombre d'heures avant son début
+export const OCCURRENCE_PAYMENT_LEAD_HOURS = 24;
+
+// statuts "en attente de paiement" qu'un hold peut tenir (une demande autorisée n'est plus "unpaid")
+export const HELD_BOOKING_STATUSES: BookingStatus[] = ["pending", "pending_payment", "requested"];
+
+/** Fin du hold (ISO) */
+export function holdExpiresAt(nowMs = Date.now()) {
+  return new Date(nowMs + CHECKOUT_HOLD_MINUTES * 60 * 1000).toISOString();
+}
+
+/** expires_at de la session Checkout (secondes Unix), +1 min de marge sur le minimum Stripe */
+export function checkoutExpiresAt(nowMs = Date.now()) {
+  return Math.floor(nowMs / 1000) + (CHECKOUT_HOLD_MINUTES + 1) * 60;
+}
+
+/** Échéance maximale du hold (ms), fixée à la création de la réservation */
+export function holdDeadlineMs(createdAtIso: string) {
+  return Date.parse(createdAtIso) + CHECKOUT_HOLD_MAX_MINUTES * 60 * 1000;
+}
+
+/**
+ * Échéance de paiement (ISO) d'une occurrence de série payée à l'unité:
+ * min(création + OCCURRENCE_PAYMENT_DAYS, début - OCCURRENCE_PAYMENT_LEAD_HOURS),
+ * au moins CHECKOUT_HOLD_MAX_MINUTES pour payer une occurrence proche, jamais après son début.
+ */
+export function occurrenceHoldExpiresAt(startIso: string, nowMs = Date.now()) {
+  const startMs = Date.parse(startIso);
+  const deadline = Math.min(
+    nowMs + OCCURRENCE_PAYMENT_DAYS * 24 * 3600 * 1000,
+    startMs - OCCURRENCE_PAYMENT_LEAD_HOURS * 3600 * 1000
+  );
+  const floor = nowMs + CHECKOUT_HOLD_MAX_MINUTES * 60 * 1000;
+  return new Date(Math.min(Math.max(deadline, floor), Math.max(startMs, nowMs))).toISOString();
+}
+
+/**
+ * Échéance fixe du hold d'une réservation (ms):
+ * - occurrence de série: son échéance de paiement (hold_expires_at, jamais repoussée)
+ * - sinon created_at + CHECKOUT_HOLD_MAX_MINUTES
+ */
+export function bookingHoldDeadlineMs(b: { created_at: string; hold_expires_at: string | null; series_id: string | null }) {
+  if (b.series_id && b.hold_expires_at) return Date.parse(b.hold_expires_at);
+  return holdDeadlineMs(b.created_at);
+}
+
+/**
+ * expires_at (secondes Unix) d'une nouvelle session Checkout qui tient le hold jusqu'à son échéance fixe.
+ * null = moins que le minimum Stripe avant l'échéance: plus de nouvelle session possible.
+ */
+export function checkoutExpiresAtWithin(deadlineMs: number, nowMs = Date.now()) {
+  const expiresAt = Math.floor(deadlineMs / 1000);
+  return expiresAt >= checkoutExpiresAt(nowMs) ? expiresAt : null;
+}
+
+/**
+ * Passe en "expired" les réservations non payées dont le hold est dépassé.
+ * Sans hold (réservations antérieures aux holds, Checkout lancé sans hold): même échéance fixe que les autres,
+ * created_at + CHECKOUT_HOLD_MAX_MINUTES (hors séries: chaque occurrence a son échéance de paiement).
+ * À appeler avant un insert / une extension: la contrainte bookings_no_overlap les voit encore.
+ * dryRun: liste seulement les réservations concernées (job expire-holds).
+ */
+export async function releaseExpiredHolds(
+  admin: SupabaseClient,
+  opts?: { parkingId?: string; nowMs?: number; dryRun?: boolean }
+): Promise<string[]> {
+  const nowMs = opts?.nowMs ?? Date.now();
+  const nowIso = new Date(nowMs).toISOString();
+
+  let lapsed = admin
+    .from("bookings")
+    .select(BOOKING_STATE_COLUMNS)
+    .in("status", statusesTransitionableTo("expired", HELD_BOOKING_STATUSES))
+    .eq("payment_status", "unpaid")
+    .lt("hold_expires_at", nowIso);
+
+  // une demande sans hold attend le propriétaire (expire-requests), pas un paiement
+  let unheld = admin
+    .from("bookings")
+    .select(BOOKING_STATE_COLUMNS)
+    .in("status", statusesTransitionableTo("expired", ["pending", "pending_payment"]))
+    .eq("payment_status", "unpaid")
+    .is("hold_expires_at", null)
+    .is("series_id", null)
+    .lt("created_at", new Date(nowMs - CHECKOUT_HOLD_MAX_MINUTES * 60 * 1000).toISOString());
+
+  if (opts?.parkingId) {
+    lapsed = lapsed.eq("parking_id", opts.parkingId);
+    unheld = unheld.eq("parking_id", opts.parkingId);
+  }
+
+  const [a, b] = await Promise.all([lapsed.limit(500), unheld.limit(500)]);
+  if (a.error) throw new Error(a.error.message);
+  if (b.error) throw new Error(b.error.message);
+
+  const rows = [...(a.data ?? []), ...(b.data ?? [])] as BookingState[];
+  if (opts?.dryRun) return rows.map((r) => r.id);
+
+  const res = await transitionBookings(admin, rows, { status: "expired" }, { source: "hold-expired" });
+  if (!res.ok) throw new Error(res.detail);
+
+  return res.ids;
+}
+
+/** Hold aligné sur la session Checkout créée (expires_at en secondes Unix) */
+export function holdFromSession(session: { expires_at: number }) {
+  return new Date(session.expires_at * 1000).toISOString();
+}
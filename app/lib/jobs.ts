@@ -0,0 +1,260 @@
+// app/lib/jobs.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { releaseExpiredHolds } from "@/app/lib/holds";
+import { expireBookingRequests } from "@/app/lib/bookingRequests";
+import { sendBookingReminders } from "@/app/lib/reminders";
+import { reconcilePayments } from "@/app/lib/reconcile";
+import {
+  BOOKING_STATE_COLUMNS,
+  statusesTransitionableTo,
+  transitionBookings,
+  type BookingState,
+} from "@/app/lib/bookingLifecycle";
+import { replayStripeEvents } from "@/app/lib/stripeEvents";
+import { applyOwnerPenalties, refreshOwnerReliability, reliabilityOwnerIds } from "@/app/lib/ownerCancellations";
+import { releasePendingEarnings } from "@/app/lib/ledger";
+
+/**
+ * Jobs planifiés (un seul point d'entrée: /api/jobs et /api/jobs/[task])
+ * - chaque tâche a un nom stable, s'exécute avec (admin, nowMs, dryRun) et renvoie { processed, ...détail }
+ * - chaque exécution est journalisée dans public.job_runs (running -> succeeded | failed)
+ * - dryRun: aucune écriture métier, le résultat liste ce qui aurait été traité
+ */
+
+export type JobName =
+  | "expire-holds"
+  | "expire-requests"
+  | "reconcile-payments"
+  | "replay-stripe-events"
+  | "send-reminders"
+  | "mark-in-progress"
+  | "mark-completed"
+  | "apply-owner-penalties"
+  | "refresh-owner-reliability";
+
+export type JobTrigger = "cron" | "manual";
+
+export type JobContext = { admin: SupabaseClient; nowMs: number; dryRun: boolean };
+
+export type JobResult = { processed: number } & Record<string, unknown>;
+
+type JobDefinition = {
+  description: string;
+  run: (ctx: JobContext) => Promise<JobResult>;
+};
+
+// ⚠️ ordre d'exécution de "tous les jobs": holds libérés avant le rattrapage des paiements
+const JOBS: Record<JobName, JobDefinition> = {
+  "expire-holds": {
+    description: "Réservations non payées dont le hold (session Checkout) est dépassé, ou sans hold depuis 60 min => expired",
+    run: async ({ admin, nowMs, dryRun }) => {
+      const ids = await releaseExpiredHolds(admin, { nowMs, dryRun });
+      return { processed: ids.length, ids };
+    },
+  },
+  "expire-requests": {
+    description: "Demandes sans réponse du propriétaire => expired + autorisation annulée",
+    run: async ({ admin, nowMs, dryRun }) => {
+      const { expired } = await expireBookingRequests(admin, nowMs, dryRun);
+      return { processed: expired.length, ids: expired };
+    },
+  },
+  "reconcile-payments": {
+    description: "Rattrapage des webhooks Stripe manqués (Checkout payé, remboursements)",
+    run: async ({ admin, nowMs, dryRun }) => {
+      const r = await reconcilePayments(admin, { nowMs, dryRun });
+      return { processed: r.confirmed.length + r.refunds.length, ...r };
+    },
+  },
+  "replay-stripe-events": {
+    description: "Événements Stripe en échec (stripe_events.failed) => rejoués depuis le payload enregistré",
+    run: async ({ admin, nowMs, dryRun }) => {
+      const runs = await replayStripeEvents(admin, { nowMs, dryRun });
+      const failed = runs.filter((r) => r.status === "failed").map((r) => r.eventId);
+      return { processed: runs.length - failed.length, ids: runs.map((r) => r.eventId), failed };
+    },
+  },
+  "send-reminders": {
+    description: "Rappel email au client avant le début de la réservation",
+    run: async ({ admin, nowMs, dryRun }) => {
+      const { sent, failed } = await sendBookingReminders(admin, { nowMs, dryRun });
+      return { processed: sent.length, ids: sent, failed };
+    },
+  },
+  "mark-in-progress": {
+    description: "Réservations payées commencées sans check-in => in_progress",
+    run: async ({ admin, nowMs, dryRun }) => {
+      const nowIso = new Date(nowMs).toISOString();
+
+      // location au mois: réservation glissante, pas de check-in
+      const { data, error } = await admin
+        .from("bookings")
+        .select(BOOKING_STATE_COLUMNS)
+        .in("status", statusesTransitionableTo("in_progress", ["confirmed"]))
+        .eq("payment_status", "paid")
+        .is("lease_id", null)
+        .lte("start_time", nowIso)
+        .gt("end_time", nowIso)
+        .limit(500);
+
+      if (error) throw new Error(error.message);
+
+      const rows = (data ?? []) as BookingState[];
+      if (dryRun) return { processed: rows.length, ids: rows.map((b) => b.id) };
+
+      const res = await transitionBookings(admin, rows, { status: "in_progress" }, { source: "job:mark-in-progress" });
+      if (!res.ok) throw new Error(res.detail);
+
+      return { processed: res.ids.length, ids: res.ids };
+    },
+  },
+  "mark-completed": {
+    description: "Réservations payées terminées (end_time passé) sans check-out => completed + gains libérés",
+    run: async ({ admin, nowMs, dryRun }) => {
+      const nowIso = new Date(nowMs).toISOString();
+
+      // location au mois: la réservation glissante est prolongée à chaque facture,
+      // elle n'est terminée qu'une fois la location arrêtée
+      const { data: due, error: dueErr } = await admin
+        .from("bookings")
+        .select(`${BOOKING_STATE_COLUMNS},lease_id,parking_leases:lease_id(status)`)
+        .in("status", statusesTransitionableTo("completed", ["confirmed", "in_progress"]))
+        .eq("payment_status", "paid")
+        .lte("end_time", nowIso)
+        .limit(500);
+
+      if (dueErr) throw new Error(dueErr.message);
+
+      const rows = (
+        (due ?? []) as unknown as Array<BookingState & { lease_id: string | null; parking_leases: { status: string } | null }>
+      ).filter((b) => !b.lease_id || ["cancelled", "expired"].includes(b.parking_leases?.status ?? ""));
+
+      if (dryRun) return { processed: rows.length, ids: rows.map((b) => b.id) };
+
+      const res = await transitionBookings(
+        admin,
+        rows.map(({ id, status, payment_status }) => ({ id, status, payment_status })),
+        { status: "completed" },
+        { source: "job:mark-completed", patch: { completed_at: nowIso } }
+      );
+      if (!res.ok) throw new Error(res.detail);
+      const completed = res.ids;
+
+      // grand livre: gains du propriétaire acquis, y compris les réservations terminées / annulées
+      // dont le release a échoué (ou a été interrompu) lors d'un passage précédent
+      const released = await releasePendingEarnings(admin);
+      return { processed: completed.length, ids: completed, released: released.length };
+    },
+  },
+  "apply-owner-penalties": {
+    description: "Pénalités d'annulation propriétaire en attente => reversal des transferts Connect suivants",
+    run: async ({ admin, nowMs, dryRun }) => {
+      const { applied, partial, failed } = await applyOwnerPenalties(admin, { nowMs, dryRun });
+      return { processed: applied.length, ids: applied, partial, failed };
+    },
+  },
+  // ⚠️ après mark-completed: les réservations terminées comptent dans le score
+  "refresh-owner-reliability": {
+    description: "Score de fiabilité des propriétaires (réservations honorées / annulations propriétaire, 12 mois)",
+    run: async ({ admin, nowMs, dryRun }) => {
+      const ownerIds = await reliabilityOwnerIds(admin);
+      if (dryRun) return { processed: ownerIds.length, ids: ownerIds };
+
+      const rows = await refreshOwnerReliability(admin, ownerIds, nowMs);
+      return { processed: rows.length, ids: rows.map((r) => r.owner_id) };
+    },
+  },
+};
+
+export const JOB_NAMES = Object.keys(JOBS) as JobName[];
+
+export function isJobName(v: unknown): v is JobName {
+  return typeof v === "string" && v in JOBS;
+}
+
+export function describeJobs() {
+  return JOB_NAMES.map((name) => ({ name, description: JOBS[name].description }));
+}
+
+export type JobRunSummary = {
+  task: JobName;
+  ok: boolean;
+  dryRun: boolean;
+  runId: string | null;
+  processed: number;
+  durationMs: number;
+  result?: JobResult;
+  error?: string;
+};
+
+/**
+ * Exécute une tâche et la journalise dans job_runs.
+ * Ne jette pas: une tâche en échec renvoie ok=false (les autres tâches d'un run groupé continuent).
+ */
+export async function runJob(
+  admin: SupabaseClient,
+  task: JobName,
+  opts?: { dryRun?: boolean; trigger?: JobTrigger; nowMs?: number }
+): Promise<JobRunSummary> {
+  const dryRun = !!opts?.dryRun;
+  const nowMs = opts?.nowMs ?? Date.now();
+  const startedMs = Date.now();
+
+  // journal best effort: un job_runs indisponible ne bloque pas la tâche
+  const { data: run, error: logErr } = await admin
+    .from("job_runs")
+    .insert({
+      task,
+      trigger: opts?.trigger ?? "manual",
+      dry_run: dryRun,
+      status: "running",
+      started_at: new Date(startedMs).toISOString(),
+    })
+    .select("id")
+    .single();
+
+  if (logErr) console.error(`Job ${task}: run log insert failed: ${logErr.message}`);
+  const runId = (run as { id: string } | null)?.id ?? null;
+
+  let summary: JobRunSummary;
+  try {
+    const result = await JOBS[task].run({ admin, nowMs, dryRun });
+    summary = { task, ok: true, dryRun, runId, processed: result.processed, durationMs: Date.now() - startedMs, result };
+  } catch (e: unknown) {
+    const error = e instanceof Error ? e.message : "Job error";
+    console.error(`Job ${task} failed:`, e);
+    summary = { task, ok: false, dryRun, runId, processed: 0, durationMs: Date.now() - startedMs, error };
+  }
+
+  if (runId) {
+    const { error: finErr } = await admin
+      .from("job_runs")
+      .update({
+        status: summary.ok ? "succeeded" : "failed",
+        processed: summary.processed,
+        result: summary.result ?? null,
+        error: summary.error ?? null,
+        finished_at: new Date().toISOString(),
+        duration_ms: summary.durationMs,
+      })
+      .eq("id", runId);
+
+    if (finErr) console.error(`Job ${task}: run log update failed: ${finErr.message}`);
+  }
+
+  return summary;
+}
+
+/** Exécute plusieurs tâches à la suite (ordre du registre) */
+export async function runJobs(
+  admin: SupabaseClient,
+  tasks: JobName[],
+  opts?: { dryRun?: boolean; trigger?: JobTrigger }
+) {
+  const nowMs = Date.now();
+  const runs: JobRunSummary[] = [];
+  for (const task of JOB_NAMES.filter((t) => tasks.includes(t))) {
+    runs.push(await runJob(admin, task, { ...opts, nowMs }));
+  }
+  return runs;
+}
@@ -0,0 +1,207 @@
+// app/lib/leases.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { stripe } from "@/app/lib/stripe";
+import { recordRefund } from "@/app/lib/ledger";
+import { PG_EXCLUSION_VIOLATION } from "@/app/lib/availability";
+import { releaseExpiredHolds } from "@/app/lib/holds";
+import {
+  BOOKING_STATE_COLUMNS,
+  paymentsTransitionableTo,
+  statusesTransitionableTo,
+  transitionBooking,
+  transitionBookings,
+  type BookingState,
+} from "@/app/lib/bookingLifecycle";
+
+/**
+ * Location au mois (parking_leases + abonnement Stripe)
+ * La place est tenue par une réservation glissante (bookings.lease_id) qui couvre
+ * la période payée + la suivante: un autre client ne peut pas prendre la place juste avant le renouvellement.
+ * Appelé par /api/leases/* et par le webhook Stripe (invoice.paid, customer.subscription.deleted).
+ */
+
+export type LeaseStatus = "pending" | "active" | "past_due" | "cancelled" | "expired";
+
+export type LeaseRow = {
+  id: string;
+  parking_id: string;
+  user_id: string;
+  status: LeaseStatus;
+  price_month: number;
+  currency: string;
+  spot_number: number;
+  started_at: string;
+  current_period_end: string | null;
+  cancel_at_period_end: boolean;
+  stripe_subscription_id: string | null;
+};
+
+export const LEASE_COLUMNS =
+  "id,parking_id,user_id,status,price_month,currency,spot_number,started_at,current_period_end,cancel_at_period_end,stripe_subscription_id";
+
+// période payée + période suivante réservées d'avance
+export const LEASE_RESERVED_MONTHS = 2;
+
+/** Ajoute n mois (UTC; le 31 janvier + 1 mois déborde comme Date, suffisant pour une réservation) */
+export function addMonthsIso(iso: string, n: number) {
+  const d = new Date(iso);
+  d.setUTCMonth(d.getUTCMonth() + n);
+  return d.toISOString();
+}
+
+export async function findLease(
+  admin: SupabaseClient,
+  ref: { leaseId?: string | null; subscriptionId?: string | null }
+): Promise<LeaseRow | null> {
+  if (ref.leaseId) {
+    const { data } = await admin.from("parking_leases").select(LEASE_COLUMNS).eq("id", ref.leaseId).maybeSingle();
+    if (data) return data as LeaseRow;
+  }
+  if (ref.subscriptionId) {
+    const { data } = await admin
+      .from("parking_leases")
+      .select(LEASE_COLUMNS)
+      .eq("stripe_subscription_id", ref.subscriptionId)
+      .maybeSingle();
+    if (data) return data as LeaseRow;
+  }
+  return null;
+}
+
+/**
+ * Facture payée: abonnement actif jusqu'à periodEnd, réservation glissante prolongée d'une période.
+ * ⚠️ Si quelqu'un a réservé la place au-delà (horizon de réservation > 1 mois), la prolongation
+ * est refusée par bookings_no_overlap: on garde la réservation actuelle et on le signale.
+ */
+export async function renewLease(
+  admin: SupabaseClient,
+  lease: LeaseRow,
+  periodEndIso: string,
+  invoiceId?: string | null
+): Promise<{ ok: true } | { ok: false; error: string; slotTaken: boolean }> {
+  const { error: leaseErr } = await admin
+    .from("parking_leases")
+    .update({
+      status: "active",
+      current_period_end: periodEndIso,
+      ...(invoiceId ? { last_invoice_id: invoiceId } : {}),
+    })
+    .eq("id", lease.id);
+
+  if (leaseErr) return { ok: false, error: leaseErr.message, slotTaken: false };
+
+  await releaseExpiredHolds(admin, { parkingId: lease.parking_id });
+
+  const { data: rows, error: rErr } = await admin
+    .from("bookings")
+    .select(BOOKING_STATE_COLUMNS)
+    .eq("lease_id", lease.id)
+    .in("status", statusesTransitionableTo("confirmed"))
+    .in("payment_status", paymentsTransitionableTo("paid"));
+
+  if (rErr) return { ok: false, error: rErr.message, slotTaken: false };
+
+  const renewed = await transitionBookings(
+    admin,
+    (rows ?? []) as BookingState[],
+    { status: "confirmed", payment_status: "paid" },
+    {
+      source: "lease:renew",
+      patch: { hold_expires_at: null, end_time: addMonthsIso(periodEndIso, LEASE_RESERVED_MONTHS - 1) },
+    }
+  );
+
+  if (!renewed.ok) {
+    const slotTaken = renewed.dbCode === PG_EXCLUSION_VIOLATION;
+    const msg = slotTaken ? "Place déjà réservée après la période payée" : renewed.detail;
+    console.error(`Lease ${lease.id} renewal: ${msg}`);
+    return { ok: false, error: msg, slotTaken };
+  }
+  return { ok: true };
+}
+
+/**
+ * Fin de location: la réservation glissante s'arrête à endIso (annulée si elle n'avait pas commencé).
+ */
+export async function endLease(
+  admin: SupabaseClient,
+  lease: LeaseRow,
+  endIso: string,
+  status: Extract<LeaseStatus, "cancelled" | "expired"> = "cancelled"
+) {
+  await admin
+    .from("parking_leases")
+    .update({ status, cancelled_at: new Date().toISOString() })
+    .eq("id", lease.id);
+
+  const { data: rows } = await admin
+    .from("bookings")
+    .select("id,start_time,end_time,status,payment_status")
+    .eq("lease_id", lease.id)
+    .not("status", "in", "(cancelled,expired)");
+
+  for (const b of (rows ?? []) as Array<BookingState & { start_time: string; end_time: string }>) {
+    if (Date.parse(endIso) <= Date.parse(b.start_time)) {
+      await transitionBooking(
+        admin,
+        b,
+        { status: status === "expired" ? "expired" : "cancelled" },
+        { source: `lease:${status}`, patch: { cancelled_at: new Date().toISOString() } }
+      );
+    } else if (Date.parse(endIso) < Date.parse(b.end_time)) {
+      await admin.from("bookings").update({ end_time: endIso }).eq("id", b.id);
+    }
+  }
+}
+
+/**
+ * Premier paiement reçu alors que la réservation glissante ne peut plus être confirmée
+ * (hold expiré puis place reprise, réservation annulée): abonnement arrêté, première facture remboursée,
+ * location "expired". Idempotent (rejeu du webhook).
+ */
+export async function abortLease(
+  admin: SupabaseClient,
+  lease: LeaseRow,
+  ref: { subscriptionId: string | null; invoiceId: string | null; booking: BookingState | null }
+): Promise<{ refundId: string | null }> {
+  if (ref.subscriptionId) {
+    const sub = await stripe.subscriptions.retrieve(ref.subscriptionId);
+    if (sub.status !== "canceled") await stripe.subscriptions.cancel(ref.subscriptionId);
+  }
+
+  let refundId: string | null = null;
+  if (ref.invoiceId) {
+    const payments = await stripe.invoicePayments.list({ invoice: ref.invoiceId, status: "paid", limit: 1 });
+    const piRef = payments.data[0]?.payment.payment_intent ?? null;
+    const paymentIntentId = typeof piRef === "string" ? piRef : piRef?.id ?? null;
+
+    if (paymentIntentId) {
+      // reverse_transfer: la part du propriétaire (destination charge) est reprise
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          reverse_transfer: true,
+          metadata: { leaseId: lease.id, ...(ref.booking ? { bookingId: ref.booking.id } : {}) },
+        },
+        { idempotencyKey: `lease-abort:${lease.id}:${paymentIntentId}` }
+      );
+      refundId = refund.id;
+
+      if (ref.booking) {
+        const saved = await transitionBooking(admin, ref.booking, { payment_status: "refunding" }, {
+          source: "lease:abort",
+          patch: { refund_status: "requested", refund_id: refund.id, stripe_payment_intent_id: paymentIntentId },
+        });
+        if (!saved.ok && saved.code !== "ILLEGAL_TRANSITION") throw new Error(saved.detail);
+
+        await recordRefund(admin, refund.id, { bookingId: ref.booking.id });
+      }
+    }
+  }
+
+  if (lease.status !== "expired" && lease.status !== "cancelled") {
+    await endLease(admin, lease, lease.started_at, "expired");
+  }
+
+  return { refundId };
+}
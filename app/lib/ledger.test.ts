@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// le client Stripe est créé à l'import (STRIPE_SECRET_KEY): remplacé par le seul appel utilisé ici
+const retrievePaymentIntent = vi.fn();
+vi.mock("@/app/lib/stripe", () => ({ stripe: { paymentIntents: { retrieve: retrievePaymentIntent } } }));
+
+const { allocate, postLedger, recordPayment } = await import("@/app/lib/ledger");
+
+type Row = Record<string, unknown>;
+
+/** Client Supabase minimal: bookings lues depuis `bookings`, lignes du grand livre capturées dans `posted` */
+function fakeAdmin(bookings: Row[] = []) {
+  const posted: Row[] = [];
+  const select = {
+    in: () => select,
+    eq: () => select,
+    order: async () => ({ data: bookings, error: null }),
+  };
+  const admin = {
+    from: (table: string) =>
+      table === "ledger_entries"
+        ? {
+            upsert: async (rows: Row[]) => {
+              posted.push(...rows);
+              return { error: null };
+            },
+          }
+        : { select: () => select },
+  } as unknown as SupabaseClient;
+  return { admin, posted };
+}
+
+function booking(id: string, total: number, status = "confirmed"): Row {
+  return { id, user_id: "client-1", status, total_price: total, currency: "chf", parkings: { owner_id: "owner-1" } };
+}
+
+/** Somme par compte (centimes) des lignes écrites */
+function balances(rows: Row[], filter: (r: Row) => boolean = () => true) {
+  const out: Record<string, number> = {};
+  for (const r of rows.filter(filter)) {
+    const account = r.account as string;
+    out[account] = (out[account] ?? 0) + Math.round(Number(r.amount) * 100);
+  }
+  return out;
+}
+
+beforeEach(() => {
+  retrievePaymentIntent.mockReset();
+});
+
+describe("allocate", () => {
+  it("répartit au prorata, le reste des arrondis sur la dernière part", () => {
+    expect(allocate(1000, [1, 1, 1])).toEqual([333, 333, 334]);
+    expect(allocate(999, [2000, 1000])).toEqual([666, 333]);
+    expect(allocate(100, [1])).toEqual([100]);
+  });
+
+  it("garde toujours le total exact", () => {
+    for (const [total, weights] of [
+      [1001, [3, 7, 11]],
+      [1, [1, 1, 1]],
+      [123457, [995, 1005, 2500, 1]],
+    ] as const) {
+      const parts = allocate(total, [...weights]);
+      expect(parts.reduce((s, p) => s + p, 0)).toBe(total);
+    }
+  });
+
+  it("répartit à parts égales sans poids, et ignore les poids négatifs", () => {
+    expect(allocate(100, [0, 0, 0])).toEqual([33, 33, 34]);
+    expect(allocate(100, [-5, 1])).toEqual([0, 100]);
+  });
+});
+
+describe("postLedger", () => {
+  it("écrit une transaction équilibrée sans ses lignes à zéro", async () => {
+    const { admin, posted } = fakeAdmin();
+
+    const n = await postLedger(admin, [
+      {
+        key: "charge:pi_1:b1",
+        kind: "charge",
+        currency: "chf",
+        bookingId: "b1",
+        lines: [
+          { account: "client", partyId: "client-1", amountCents: -1250 },
+          { account: "platform_clearing", amountCents: 1250 },
+          { account: "platform_revenue", amountCents: 0 },
+        ],
+      },
+    ]);
+
+    expect(n).toBe(2);
+    expect(posted).toEqual([
+      expect.objectContaining({ txn_key: "charge:pi_1:b1", line_no: 1, account: "client", amount: -12.5, currency: "CHF" }),
+      expect.objectContaining({ txn_key: "charge:pi_1:b1", line_no: 2, account: "platform_clearing", amount: 12.5 }),
+    ]);
+  });
+
+  it("refuse une transaction non équilibrée", async () => {
+    const { admin, posted } = fakeAdmin();
+
+    await expect(
+      postLedger(admin, [
+        {
+          key: "broken",
+          kind: "charge",
+          currency: "CHF",
+          lines: [
+            { account: "client", amountCents: -100 },
+            { account: "platform_clearing", amountCents: 99 },
+          ],
+        },
+      ])
+    ).rejects.toThrow("non équilibrée (-1)");
+    expect(posted).toEqual([]);
+  });
+});
+
+describe("recordPayment", () => {
+  it("répartit un paiement groupé et sa commission au prorata des réservations", async () => {
+    retrievePaymentIntent.mockResolvedValue({
+      id: "pi_series",
+      status: "succeeded",
+      amount_received: 10001,
+      application_fee_amount: 1001,
+      currency: "chf",
+      transfer_data: { destination: "acct_owner" },
+    });
+    const { admin, posted } = fakeAdmin([booking("b1", 50), booking("b2", 25), booking("b3", 25, "completed")]);
+
+    await recordPayment(admin, "pi_series");
+
+    const charged = (id: string) => balances(posted, (r) => r.booking_id === id && r.kind === "charge").client;
+    expect([charged("b1"), charged("b2"), charged("b3")]).toEqual([-5000, -2500, -2501]);
+
+    const fee = (id: string) => balances(posted, (r) => r.booking_id === id).platform_revenue;
+    expect([fee("b1"), fee("b2"), fee("b3")]).toEqual([500, 250, 251]);
+
+    // réservation terminée: gains directement disponibles
+    expect(balances(posted)).toEqual({
+      client: -10001,
+      platform_clearing: 0,
+      platform_revenue: 1001,
+      owner_pending: 6750,
+      owner_available: 2250,
+    });
+  });
+
+  it("n'écrit rien tant que le paiement n'est pas encaissé", async () => {
+    retrievePaymentIntent.mockResolvedValue({ id: "pi_1", status: "processing", amount_received: 0, currency: "chf" });
+    const { admin, posted } = fakeAdmin([booking("b1", 50)]);
+
+    expect(await recordPayment(admin, "pi_1")).toBe(0);
+    expect(await recordPayment(admin, null)).toBe(0);
+    expect(posted).toEqual([]);
+  });
+});
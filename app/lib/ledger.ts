@@ -0,0 +1,465 @@
+// app/lib/ledger.ts
+import type Stripe from "stripe";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { stripe } from "@/app/lib/stripe";
+import { bookingStatusOf } from "@/app/lib/bookingLifecycle";
+
+/**
+ * Grand livre en partie double (public.ledger_entries)
+ * - une transaction = plusieurs lignes de même txn_key dont la somme vaut 0 (vérifié en base à la fin de la transaction SQL)
+ * - montant > 0 = argent qui entre sur le compte, < 0 = qui en sort
+ * - append-only: une correction est une nouvelle transaction inverse
+ * - idempotent: txn_key dérivée de l'objet Stripe (pi_, re_, trr_, in_...), un rejeu n'écrit rien
+ *
+ * Comptes:
+ *   client            : payé (-) / remboursé (+) par le client (party = user_id)
+ *   platform_clearing : solde Stripe de la plateforme en transit (encaissé, pas encore transféré / remboursé)
+ *   platform_revenue  : commission Parkeo + pénalités propriétaire
+ *   owner_pending     : gains propriétaire d'une réservation non terminée (party = owner_id)
+ *   owner_available   : gains acquis (réservation terminée / annulée), non versés
+ *   owner_bank        : versé sur le compte bancaire du propriétaire (payout Connect)
+ */
+
+export type LedgerAccount =
+  | "client"
+  | "platform_clearing"
+  | "platform_revenue"
+  | "owner_pending"
+  | "owner_available"
+  | "owner_bank";
+
+export type LedgerKind =
+  | "charge"
+  | "application_fee"
+  | "transfer"
+  | "refund"
+  | "transfer_reversal"
+  | "release"
+  | "penalty"
+  | "payout";
+
+export type LedgerLine = { account: LedgerAccount; partyId?: string | null; amountCents: number };
+
+export type LedgerTxn = {
+  key: string;
+  kind: LedgerKind;
+  currency: string;
+  bookingId?: string | null;
+  stripeRef?: string | null;
+  memo?: string | null;
+  lines: LedgerLine[];
+};
+
+/** Écrit des transactions équilibrées (déjà écrites = ignorées) */
+export async function postLedger(admin: SupabaseClient, txns: LedgerTxn[]) {
+  const rows: Array<Record<string, unknown>> = [];
+
+  for (const t of txns) {
+    const lines = t.lines.filter((l) => l.amountCents !== 0);
+    if (lines.length === 0) continue;
+
+    const sum = lines.reduce((s, l) => s + l.amountCents, 0);
+    if (sum !== 0) throw new Error(`Ledger: transaction ${t.key} non équilibrée (${sum})`);
+
+    lines.forEach((l, i) =>
+      rows.push({
+        txn_key: t.key,
+        line_no: i + 1,
+        kind: t.kind,
+        account: l.account,
+        party_id: l.partyId ?? null,
+        amount: l.amountCents / 100,
+        currency: t.currency.toUpperCase(),
+        booking_id: t.bookingId ?? null,
+        stripe_ref: t.stripeRef ?? null,
+        memo: t.memo ?? null,
+      })
+    );
+  }
+
+  if (rows.length === 0) return 0;
+
+  const { error } = await admin
+    .from("ledger_entries")
+    .upsert(rows, { onConflict: "txn_key,line_no", ignoreDuplicates: true });
+
+  if (error) throw new Error(error.message);
+  return rows.length;
+}
+
+// ---------------------------------------------------------------------------
+// Réservations: parties + compte propriétaire selon l'état
+// ---------------------------------------------------------------------------
+
+type LedgerBookingRow = {
+  id: string;
+  user_id: string | null;
+  status: string | null;
+  total_price: number | null;
+  currency: string | null;
+  parkings: { owner_id: string | null } | Array<{ owner_id: string | null }> | null;
+};
+
+const LEDGER_BOOKING_COLUMNS = "id,user_id,status,total_price,currency,parkings:parking_id(owner_id)";
+
+function ownerIdOf(b: LedgerBookingRow) {
+  const p = Array.isArray(b.parkings) ? b.parkings[0] : b.parkings;
+  return p?.owner_id ?? null;
+}
+
+// ✅ réservation terminée / annulée: les gains sont acquis (release déjà passé ou à venir sur le reste)
+function ownerAccountFor(b: LedgerBookingRow): LedgerAccount {
+  const s = bookingStatusOf(b.status);
+  return s === "completed" || s === "cancelled" || s === "expired" || s === "declined"
+    ? "owner_available"
+    : "owner_pending";
+}
+
+async function loadLedgerBookings(admin: SupabaseClient, q: { ids?: string[]; paymentIntentId?: string }) {
+  let query = admin.from("bookings").select(LEDGER_BOOKING_COLUMNS);
+  if (q.ids) query = query.in("id", q.ids);
+  else if (q.paymentIntentId) query = query.eq("stripe_payment_intent_id", q.paymentIntentId);
+  else return [];
+
+  const { data, error } = await query.order("start_time", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as unknown as LedgerBookingRow[];
+}
+
+/** Répartit un montant (centimes) au prorata des poids, le reste sur la dernière part */
+export function allocate(totalCents: number, weights: number[]) {
+  const sumW = weights.reduce((s, w) => s + Math.max(0, w), 0);
+  const parts = weights.map((w) =>
+    sumW > 0 ? Math.floor((totalCents * Math.max(0, w)) / sumW) : Math.floor(totalCents / weights.length)
+  );
+  parts[parts.length - 1] += totalCents - parts.reduce((s, p) => s + p, 0);
+  return parts;
+}
+
+function toCents(n: unknown) {
+  const x = Math.round(Number(n ?? 0) * 100);
+  return Number.isFinite(x) ? x : 0;
+}
+
+function paymentTxns(args: {
+  ref: string;
+  booking: LedgerBookingRow;
+  amountCents: number;
+  feeCents: number;
+  transferred: boolean;
+  currency: string;
+  memo?: string;
+}): LedgerTxn[] {
+  const { ref, booking: b, amountCents, feeCents, currency } = args;
+  const ownerId = ownerIdOf(b);
+  const base = { currency, bookingId: b.id, stripeRef: ref, memo: args.memo ?? null };
+
+  const txns: LedgerTxn[] = [
+    {
+      ...base,
+      key: `charge:${ref}:${b.id}`,
+      kind: "charge",
+      lines: [
+        { account: "client", partyId: b.user_id, amountCents: -amountCents },
+        { account: "platform_clearing", amountCents },
+      ],
+    },
+    {
+      ...base,
+      key: `application_fee:${ref}:${b.id}`,
+      kind: "application_fee",
+      lines: [
+        { account: "platform_clearing", amountCents: -feeCents },
+        { account: "platform_revenue", amountCents: feeCents },
+      ],
+    },
+  ];
+
+  // destination charge: le reste part automatiquement sur le compte Connect du propriétaire
+  if (args.transferred && ownerId) {
+    txns.push({
+      ...base,
+      key: `transfer:${ref}:${b.id}`,
+      kind: "transfer",
+      lines: [
+        { account: "platform_clearing", amountCents: -(amountCents - feeCents) },
+        { account: ownerAccountFor(b), partyId: ownerId, amountCents: amountCents - feeCents },
+      ],
+    });
+  }
+
+  return txns;
+}
+
+/**
+ * Paiement encaissé (Checkout payé, capture d'une demande, supplément de modification, rattrapage)
+ * - bookingIds absent => réservations portant ce PaymentIntent (série payée en une fois incluse)
+ * - montants lus sur Stripe (amount_received, application_fee_amount), répartis au prorata de total_price
+ */
+export async function recordPayment(
+  admin: SupabaseClient,
+  paymentIntentId: string | null,
+  opts?: { bookingIds?: string[]; memo?: string }
+) {
+  if (!paymentIntentId) return 0;
+
+  const pi = await stripe.paymentIntents.retrieve(paymentIntentId);
+  if (pi.status !== "succeeded" || !pi.amount_received) return 0;
+
+  const bookings = await loadLedgerBookings(
+    admin,
+    opts?.bookingIds ? { ids: opts.bookingIds } : { paymentIntentId }
+  );
+  if (bookings.length === 0) return 0;
+
+  const amounts = allocate(pi.amount_received, bookings.map((b) => toCents(b.total_price)));
+  const fees = allocate(pi.application_fee_amount ?? 0, amounts);
+
+  const txns = bookings.flatMap((b, i) =>
+    paymentTxns({
+      ref: pi.id,
+      booking: b,
+      amountCents: amounts[i]!,
+      feeCents: fees[i]!,
+      transferred: !!pi.transfer_data?.destination,
+      currency: pi.currency,
+      memo: opts?.memo,
+    })
+  );
+
+  return postLedger(admin, txns);
+}
+
+/** Facture d'abonnement payée (location au mois): rattachée à la réservation glissante du bail */
+export async function recordInvoicePayment(admin: SupabaseClient, invoice: Stripe.Invoice, leaseId: string) {
+  if (!invoice.id || !invoice.amount_paid) return 0;
+
+  const { data, error } = await admin
+    .from("bookings")
+    .select(LEDGER_BOOKING_COLUMNS)
+    .eq("lease_id", leaseId)
+    .order("created_at", { ascending: false })
+    .limit(1);
+
+  if (error) throw new Error(error.message);
+  const booking = ((data ?? []) as unknown as LedgerBookingRow[])[0];
+  if (!booking) return 0;
+
+  // commission (application_fee_percent de l'abonnement): montant réel sur le PaymentIntent de la facture
+  const payments = await stripe.invoicePayments.list({ invoice: invoice.id, status: "paid", limit: 1 });
+  const piRef = payments.data[0]?.payment.payment_intent ?? null;
+  const pi = piRef ? (typeof piRef === "string" ? await stripe.paymentIntents.retrieve(piRef) : piRef) : null;
+
+  return postLedger(
+    admin,
+    paymentTxns({
+      ref: invoice.id,
+      booking,
+      amountCents: invoice.amount_paid,
+      feeCents: pi?.application_fee_amount ?? 0,
+      transferred: pi ? !!pi.transfer_data?.destination : true,
+      currency: invoice.currency,
+      memo: "location au mois",
+    })
+  );
+}
+
+/**
+ * Remboursement (annulation, supplément rendu, paiement non confirmable, remboursement depuis le dashboard)
+ * - relu sur Stripe avec son transfer_reversal (reverse_transfer: part reprise au propriétaire)
+ * - échoué / annulé après coup => transaction inverse
+ */
+export async function recordRefund(admin: SupabaseClient, refundId: string, opts?: { bookingId?: string | null }) {
+  const refund = await stripe.refunds.retrieve(refundId, { expand: ["transfer_reversal"] });
+
+  const bookingId = opts?.bookingId ?? (refund.metadata?.bookingId as string | undefined) ?? null;
+  const pi = typeof refund.payment_intent === "string" ? refund.payment_intent : refund.payment_intent?.id ?? null;
+
+  const bookings = await loadLedgerBookings(
+    admin,
+    bookingId ? { ids: [bookingId] } : pi ? { paymentIntentId: pi } : {}
+  );
+  const b = bookings[0];
+  if (!b) return 0;
+
+  // historique repris par la migration (backfill:refund:<booking>): déjà compté
+  const { data: backfilled, error: bfErr } = await admin
+    .from("ledger_entries")
+    .select("id")
+    .eq("txn_key", `backfill:refund:${b.id}`)
+    .limit(1);
+  if (bfErr) throw new Error(bfErr.message);
+  if (backfilled && backfilled.length > 0) return 0;
+
+  const ownerId = ownerIdOf(b);
+  const base = { currency: refund.currency, bookingId: b.id, stripeRef: refund.id };
+
+  const reversal =
+    refund.transfer_reversal && typeof refund.transfer_reversal !== "string" ? refund.transfer_reversal : null;
+
+  const txns: LedgerTxn[] = [
+    {
+      ...base,
+      key: `refund:${refund.id}`,
+      kind: "refund",
+      lines: [
+        { account: "platform_clearing", amountCents: -refund.amount },
+        { account: "client", partyId: b.user_id, amountCents: refund.amount },
+      ],
+    },
+  ];
+
+  if (reversal && ownerId) {
+    txns.push({
+      ...base,
+      key: `transfer_reversal:${reversal.id}`,
+      kind: "transfer_reversal",
+      stripeRef: reversal.id,
+      lines: [
+        { account: ownerAccountFor(b), partyId: ownerId, amountCents: -reversal.amount },
+        { account: "platform_clearing", amountCents: reversal.amount },
+      ],
+    });
+  }
+
+  if (refund.status === "failed" || refund.status === "canceled") {
+    // rien d'écrit si le remboursement n'avait jamais été enregistré
+    const { data, error } = await admin
+      .from("ledger_entries")
+      .select("id")
+      .eq("txn_key", `refund:${refund.id}`)
+      .limit(1);
+    if (error) throw new Error(error.message);
+    if (!data || data.length === 0) return 0;
+
+    return postLedger(
+      admin,
+      txns.map((t) => ({
+        ...t,
+        key: `${t.key}:${refund.status}`,
+        memo: `remboursement ${refund.status}`,
+        lines: t.lines.map((l) => ({ ...l, amountCents: -l.amountCents })),
+      }))
+    );
+  }
+
+  return postLedger(admin, txns);
+}
+
+/** Tous les remboursements d'un paiement (charge.refunded: remboursements faits hors de l'app) */
+export async function recordChargeRefunds(admin: SupabaseClient, chargeId: string) {
+  const refunds = await stripe.refunds.list({ charge: chargeId, limit: 100 });
+  let written = 0;
+  for (const r of refunds.data) written += await recordRefund(admin, r.id);
+  return written;
+}
+
+/**
+ * Réservation terminée ou annulée: gains en attente => acquis (owner_pending -> owner_available)
+ * ⚠️ clé = nombre de lignes owner_pending lues: un rejeu n'écrit rien, un nouveau mouvement en attente re-libère
+ */
+export async function releaseBookingEarnings(admin: SupabaseClient, bookingIds: string[]) {
+  if (bookingIds.length === 0) return 0;
+
+  const { data, error } = await admin
+    .from("ledger_entries")
+    .select("booking_id,party_id,currency,amount")
+    .eq("account", "owner_pending")
+    .in("booking_id", bookingIds);
+
+  if (error) throw new Error(error.message);
+
+  const byBooking = new Map<string, { partyId: string | null; currency: string; cents: number; lines: number }>();
+  for (const e of (data ?? []) as Array<{ booking_id: string; party_id: string | null; currency: string; amount: number }>) {
+    const cur = byBooking.get(e.booking_id) ?? { partyId: e.party_id, currency: e.currency, cents: 0, lines: 0 };
+    cur.cents += toCents(e.amount);
+    cur.lines += 1;
+    byBooking.set(e.booking_id, cur);
+  }
+
+  const txns: LedgerTxn[] = [];
+  for (const [bookingId, p] of byBooking) {
+    if (p.cents === 0) continue;
+    txns.push({
+      key: `release:${bookingId}:${p.lines}`,
+      kind: "release",
+      currency: p.currency,
+      bookingId,
+      lines: [
+        { account: "owner_pending", partyId: p.partyId, amountCents: -p.cents },
+        { account: "owner_available", partyId: p.partyId, amountCents: p.cents },
+      ],
+    });
+  }
+
+  return postLedger(admin, txns);
+}
+
+/** Reprise: réservations terminées / annulées dont les gains sont encore en attente (vue ledger_unreleased_bookings) */
+export async function releasePendingEarnings(admin: SupabaseClient, limit = 500) {
+  const { data, error } = await admin.from("ledger_unreleased_bookings").select("booking_id").limit(limit);
+  if (error) throw new Error(error.message);
+
+  const ids = ((data ?? []) as Array<{ booking_id: string }>).map((b) => b.booking_id);
+  await releaseBookingEarnings(admin, ids);
+  return ids;
+}
+
+/** Pénalité d'annulation propriétaire reprise (reversal de transfert Connect) */
+export async function recordPenalty(
+  admin: SupabaseClient,
+  args: { reversalId: string; ownerId: string; bookingId: string; amountCents: number; currency: string }
+) {
+  return postLedger(admin, [
+    {
+      key: `penalty:${args.reversalId}`,
+      kind: "penalty",
+      currency: args.currency,
+      bookingId: args.bookingId,
+      stripeRef: args.reversalId,
+      memo: "pénalité d'annulation propriétaire",
+      lines: [
+        { account: "owner_available", partyId: args.ownerId, amountCents: -args.amountCents },
+        { account: "platform_revenue", amountCents: args.amountCents },
+      ],
+    },
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// Payout Connect: gains disponibles => compte bancaire du propriétaire
+// ---------------------------------------------------------------------------
+
+/** payout.paid => owner_available -> owner_bank ; payout.failed après paid => transaction inverse */
+export async function recordPayout(
+  admin: SupabaseClient,
+  args: { payoutId: string; ownerId: string; amountCents: number; currency: string; failed?: boolean }
+) {
+  const key = `payout:${args.payoutId}`;
+
+  if (args.failed) {
+    // échec d'un payout jamais écrit (failed avant paid): rien à inverser
+    const { count, error } = await admin
+      .from("ledger_entries")
+      .select("id", { count: "exact", head: true })
+      .eq("txn_key", key);
+    if (error) throw new Error(error.message);
+    if (!count) return 0;
+  }
+
+  const sign = args.failed ? -1 : 1;
+
+  return postLedger(admin, [
+    {
+      key: args.failed ? `${key}:failed` : key,
+      kind: "payout",
+      currency: args.currency,
+      stripeRef: args.payoutId,
+      memo: args.failed ? "payout échoué" : "payout",
+      lines: [
+        { account: "owner_available", partyId: args.ownerId, amountCents: -sign * args.amountCents },
+        { account: "owner_bank", partyId: args.ownerId, amountCents: sign * args.amountCents },
+      ],
+    },
+  ]);
+}
@@ -1,5 +1,6 @@
 // app/lib/mailer.ts
 import { Resend } from "resend";
+import { resolveTimeZone } from "@/app/lib/availability";
 
 function mustEnv(name: string) {
   const v = process.env[name];
@@ -52,10 +53,12 @@ function money(v: number | null, currency?: string | null) {
   return `${v} ${(currency ?? "CHF").toUpperCase()}`;
 }
 
-function formatDateTime(iso: string) {
+// ✅ toujours dans le fuseau de la place (sinon: fuseau du serveur, souvent UTC)
+function formatDateTime(iso: string, timeZone?: string | null) {
   const d = new Date(iso);
   if (Number.isNaN(d.getTime())) return iso;
   return d.toLocaleString("fr-CH", {
+    timeZone: resolveTimeZone(timeZone),
     weekday: "short",
     day: "2-digit",
     month: "2-digit",
@@ -74,6 +77,7 @@ export function bookingOwnerEmailHtml(args: {
   parkingAddress?: string | null;
   startTimeIso: string;
   endTimeIso: string;
+  timeZone?: string | null;
   totalPrice: number | null;
   currency: string | null;
   bookingId: string;
@@ -91,8 +95,8 @@ export function bookingOwnerEmailHtml(args: {
     <ul>
       <li><b>Place :</b> ${title}</li>
       <li><b>Adresse :</b> ${addr}</li>
-      <li><b>Début :</b> ${escapeHtml(formatDateTime(args.startTimeIso))}</li>
-      <li><b>Fin :</b> ${escapeHtml(formatDateTime(args.endTimeIso))}</li>
+      <li><b>Début :</b> ${escapeHtml(formatDateTime(args.startTimeIso, args.timeZone))}</li>
+      <li><b>Fin :</b> ${escapeHtml(formatDateTime(args.endTimeIso, args.timeZone))}</li>
       <li><b>Total :</b> ${escapeHtml(price)}</li>
       <li><b>ID réservation :</b> ${escapeHtml(args.bookingId)}</li>
     </ul>
@@ -104,6 +108,7 @@ export function bookingClientEmailHtml(args: {
   parkingTitle: string;
   startTimeIso: string;
   endTimeIso: string;
+  timeZone?: string | null;
   totalPrice: number | null;
   currency: string | null;
   bookingId: string;
@@ -117,8 +122,8 @@ export function bookingClientEmailHtml(args: {
     <p>Ta réservation a bien été créée :</p>
     <ul>
       <li><b>Place :</b> ${escapeHtml(args.parkingTitle)}</li>
-      <li><b>Début :</b> ${escapeHtml(formatDateTime(args.startTimeIso))}</li>
-      <li><b>Fin :</b> ${escapeHtml(formatDateTime(args.endTimeIso))}</li>
+      <li><b>Début :</b> ${escapeHtml(formatDateTime(args.startTimeIso, args.timeZone))}</li>
+      <li><b>Fin :</b> ${escapeHtml(formatDateTime(args.endTimeIso, args.timeZone))}</li>
       <li><b>Total :</b> ${escapeHtml(price)}</li>
       <li><b>ID réservation :</b> ${escapeHtml(args.bookingId)}</li>
     </ul>
@@ -151,21 +156,36 @@ export function messageReceivedEmailHtml(args: {
    (Solution 1: on confirme juste l'annulation)
 --------------------------- */
 
+/** "12.50 CHF (50 %)" / "Aucun (hors délai)" ; null si rien n'était payé */
+function refundLine(amount: number | null | undefined, percent: number | null | undefined, currency: string | null) {
+  if (amount == null) return null;
+  if (amount <= 0) return "Aucun (hors délai de la politique d'annulation)";
+  return escapeHtml(`${money(amount, currency)}${percent != null && percent < 100 ? ` (${percent} %)` : ""}`);
+}
+
 export function bookingCancelledClientEmailHtml(args: {
   parkingTitle: string;
   parkingAddress?: string | null;
   startTimeIso: string;
   endTimeIso: string;
+  timeZone?: string | null;
   totalPrice: number | null;
   currency: string | null;
   bookingId: string;
   cancelledBy: "client" | "owner";
+  // montant remboursé (politique d'annulation), null = pas de paiement à rembourser
+  refundAmount?: number | null;
+  refundPercent?: number | null;
+  // annulation propriétaire: motif (libellé)
+  reason?: string | null;
 }) {
   const title = escapeHtml(args.parkingTitle);
   const addr = escapeHtml(args.parkingAddress ?? "—");
   const price = escapeHtml(money(args.totalPrice, args.currency));
-  const start = escapeHtml(formatDateTime(args.startTimeIso));
-  const end = escapeHtml(formatDateTime(args.endTimeIso));
+  const start = escapeHtml(formatDateTime(args.startTimeIso, args.timeZone));
+  const end = escapeHtml(formatDateTime(args.endTimeIso, args.timeZone));
+  const refund = refundLine(args.refundAmount, args.refundPercent, args.currency);
+  const reason = args.reason ? escapeHtml(args.reason) : null;
 
   const heading =
     args.cancelledBy === "client"
@@ -184,9 +204,12 @@ export function bookingCancelledClientEmailHtml(args: {
       <li><b>Début :</b> ${start}</li>
       <li><b>Fin :</b> ${end}</li>
       <li><b>Total :</b> ${price}</li>
+      ${refund ? `<li><b>Remboursement :</b> ${refund}</li>` : ""}
+      ${reason ? `<li><b>Motif :</b> ${reason}</li>` : ""}
       <li><b>ID réservation :</b> ${escapeHtml(args.bookingId)}</li>
       <li><b>Statut :</b> Annulée</li>
     </ul>
+    ${refund ? "<p>Le remboursement apparaît sur ta carte sous 5 à 10 jours ouvrés.</p>" : ""}
     <p><a href="${link}">Voir mes réservations</a></p>
   </div>`;
 }
@@ -196,16 +219,25 @@ export function bookingCancelledOwnerEmailHtml(args: {
   parkingAddress?: string | null;
   startTimeIso: string;
   endTimeIso: string;
+  timeZone?: string | null;
   totalPrice: number | null;
   currency: string | null;
   bookingId: string;
   cancelledBy: "client" | "owner";
+  refundAmount?: number | null;
+  refundPercent?: number | null;
+  reason?: string | null;
+  // pénalité d'annulation propriétaire (déduite des prochains versements)
+  penaltyAmount?: number | null;
 }) {
   const title = escapeHtml(args.parkingTitle);
   const addr = escapeHtml(args.parkingAddress ?? "—");
   const price = escapeHtml(money(args.totalPrice, args.currency));
-  const start = escapeHtml(formatDateTime(args.startTimeIso));
-  const end = escapeHtml(formatDateTime(args.endTimeIso));
+  const start = escapeHtml(formatDateTime(args.startTimeIso, args.timeZone));
+  const end = escapeHtml(formatDateTime(args.endTimeIso, args.timeZone));
+  const refund = refundLine(args.refundAmount, args.refundPercent, args.currency);
+  const reason = args.reason ? escapeHtml(args.reason) : null;
+  const penalty = args.penaltyAmount && args.penaltyAmount > 0 ? escapeHtml(money(args.penaltyAmount, args.currency)) : null;
 
   const heading =
     args.cancelledBy === "client"
@@ -224,9 +256,151 @@ export function bookingCancelledOwnerEmailHtml(args: {
       <li><b>Début :</b> ${start}</li>
       <li><b>Fin :</b> ${end}</li>
       <li><b>Total :</b> ${price}</li>
+      ${refund ? `<li><b>Remboursé au client :</b> ${refund}</li>` : ""}
+      ${reason ? `<li><b>Motif :</b> ${reason}</li>` : ""}
+      ${penalty ? `<li><b>Pénalité d'annulation :</b> ${penalty}</li>` : ""}
       <li><b>ID réservation :</b> ${escapeHtml(args.bookingId)}</li>
       <li><b>Statut :</b> Annulée</li>
     </ul>
+    ${penalty ? "<p>La pénalité sera déduite de tes prochains versements. Les annulations propriétaire sont prises en compte dans ton score de fiabilité, affiché sur tes annonces.</p>" : ""}
     <p><a href="${link}">Voir réservations (mes places)</a></p>
   </div>`;
 }
+
+/* ---------------------------
+   MODIFICATION (prolongation / décalage)
+--------------------------- */
+
+export function bookingModifiedEmailHtml(args: {
+  audience: "client" | "owner";
+  parkingTitle: string;
+  oldStartIso: string;
+  oldEndIso: string;
+  newStartIso: string;
+  newEndIso: string;
+  timeZone?: string | null;
+  newTotal: number | null;
+  delta: number; // > 0 supplément payé, < 0 remboursement partiel
+  currency: string | null;
+  bookingId: string;
+}) {
+  const title = escapeHtml(args.parkingTitle);
+  const oldRange = escapeHtml(
+    `${formatDateTime(args.oldStartIso, args.timeZone)} → ${formatDateTime(args.oldEndIso, args.timeZone)}`
+  );
+  const newRange = escapeHtml(
+    `${formatDateTime(args.newStartIso, args.timeZone)} → ${formatDateTime(args.newEndIso, args.timeZone)}`
+  );
+  const total = escapeHtml(money(args.newTotal, args.currency));
+  const diff =
+    args.delta > 0
+      ? `Supplément payé : ${money(args.delta, args.currency)}`
+      : args.delta < 0
+      ? `Remboursement partiel : ${money(-args.delta, args.currency)}`
+      : "Sans changement de prix";
+
+  const heading = args.audience === "client" ? "Réservation modifiée ✅" : "Un client a modifié sa réservation ✅";
+  const link = appUrl(args.audience === "client" ? "/my-bookings" : "/my-parkings/bookings");
+
+  return `
+  <div style="font-family:Arial,sans-serif;line-height:1.4">
+    <h2>${heading}</h2>
+    <ul>
+      <li><b>Place :</b> ${title}</li>
+      <li><b>Avant :</b> ${oldRange}</li>
+      <li><b>Maintenant :</b> ${newRange}</li>
+      <li><b>Nouveau total :</b> ${total}</li>
+      <li><b>${escapeHtml(diff)}</b></li>
+      <li><b>ID réservation :</b> ${escapeHtml(args.bookingId)}</li>
+    </ul>
+    <p><a href="${link}">Voir les réservations</a></p>
+  </div>`;
+}
+
+/**
+ * Réservation sur demande:
+ * - "requested" => propriétaire (nouvelle demande à accepter avant l'échéance)
+ * - "accepted" / "declined" / "expired" => client (décision du propriétaire)
+ */
+export function bookingRequestEmailHtml(args: {
+  event: "requested" | "accepted" | "declined" | "expired";
+  parkingTitle: string;
+  startTimeIso: string;
+  endTimeIso: string;
+  timeZone?: string | null;
+  totalPrice: number | null;
+  currency: string | null;
+  bookingId: string;
+  expiresAtIso?: string | null;
+  reason?: string | null;
+}) {
+  const title = escapeHtml(args.parkingTitle);
+  const range = escapeHtml(
+    `${formatDateTime(args.startTimeIso, args.timeZone)} → ${formatDateTime(args.endTimeIso, args.timeZone)}`
+  );
+  const total = escapeHtml(money(args.totalPrice, args.currency));
+
+  const heading =
+    args.event === "requested"
+      ? "Nouvelle demande de réservation 📩"
+      : args.event === "accepted"
+      ? "Demande acceptée ✅"
+      : args.event === "declined"
+      ? "Demande refusée"
+      : "Demande expirée";
+
+  const note =
+    args.event === "requested"
+      ? "Le paiement du client est autorisé: il ne sera débité que si tu acceptes."
+      : args.event === "accepted"
+      ? "Ta réservation est confirmée et le paiement a été débité."
+      : args.event === "declined"
+      ? "Le propriétaire a refusé ta demande. L'autorisation de paiement a été annulée (aucun débit)."
+      : "Le propriétaire n'a pas répondu à temps. L'autorisation de paiement a été annulée (aucun débit).";
+
+  const link = appUrl(args.event === "requested" ? "/my-parkings/bookings" : "/my-bookings");
+
+  return `
+  <div style="font-family:Arial,sans-serif;line-height:1.4">
+    <h2>${heading}</h2>
+    <p>${escapeHtml(note)}</p>
+    <ul>
+      <li><b>Place :</b> ${title}</li>
+      <li><b>Créneau :</b> ${range}</li>
+      <li><b>Total :</b> ${total}</li>
+      ${
+        args.event === "requested" && args.expiresAtIso
+          ? `<li><b>Réponse attendue avant :</b> ${escapeHtml(formatDateTime(args.expiresAtIso, args.timeZone))}</li>`
+          : ""
+      }
+      ${args.reason ? `<li><b>Motif :</b> ${escapeHtml(args.reason)}</li>` : ""}
+      <li><b>ID réservation :</b> ${escapeHtml(args.bookingId)}</li>
+    </ul>
+    <p><a href="${link}">${args.event === "requested" ? "Répondre à la demande" : "Voir mes réservations"}</a></p>
+  </div>`;
+}
+
+/** Rappel client avant le début de la réservation (job send-reminders) */
+export function bookingReminderEmailHtml(args: {
+  parkingTitle: string;
+  parkingAddress?: string | null;
+  startTimeIso: string;
+  endTimeIso: string;
+  timeZone?: string | null;
+  bookingId: string;
+}) {
+  const link = appUrl(`/my-bookings`);
+
+  return `
+  <div style="font-family:Arial,sans-serif;line-height:1.4">
+    <h2>Rappel : ta réservation approche ⏰</h2>
+    <ul>
+      <li><b>Place :</b> ${escapeHtml(args.parkingTitle)}</li>
+      <li><b>Adresse :</b> ${escapeHtml(args.parkingAddress ?? "—")}</li>
+      <li><b>Début :</b> ${escapeHtml(formatDateTime(args.startTimeIso, args.timeZone))}</li>
+      <li><b>Fin :</b> ${escapeHtml(formatDateTime(args.endTimeIso, args.timeZone))}</li>
+      <li><b>ID réservation :</b> ${escapeHtml(args.bookingId)}</li>
+    </ul>
+    <p><a href="${link}">Voir mes réservations</a></p>
+  </div>`;
+}
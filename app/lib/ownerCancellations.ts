@@ -0,0 +1,287 @@
+// app/lib/ownerCancellations.ts
+import type Stripe from "stripe";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { stripe } from "@/app/lib/stripe";
+import { recordPenalty } from "@/app/lib/ledger";
+import {
+  LATE_CANCELLATION_HOURS,
+  RELIABILITY_WINDOW_DAYS,
+  ownerPenaltyQuote,
+  reliabilityScore,
+  type OwnerCancelReason,
+  type OwnerPenaltyQuote,
+} from "@/app/lib/ownerPenalties";
+
+/**
+ * Annulations propriétaire (public.owner_cancellations) et score de fiabilité (public.owner_reliability)
+ * - recordOwnerCancellation: appelée par /api/owner/bookings/cancel une fois la réservation annulée
+ * - applyOwnerPenalties (job apply-owner-penalties): pénalité "pending" => reversal du transfert Connect
+ *   des réservations payées suivantes du propriétaire, jusqu'à couvrir le montant
+ * - refreshOwnerReliability (job refresh-owner-reliability + après chaque annulation propriétaire)
+ */
+
+// borne par exécution (plusieurs appels Stripe par pénalité)
+const PENALTY_BATCH = 20;
+
+// réservations candidates au reversal par pénalité
+const PENALTY_SOURCE_BOOKINGS = 20;
+
+type CancelledBookingRow = {
+  id: string;
+  parking_id: string;
+  start_time: string;
+  total_price: number | null;
+  currency: string | null;
+};
+
+/** Enregistre l'annulation (idempotent: une ligne par réservation) et renvoie la pénalité appliquée */
+export async function recordOwnerCancellation(
+  admin: SupabaseClient,
+  args: {
+    booking: CancelledBookingRow;
+    ownerId: string;
+    reason: OwnerCancelReason;
+    note?: string | null;
+    paid: boolean;
+    nowMs?: number;
+  }
+): Promise<OwnerPenaltyQuote> {
+  const quote = ownerPenaltyQuote({
+    startIso: args.booking.start_time,
+    totalPrice: args.booking.total_price,
+    reason: args.reason,
+    paid: args.paid,
+    nowMs: args.nowMs,
+  });
+
+  const { error } = await admin.from("owner_cancellations").upsert(
+    {
+      booking_id: args.booking.id,
+      owner_id: args.ownerId,
+      parking_id: args.booking.parking_id,
+      reason: args.reason,
+      note: args.note ?? null,
+      hours_notice: quote.hoursNotice,
+      affects_reliability: !quote.exempt,
+      booking_amount: Number(args.booking.total_price ?? 0) || 0,
+      currency: (args.booking.currency ?? "CHF").toUpperCase(),
+      penalty_percent: quote.percent,
+      penalty_amount: quote.amount,
+      penalty_status: quote.amountCents > 0 ? "pending" : "none",
+    },
+    { onConflict: "booking_id", ignoreDuplicates: true }
+  );
+
+  if (error) throw new Error(error.message);
+  return quote;
+}
+
+// ---------------------------------------------------------------------------
+// Pénalités: reversal des transferts Connect
+// ---------------------------------------------------------------------------
+
+type PenaltyReversal = { transferId: string; reversalId: string; bookingId: string; amount: number };
+
+type PendingPenaltyRow = {
+  id: string;
+  owner_id: string;
+  booking_id: string;
+  penalty_amount: number;
+  penalty_applied_amount: number;
+  penalty_reversals: PenaltyReversal[] | null;
+  created_at: string;
+};
+
+type SourceBookingRow = { id: string; stripe_payment_intent_id: string };
+
+function toCents(n: unknown) {
+  const x = Math.round(Number(n ?? 0) * 100);
+  return Number.isFinite(x) ? Math.max(0, x) : 0;
+}
+
+/** Transfert Connect d'une réservation payée (destination charge), null si aucun */
+async function bookingTransferId(paymentIntentId: string) {
+  const pi = await stripe.paymentIntents.retrieve(paymentIntentId, { expand: ["latest_charge"] });
+  const charge = pi.latest_charge as Stripe.Charge | string | null;
+  if (!charge || typeof charge === "string") return null;
+  if (!charge.transfer) return null;
+  return typeof charge.transfer === "string" ? charge.transfer : charge.transfer.id;
+}
+
+export async function applyOwnerPenalties(
+  admin: SupabaseClient,
+  opts?: { nowMs?: number; dryRun?: boolean }
+) {
+  const nowMs = opts?.nowMs ?? Date.now();
+  const dryRun = !!opts?.dryRun;
+
+  const applied: string[] = [];
+  const partial: string[] = [];
+  const failed: Array<{ id: string; error: string }> = [];
+
+  const { data, error } = await admin
+    .from("owner_cancellations")
+    .select("id,owner_id,booking_id,penalty_amount,penalty_applied_amount,penalty_reversals,created_at")
+    .eq("penalty_status", "pending")
+    .order("created_at", { ascending: true })
+    .limit(PENALTY_BATCH);
+
+  if (error) throw new Error(error.message);
+
+  const pending = (data ?? []) as PendingPenaltyRow[];
+  if (dryRun) return { applied: pending.map((p) => p.id), partial, failed };
+
+  for (const p of pending) {
+    let remainingCents = toCents(p.penalty_amount) - toCents(p.penalty_applied_amount);
+    const reversals = [...(p.penalty_reversals ?? [])];
+    const usedTransfers = new Set(reversals.map((r) => r.transferId));
+
+    try {
+      // ✅ "versements suivants": réservations payées après l'annulation, hors location au mois
+      const { data: parkings, error: pErr } = await admin.from("parkings").select("id").eq("owner_id", p.owner_id);
+      if (pErr) throw new Error(pErr.message);
+
+      const parkingIds = ((parkings ?? []) as Array<{ id: string }>).map((x) => x.id);
+      if (parkingIds.length === 0) continue;
+
+      const { data: sources, error: sErr } = await admin
+        .from("bookings")
+        .select("id,stripe_payment_intent_id")
+        .in("parking_id", parkingIds)
+        .in("status", ["confirmed", "in_progress", "completed"])
+        .eq("payment_status", "paid")
+        .is("lease_id", null)
+        .not("stripe_payment_intent_id", "is", null)
+        .gt("created_at", p.created_at)
+        .order("created_at", { ascending: true })
+        .limit(PENALTY_SOURCE_BOOKINGS);
+
+      if (sErr) throw new Error(sErr.message);
+
+      for (const b of (sources ?? []) as SourceBookingRow[]) {
+        if (remainingCents <= 0) break;
+
+        const transferId = await bookingTransferId(b.stripe_payment_intent_id);
+        if (!transferId || usedTransfers.has(transferId)) continue;
+
+        const transfer = await stripe.transfers.retrieve(transferId);
+        const reversibleCents = transfer.amount - transfer.amount_reversed;
+        if (reversibleCents <= 0) continue;
+
+        const amountCents = Math.min(remainingCents, reversibleCents);
+        const reversal = await stripe.transfers.createReversal(
+          transferId,
+          { amount: amountCents, metadata: { ownerCancellationId: p.id, bookingId: b.id } },
+          { idempotencyKey: `owner-penalty-${p.id}-${transferId}` }
+        );
+
+        usedTransfers.add(transferId);
+        reversals.push({ transferId, reversalId: reversal.id, bookingId: b.id, amount: amountCents / 100 });
+        remainingCents -= amountCents;
+
+        // ✅ enregistré après chaque reversal: une reprise ne redéduit pas le même transfert
+        const appliedAmount = toCents(p.penalty_amount) - remainingCents;
+        const { error: uErr } = await admin
+          .from("owner_cancellations")
+          .update({
+            penalty_applied_amount: appliedAmount / 100,
+            penalty_reversals: reversals,
+            penalty_error: null,
+            ...(remainingCents <= 0
+              ? { penalty_status: "applied", penalty_applied_at: new Date(nowMs).toISOString() }
+              : {}),
+          })
+          .eq("id", p.id)
+          .eq("penalty_status", "pending");
+
+        if (uErr) throw new Error(uErr.message);
+
+        await recordPenalty(admin, {
+          reversalId: reversal.id,
+          ownerId: p.owner_id,
+          bookingId: p.booking_id,
+          amountCents,
+          currency: transfer.currency,
+        });
+      }
+
+      if (remainingCents <= 0) applied.push(p.id);
+      else if (reversals.length > (p.penalty_reversals ?? []).length) partial.push(p.id);
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : "Stripe error";
+      failed.push({ id: p.id, error: message });
+      await admin.from("owner_cancellations").update({ penalty_error: message }).eq("id", p.id);
+    }
+  }
+
+  return { applied, partial, failed };
+}
+
+// ---------------------------------------------------------------------------
+// Score de fiabilité
+// ---------------------------------------------------------------------------
+
+/** Recalcule le score des propriétaires donnés (fenêtre glissante RELIABILITY_WINDOW_DAYS) */
+export async function refreshOwnerReliability(admin: SupabaseClient, ownerIds: string[], nowMs = Date.now()) {
+  const sinceIso = new Date(nowMs - RELIABILITY_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const rows = [];
+
+  for (const ownerId of Array.from(new Set(ownerIds))) {
+    const { data: parkings, error: pErr } = await admin.from("parkings").select("id").eq("owner_id", ownerId);
+    if (pErr) throw new Error(pErr.message);
+
+    const parkingIds = ((parkings ?? []) as Array<{ id: string }>).map((x) => x.id);
+
+    let completed = 0;
+    if (parkingIds.length > 0) {
+      const { count, error } = await admin
+        .from("bookings")
+        .select("id", { count: "exact", head: true })
+        .in("parking_id", parkingIds)
+        .eq("status", "completed")
+        .gte("end_time", sinceIso);
+
+      if (error) throw new Error(error.message);
+      completed = count ?? 0;
+    }
+
+    const { data: cancels, error: cErr } = await admin
+      .from("owner_cancellations")
+      .select("hours_notice")
+      .eq("owner_id", ownerId)
+      .eq("affects_reliability", true)
+      .neq("penalty_status", "waived")
+      .gte("created_at", sinceIso);
+
+    if (cErr) throw new Error(cErr.message);
+
+    const list = (cancels ?? []) as Array<{ hours_notice: number | null }>;
+    const late = list.filter((c) => c.hours_notice !== null && Number(c.hours_notice) < LATE_CANCELLATION_HOURS).length;
+
+    rows.push({
+      owner_id: ownerId,
+      score: reliabilityScore(completed, list.length),
+      completed_bookings: completed,
+      owner_cancellations: list.length,
+      late_cancellations: late,
+      window_days: RELIABILITY_WINDOW_DAYS,
+      updated_at: new Date(nowMs).toISOString(),
+    });
+  }
+
+  if (rows.length === 0) return rows;
+
+  const { error } = await admin.from("owner_reliability").upsert(rows, { onConflict: "owner_id" });
+  if (error) throw new Error(error.message);
+
+  return rows;
+}
+
+/** Propriétaires ayant au moins une place (job refresh-owner-reliability) */
+export async function reliabilityOwnerIds(admin: SupabaseClient) {
+  const { data, error } = await admin.from("parkings").select("owner_id");
+  if (error) throw new Error(error.message);
+
+  const ids = ((data ?? []) as Array<{ owner_id: string | null }>).map((p) => p.owner_id).filter(Boolean) as string[];
+  return Array.from(new Set(ids));
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  ownerCancelReasonOf,
+  ownerPenaltyQuote,
+  reliabilityLabel,
+  reliabilityScore,
+  RELIABILITY_MIN_BOOKINGS,
+  type OwnerCancelReason,
+} from "@/app/lib/ownerPenalties";
+
+const START = "2026-06-10T12:00:00.000Z";
+const HOUR = 3600 * 1000;
+
+/** Pénalité d'une annulation `hoursBefore` heures avant le début */
+function penalty(hoursBefore: number, total: number | null = 100, reason: OwnerCancelReason = "owner_unavailable", paid = true) {
+  return ownerPenaltyQuote({ startIso: START, totalPrice: total, reason, paid, nowMs: Date.parse(START) - hoursBefore * HOUR });
+}
+
+describe("ownerPenaltyQuote", () => {
+  it("applique le barème selon le préavis", () => {
+    expect(penalty(7 * 24)).toMatchObject({ percent: 0, amountCents: 0, hoursNotice: 168 });
+    expect(penalty(7 * 24 - 1)).toMatchObject({ percent: 10, amountCents: 1000 });
+    expect(penalty(48)).toMatchObject({ percent: 10 });
+    expect(penalty(47.5)).toMatchObject({ percent: 25, amountCents: 2500 });
+    expect(penalty(24)).toMatchObject({ percent: 25 });
+    expect(penalty(23.99)).toMatchObject({ percent: 50, amountCents: 5000 });
+    // déjà commencée
+    expect(penalty(-2)).toMatchObject({ percent: 50 });
+  });
+
+  it("applique le plancher, sans jamais dépasser le montant de la réservation", () => {
+    expect(penalty(72, 20)).toMatchObject({ percent: 10, amountCents: 500, amount: 5 });
+    expect(penalty(12, 3)).toMatchObject({ percent: 50, amountCents: 300 });
+    // 0 %: pas de plancher
+    expect(penalty(200, 20).amountCents).toBe(0);
+  });
+
+  it("exempte les annulations à la demande du client et les réservations non payées", () => {
+    expect(penalty(1, 100, "client_request")).toEqual({
+      percent: 0,
+      amountCents: 0,
+      amount: 0,
+      hoursNotice: 1,
+      exempt: true,
+    });
+    expect(penalty(1, 100, "owner_unavailable", false)).toMatchObject({ exempt: true, amountCents: 0 });
+    expect(penalty(1, 100, "safety")).toMatchObject({ exempt: false, percent: 50 });
+  });
+
+  it("ne pénalise pas une date de début invalide", () => {
+    expect(
+      ownerPenaltyQuote({ startIso: "pas une date", totalPrice: 100, reason: "other", paid: true })
+    ).toMatchObject({ hoursNotice: null, amountCents: 0 });
+  });
+
+  it("lit le motif, 'other' par défaut", () => {
+    expect(ownerCancelReasonOf(" Safety ")).toBe("safety");
+    expect(ownerCancelReasonOf("vacances")).toBe("other");
+  });
+});
+
+describe("score de fiabilité", () => {
+  it("n'affiche pas de score sous le minimum d'historique", () => {
+    expect(reliabilityScore(RELIABILITY_MIN_BOOKINGS - 1, 0)).toBeNull();
+    expect(reliabilityScore(3, 1)).toBeNull();
+    expect(reliabilityScore(RELIABILITY_MIN_BOOKINGS, 0)).toBe(100);
+  });
+
+  it("arrondit le ratio honorées / (honorées + annulations)", () => {
+    expect(reliabilityScore(4, 1)).toBe(80);
+    expect(reliabilityScore(2, 3)).toBe(40);
+    expect(reliabilityScore(19, 1)).toBe(95);
+    expect(reliabilityScore(199, 12)).toBe(94);
+  });
+
+  it("donne le libellé aux seuils 95 et 85", () => {
+    expect(reliabilityLabel(null)).toBe("Nouveau propriétaire");
+    expect(reliabilityLabel(95)).toBe("Très fiable");
+    expect(reliabilityLabel(94)).toBe("Fiable");
+    expect(reliabilityLabel(85)).toBe("Fiable");
+    expect(reliabilityLabel(84)).toBe("Annulations fréquentes");
+  });
+});
@@ -0,0 +1,112 @@
+// app/lib/ownerPenalties.ts
+
+/**
+ * Annulations propriétaire: motif, pénalité et score de fiabilité
+ * - le client est toujours remboursé intégralement (/api/owner/bookings/cancel)
+ * - pénalité = % du montant de la réservation selon le préavis, déduite des versements suivants
+ *   (reversal de transfert Connect, job apply-owner-penalties)
+ * - score de fiabilité = réservations honorées / (honorées + annulations pénalisables) sur 12 mois
+ * Fonctions pures: utilisées par la route d'annulation, les écrans propriétaire et les fiches place.
+ */
+
+export const OWNER_CANCEL_REASONS = [
+  "owner_unavailable",
+  "spot_unavailable",
+  "double_booking",
+  "client_request",
+  "safety",
+  "other",
+] as const;
+
+export type OwnerCancelReason = (typeof OWNER_CANCEL_REASONS)[number];
+
+export const OWNER_CANCEL_REASON_LABELS: Record<OwnerCancelReason, string> = {
+  owner_unavailable: "Je ne peux plus mettre la place à disposition",
+  spot_unavailable: "Place inaccessible (travaux, véhicule, panne)",
+  double_booking: "Place déjà louée ailleurs",
+  client_request: "À la demande du client",
+  safety: "Problème de sécurité",
+  other: "Autre",
+};
+
+export function ownerCancelReasonOf(v: unknown): OwnerCancelReason {
+  const s = String(v ?? "").trim().toLowerCase();
+  return (OWNER_CANCEL_REASONS as readonly string[]).includes(s) ? (s as OwnerCancelReason) : "other";
+}
+
+type PenaltyTier = { minHoursBefore: number; percent: number };
+
+/**
+ * ✅ Barème des pénalités (à ajuster ici)
+ * - tiers triés par minHoursBefore décroissant; en dessous du dernier: latePercent
+ * - minAmount: plancher dès qu'une pénalité s'applique (jamais plus que le montant de la réservation)
+ * - exemptReasons: motifs sans pénalité ni impact sur le score
+ */
+export const OWNER_CANCELLATION_PENALTY = {
+  tiers: [
+    { minHoursBefore: 7 * 24, percent: 0 },
+    { minHoursBefore: 48, percent: 10 },
+    { minHoursBefore: 24, percent: 25 },
+  ] as readonly PenaltyTier[],
+  latePercent: 50,
+  minAmount: 5,
+  exemptReasons: ["client_request"] as readonly OwnerCancelReason[],
+};
+
+// annulation "de dernière minute" (compteur affiché avec le score)
+export const LATE_CANCELLATION_HOURS = 24;
+
+export type OwnerPenaltyQuote = {
+  percent: number;
+  amountCents: number;
+  amount: number;
+  hoursNotice: number | null;
+  exempt: boolean;
+};
+
+/** Pénalité si le propriétaire annule maintenant (réservation payée uniquement) */
+export function ownerPenaltyQuote(args: {
+  startIso: string;
+  totalPrice: number | null;
+  reason: OwnerCancelReason;
+  paid: boolean;
+  nowMs?: number;
+}): OwnerPenaltyQuote {
+  const nowMs = args.nowMs ?? Date.now();
+  const startMs = Date.parse(args.startIso);
+  const hoursNotice = Number.isFinite(startMs) ? Math.round(((startMs - nowMs) / (1000 * 60 * 60)) * 100) / 100 : null;
+
+  const exempt = !args.paid || OWNER_CANCELLATION_PENALTY.exemptReasons.includes(args.reason);
+  if (exempt || hoursNotice === null) return { percent: 0, amountCents: 0, amount: 0, hoursNotice, exempt };
+
+  const tier = OWNER_CANCELLATION_PENALTY.tiers.find((t) => hoursNotice >= t.minHoursBefore);
+  const percent = tier ? tier.percent : OWNER_CANCELLATION_PENALTY.latePercent;
+
+  const totalCents = Math.max(0, Math.round(Number(args.totalPrice ?? 0) * 100)) || 0;
+  let amountCents = Math.floor((totalCents * percent) / 100);
+  if (percent > 0) amountCents = Math.min(totalCents, Math.max(amountCents, OWNER_CANCELLATION_PENALTY.minAmount * 100));
+
+  return { percent, amountCents, amount: amountCents / 100, hoursNotice, exempt };
+}
+
+// ---------------------------------------------------------------------------
+// Score de fiabilité (public.owner_reliability)
+// ---------------------------------------------------------------------------
+
+export const RELIABILITY_WINDOW_DAYS = 365;
+
+// en dessous: pas assez d'historique, aucun score affiché
+export const RELIABILITY_MIN_BOOKINGS = 5;
+
+export function reliabilityScore(completed: number, ownerCancellations: number): number | null {
+  const total = completed + ownerCancellations;
+  if (total < RELIABILITY_MIN_BOOKINGS) return null;
+  return Math.round((100 * completed) / total);
+}
+
+export function reliabilityLabel(score: number | null) {
+  if (score === null) return "Nouveau propriétaire";
+  if (score >= 95) return "Très fiable";
+  if (score >= 85) return "Fiable";
+  return "Annulations fréquentes";
+}
@@ -0,0 +1,211 @@
+// app/lib/payouts.ts
+import type Stripe from "stripe";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { stripe } from "@/app/lib/stripe";
+import { recordPayout } from "@/app/lib/ledger";
+
+/**
+ * Versements propriétaire (webhook Connect: app/lib/stripeWebhook.ts)
+ * - transfer.created: transfert Connect d'un paiement (destination charge) => public.booking_transfers
+ * - payout.paid: transferts inclus dans le payout (balance transactions du compte connecté)
+ *   => réservations versées (bookings.owner_paid_out) + public.owner_payouts + grand livre (owner_bank)
+ * - payout.failed: l'argent revient sur le solde Stripe du propriétaire => réservations non versées
+ * - idempotent: rejouer un événement ne change rien
+ */
+
+export type PayoutStatus = "pending" | "in_transit" | "paid" | "failed" | "canceled";
+
+function idOf(x: string | { id: string } | null | undefined) {
+  return typeof x === "string" ? x : x?.id ?? null;
+}
+
+/** Propriétaire d'un compte connecté (profiles.stripe_account_id) */
+async function ownerIdOfAccount(admin: SupabaseClient, accountId: string) {
+  const { data, error } = await admin.from("profiles").select("id").eq("stripe_account_id", accountId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data as { id: string } | null)?.id ?? null;
+}
+
+/** Réservations réglées par un paiement: réservation(s) du paiement, sinon modification payée */
+async function bookingIdsOfPaymentIntent(admin: SupabaseClient, paymentIntentId: string) {
+  const { data, error } = await admin.from("bookings").select("id").eq("stripe_payment_intent_id", paymentIntentId);
+  if (error) throw new Error(error.message);
+
+  const ids = ((data ?? []) as Array<{ id: string }>).map((b) => b.id);
+  if (ids.length > 0) return ids;
+
+  const { data: mods, error: mErr } = await admin
+    .from("booking_modifications")
+    .select("booking_id")
+    .eq("stripe_payment_intent_id", paymentIntentId);
+  if (mErr) throw new Error(mErr.message);
+
+  return Array.from(new Set(((mods ?? []) as Array<{ booking_id: string }>).map((m) => m.booking_id)));
+}
+
+/** transfer.created: rattache le transfert aux réservations du paiement d'origine */
+export async function recordTransfer(admin: SupabaseClient, transfer: Stripe.Transfer) {
+  const accountId = idOf(transfer.destination);
+  const chargeId = idOf(transfer.source_transaction);
+
+  // transfert manuel (sans paiement d'origine): rien à rattacher
+  if (!accountId || !chargeId) return { transferId: transfer.id, bookingIds: [] as string[] };
+
+  const charge = await stripe.charges.retrieve(chargeId);
+  const paymentIntentId = idOf(charge.payment_intent);
+  const bookingIds = paymentIntentId ? await bookingIdsOfPaymentIntent(admin, paymentIntentId) : [];
+
+  // facture de location au mois: pas de réservation liée au paiement
+  if (bookingIds.length === 0) return { transferId: transfer.id, bookingIds };
+
+  const ownerId = await ownerIdOfAccount(admin, accountId);
+
+  const { error } = await admin.from("booking_transfers").upsert(
+    bookingIds.map((bookingId) => ({
+      transfer_id: transfer.id,
+      booking_id: bookingId,
+      owner_id: ownerId,
+      stripe_account_id: accountId,
+      destination_payment_id: idOf(transfer.destination_payment),
+      payment_intent_id: paymentIntentId,
+      transfer_amount: transfer.amount / 100,
+      currency: transfer.currency.toUpperCase(),
+      created_at: new Date(transfer.created * 1000).toISOString(),
+    })),
+    { onConflict: "transfer_id,booking_id", ignoreDuplicates: true }
+  );
+  if (error) throw new Error(error.message);
+
+  return { transferId: transfer.id, bookingIds };
+}
+
+/** Transferts (tr_...) versés par un payout automatique: paiements du compte connecté inclus dans le payout */
+async function payoutTransferIds(accountId: string, payoutId: string) {
+  const ids = new Set<string>();
+
+  await stripe.balanceTransactions
+    .list({ payout: payoutId, type: "payment", limit: 100, expand: ["data.source"] }, { stripeAccount: accountId })
+    .autoPagingEach((bt) => {
+      const source = bt.source as Stripe.Charge | string | null;
+      if (!source || typeof source === "string") return;
+      const transferId = idOf(source.source_transfer);
+      if (transferId) ids.add(transferId);
+    });
+
+  return Array.from(ids);
+}
+
+async function upsertPayout(admin: SupabaseClient, accountId: string, ownerId: string | null, payout: Stripe.Payout) {
+  const status = payout.status as PayoutStatus;
+  const nowIso = new Date().toISOString();
+
+  const { error } = await admin.from("owner_payouts").upsert(
+    {
+      id: payout.id,
+      owner_id: ownerId,
+      stripe_account_id: accountId,
+      amount: payout.amount / 100,
+      currency: payout.currency.toUpperCase(),
+      status,
+      automatic: payout.automatic,
+      arrival_date: new Date(payout.arrival_date * 1000).toISOString(),
+      failure_code: payout.failure_code ?? null,
+      failure_message: payout.failure_message ?? null,
+      created_at: new Date(payout.created * 1000).toISOString(),
+      updated_at: nowIso,
+      ...(status === "paid" ? { paid_at: nowIso } : {}),
+      ...(status === "failed" ? { failed_at: nowIso } : {}),
+    },
+    { onConflict: "id" }
+  );
+  if (error) throw new Error(error.message);
+}
+
+/** payout.paid: réservations réglées par les transferts du payout => versées */
+export async function settlePayout(admin: SupabaseClient, accountId: string, payout: Stripe.Payout) {
+  const ownerId = await ownerIdOfAccount(admin, accountId);
+  await upsertPayout(admin, accountId, ownerId, payout);
+
+  // ⚠️ payout manuel: Stripe ne fournit pas le détail des transactions incluses
+  const transferIds = payout.automatic ? await payoutTransferIds(accountId, payout.id) : [];
+
+  let bookingIds: string[] = [];
+  if (transferIds.length > 0) {
+    // transfer.created manquant / pas encore traité: rattachement à la volée
+    const { data: known, error: kErr } = await admin
+      .from("booking_transfers")
+      .select("transfer_id")
+      .in("transfer_id", transferIds);
+    if (kErr) throw new Error(kErr.message);
+
+    const knownIds = new Set(((known ?? []) as Array<{ transfer_id: string }>).map((t) => t.transfer_id));
+    for (const transferId of transferIds) {
+      if (!knownIds.has(transferId)) await recordTransfer(admin, await stripe.transfers.retrieve(transferId));
+    }
+
+    const { data: linked, error: lErr } = await admin
+      .from("booking_transfers")
+      .update({ payout_id: payout.id })
+      .in("transfer_id", transferIds)
+      .select("booking_id");
+    if (lErr) throw new Error(lErr.message);
+
+    bookingIds = Array.from(new Set(((linked ?? []) as Array<{ booking_id: string }>).map((t) => t.booking_id)));
+  }
+
+  if (bookingIds.length > 0) {
+    const { error } = await admin
+      .from("bookings")
+      .update({ owner_paid_out: true, owner_paid_out_at: new Date().toISOString(), stripe_payout_id: payout.id })
+      .in("id", bookingIds);
+    if (error) throw new Error(error.message);
+  }
+
+  const { error: cErr } = await admin
+    .from("owner_payouts")
+    .update({ booking_count: bookingIds.length })
+    .eq("id", payout.id);
+  if (cErr) throw new Error(cErr.message);
+
+  if (ownerId) {
+    await recordPayout(admin, { payoutId: payout.id, ownerId, amountCents: payout.amount, currency: payout.currency });
+  }
+
+  return { payoutId: payout.id, ownerId, bookingIds };
+}
+
+/** payout.failed (y compris après paid): réservations à nouveau non versées */
+export async function failPayout(admin: SupabaseClient, accountId: string, payout: Stripe.Payout) {
+  const ownerId = await ownerIdOfAccount(admin, accountId);
+  await upsertPayout(admin, accountId, ownerId, payout);
+
+  const { data, error } = await admin
+    .from("bookings")
+    .update({ owner_paid_out: false, owner_paid_out_at: null, stripe_payout_id: null })
+    .eq("stripe_payout_id", payout.id)
+    .select("id");
+  if (error) throw new Error(error.message);
+
+  const { error: tErr } = await admin
+    .from("booking_transfers")
+    .update({ payout_id: null })
+    .eq("payout_id", payout.id);
+  if (tErr) throw new Error(tErr.message);
+
+  if (ownerId) {
+    await recordPayout(admin, {
+      payoutId: payout.id,
+      ownerId,
+      amountCents: payout.amount,
+      currency: payout.currency,
+      failed: true,
+    });
+  }
+
+  return {
+    payoutId: payout.id,
+    ownerId,
+    bookingIds: ((data ?? []) as Array<{ id: string }>).map((b) => b.id),
+    failureCode: payout.failure_code ?? null,
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { computeQuote, DAY_RATE_MIN_HOURS, parkingCurrency, sameAmount } from "@/app/lib/pricing";
+
+const START = "2026-06-22T08:00:00.000Z";
+
+function endAfter(minutes: number) {
+  return new Date(Date.parse(START) + minutes * 60 * 1000).toISOString();
+}
+
+function quote(minutes: number, priceHour: number | null = 3, priceDay: number | null = 20) {
+  return computeQuote({ startTime: START, endTime: endAfter(minutes), priceHour, priceDay, currency: "chf" });
+}
+
+describe("computeQuote", () => {
+  it("facture l'heure entamée sous le seuil du tarif jour", () => {
+    expect(quote(30)).toMatchObject({ unit: "hour", total: 3, hours: 0.5 });
+    expect(quote(61)).toMatchObject({ unit: "hour", total: 6 });
+    expect(quote(DAY_RATE_MIN_HOURS * 60 - 1)).toMatchObject({ unit: "hour", total: 24 });
+  });
+
+  it("passe au tarif jour à partir de 8 h pile", () => {
+    const q = quote(DAY_RATE_MIN_HOURS * 60);
+
+    expect(q).toMatchObject({ unit: "day", total: 20, currency: "CHF" });
+    expect(q?.lines).toEqual([{ label: "1 jour × 20 CHF", unit: "day", quantity: 1, unitPrice: 20, amount: 20 }]);
+  });
+
+  it("facture le jour entamé au-delà de 24 h", () => {
+    expect(quote(24 * 60)).toMatchObject({ unit: "day", total: 20 });
+    expect(quote(24 * 60 + 1)).toMatchObject({ unit: "day", total: 40, lines: [{ label: "2 jours × 20 CHF" }] });
+  });
+
+  it("reste au tarif horaire sans tarif jour", () => {
+    expect(quote(10 * 60, 3, null)).toMatchObject({ unit: "hour", total: 30 });
+    expect(quote(10 * 60, 3, 0)).toMatchObject({ unit: "hour", total: 30 });
+  });
+
+  it("arrondit les montants au centime", () => {
+    expect(quote(3 * 60, 2.35)?.total).toBe(7.05);
+  });
+
+  it("refuse des dates ou un tarif invalides", () => {
+    expect(quote(0)).toBeNull();
+    expect(quote(-60)).toBeNull();
+    expect(computeQuote({ startTime: "pas une date", endTime: START, priceHour: 3, priceDay: null })).toBeNull();
+    // moins de 8 h sans tarif horaire
+    expect(quote(60, null, 20)).toBeNull();
+  });
+});
+
+describe("devise et montants", () => {
+  it("lit la devise de la place, CHF par défaut", () => {
+    expect(parkingCurrency(" eur ")).toBe("EUR");
+    expect(parkingCurrency("euro")).toBe("CHF");
+    expect(parkingCurrency(null)).toBe("CHF");
+  });
+
+  it("compare les montants au centime près", () => {
+    expect(sameAmount("12.50", 12.5)).toBe(true);
+    expect(sameAmount(0.1 + 0.2, 0.3)).toBe(true);
+    expect(sameAmount(12.5, 12.51)).toBe(false);
+    expect(sameAmount(null, 0)).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+// app/lib/pricing.ts
+
+/**
+ * Moteur de prix partagé (serveur + client)
+ * - règle: tarif horaire (arrondi à l'heure entamée)
+ * - si price_day existe et durée >= 8h => tarif jour (arrondi au jour entamé)
+ *
+ * ⚠️ Source de vérité = serveur (bookings/create + stripe/checkout recalculent).
+ * Le formulaire client l'utilise seulement pour afficher l'estimation.
+ */
+
+export const DAY_RATE_MIN_HOURS = 8;
+
+export type QuoteUnit = "hour" | "day";
+
+export type QuoteLine = {
+  label: string;
+  unit: QuoteUnit;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+};
+
+export type Quote = {
+  startTime: string;
+  endTime: string;
+  hours: number;
+  unit: QuoteUnit;
+  lines: QuoteLine[];
+  total: number;
+  currency: string;
+};
+
+export type PricingInput = {
+  startTime: string;
+  endTime: string;
+  priceHour: number | null;
+  priceDay: number | null;
+  currency?: string | null;
+};
+
+function roundMoney(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function moneyNumber(v: unknown): number | null {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/**
+ * Calcule le devis d'une réservation.
+ * Retourne null si les dates ou les tarifs sont invalides.
+ */
+export function computeQuote(input: PricingInput): Quote | null {
+  const s = Date.parse(input.startTime);
+  const e = Date.parse(input.endTime);
+  if (Number.isNaN(s) || Number.isNaN(e) || e <= s) return null;
+
+  const priceHour = moneyNumber(input.priceHour);
+  const priceDay = moneyNumber(input.priceDay);
+  const currency = (input.currency ?? "CHF").toUpperCase();
+
+  const hours = (e - s) / (1000 * 60 * 60);
+
+  let line: QuoteLine;
+
+  if (priceDay && hours >= DAY_RATE_MIN_HOURS) {
+    const days = Math.max(1, Math.ceil(hours / 24));
+    line = {
+      label: `${days} jour${days > 1 ? "s" : ""} × ${priceDay} ${currency}`,
+      unit: "day",
+      quantity: days,
+      unitPrice: priceDay,
+      amount: roundMoney(days * priceDay),
+    };
+  } else {
+    if (!priceHour) return null;
+    const h = Math.max(1, Math.ceil(hours));
+    line = {
+      label: `${h} h × ${priceHour} ${currency}`,
+      unit: "hour",
+      quantity: h,
+      unitPrice: priceHour,
+      amount: roundMoney(h * priceHour),
+    };
+  }
+
+  const lines = [line];
+  const total = roundMoney(lines.reduce((acc, l) => acc + l.amount, 0));
+
+  return {
+    startTime: new Date(s).toISOString(),
+    endTime: new Date(e).toISOString(),
+    hours: roundMoney(hours),
+    unit: line.unit,
+    lines,
+    total,
+    currency,
+  };
+}
+
+/** Devise d'une place (colonne parkings.currency), CHF si vide ou invalide. Jamais celle envoyée par le client. */
+export function parkingCurrency(v: unknown) {
+  const c = String(v ?? "").trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(c) ? c : "CHF";
+}
+
+/** Compare deux montants au centime près (tolère les numeric renvoyés en string). */
+export function sameAmount(a: unknown, b: unknown) {
+  if (a == null || b == null) return false;
+  const x = typeof a === "number" ? a : Number(a);
+  const y = typeof b === "number" ? b : Number(b);
+  if (!Number.isFinite(x) || !Number.isFinite(y)) return false;
+  return Math.round(x * 100) === Math.round(y * 100);
+}
@@ -0,0 +1,166 @@
+// app/lib/reconcile.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { stripe, retrieveCheckoutSessionWithPI } from "@/app/lib/stripe";
+import { PG_EXCLUSION_VIOLATION } from "@/app/lib/availability";
+import { HELD_BOOKING_STATUSES } from "@/app/lib/holds";
+import { transitionBooking } from "@/app/lib/bookingLifecycle";
+import { recordPayment } from "@/app/lib/ledger";
+
+/**
+ * Rattrapage des webhooks Stripe manqués (job reconcile-payments)
+ * - Checkout payé côté Stripe mais réservation encore "unpaid" => confirmée (même update que le webhook)
+ * - Checkout expiré => stripe_session_id effacé (plus revérifié)
+ * - remboursement "refunding" => statut final lu sur le Refund
+ * Les flux spécifiques (série, location au mois, supplément, demande) ne sont pas rejoués ici:
+ * ils sont seulement signalés (mismatches) pour traitement manuel.
+ */
+
+// laisse le temps au webhook d'arriver avant de le "rattraper"
+const RECONCILE_GRACE_MINUTES = 10;
+
+// borne par exécution (un appel Stripe par session / remboursement)
+const RECONCILE_BATCH = 50;
+
+export type ReconcileMismatch = { bookingId: string; ref: string; reason: string };
+
+type UnpaidRow = { id: string; status: string | null; payment_status: string | null; stripe_session_id: string };
+type RefundingRow = { id: string; status: string | null; payment_status: string | null; refund_id: string };
+
+export async function reconcilePayments(
+  admin: SupabaseClient,
+  opts?: { nowMs?: number; dryRun?: boolean }
+) {
+  const nowMs = opts?.nowMs ?? Date.now();
+  const dryRun = !!opts?.dryRun;
+  const graceIso = new Date(nowMs - RECONCILE_GRACE_MINUTES * 60 * 1000).toISOString();
+
+  const confirmed: string[] = [];
+  const refunds: string[] = [];
+  const mismatches: ReconcileMismatch[] = [];
+
+  // ---------- (A) Checkout payé, webhook manqué ----------
+  const { data: unpaid, error: uErr } = await admin
+    .from("bookings")
+    .select("id,status,payment_status,stripe_session_id")
+    .in("status", HELD_BOOKING_STATUSES)
+    .eq("payment_status", "unpaid")
+    .not("stripe_session_id", "is", null)
+    .lt("created_at", graceIso)
+    .order("created_at", { ascending: true })
+    .limit(RECONCILE_BATCH);
+
+  if (uErr) throw new Error(uErr.message);
+
+  for (const b of (unpaid ?? []) as UnpaidRow[]) {
+    let session;
+    let paymentIntentId: string | null;
+    try {
+      ({ session, paymentIntentId } = await retrieveCheckoutSessionWithPI(b.stripe_session_id));
+    } catch (e) {
+      mismatches.push({ bookingId: b.id, ref: b.stripe_session_id, reason: e instanceof Error ? e.message : "Stripe error" });
+      continue;
+    }
+
+    // session expirée (état final): on l'oublie, sinon ces lignes occupent le lot à chaque passage
+    // et les réservations plus récentes ne sont jamais vérifiées. Le hold, lui, expire via expire-holds.
+    if (session.status === "expired") {
+      if (!dryRun) {
+        const { error: cErr } = await admin
+          .from("bookings")
+          .update({ stripe_session_id: null })
+          .eq("id", b.id)
+          .eq("stripe_session_id", b.stripe_session_id)
+          .eq("payment_status", "unpaid");
+        if (cErr) mismatches.push({ bookingId: b.id, ref: session.id, reason: cErr.message });
+      }
+      continue;
+    }
+
+    if (session.status !== "complete" || session.payment_status !== "paid") continue;
+
+    const md = session.metadata ?? {};
+    if (md.seriesId || md.leaseId || md.modificationId || md.approval) {
+      mismatches.push({ bookingId: b.id, ref: session.id, reason: "Checkout payé non traité (flux spécifique)" });
+      continue;
+    }
+
+    if (dryRun) {
+      confirmed.push(b.id);
+      continue;
+    }
+
+    const res = await transitionBooking(
+      admin,
+      b,
+      { status: "confirmed", payment_status: "paid" },
+      {
+        source: "job:reconcile-payments",
+        patch: { stripe_payment_intent_id: paymentIntentId, hold_expires_at: null },
+      }
+    );
+
+    if (!res.ok) {
+      // confirmé entre-temps par le webhook: rien à rattraper
+      if (res.code === "CONFLICT") continue;
+      // ⚠️ créneau repris entre-temps: pas de remboursement automatique ici
+      const reason =
+        res.code === "DB_ERROR" && res.dbCode === PG_EXCLUSION_VIOLATION ? "Payé mais créneau déjà repris" : res.detail;
+      mismatches.push({ bookingId: b.id, ref: session.id, reason });
+      continue;
+    }
+
+    await recordPayment(admin, paymentIntentId, { bookingIds: [b.id] });
+    confirmed.push(b.id);
+  }
+
+  // ---------- (B) Remboursements en cours ----------
+  const { data: refunding, error: rErr } = await admin
+    .from("bookings")
+    .select("id,status,payment_status,refund_id")
+    .eq("payment_status", "refunding")
+    .not("refund_id", "is", null)
+    .or("refund_status.is.null,refund_status.neq.failed")
+    .limit(RECONCILE_BATCH);
+
+  if (rErr) throw new Error(rErr.message);
+
+  for (const b of (refunding ?? []) as RefundingRow[]) {
+    let status: string | null;
+    try {
+      status = (await stripe.refunds.retrieve(b.refund_id)).status;
+    } catch (e) {
+      mismatches.push({ bookingId: b.id, ref: b.refund_id, reason: e instanceof Error ? e.message : "Stripe error" });
+      continue;
+    }
+
+    // même correspondance que refund.updated (webhook)
+    if (status !== "succeeded" && status !== "failed") continue;
+
+    if (dryRun) {
+      refunds.push(b.id);
+      continue;
+    }
+
+    const res = await transitionBooking(
+      admin,
+      b,
+      status === "succeeded" ? { payment_status: "refunded" } : {},
+      {
+        source: "job:reconcile-payments",
+        patch:
+          status === "succeeded"
+            ? { refund_status: "refunded", refunded_at: new Date().toISOString() }
+            : { refund_status: "failed" },
+      }
+    );
+
+    if (!res.ok) {
+      if (res.code !== "CONFLICT") mismatches.push({ bookingId: b.id, ref: b.refund_id, reason: res.detail });
+      continue;
+    }
+
+    refunds.push(b.id);
+  }
+
+  return { confirmed, refunds, mismatches };
+}
@@ -0,0 +1,103 @@
+// app/lib/recurring.ts
+import { DEFAULT_TZ, isTimeString, parseTimeToMinutes, zonedToUtcIso } from "@/app/lib/availability";
+import { expandRRule, isYmd, parseRRule } from "@/app/lib/rrule";
+
+/**
+ * Réservations récurrentes (séries pendulaires)
+ * Motif = jours de semaine + heures locales de la place, entre deux dates incluses.
+ * Développé via le moteur RRULE des blackouts (FREQ=WEEKLY;BYDAY=...), fuseau géré ici.
+ * end_time <= start_time => l'occurrence finit le lendemain (place de nuit).
+ */
+
+export type BookingPattern = {
+  weekdays: number[]; // 1..7 (1 = lundi)
+  startTime: string; // "HH:MM" heure locale
+  endTime: string;
+  fromDate: string; // YYYY-MM-DD inclus
+  untilDate: string; // YYYY-MM-DD inclus
+};
+
+export type SeriesOccurrence = {
+  date: string; // jour local de début
+  start: string; // ISO UTC
+  end: string;
+};
+
+export type SeriesBilling = "combined" | "per_occurrence";
+
+// garde-fous: un an max, et une Checkout "combined" reste lisible
+export const MAX_SERIES_DAYS = 366;
+export const MAX_SERIES_OCCURRENCES = 260;
+
+const DAY_CODES = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+
+export const WEEKDAY_LABELS = ["Lun", "Mar", "Mer", "Jeu", "Ven", "Sam", "Dim"];
+
+export function normalizeWeekdays(v: unknown): number[] {
+  if (!Array.isArray(v)) return [];
+  return Array.from(new Set(v.map(Number).filter((n) => Number.isInteger(n) && n >= 1 && n <= 7))).sort();
+}
+
+function daysBetween(fromYmd: string, toYmd: string) {
+  return Math.round((Date.parse(`${toYmd}T00:00:00Z`) - Date.parse(`${fromYmd}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
+
+/** Validation du motif. Retourne un message d'erreur, ou null si OK. */
+export function validatePattern(p: BookingPattern): string | null {
+  if (p.weekdays.length === 0) return "Choisis au moins un jour de la semaine.";
+  if (p.weekdays.some((d) => !Number.isInteger(d) || d < 1 || d > 7)) return "Jours invalides (1 = lundi … 7 = dimanche).";
+  const validTime = (t: string) => isTimeString(t) && parseTimeToMinutes(t) < 24 * 60 && Number(t.slice(3, 5)) < 60;
+  if (!validTime(p.startTime) || !validTime(p.endTime)) return "Heures invalides (HH:MM).";
+  if (parseTimeToMinutes(p.startTime) === parseTimeToMinutes(p.endTime)) return "Début et fin identiques.";
+  if (!isYmd(p.fromDate) || !isYmd(p.untilDate)) return "Dates invalides (YYYY-MM-DD).";
+  if (p.untilDate < p.fromDate) return "La date de fin doit être après la date de début.";
+  if (daysBetween(p.fromDate, p.untilDate) > MAX_SERIES_DAYS) return `Série limitée à ${MAX_SERIES_DAYS} jours.`;
+  return null;
+}
+
+/** Motif => RRULE équivalente (ex: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR") */
+export function patternToRRule(p: Pick<BookingPattern, "weekdays">) {
+  return `FREQ=WEEKLY;BYDAY=${p.weekdays.map((d) => DAY_CODES[d - 1]).join(",")}`;
+}
+
+function addDays(ymd: string, n: number) {
+  return new Date(Date.parse(`${ymd}T00:00:00Z`) + n * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function toUtc(ymd: string, minutes: number, tz: string) {
+  const [y, m, d] = ymd.split("-").map(Number);
+  return zonedToUtcIso(y, m, d, Math.floor(minutes / 60), minutes % 60, tz);
+}
+
+/**
+ * Occurrences du motif (ordre chronologique), au plus MAX_SERIES_OCCURRENCES.
+ * Motif invalide => [] (valider avant avec validatePattern).
+ */
+export function expandPattern(p: BookingPattern, tz: string = DEFAULT_TZ): SeriesOccurrence[] {
+  if (validatePattern(p)) return [];
+
+  const rule = parseRRule(patternToRRule(p));
+  if (typeof rule === "string") return [];
+
+  const startMin = parseTimeToMinutes(p.startTime);
+  const endMin = parseTimeToMinutes(p.endTime);
+  const overnight = endMin <= startMin;
+
+  return expandRRule(rule, p.fromDate, p.fromDate, p.untilDate)
+    .slice(0, MAX_SERIES_OCCURRENCES)
+    .map((date) => ({
+      date,
+      start: toUtc(date, startMin, tz),
+      end: toUtc(overnight ? addDays(date, 1) : date, endMin, tz),
+    }));
+}
+
+/** "Lun–Ven 08:00 → 18:00" */
+export function describePattern(p: Pick<BookingPattern, "weekdays" | "startTime" | "endTime">) {
+  const days = [...p.weekdays].sort();
+  const contiguous = days.length > 2 && days.every((d, i) => i === 0 || d === days[i - 1] + 1);
+  const label = contiguous
+    ? `${WEEKDAY_LABELS[days[0] - 1]}–${WEEKDAY_LABELS[days[days.length - 1] - 1]}`
+    : days.map((d) => WEEKDAY_LABELS[d - 1]).join(", ");
+  return `${label} ${p.startTime.slice(0, 5)} → ${p.endTime.slice(0, 5)}`;
+}
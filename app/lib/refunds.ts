@@ -0,0 +1,210 @@
+// app/lib/refunds.ts
+import type Stripe from "stripe";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { stripe } from "@/app/lib/stripe";
+
+/**
+ * Remboursement d'une réservation réparti sur ses paiements Stripe
+ * - paiement initial (bookings.stripe_payment_intent_id, partagé par toute une série "combined")
+ * - suppléments de modification payés (booking_modifications "applied", un PaymentIntent chacun)
+ * - chaque paiement est plafonné à ce qu'il peut encore rembourser POUR CETTE réservation
+ *   (part de la réservation - remboursements déjà faits pour elle, et reste remboursable du PaymentIntent)
+ * - ordre: suppléments (du plus récent au plus ancien), puis paiement initial
+ * - metadata.bookingId sur chaque remboursement (webhook refund.updated, grand livre)
+ */
+
+export type RefundableBooking = {
+  id: string;
+  total_price: number | null;
+  stripe_payment_intent_id: string | null;
+};
+
+export type BookingPaymentSource = {
+  paymentIntentId: string;
+  kind: "booking" | "modification";
+  // centimes encore remboursables pour cette réservation
+  refundableCents: number;
+};
+
+export type RefundBookingResult = {
+  ok: boolean;
+  refunds: Stripe.Refund[];
+  refundedCents: number;
+  // montant demandé non couvert par les paiements (déjà remboursé ailleurs, paiement manquant)
+  shortfallCents: number;
+  error?: string;
+};
+
+type ModificationPaymentRow = {
+  old_total: number;
+  new_total: number;
+  status: string;
+  stripe_payment_intent_id: string | null;
+  created_at: string;
+};
+
+// un remboursement échoué / annulé ne compte plus
+const LIVE_REFUND_STATUSES = new Set(["pending", "requires_action", "succeeded"]);
+
+function toCents(n: unknown) {
+  const x = Math.round(Number(n ?? 0) * 100);
+  return Number.isFinite(x) ? Math.max(0, x) : 0;
+}
+
+/** Remboursements d'un PaymentIntent: total (tous) et part de la réservation */
+async function refundedOn(paymentIntentId: string, bookingId: string, dedicated: boolean) {
+  let all = 0;
+  let forBooking = 0;
+
+  await stripe.refunds.list({ payment_intent: paymentIntentId, limit: 100 }).autoPagingEach((r) => {
+    if (!LIVE_REFUND_STATUSES.has(r.status ?? "")) return;
+    all += r.amount;
+    const target = r.metadata?.bookingId as string | undefined;
+    // sans bookingId: seulement si le paiement ne concerne que cette réservation
+    if (target ? target === bookingId : dedicated) forBooking += r.amount;
+  });
+
+  return { all, forBooking };
+}
+
+/** Paiements de la réservation et ce qu'il reste à rembourser sur chacun */
+export async function bookingPaymentSources(
+  admin: SupabaseClient,
+  booking: RefundableBooking
+): Promise<BookingPaymentSource[]> {
+  const { data, error } = await admin
+    .from("booking_modifications")
+    .select("old_total,new_total,status,stripe_payment_intent_id,created_at")
+    .eq("booking_id", booking.id)
+    .order("created_at", { ascending: true });
+
+  if (error) throw new Error(error.message);
+  const mods = (data ?? []) as ModificationPaymentRow[];
+
+  const sources: BookingPaymentSource[] = [];
+
+  // suppléments payés: un PaymentIntent propre à la réservation
+  const supplements = mods
+    .filter((m) => m.status === "applied" && m.stripe_payment_intent_id && Number(m.new_total) > Number(m.old_total))
+    .reverse();
+
+  for (const m of supplements) {
+    const paymentIntentId = m.stripe_payment_intent_id as string;
+    const pi = await stripe.paymentIntents.retrieve(paymentIntentId);
+    const refunded = await refundedOn(paymentIntentId, booking.id, true);
+    const shareCents = toCents(Number(m.new_total) - Number(m.old_total));
+
+    sources.push({
+      paymentIntentId,
+      kind: "modification",
+      refundableCents: Math.max(0, Math.min(shareCents - refunded.forBooking, pi.amount_received - refunded.all)),
+    });
+  }
+
+  if (booking.stripe_payment_intent_id) {
+    const paymentIntentId = booking.stripe_payment_intent_id;
+
+    // part payée au départ = prix avant la première modification (sinon prix actuel)
+    const shareCents = toCents(mods[0]?.old_total ?? booking.total_price);
+
+    const { count, error: cErr } = await admin
+      .from("bookings")
+      .select("id", { count: "exact", head: true })
+      .eq("stripe_payment_intent_id", paymentIntentId);
+    if (cErr) throw new Error(cErr.message);
+
+    const pi = await stripe.paymentIntents.retrieve(paymentIntentId);
+    const refunded = await refundedOn(paymentIntentId, booking.id, (count ?? 0) <= 1);
+
+    sources.push({
+      paymentIntentId,
+      kind: "booking",
+      refundableCents: Math.max(0, Math.min(shareCents - refunded.forBooking, pi.amount_received - refunded.all)),
+    });
+  }
+
+  return sources;
+}
+
+/**
+ * Rembourse `amountCents` à la réservation sur ses paiements (reverse_transfer: part du propriétaire reprise).
+ * Erreur Stripe => ok:false avec les remboursements déjà créés (l'appelant décide: rollback ou statut "failed").
+ * idempotencyKey: préfixe, complété par paiement et montant.
+ */
+export async function refundBookingPayments(
+  admin: SupabaseClient,
+  booking: RefundableBooking,
+  amountCents: number,
+  opts: { idempotencyKey: string; metadata?: Record<string, string> }
+): Promise<RefundBookingResult> {
+  const refunds: Stripe.Refund[] = [];
+  let remaining = Math.max(0, Math.floor(amountCents));
+
+  try {
+    const sources = await bookingPaymentSources(admin, booking);
+
+    for (const s of sources) {
+      if (remaining <= 0) break;
+
+      const amount = Math.min(remaining, s.refundableCents);
+      if (amount <= 0) continue;
+
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: s.paymentIntentId,
+          amount,
+          reverse_transfer: true,
+          metadata: { ...opts.metadata, bookingId: booking.id },
+        },
+        { idempotencyKey: `${opts.idempotencyKey}-${s.paymentIntentId}-${amount}` }
+      );
+
+      refunds.push(refund);
+      remaining -= amount;
+    }
+  } catch (e: unknown) {
+    const refundedCents = refunds.reduce((sum, r) => sum + r.amount, 0);
+    return {
+      ok: false,
+      refunds,
+      refundedCents,
+      shortfallCents: remaining,
+      error: e instanceof Error ? e.message : "Stripe refund failed",
+    };
+  }
+
+  return {
+    ok: true,
+    refunds,
+    refundedCents: refunds.reduce((sum, r) => sum + r.amount, 0),
+    shortfallCents: remaining,
+  };
+}
+
+/** Tous les remboursements créés sont déjà passés (sinon: le webhook refund.updated finalise) */
+export function refundsSettled(refunds: Stripe.Refund[]) {
+  return refunds.length > 0 && refunds.every((r) => r.status === "succeeded");
+}
+
+/**
+ * État global des remboursements d'annulation d'une réservation (hors remboursements de modification)
+ * null = aucun remboursement trouvé
+ */
+export async function bookingRefundStatus(
+  admin: SupabaseClient,
+  booking: RefundableBooking
+): Promise<"refunded" | "failed" | "processing" | null> {
+  const sources = await bookingPaymentSources(admin, booking);
+  const statuses: string[] = [];
+
+  for (const s of sources) {
+    await stripe.refunds.list({ payment_intent: s.paymentIntentId, limit: 100 }).autoPagingEach((r) => {
+      if (r.metadata?.bookingId !== booking.id || r.metadata?.modificationId) return;
+      statuses.push(r.status ?? "pending");
+    });
+  }
+
+  if (statuses.length === 0) return null;
+  if (statuses.some((s) => s === "failed" || s === "canceled")) return "failed";
+  return statuses.every((s) => s === "succeeded") ? "refunded" : "processing";
+}
@@ -0,0 +1,107 @@
+// app/lib/reminders.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sendEmail, bookingReminderEmailHtml } from "@/app/lib/mailer";
+
+// rappel envoyé au client dans les N heures avant le début
+export const REMINDER_LEAD_HOURS = 24;
+
+// borne par exécution (emails envoyés un par un)
+const REMINDER_BATCH = 100;
+
+type ReminderRow = {
+  id: string;
+  parking_id: string;
+  user_id: string;
+  start_time: string;
+  end_time: string;
+};
+
+/**
+ * Rappels avant le début (bookings.reminder_sent_at)
+ * - réservations confirmées + payées qui commencent dans REMINDER_LEAD_HOURS
+ * - hors location mensuelle (pas de "début" à rappeler à chaque renouvellement)
+ * ⚠️ reminder_sent_at est posé AVANT l'envoi (update conditionnel): deux exécutions concurrentes
+ *    n'envoient pas deux fois; un email en échec n'est pas renvoyé.
+ */
+export async function sendBookingReminders(
+  admin: SupabaseClient,
+  opts?: { nowMs?: number; dryRun?: boolean }
+) {
+  const nowMs = opts?.nowMs ?? Date.now();
+  const nowIso = new Date(nowMs).toISOString();
+  const untilIso = new Date(nowMs + REMINDER_LEAD_HOURS * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await admin
+    .from("bookings")
+    .select("id,parking_id,user_id,start_time,end_time")
+    .eq("status", "confirmed")
+    .eq("payment_status", "paid")
+    .is("reminder_sent_at", null)
+    .is("lease_id", null)
+    .gt("start_time", nowIso)
+    .lte("start_time", untilIso)
+    .order("start_time", { ascending: true })
+    .limit(REMINDER_BATCH);
+
+  if (error) throw new Error(error.message);
+
+  const rows = (data ?? []) as ReminderRow[];
+  if (opts?.dryRun) return { sent: rows.map((b) => b.id), failed: [] as string[] };
+
+  const parkingIds = Array.from(new Set(rows.map((b) => b.parking_id)));
+  const parkings = new Map<string, { title: string | null; address: string | null; timezone: string | null }>();
+  if (parkingIds.length > 0) {
+    const { data: pData, error: pErr } = await admin
+      .from("parkings")
+      .select("id,title,address,timezone")
+      .in("id", parkingIds);
+    if (pErr) throw new Error(pErr.message);
+    for (const p of (pData ?? []) as Array<{ id: string; title: string | null; address: string | null; timezone: string | null }>) {
+      parkings.set(p.id, p);
+    }
+  }
+
+  const sent: string[] = [];
+  const failed: string[] = [];
+
+  for (const b of rows) {
+    const { data: claimed, error: cErr } = await admin
+      .from("bookings")
+      .update({ reminder_sent_at: new Date().toISOString() })
+      .eq("id", b.id)
+      .is("reminder_sent_at", null)
+      .select("id");
+
+    if (cErr) throw new Error(cErr.message);
+    if (!claimed || claimed.length === 0) continue;
+
+    try {
+      const u = await admin.auth.admin.getUserById(b.user_id);
+      const to = u.data?.user?.email ?? null;
+      if (!to) {
+        failed.push(b.id);
+        continue;
+      }
+
+      const p = parkings.get(b.parking_id);
+      await sendEmail({
+        to,
+        subject: `Rappel : ta réservation commence bientôt — ${p?.title ?? "Parkeo"}`,
+        html: bookingReminderEmailHtml({
+          parkingTitle: p?.title ?? "Place",
+          parkingAddress: p?.address ?? null,
+          startTimeIso: b.start_time,
+          endTimeIso: b.end_time,
+          timeZone: p?.timezone,
+          bookingId: b.id,
+        }),
+      });
+      sent.push(b.id);
+    } catch (e) {
+      console.error(`Booking reminder ${b.id} failed:`, e);
+      failed.push(b.id);
+    }
+  }
+
+  return { sent, failed };
+}
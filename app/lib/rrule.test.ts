@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { expandRRule, parseRRule, type RRule } from "@/app/lib/rrule";
+
+function rule(src: string): RRule {
+  const r = parseRRule(src);
+  if (typeof r === "string") throw new Error(r);
+  return r;
+}
+
+describe("parseRRule", () => {
+  it("lit une règle complète, préfixe RRULE: toléré", () => {
+    expect(parseRRule("RRULE:freq=monthly;interval=2;byday=1MO,-1FR;bymonth=1,7")).toEqual({
+      freq: "MONTHLY",
+      interval: 2,
+      count: null,
+      until: null,
+      byDay: [
+        { weekday: 1, nth: 1 },
+        { weekday: 5, nth: -1 },
+      ],
+      byMonthDay: [],
+      byMonth: [1, 7],
+    });
+    expect(rule("FREQ=DAILY;UNTIL=20261231T235959Z").until).toBe("2026-12-31");
+  });
+
+  it("refuse les parties non supportées ou incohérentes", () => {
+    expect(parseRRule("")).toBe("RRULE vide");
+    expect(parseRRule("FREQ=HOURLY")).toMatch(/FREQ/);
+    expect(parseRRule("FREQ=MONTHLY;BYSETPOS=1")).toBe("RRULE: BYSETPOS non supporté");
+    expect(parseRRule("FREQ=DAILY;COUNT=3;UNTIL=20261231")).toBe("RRULE: COUNT et UNTIL sont exclusifs");
+    expect(parseRRule("FREQ=WEEKLY;BYDAY=1MO")).toBe("RRULE: BYDAY avec rang seulement en MONTHLY / YEARLY");
+    expect(parseRRule("FREQ=MONTHLY;BYDAY=6MO")).toMatch(/BYDAY invalide/);
+    expect(parseRRule("FREQ=MONTHLY;BYMONTHDAY=32")).toBe("RRULE: BYMONTHDAY invalide");
+    expect(parseRRule("FREQ=YEARLY;BYMONTH=-1")).toBe("RRULE: BYMONTH invalide");
+    expect(parseRRule("FREQ=DAILY;INTERVAL=0")).toBe("RRULE: INTERVAL invalide");
+  });
+});
+
+describe("expandRRule", () => {
+  it("prend le n-ième et le dernier jour de semaine du mois", () => {
+    expect(expandRRule(rule("FREQ=MONTHLY;BYDAY=1MO"), "2026-01-01", "2026-01-01", "2026-06-30")).toEqual([
+      "2026-01-05",
+      "2026-02-02",
+      "2026-03-02",
+      "2026-04-06",
+      "2026-05-04",
+      "2026-06-01",
+    ]);
+    expect(expandRRule(rule("FREQ=MONTHLY;BYDAY=-1FR"), "2026-01-01", "2026-01-01", "2026-03-31")).toEqual([
+      "2026-01-30",
+      "2026-02-27",
+      "2026-03-27",
+    ]);
+  });
+
+  it("compte BYMONTHDAY négatif depuis la fin du mois (années bissextiles)", () => {
+    expect(expandRRule(rule("FREQ=MONTHLY;BYMONTHDAY=-1"), "2026-01-15", "2026-02-01", "2026-03-31")).toEqual([
+      "2026-02-28",
+      "2026-03-31",
+    ]);
+    expect(expandRRule(rule("FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1"), "2026-01-01", "2028-01-01", "2028-12-31")).toEqual([
+      "2028-02-29",
+    ]);
+  });
+
+  it("saute les mois sans le jour demandé", () => {
+    expect(expandRRule(rule("FREQ=MONTHLY;BYMONTHDAY=31"), "2026-01-31", "2026-01-01", "2026-06-30")).toEqual([
+      "2026-01-31",
+      "2026-03-31",
+      "2026-05-31",
+    ]);
+  });
+
+  it("respecte INTERVAL en semaines ISO depuis DTSTART", () => {
+    expect(
+      expandRRule(rule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE"), "2026-06-01", "2026-06-01", "2026-06-30")
+    ).toEqual(["2026-06-01", "2026-06-03", "2026-06-15", "2026-06-17", "2026-06-29"]);
+  });
+
+  it("compte COUNT depuis DTSTART, exdates comprises", () => {
+    const daily3 = rule("FREQ=DAILY;COUNT=3");
+
+    expect(expandRRule(daily3, "2026-06-01", "2026-06-02", "2026-06-30")).toEqual(["2026-06-02", "2026-06-03"]);
+    expect(expandRRule(daily3, "2026-06-01", "2026-06-01", "2026-06-30", ["2026-06-02"])).toEqual([
+      "2026-06-01",
+      "2026-06-03",
+    ]);
+  });
+
+  it("s'arrête à UNTIL inclus et ignore des dates invalides", () => {
+    expect(expandRRule(rule("FREQ=DAILY;UNTIL=20260603"), "2026-06-01", "2026-06-01", "2026-06-30")).toEqual([
+      "2026-06-01",
+      "2026-06-02",
+      "2026-06-03",
+    ]);
+    expect(expandRRule(rule("FREQ=DAILY"), "01.06.2026", "2026-06-01", "2026-06-30")).toEqual([]);
+  });
+});
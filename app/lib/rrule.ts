@@ -0,0 +1,222 @@
+// app/lib/rrule.ts
+
+/**
+ * Sous-ensemble de RRULE iCalendar (RFC 5545) pour les blackouts récurrents
+ * - FREQ=DAILY|WEEKLY|MONTHLY|YEARLY, INTERVAL, COUNT, UNTIL
+ * - BYDAY (avec ordinal en MONTHLY/YEARLY: 1MO = 1er lundi, -1FR = dernier vendredi)
+ * - BYMONTHDAY (négatif = depuis la fin du mois), BYMONTH
+ * Travaille uniquement sur des dates locales "YYYY-MM-DD" (le fuseau est géré par l'appelant).
+ * Non supportés (refusés au parsing): BYSETPOS, BYHOUR/BYMINUTE, BYWEEKNO, BYYEARDAY, HOURLY...
+ */
+
+export type RRuleFreq = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export type RRuleByDay = { weekday: number; nth: number | null }; // weekday 1..7 (1 = lundi)
+
+export type RRule = {
+  freq: RRuleFreq;
+  interval: number;
+  count: number | null;
+  until: string | null; // YYYY-MM-DD inclus
+  byDay: RRuleByDay[];
+  byMonthDay: number[];
+  byMonth: number[];
+};
+
+const DAY_CODES: Record<string, number> = { MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6, SU: 7 };
+const FREQS: RRuleFreq[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+const SUPPORTED_PARTS = ["FREQ", "INTERVAL", "COUNT", "UNTIL", "BYDAY", "BYMONTHDAY", "BYMONTH", "WKST"];
+
+// garde-fou: une règle n'est jamais développée au-delà (≈ 20 ans de jours)
+const MAX_ITERATIONS = 7400;
+
+export function isYmd(v: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(String(v ?? "").trim());
+}
+
+function ymdToUtc(ymd: string) {
+  const [y, m, d] = ymd.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function utcToYmd(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+function isoWeekday(d: Date) {
+  const w = d.getUTCDay();
+  return w === 0 ? 7 : w;
+}
+
+function daysInMonth(y: number, m0: number) {
+  return new Date(Date.UTC(y, m0 + 1, 0)).getUTCDate();
+}
+
+function parseIntList(v: string, min: number, max: number, allowNegative: boolean) {
+  const out: number[] = [];
+  for (const raw of v.split(",")) {
+    const n = Number(raw);
+    if (!Number.isInteger(n)) return null;
+    const abs = Math.abs(n);
+    if (abs < min || abs > max || (n < 0 && !allowNegative)) return null;
+    out.push(n);
+  }
+  return out;
+}
+
+/**
+ * "FREQ=MONTHLY;BYDAY=1MO" => RRule, ou message d'erreur (string).
+ * Le préfixe "RRULE:" est toléré.
+ */
+export function parseRRule(input: string): RRule | string {
+  const src = String(input ?? "").trim().replace(/^RRULE:/i, "");
+  if (!src) return "RRULE vide";
+
+  const parts = new Map<string, string>();
+  for (const chunk of src.split(";")) {
+    if (!chunk) continue;
+    const [k, v] = chunk.split("=");
+    const key = (k ?? "").trim().toUpperCase();
+    const val = (v ?? "").trim().toUpperCase();
+    if (!key || !val) return `RRULE invalide: "${chunk}"`;
+    if (!SUPPORTED_PARTS.includes(key)) return `RRULE: ${key} non supporté`;
+    parts.set(key, val);
+  }
+
+  const freq = parts.get("FREQ") as RRuleFreq | undefined;
+  if (!freq || !FREQS.includes(freq)) return "RRULE: FREQ doit être DAILY, WEEKLY, MONTHLY ou YEARLY";
+
+  const interval = parts.has("INTERVAL") ? Number(parts.get("INTERVAL")) : 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > 365) return "RRULE: INTERVAL invalide";
+
+  const count = parts.has("COUNT") ? Number(parts.get("COUNT")) : null;
+  if (count !== null && (!Number.isInteger(count) || count < 1 || count > 1000)) return "RRULE: COUNT invalide";
+
+  let until: string | null = null;
+  if (parts.has("UNTIL")) {
+    const m = parts.get("UNTIL")!.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+    if (!m) return "RRULE: UNTIL invalide (YYYYMMDD)";
+    until = `${m[1]}-${m[2]}-${m[3]}`;
+  }
+  if (count !== null && until !== null) return "RRULE: COUNT et UNTIL sont exclusifs";
+
+  const byDay: RRuleByDay[] = [];
+  if (parts.has("BYDAY")) {
+    for (const raw of parts.get("BYDAY")!.split(",")) {
+      const m = raw.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+      if (!m) return `RRULE: BYDAY invalide "${raw}"`;
+      const nth = m[1] ? Number(m[1]) : null;
+      if (nth !== null && (nth === 0 || Math.abs(nth) > 5)) return `RRULE: BYDAY invalide "${raw}"`;
+      if (nth !== null && freq !== "MONTHLY" && freq !== "YEARLY") {
+        return "RRULE: BYDAY avec rang seulement en MONTHLY / YEARLY";
+      }
+      byDay.push({ weekday: DAY_CODES[m[2]], nth });
+    }
+  }
+
+  const byMonthDay = parts.has("BYMONTHDAY") ? parseIntList(parts.get("BYMONTHDAY")!, 1, 31, true) : [];
+  if (!byMonthDay) return "RRULE: BYMONTHDAY invalide";
+
+  const byMonth = parts.has("BYMONTH") ? parseIntList(parts.get("BYMONTH")!, 1, 12, false) : [];
+  if (!byMonth) return "RRULE: BYMONTH invalide";
+
+  return { freq, interval, count, until, byDay, byMonthDay, byMonth };
+}
+
+function matchesMonthDay(d: Date, list: number[]) {
+  const day = d.getUTCDate();
+  const dim = daysInMonth(d.getUTCFullYear(), d.getUTCMonth());
+  return list.some((n) => (n > 0 ? day === n : day === dim + n + 1));
+}
+
+function matchesByDayInMonth(d: Date, list: RRuleByDay[]) {
+  const wd = isoWeekday(d);
+  const day = d.getUTCDate();
+  const dim = daysInMonth(d.getUTCFullYear(), d.getUTCMonth());
+  const nthFromStart = Math.floor((day - 1) / 7) + 1;
+  const nthFromEnd = -(Math.floor((dim - day) / 7) + 1);
+  return list.some((b) => b.weekday === wd && (b.nth === null || b.nth === nthFromStart || b.nth === nthFromEnd));
+}
+
+/** Le jour `d` appartient-il à la série (hors INTERVAL / COUNT / UNTIL) ? */
+function matchesDay(rule: RRule, d: Date, start: Date) {
+  if (rule.byMonth.length && !rule.byMonth.includes(d.getUTCMonth() + 1)) return false;
+
+  switch (rule.freq) {
+    case "DAILY":
+      if (rule.byDay.length && !rule.byDay.some((b) => b.weekday === isoWeekday(d))) return false;
+      if (rule.byMonthDay.length && !matchesMonthDay(d, rule.byMonthDay)) return false;
+      return true;
+
+    case "WEEKLY":
+      return rule.byDay.length
+        ? rule.byDay.some((b) => b.weekday === isoWeekday(d))
+        : isoWeekday(d) === isoWeekday(start);
+
+    case "MONTHLY":
+    case "YEARLY":
+      if (rule.freq === "YEARLY" && !rule.byMonth.length && d.getUTCMonth() !== start.getUTCMonth()) return false;
+      if (rule.byMonthDay.length) return matchesMonthDay(d, rule.byMonthDay);
+      if (rule.byDay.length) return matchesByDayInMonth(d, rule.byDay);
+      return d.getUTCDate() === start.getUTCDate();
+  }
+}
+
+/** Respect de INTERVAL: numéro de période depuis DTSTART (semaines ISO commençant le lundi). */
+function inInterval(rule: RRule, d: Date, start: Date) {
+  if (rule.interval === 1) return true;
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  switch (rule.freq) {
+    case "DAILY":
+      return Math.round((d.getTime() - start.getTime()) / dayMs) % rule.interval === 0;
+    case "WEEKLY": {
+      const mondayOf = (x: Date) => x.getTime() - (isoWeekday(x) - 1) * dayMs;
+      return Math.round((mondayOf(d) - mondayOf(start)) / (7 * dayMs)) % rule.interval === 0;
+    }
+    case "MONTHLY": {
+      const months = (d.getUTCFullYear() - start.getUTCFullYear()) * 12 + d.getUTCMonth() - start.getUTCMonth();
+      return months % rule.interval === 0;
+    }
+    case "YEARLY":
+      return (d.getUTCFullYear() - start.getUTCFullYear()) % rule.interval === 0;
+  }
+}
+
+/**
+ * Occurrences (dates locales "YYYY-MM-DD") de la règle entre fromYmd et toYmd inclus.
+ * DTSTART compte comme première occurrence possible (COUNT inclut les occurrences avant la fenêtre).
+ * Les dates de `exdates` sont retirées (mais comptent pour COUNT, comme en iCalendar).
+ */
+export function expandRRule(
+  rule: RRule,
+  dtstart: string,
+  fromYmd: string,
+  toYmd: string,
+  exdates: string[] = []
+): string[] {
+  if (!isYmd(dtstart) || !isYmd(fromYmd) || !isYmd(toYmd)) return [];
+
+  const start = ymdToUtc(dtstart);
+  const last = rule.until && rule.until < toYmd ? rule.until : toYmd;
+  const excluded = new Set(exdates);
+  const out: string[] = [];
+
+  let cursor = start;
+  let seen = 0;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const ymd = utcToYmd(cursor);
+    if (ymd > last) break;
+
+    if (matchesDay(rule, cursor, start) && inInterval(rule, cursor, start)) {
+      seen++;
+      if (rule.count !== null && seen > rule.count) break;
+      if (ymd >= fromYmd && !excluded.has(ymd)) out.push(ymd);
+    }
+
+    cursor = new Date(cursor.getTime() + 24 * 60 * 60 * 1000);
+  }
+
+  return out;
+}
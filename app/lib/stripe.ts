@@ -84,6 +84,15 @@ export async function createBookingCheckoutSession(args: {
   cancelPath?: string;
 
   customerEmail?: string | null;
+
+  // ex: { modificationId } pour un supplément (modification de réservation), lu par le webhook
+  metadata?: Record<string, string>;
+
+  // "manual" = réservation sur demande: paiement autorisé, capturé à l'acceptation du propriétaire
+  captureMethod?: "automatic" | "manual";
+
+  // fin de la session (secondes Unix) = fin du hold de la réservation (app/lib/holds.ts)
+  expiresAt?: number;
 }) {
   const currency = (args.currency ?? "CHF").toLowerCase();
 
@@ -115,9 +124,10 @@ export async function createBookingCheckoutSession(args: {
     mode: "payment",
     success_url: successUrl,
     cancel_url: cancelUrl,
+    ...(args.expiresAt ? { expires_at: args.expiresAt } : {}),
 
     client_reference_id: args.bookingId,
-    metadata: { bookingId: args.bookingId },
+    metadata: { ...args.metadata, bookingId: args.bookingId },
 
     customer_email: args.customerEmail ?? undefined,
 
@@ -135,6 +145,8 @@ export async function createBookingCheckoutSession(args: {
     ],
 
     payment_intent_data: {
+      ...(args.captureMethod === "manual" ? { capture_method: "manual" as const } : {}),
+
       // ✅ Parkeo prend 15% (ou montant fourni)
       application_fee_amount: applicationFeeAmount,
 
@@ -142,6 +154,7 @@ export async function createBookingCheckoutSession(args: {
       transfer_data: { destination: args.connectedAccountId },
 
       metadata: {
+        ...args.metadata,
         bookingId: args.bookingId,
         connectedAccountId: args.connectedAccountId,
         platformFeePercent: String(PLATFORM_FEE_PERCENT),
@@ -154,6 +167,75 @@ export async function createBookingCheckoutSession(args: {
   return session;
 }
 
+/**
+ * ✅ Location au mois: Checkout mode "subscription" + Connect (destination)
+ * - prix mensuel récurrent créé à la volée (price_data.recurring)
+ * - commission Parkeo en pourcentage sur chaque facture (application_fee_percent)
+ * - leaseId dans les metadata de la session ET de l'abonnement (lu par le webhook sur invoice.*)
+ */
+export async function createLeaseCheckoutSession(args: {
+  leaseId: string;
+  parkingTitle: string;
+
+  amountMonthly: number;
+  currency?: string | null;
+
+  connectedAccountId: string; // acct_...
+  successPath?: string;
+  cancelPath?: string;
+
+  customerEmail?: string | null;
+
+  // fin de la session (secondes Unix) = fin du hold de la réservation glissante
+  expiresAt?: number;
+}) {
+  const currency = (args.currency ?? "CHF").toLowerCase();
+
+  if (!args.connectedAccountId?.startsWith("acct_")) {
+    throw new Error("connectedAccountId invalide (attendu acct_...)");
+  }
+
+  const monthlyCents = toCents(args.amountMonthly);
+  if (!Number.isFinite(monthlyCents) || monthlyCents <= 0) throw new Error("Montant mensuel invalide");
+
+  const metadata = { leaseId: args.leaseId, kind: "parking_lease" };
+
+  const session = await stripe.checkout.sessions.create({
+    mode: "subscription",
+    success_url: appUrl(args.successPath ?? "/my-bookings?lease=1"),
+    cancel_url: appUrl(args.cancelPath ?? "/my-bookings"),
+    ...(args.expiresAt ? { expires_at: args.expiresAt } : {}),
+
+    client_reference_id: args.leaseId,
+    metadata,
+
+    customer_email: args.customerEmail ?? undefined,
+
+    line_items: [
+      {
+        quantity: 1,
+        price_data: {
+          currency,
+          unit_amount: monthlyCents,
+          recurring: { interval: "month" },
+          product_data: {
+            name: `Location mensuelle — ${args.parkingTitle || "Parkeo"}`,
+          },
+        },
+      },
+    ],
+
+    subscription_data: {
+      // ✅ Parkeo prend 15% de chaque facture, le reste va à l’owner
+      application_fee_percent: PLATFORM_FEE_PERCENT * 100,
+      transfer_data: { destination: args.connectedAccountId },
+      metadata: { ...metadata, connectedAccountId: args.connectedAccountId },
+    },
+  });
+
+  return session;
+}
+
 export function extractPaymentIntentIdFromCheckoutSession(
   session: Stripe.Checkout.Session
 ): string | null {
@@ -0,0 +1,235 @@
+// app/lib/stripeEvents.ts
+import type Stripe from "stripe";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { handleStripeEvent, stripeEventObjectId } from "@/app/lib/stripeWebhook";
+
+/**
+ * Journal des événements Stripe (public.stripe_events, clé = event.id)
+ * - reçu une seule fois: une relivraison d'un événement déjà traité répond 200 sans rien rejouer
+ * - claim par update conditionnel (status + attempts lus): deux livraisons simultanées ne traitent pas deux fois
+ * - ordre: un événement plus ancien qu'un événement déjà traité sur le même objet Stripe est "skipped"
+ *   (même seconde: départagé par le statut de l'objet)
+ * - échec (DB / Stripe) => "failed" + last_error, rejoué par Stripe, le job replay-stripe-events ou /api/stripe/events/replay
+ */
+
+export type StripeEventSource = "platform" | "connect";
+
+export type StripeEventStatus = "received" | "processing" | "processed" | "ignored" | "skipped" | "failed";
+
+// au-delà: l'événement reste "failed" (rejeu manuel uniquement)
+export const STRIPE_EVENT_MAX_ATTEMPTS = 5;
+
+// "processing" plus vieux que ça = traitement interrompu (timeout, crash), repris
+const PROCESSING_STALE_MS = 5 * 60 * 1000;
+
+type StripeEventRow = {
+  id: string;
+  status: StripeEventStatus;
+  attempts: number;
+  updated_at: string;
+};
+
+export type StripeEventRun = {
+  eventId: string;
+  type: string;
+  status: StripeEventStatus;
+  // true = déjà traité / en cours ailleurs: rien n'a été rejoué
+  duplicate: boolean;
+  attempts: number;
+  detail?: Record<string, unknown>;
+  error?: string;
+};
+
+/** Enregistre l'événement (ignoré s'il existe déjà) */
+export async function recordStripeEvent(admin: SupabaseClient, event: Stripe.Event, source: StripeEventSource) {
+  const { error } = await admin.from("stripe_events").upsert(
+    {
+      id: event.id,
+      type: event.type,
+      source,
+      livemode: event.livemode,
+      account: event.account ?? null,
+      object_id: stripeEventObjectId(event),
+      stripe_created_at: new Date(event.created * 1000).toISOString(),
+      payload: event,
+      status: "received",
+    },
+    { onConflict: "id", ignoreDuplicates: true }
+  );
+
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Traite un événement enregistré.
+ * `force` = rejouer aussi un événement déjà traité (outil de rejeu), les handlers étant idempotents.
+ */
+export async function processStripeEvent(
+  admin: SupabaseClient,
+  event: Stripe.Event,
+  opts?: { force?: boolean; nowMs?: number }
+): Promise<StripeEventRun> {
+  const nowMs = opts?.nowMs ?? Date.now();
+  const base = { eventId: event.id, type: event.type };
+
+  const { data, error } = await admin
+    .from("stripe_events")
+    .select("id,status,attempts,updated_at")
+    .eq("id", event.id)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error(`Stripe event ${event.id} not recorded`);
+
+  const row = data as StripeEventRow;
+
+  const inFlight = row.status === "processing" && Date.parse(row.updated_at) > nowMs - PROCESSING_STALE_MS;
+  const settled = row.status === "processed" || row.status === "ignored" || row.status === "skipped";
+  if (inFlight || (settled && !opts?.force)) {
+    return { ...base, status: row.status, duplicate: true, attempts: row.attempts };
+  }
+
+  // claim: une seule exécution par (status, attempts) lus
+  const attempts = row.attempts + 1;
+  const { data: claimed, error: claimErr } = await admin
+    .from("stripe_events")
+    .update({ status: "processing", attempts, updated_at: new Date(nowMs).toISOString() })
+    .eq("id", event.id)
+    .eq("status", row.status)
+    .eq("attempts", row.attempts)
+    .select("id");
+
+  if (claimErr) throw new Error(claimErr.message);
+  if (!claimed || claimed.length === 0) {
+    return { ...base, status: "processing", duplicate: true, attempts: row.attempts };
+  }
+
+  let run: StripeEventRun;
+  try {
+    const supersededBy = await newerProcessedEvent(admin, event);
+    if (supersededBy) {
+      run = { ...base, status: "skipped", duplicate: false, attempts, detail: { supersededBy } };
+    } else {
+      const outcome = await handleStripeEvent(admin, event);
+      run = { ...base, status: outcome.status, duplicate: false, attempts, detail: outcome.detail };
+    }
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Webhook handler error";
+    console.error(`Stripe event ${event.id} (${event.type}) failed:`, e);
+    run = { ...base, status: "failed", duplicate: false, attempts, error: message };
+  }
+
+  const { error: finErr } = await admin
+    .from("stripe_events")
+    .update({
+      status: run.status,
+      result: run.detail ?? null,
+      last_error: run.error ?? null,
+      processed_at: run.status === "failed" ? null : new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", event.id);
+
+  if (finErr) console.error(`Stripe event ${event.id}: log update failed: ${finErr.message}`);
+
+  return run;
+}
+
+// avancement du statut de l'objet Stripe: départage deux événements de la même seconde
+// (event.created n'a qu'une précision d'une seconde). Statut inconnu => pas de départage.
+const OBJECT_STATUS_PROGRESS: Record<string, number> = {
+  draft: 0,
+  open: 0,
+  pending: 0,
+  requires_action: 0,
+  requires_payment_method: 0,
+  requires_confirmation: 0,
+  requires_capture: 0,
+  processing: 1,
+  succeeded: 2,
+  failed: 2,
+  canceled: 2,
+  paid: 2,
+  void: 2,
+  uncollectible: 2,
+  complete: 2,
+  expired: 2,
+};
+
+function statusProgress(status: unknown) {
+  return typeof status === "string" ? OBJECT_STATUS_PROGRESS[status] : undefined;
+}
+
+/**
+ * Événement plus récent déjà appliqué au même objet (ex: refund.updated "succeeded" reçu avant "pending",
+ * invoice.paid avant un invoice.payment_failed relivré en retard): l'ancien ne doit pas l'écraser.
+ * Même seconde: le plus récent est celui dont l'objet est le plus avancé (pending < processing < succeeded).
+ */
+async function newerProcessedEvent(admin: SupabaseClient, event: Stripe.Event) {
+  const objectId = stripeEventObjectId(event);
+  if (!objectId) return null;
+
+  const createdIso = new Date(event.created * 1000).toISOString();
+  const { data, error } = await admin
+    .from("stripe_events")
+    .select("id,stripe_created_at,object_status:payload->data->object->>status")
+    .eq("object_id", objectId)
+    .eq("status", "processed")
+    .neq("id", event.id)
+    .gte("stripe_created_at", createdIso)
+    .order("stripe_created_at", { ascending: false })
+    .limit(20);
+
+  if (error) throw new Error(error.message);
+
+  const own = statusProgress((event.data.object as { status?: unknown }).status);
+  const rows = (data ?? []) as Array<{ id: string; stripe_created_at: string; object_status: string | null }>;
+
+  const newer = rows.find((r) => {
+    if (Date.parse(r.stripe_created_at) > event.created * 1000) return true;
+    const other = statusProgress(r.object_status);
+    return own !== undefined && other !== undefined && other > own;
+  });
+  return newer?.id ?? null;
+}
+
+/**
+ * Rejeu depuis le payload enregistré:
+ * - eventIds fournis => ces événements (force: même déjà traités)
+ * - sinon => événements "failed" sous STRIPE_EVENT_MAX_ATTEMPTS et "processing" interrompus
+ */
+export async function replayStripeEvents(
+  admin: SupabaseClient,
+  opts?: { eventIds?: string[]; nowMs?: number; dryRun?: boolean; limit?: number }
+) {
+  const nowMs = opts?.nowMs ?? Date.now();
+  const explicit = !!opts?.eventIds?.length;
+
+  let q = admin.from("stripe_events").select("id,type,status,attempts,payload");
+  if (explicit) {
+    q = q.in("id", opts!.eventIds!).order("stripe_created_at", { ascending: true });
+  } else {
+    const staleIso = new Date(nowMs - PROCESSING_STALE_MS).toISOString();
+    q = q
+      .lt("attempts", STRIPE_EVENT_MAX_ATTEMPTS)
+      .or(`status.eq.failed,and(status.eq.processing,updated_at.lt."${staleIso}")`)
+      .order("stripe_created_at", { ascending: true })
+      .limit(opts?.limit ?? 50);
+  }
+
+  const { data, error } = await q;
+  if (error) throw new Error(error.message);
+
+  const rows = (data ?? []) as Array<{ id: string; type: string; status: StripeEventStatus; attempts: number; payload: Stripe.Event }>;
+
+  if (opts?.dryRun) {
+    return rows.map((r) => ({ eventId: r.id, type: r.type, status: r.status, duplicate: false, attempts: r.attempts }));
+  }
+
+  // ⚠️ séquentiel, dans l'ordre Stripe: un événement plus ancien d'abord
+  const runs: StripeEventRun[] = [];
+  for (const r of rows) {
+    runs.push(await processStripeEvent(admin, r.payload, { force: explicit, nowMs }));
+  }
+  return runs;
+}
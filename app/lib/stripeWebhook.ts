@@ -0,0 +1,747 @@
+// app/lib/stripeWebhook.ts
+import type Stripe from "stripe";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { stripe } from "@/app/lib/stripe";
+import { applyBookingModification, notifyBookingModified } from "@/app/lib/bookingModifications";
+import { abortLease, endLease, findLease, renewLease } from "@/app/lib/leases";
+import {
+  BOOKING_REQUEST_COLUMNS,
+  notifyBookingRequest,
+  voidAuthorization,
+  type BookingRequestRow,
+} from "@/app/lib/bookingRequests";
+import { PG_EXCLUSION_VIOLATION } from "@/app/lib/availability";
+import { HELD_BOOKING_STATUSES } from "@/app/lib/holds";
+import { recordChargeRefunds, recordInvoicePayment, recordPayment, recordRefund } from "@/app/lib/ledger";
+import { failPayout, recordTransfer, settlePayout } from "@/app/lib/payouts";
+import { bookingRefundStatus, type RefundableBooking } from "@/app/lib/refunds";
+import {
+  BOOKING_STATE_COLUMNS,
+  bookingStatusOf,
+  loadBookingState,
+  paymentStatusOf,
+  paymentsTransitionableTo,
+  statusesTransitionableTo,
+  transitionBooking,
+  transitionBookings,
+  type BookingState,
+} from "@/app/lib/bookingLifecycle";
+
+/**
+ * Traitement métier d'un événement Stripe (webhook et rejeu: app/lib/stripeEvents.ts)
+ * - chaque handler est idempotent: rejouer un événement déjà appliqué ne change rien
+ * - erreur DB / Stripe => throw: l'événement passe "failed" et sera rejoué (retry Stripe ou replay)
+ * - cas métier non applicable (réservation introuvable, transition illégale...) => "processed" + warning
+ * - chaque paiement / remboursement est écrit au grand livre (app/lib/ledger.ts, idempotent)
+ */
+
+export type StripeEventOutcome = {
+  status: "processed" | "ignored";
+  detail: Record<string, unknown>;
+};
+
+function done(detail: Record<string, unknown> = {}): StripeEventOutcome {
+  return { status: "processed", detail };
+}
+
+/** Abonnement (id + metadata) d'une facture Stripe */
+function invoiceSubscription(invoice: Stripe.Invoice) {
+  const details = invoice.parent?.subscription_details ?? null;
+  const sub = details?.subscription ?? null;
+  return {
+    subscriptionId: typeof sub === "string" ? sub : sub?.id ?? null,
+    leaseId: (details?.metadata?.leaseId as string | undefined) ?? null,
+  };
+}
+
+function paymentIntentIdOf(pi: string | { id: string } | null | undefined) {
+  return typeof pi === "string" ? pi : pi?.id ?? null;
+}
+
+// réservations payées par un Checkout groupé (série, location)
+const PAID_BOOKING_COLUMNS = `${BOOKING_STATE_COLUMNS},total_price,stripe_session_id`;
+
+type PaidBookingRow = BookingState & { total_price: number | null; stripe_session_id: string | null };
+
+/**
+ * Confirme des réservations payées ensemble:
+ * - encore tenues (pending / pending_payment): en une fois
+ * - expirées entre-temps: une par une, reprises si le créneau est encore libre (sinon bookings_no_overlap refuse)
+ * missing = réservations qui ne peuvent plus être confirmées (reprises, annulées: transition illégale loggée)
+ */
+async function confirmPaidBookings(admin: SupabaseClient, rows: PaidBookingRow[], patch: Record<string, unknown>) {
+  const target = { status: "confirmed", payment_status: "paid" } as const;
+  const source = "webhook:checkout.session.completed";
+
+  const held = rows.filter((r) => {
+    const st = bookingStatusOf(r.status);
+    return st === "pending" || st === "pending_payment";
+  });
+  const batch = await transitionBookings(admin, held, target, { source, patch });
+  if (!batch.ok) throw new Error(batch.detail);
+
+  const confirmed = [...batch.ids];
+  const missing: PaidBookingRow[] = [];
+
+  for (const r of rows) {
+    if (confirmed.includes(r.id)) continue;
+
+    const one = await transitionBooking(admin, r, target, { source, patch });
+    if (one.ok) {
+      confirmed.push(r.id);
+      continue;
+    }
+    // changement concurrent: rejoué sur l'état à jour
+    if (one.code === "CONFLICT") throw new Error(one.detail);
+    if (one.code === "DB_ERROR" && one.dbCode !== PG_EXCLUSION_VIOLATION) throw new Error(one.detail);
+    missing.push(r);
+  }
+
+  return { confirmed, missing };
+}
+
+/** Rembourse la part (total_price) de chaque réservation payée qui ne peut plus être confirmée */
+async function refundUnconfirmable(
+  admin: SupabaseClient,
+  rows: PaidBookingRow[],
+  paymentIntentId: string,
+  sessionId: string
+) {
+  const out: Array<{ refundId: string; bookingId: string }> = [];
+
+  for (const r of rows) {
+    const amount = Math.round(Number(r.total_price ?? 0) * 100);
+    if (!(amount > 0)) continue;
+
+    const refund = await stripe.refunds.create(
+      { payment_intent: paymentIntentId, amount, reverse_transfer: true, metadata: { bookingId: r.id } },
+      { idempotencyKey: `unconfirmable-refund:${r.id}:${paymentIntentId}` }
+    );
+
+    const refunding = await transitionBooking(admin, r, { payment_status: "refunding" }, {
+      source: "webhook:checkout.session.completed",
+      patch: {
+        refund_status: "requested",
+        refund_id: refund.id,
+        refund_amount: amount / 100,
+        stripe_session_id: sessionId,
+        stripe_payment_intent_id: paymentIntentId,
+      },
+    });
+    if (!refunding.ok && refunding.code !== "ILLEGAL_TRANSITION") throw new Error(refunding.detail);
+
+    out.push({ refundId: refund.id, bookingId: r.id });
+  }
+
+  return out;
+}
+
+function bookingIdOfSession(session: Stripe.Checkout.Session) {
+  return (
+    (session.metadata?.bookingId as string | undefined) ??
+    (typeof session.client_reference_id === "string" ? session.client_reference_id : undefined)
+  );
+}
+
+/** Objet Stripe concerné (ordre des événements: app/lib/stripeEvents.ts) */
+export function stripeEventObjectId(event: Stripe.Event): string | null {
+  const obj = event.data.object as { id?: unknown };
+  return typeof obj?.id === "string" ? obj.id : null;
+}
+
+export async function handleStripeEvent(admin: SupabaseClient, event: Stripe.Event): Promise<StripeEventOutcome> {
+  switch (event.type) {
+    case "checkout.session.completed":
+      return onCheckoutCompleted(admin, event.data.object as Stripe.Checkout.Session);
+    case "checkout.session.expired":
+      return onCheckoutExpired(admin, event.data.object as Stripe.Checkout.Session);
+    case "invoice.paid":
+      return onInvoicePaid(admin, event.data.object as Stripe.Invoice);
+    case "invoice.payment_failed":
+      return onInvoicePaymentFailed(admin, event.data.object as Stripe.Invoice);
+    case "customer.subscription.deleted":
+      return onSubscriptionDeleted(admin, event.data.object as Stripe.Subscription);
+    case "account.updated":
+      return onAccountUpdated(admin, event.data.object as Stripe.Account);
+    case "refund.updated":
+      return onRefundUpdated(admin, event.data.object as Stripe.Refund);
+    case "charge.refunded":
+      return onChargeRefunded(admin, event.data.object as Stripe.Charge);
+    case "transfer.created":
+      return onTransferCreated(admin, event.data.object as Stripe.Transfer);
+    case "payout.paid":
+      return onPayout(admin, event.account ?? null, event.data.object as Stripe.Payout, "paid");
+    case "payout.failed":
+      return onPayout(admin, event.account ?? null, event.data.object as Stripe.Payout, "failed");
+    default:
+      return { status: "ignored", detail: { type: event.type } };
+  }
+}
+
+// -----------------------------
+// (A) Plateforme: Paiement réussi
+// -----------------------------
+async function onCheckoutCompleted(admin: SupabaseClient, session: Stripe.Checkout.Session) {
+  // ✅ Supplément d'une modification de réservation (≠ paiement initial)
+  const modificationId = session.metadata?.modificationId as string | undefined;
+  if (modificationId) {
+    const paymentIntentId = paymentIntentIdOf(session.payment_intent);
+
+    const applied = await applyBookingModification(admin, modificationId, { paymentIntentId });
+
+    if (applied.ok) {
+      await recordPayment(admin, paymentIntentId, { bookingIds: [applied.modification.booking_id], memo: "modification" });
+      if (!applied.already) await notifyBookingModified(admin, applied.modification);
+      return done({ modificationId, already: applied.already });
+    }
+    if (applied.code === "DB_ERROR") throw new Error(applied.error);
+
+    // rejeu: supplément déjà rendu
+    const { data: prev, error: prevErr } = await admin
+      .from("booking_modifications")
+      .select("stripe_refund_id")
+      .eq("id", modificationId)
+      .maybeSingle();
+    if (prevErr) throw new Error(prevErr.message);
+
+    const prevRefundId = (prev as { stripe_refund_id: string | null } | null)?.stripe_refund_id ?? null;
+    if (prevRefundId) return done({ modificationId, refundId: prevRefundId, already: true });
+
+    // créneau pris entre-temps (ou modification expirée): on rend le supplément
+    if (paymentIntentId) {
+      const { data: mod, error: modErr } = await admin
+        .from("booking_modifications")
+        .select("booking_id")
+        .eq("id", modificationId)
+        .maybeSingle();
+      if (modErr) throw new Error(modErr.message);
+
+      const modBookingId = (mod as { booking_id: string } | null)?.booking_id ?? null;
+      if (modBookingId) await recordPayment(admin, paymentIntentId, { bookingIds: [modBookingId], memo: "modification" });
+
+      // reverse_transfer: la part transférée au propriétaire lui est reprise
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          reverse_transfer: true,
+          metadata: { modificationId, ...(modBookingId ? { bookingId: modBookingId } : {}) },
+        },
+        // rejeu: Stripe renvoie le même remboursement
+        { idempotencyKey: `modification-refund:${modificationId}:${paymentIntentId}` }
+      );
+      const { error } = await admin
+        .from("booking_modifications")
+        .update({
+          status: "failed",
+          failure_reason: applied.error,
+          stripe_payment_intent_id: paymentIntentId,
+          stripe_refund_id: refund.id,
+        })
+        .eq("id", modificationId);
+      if (error) throw new Error(error.message);
+
+      await recordRefund(admin, refund.id, { bookingId: modBookingId });
+    }
+
+    return done({ modificationId, warning: applied.error });
+  }
+
+  // ✅ Location au mois: abonnement créé (les renouvellements passent par invoice.paid)
+  const leaseId = session.metadata?.leaseId as string | undefined;
+  if (leaseId) {
+    const subscriptionId =
+      typeof session.subscription === "string" ? session.subscription : session.subscription?.id ?? null;
+    const customerId = typeof session.customer === "string" ? session.customer : session.customer?.id ?? null;
+
+    const { error: leaseErr } = await admin
+      .from("parking_leases")
+      .update({ stripe_subscription_id: subscriptionId, stripe_customer_id: customerId })
+      .eq("id", leaseId);
+    if (leaseErr) throw new Error(leaseErr.message);
+
+    const { data: leaseRows, error } = await admin
+      .from("bookings")
+      .select(PAID_BOOKING_COLUMNS)
+      .eq("lease_id", leaseId);
+    if (error) throw new Error(error.message);
+
+    const rows = (leaseRows ?? []) as PaidBookingRow[];
+    // invoice.paid peut arriver avant: réservation déjà confirmée par renewLease
+    const alreadyPaid = rows.some((r) => paymentStatusOf(r.payment_status) === "paid");
+    const { confirmed, missing } = await confirmPaidBookings(
+      admin,
+      rows.filter((r) => paymentStatusOf(r.payment_status) === "unpaid"),
+      { stripe_session_id: session.id, hold_expires_at: null }
+    );
+
+    // ⚠️ réservation glissante expirée / reprise: la location ne démarre pas, première facture remboursée
+    if (confirmed.length === 0 && !alreadyPaid) {
+      const lease = await findLease(admin, { leaseId });
+      if (!lease) return done({ leaseId, warning: "Lease not found" });
+
+      const aborted = await abortLease(admin, lease, {
+        subscriptionId,
+        invoiceId: typeof session.invoice === "string" ? session.invoice : session.invoice?.id ?? null,
+        booking: missing[0] ?? null,
+      });
+      return done({ leaseId, refundId: aborted.refundId, warning: "Lease booking no longer available" });
+    }
+
+    const { error: activeErr } = await admin
+      .from("parking_leases")
+      .update({ status: "active" })
+      .eq("id", leaseId)
+      .eq("status", "pending");
+    if (activeErr) throw new Error(activeErr.message);
+
+    return done({ leaseId });
+  }
+
+  // ✅ Série récurrente payée en une fois: les occurrences tenues par cette session
+  const seriesId = session.metadata?.seriesId as string | undefined;
+  if (seriesId) {
+    const paymentIntentId = paymentIntentIdOf(session.payment_intent);
+
+    const { data: seriesRows, error } = await admin
+      .from("bookings")
+      .select(PAID_BOOKING_COLUMNS)
+      .eq("series_id", seriesId);
+    if (error) throw new Error(error.message);
+
+    // occurrences couvertes par le paiement (session posée à la création du Checkout)
+    const paidFor = ((seriesRows ?? []) as PaidBookingRow[]).filter(
+      (r) => r.stripe_session_id === session.id || (!r.stripe_session_id && paymentStatusOf(r.payment_status) === "unpaid")
+    );
+    // rejeu: occurrences déjà confirmées (ou déjà remboursées) avec ce paiement
+    const settled = paidFor.filter((r) => paymentStatusOf(r.payment_status) !== "unpaid");
+
+    const { confirmed, missing } = await confirmPaidBookings(
+      admin,
+      paidFor.filter((r) => paymentStatusOf(r.payment_status) === "unpaid"),
+      { stripe_session_id: session.id, stripe_payment_intent_id: paymentIntentId, hold_expires_at: null }
+    );
+
+    // ✅ occurrences expirées / reprises / annulées avant le paiement: leur part est remboursée
+    // (toutes => tout le paiement), une réservation par remboursement (metadata.bookingId)
+    const refundIds = paymentIntentId ? await refundUnconfirmable(admin, missing, paymentIntentId, session.id) : [];
+
+    const active = confirmed.length > 0 || settled.some((r) => paymentStatusOf(r.payment_status) === "paid");
+    const { error: seriesErr } = await admin
+      .from("booking_series")
+      .update({ status: active ? "active" : "expired", stripe_payment_intent_id: paymentIntentId })
+      .eq("id", seriesId)
+      .in("status", ["pending_payment", active ? "active" : "expired"]);
+    if (seriesErr) throw new Error(seriesErr.message);
+
+    // ✅ un seul paiement réparti sur les occurrences (prorata de total_price), remboursements ensuite
+    await recordPayment(admin, paymentIntentId);
+    for (const r of refundIds) await recordRefund(admin, r.refundId, { bookingId: r.bookingId });
+
+    return done({
+      seriesId,
+      confirmed: confirmed.length,
+      ...(missing.length > 0 ? { refunded: missing.map((r) => r.id), warning: "Occurrences no longer available" } : {}),
+    });
+  }
+
+  const bookingId = bookingIdOfSession(session);
+  if (!bookingId) return done({ warning: "Missing bookingId in metadata/client_reference_id" });
+
+  const paymentIntentId = paymentIntentIdOf(session.payment_intent);
+
+  // ✅ Réservation sur demande: paiement seulement autorisé, le propriétaire décide
+  if (session.metadata?.approval === "request") {
+    const { data: rData, error } = await admin
+      .from("bookings")
+      .select(BOOKING_REQUEST_COLUMNS)
+      .eq("id", bookingId)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+
+    const row = rData as BookingRequestRow | null;
+
+    // rejeu: demande déjà enregistrée avec ce paiement => pas de second email
+    if (
+      row &&
+      bookingStatusOf(row.status) === "requested" &&
+      paymentStatusOf(row.payment_status) === "authorized" &&
+      row.stripe_payment_intent_id === paymentIntentId
+    ) {
+      return done({ bookingId, authorized: true, already: true });
+    }
+
+    const authorized = row
+      ? await transitionBooking(
+          admin,
+          row,
+          { status: "requested", payment_status: "authorized" },
+          {
+            source: "webhook:checkout.session.completed",
+            patch: { stripe_session_id: session.id, stripe_payment_intent_id: paymentIntentId, hold_expires_at: null },
+          }
+        )
+      : null;
+
+    if (authorized && !authorized.ok && authorized.code !== "ILLEGAL_TRANSITION") {
+      throw new Error(authorized.detail);
+    }
+
+    if (!row || !authorized?.ok) {
+      // demande expirée / annulée pendant le Checkout: on libère l'autorisation
+      const voided = await voidAuthorization(paymentIntentId);
+      return done({ bookingId, warning: "Request no longer pending", voided: voided.ok });
+    }
+
+    await notifyBookingRequest(
+      admin,
+      { ...row, payment_status: "authorized", stripe_payment_intent_id: paymentIntentId },
+      "requested"
+    );
+    return done({ bookingId, authorized: true });
+  }
+
+  const current = await loadBookingState(admin, bookingId);
+  if (!current) return done({ bookingId, warning: "Booking not found" });
+
+  const confirmed = await transitionBooking(
+    admin,
+    current,
+    { status: "confirmed", payment_status: "paid" },
+    {
+      source: "webhook:checkout.session.completed",
+      patch: { stripe_session_id: session.id, stripe_payment_intent_id: paymentIntentId, hold_expires_at: null },
+    }
+  );
+
+  if (confirmed.ok) {
+    await recordPayment(admin, paymentIntentId, { bookingIds: [bookingId] });
+    return done({ bookingId });
+  }
+
+  // changement concurrent (annulation, libération du hold...): rejoué sur l'état à jour
+  if (confirmed.code === "CONFLICT") throw new Error(confirmed.detail);
+
+  const slotTaken = confirmed.code === "DB_ERROR" && confirmed.dbCode === PG_EXCLUSION_VIOLATION;
+  if (confirmed.code === "DB_ERROR" && !slotTaken) throw new Error(confirmed.detail);
+
+  // paiement reçu pour une réservation qui ne peut plus être confirmée:
+  // - hold libéré puis créneau repris avant le webhook
+  // - réservation annulée / refusée entre-temps (transition illégale, déjà loggée)
+  // => remboursement, seulement si ce paiement n'était pas déjà enregistré
+  if (paymentIntentId && paymentStatusOf(current.payment_status) === "unpaid") {
+    await recordPayment(admin, paymentIntentId, { bookingIds: [bookingId] });
+
+    const refund = await stripe.refunds.create(
+      { payment_intent: paymentIntentId, reverse_transfer: true, metadata: { bookingId } },
+      { idempotencyKey: `unconfirmable-refund:${bookingId}:${paymentIntentId}` }
+    );
+    const refunding = await transitionBooking(
+      admin,
+      current,
+      { ...(slotTaken ? { status: "expired" as const } : {}), payment_status: "refunding" },
+      {
+        source: "webhook:checkout.session.completed",
+        patch: {
+          refund_status: "requested",
+          refund_id: refund.id,
+          stripe_session_id: session.id,
+          stripe_payment_intent_id: paymentIntentId,
+        },
+      }
+    );
+    if (!refunding.ok && refunding.code !== "ILLEGAL_TRANSITION") throw new Error(refunding.detail);
+
+    await recordRefund(admin, refund.id, { bookingId });
+
+    return done({ bookingId, refundId: refund.id, warning: slotTaken ? "Slot taken after hold expiry" : confirmed.detail });
+  }
+
+  return done({ bookingId, warning: confirmed.detail });
+}
+
+// -----------------------------
+// (B) Plateforme: Checkout expiré
+// -----------------------------
+async function onCheckoutExpired(admin: SupabaseClient, session: Stripe.Checkout.Session) {
+  // supplément non payé: la réservation reste telle quelle
+  const modificationId = session.metadata?.modificationId as string | undefined;
+  if (modificationId) {
+    const { error } = await admin
+      .from("booking_modifications")
+      .update({ status: "expired" })
+      .eq("id", modificationId)
+      .eq("status", "pending_payment");
+    if (error) throw new Error(error.message);
+
+    return done({ modificationId });
+  }
+
+  const leaseId = session.metadata?.leaseId as string | undefined;
+  if (leaseId) {
+    const lease = await findLease(admin, { leaseId });
+    if (lease && lease.status === "pending") await endLease(admin, lease, lease.started_at, "expired");
+    return done({ leaseId });
+  }
+
+  const seriesId = session.metadata?.seriesId as string | undefined;
+  if (seriesId) {
+    const { data: seriesRows, error } = await admin
+      .from("bookings")
+      .select(BOOKING_STATE_COLUMNS)
+      .eq("series_id", seriesId)
+      .eq("stripe_session_id", session.id)
+      .eq("payment_status", "unpaid")
+      .in("status", statusesTransitionableTo("expired", HELD_BOOKING_STATUSES));
+    if (error) throw new Error(error.message);
+
+    const expired = await transitionBookings(admin, (seriesRows ?? []) as BookingState[], { status: "expired" }, {
+      source: "webhook:checkout.session.expired",
+    });
+    if (!expired.ok) throw new Error(expired.detail);
+
+    const { error: seriesErr } = await admin
+      .from("booking_series")
+      .update({ status: "expired" })
+      .eq("id", seriesId)
+      .eq("status", "pending_payment");
+    if (seriesErr) throw new Error(seriesErr.message);
+    return done({ seriesId });
+  }
+
+  // ✅ fin du hold: seulement si la réservation est encore tenue par CETTE session
+  // (un nouveau Checkout depuis "Mes réservations" a remplacé stripe_session_id);
+  // occurrence de série payée à l'unité: reste due jusqu'à son échéance de paiement (job expire-holds).
+  // ⚠️ expiration tardive: une réservation déjà confirmée/payée n'est jamais touchée (filtres statut + paiement)
+  const bookingId = bookingIdOfSession(session);
+  if (bookingId) {
+    const { data: held, error } = await admin
+      .from("bookings")
+      .select(BOOKING_STATE_COLUMNS)
+      .eq("id", bookingId)
+      .eq("stripe_session_id", session.id)
+      .eq("payment_status", "unpaid")
+      .in("status", statusesTransitionableTo("expired", HELD_BOOKING_STATUSES))
+      .not("hold_expires_at", "is", null)
+      .is("series_id", null)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+
+    if (held) {
+      const expired = await transitionBooking(admin, held as BookingState, { status: "expired" }, {
+        source: "webhook:checkout.session.expired",
+      });
+      // CONFLICT: payée / relancée entre-temps => on n'y touche plus
+      if (!expired.ok && expired.code === "DB_ERROR") throw new Error(expired.detail);
+    }
+  }
+
+  return done({ bookingId: bookingId ?? null });
+}
+
+// -----------------------------
+// (B2) Location au mois: factures + fin d'abonnement
+// -----------------------------
+async function onInvoicePaid(admin: SupabaseClient, invoice: Stripe.Invoice) {
+  const ref = invoiceSubscription(invoice);
+  const lease = await findLease(admin, ref);
+
+  if (!lease) return { status: "ignored" as const, detail: { reason: "invoice.paid (no lease)" } };
+
+  // fin de la période facturée (lignes d'abonnement)
+  const periodEnd = Math.max(0, ...invoice.lines.data.map((l) => l.period?.end ?? 0));
+  if (!periodEnd) return done({ leaseId: lease.id, warning: "No period on invoice" });
+
+  if (ref.subscriptionId && !lease.stripe_subscription_id) {
+    const { error } = await admin
+      .from("parking_leases")
+      .update({ stripe_subscription_id: ref.subscriptionId })
+      .eq("id", lease.id);
+    if (error) throw new Error(error.message);
+  }
+
+  // location qui n'a pas pu démarrer (abortLease): la facture a été remboursée, rien à prolonger
+  if (lease.status === "expired") return done({ leaseId: lease.id, warning: "Lease expired" });
+
+  const renewed = await renewLease(admin, lease, new Date(periodEnd * 1000).toISOString(), invoice.id);
+  if (!renewed.ok && !renewed.slotTaken) throw new Error(renewed.error);
+
+  await recordInvoicePayment(admin, invoice, lease.id);
+
+  return done({ leaseId: lease.id, ...(renewed.ok ? {} : { warning: renewed.error }) });
+}
+
+async function onInvoicePaymentFailed(admin: SupabaseClient, invoice: Stripe.Invoice) {
+  const lease = await findLease(admin, invoiceSubscription(invoice));
+
+  // Stripe relance le paiement: la place reste tenue jusqu'à customer.subscription.deleted
+  if (lease && lease.status !== "cancelled") {
+    const { error } = await admin
+      .from("parking_leases")
+      .update({ status: "past_due", last_invoice_id: invoice.id })
+      .eq("id", lease.id);
+    if (error) throw new Error(error.message);
+  }
+
+  return done({ leaseId: lease?.id ?? null });
+}
+
+async function onSubscriptionDeleted(admin: SupabaseClient, subscription: Stripe.Subscription) {
+  const lease = await findLease(admin, {
+    subscriptionId: subscription.id,
+    leaseId: (subscription.metadata?.leaseId as string | undefined) ?? null,
+  });
+
+  if (lease && lease.status !== "cancelled") {
+    // résiliée à l'échéance ou après impayés: la place se libère maintenant
+    await endLease(admin, lease, new Date().toISOString(), "cancelled");
+  }
+
+  return done({ leaseId: lease?.id ?? null });
+}
+
+// -----------------------------
+// (C) Connect: suivi onboarding owner
+// -----------------------------
+async function onAccountUpdated(admin: SupabaseClient, account: Stripe.Account) {
+  const chargesEnabled = !!account.charges_enabled;
+  const payoutsEnabled = !!account.payouts_enabled;
+  const detailsSubmitted = !!account.details_submitted;
+
+  // ✅ règle simple
+  const onboardingComplete = detailsSubmitted && payoutsEnabled;
+
+  const { error } = await admin
+    .from("profiles")
+    .update({
+      stripe_charges_enabled: chargesEnabled,
+      stripe_payouts_enabled: payoutsEnabled,
+      stripe_details_submitted: detailsSubmitted,
+      stripe_onboarding_complete: onboardingComplete,
+      stripe_updated_at: new Date().toISOString(),
+    })
+    .eq("stripe_account_id", account.id);
+  if (error) throw new Error(error.message);
+
+  return done({ accountId: account.id });
+}
+
+// -----------------------------
+// (D) Refund: mise à jour refund_status
+// -----------------------------
+async function onRefundUpdated(admin: SupabaseClient, refund: Stripe.Refund) {
+  const pi = paymentIntentIdOf(refund.payment_intent);
+
+  // remboursement partiel d'une modification: la réservation reste payée
+  if (!pi || refund.metadata?.modificationId) {
+    if (pi) await recordRefund(admin, refund.id);
+    return done({ refundId: refund.id });
+  }
+
+  // ✅ remboursement d'une réservation précise (annulation client / propriétaire): elle seule est mise à jour,
+  // état agrégé sur tous ses remboursements (paiement initial + suppléments de modification)
+  const refundedBookingId = refund.metadata?.bookingId;
+  if (refundedBookingId) {
+    const { data: booking, error: bErr } = await admin
+      .from("bookings")
+      .select(`${BOOKING_STATE_COLUMNS},total_price,stripe_payment_intent_id`)
+      .eq("id", refundedBookingId)
+      .maybeSingle();
+    if (bErr) throw new Error(bErr.message);
+
+    const row = booking as (BookingState & RefundableBooking) | null;
+    const fromPayment = paymentStatusOf(row?.payment_status);
+
+    // événement en retard (réservation déjà remboursée): rien à changer
+    if (row && fromPayment && fromPayment !== "refunded") {
+      const aggregate = (await bookingRefundStatus(admin, row)) ?? "processing";
+      const paymentStatus = aggregate === "refunded" ? "refunded" : "refunding";
+
+      const saved = await transitionBooking(admin, row, { payment_status: paymentStatus }, {
+        source: "webhook:refund.updated",
+        patch: {
+          refund_status: aggregate,
+          refund_id: refund.id,
+          refunded_at: aggregate === "refunded" ? new Date().toISOString() : null,
+        },
+      });
+      // CONFLICT: rejoué sur l'état à jour
+      if (!saved.ok && saved.code !== "ILLEGAL_TRANSITION") throw new Error(saved.detail);
+    }
+
+    await recordRefund(admin, refund.id, { bookingId: refundedBookingId });
+    return done({ refundId: refund.id, bookingId: refundedBookingId });
+  }
+
+  const status = refund.status; // pending | succeeded | failed | ...
+  const refundStatus = status === "succeeded" ? "refunded" : status === "failed" ? "failed" : "processing";
+
+  // sans metadata (remboursement fait depuis le dashboard Stripe): toutes les réservations du paiement
+  const paymentStatus = status === "succeeded" ? "refunded" : "refunding";
+  const { data: rows, error } = await admin
+    .from("bookings")
+    .select(BOOKING_STATE_COLUMNS)
+    .eq("stripe_payment_intent_id", pi)
+    .in("payment_status", paymentsTransitionableTo(paymentStatus));
+  if (error) throw new Error(error.message);
+
+  const saved = await transitionBookings(admin, (rows ?? []) as BookingState[], { payment_status: paymentStatus }, {
+    source: "webhook:refund.updated",
+    patch: {
+      refund_status: refundStatus,
+      refund_id: refund.id,
+      refunded_at: status === "succeeded" ? new Date().toISOString() : null,
+    },
+  });
+  if (!saved.ok) throw new Error(saved.detail);
+
+  await recordRefund(admin, refund.id);
+
+  return done({ refundId: refund.id, refundStatus });
+}
+
+async function onChargeRefunded(admin: SupabaseClient, charge: Stripe.Charge) {
+  const pi = paymentIntentIdOf(charge.payment_intent);
+
+  // ⚠️ charge.refunded part aussi sur un remboursement partiel => seulement si totalement remboursée
+  if (pi && charge.refunded) {
+    const { data: rows, error } = await admin
+      .from("bookings")
+      .select(BOOKING_STATE_COLUMNS)
+      .eq("stripe_payment_intent_id", pi)
+      .in("payment_status", paymentsTransitionableTo("refunded"));
+    if (error) throw new Error(error.message);
+
+    const saved = await transitionBookings(admin, (rows ?? []) as BookingState[], { payment_status: "refunded" }, {
+      source: "webhook:charge.refunded",
+      patch: { refund_status: "refunded", refunded_at: new Date().toISOString() },
+    });
+    if (!saved.ok) throw new Error(saved.detail);
+  }
+
+  // remboursements faits hors de l'app (dashboard Stripe) inclus
+  await recordChargeRefunds(admin, charge.id);
+
+  return done({ chargeId: charge.id });
+}
+
+// -----------------------------
+// (E) Connect: transferts + versements owner (app/lib/payouts.ts)
+// -----------------------------
+async function onTransferCreated(admin: SupabaseClient, transfer: Stripe.Transfer) {
+  const res = await recordTransfer(admin, transfer);
+  return done({ ...res, ...(res.bookingIds.length === 0 ? { warning: "No booking for transfer" } : {}) });
+}
+
+async function onPayout(
+  admin: SupabaseClient,
+  accountId: string | null,
+  payout: Stripe.Payout,
+  outcome: "paid" | "failed"
+): Promise<StripeEventOutcome> {
+  // payout du compte plateforme (pas d'event.account): pas un versement owner
+  if (!accountId) return { status: "ignored", detail: { payoutId: payout.id } };
+
+  const res = outcome === "paid" ? await settlePayout(admin, accountId, payout) : await failPayout(admin, accountId, payout);
+  return done({ ...res, ...(res.ownerId ? {} : { warning: "No owner for connected account" }) });
+}
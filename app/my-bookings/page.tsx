@@ -6,6 +6,16 @@ import { useEffect, useMemo, useState } from "react";
 import { useAuth } from "@/app/providers/AuthProvider";
 import { UI } from "@/app/components/ui";
 import { useRouter } from "next/navigation";
+import { isLapsedHold } from "@/app/lib/availability";
+import { checkInVerdict, checkOutVerdict } from "@/app/lib/checkIn";
+import { bookingStatusOf, paymentStatusOf } from "@/app/lib/bookingLifecycle";
+import {
+  CANCELLATION_POLICY_LABELS,
+  cancellationPolicyOf,
+  describeCancellationPolicy,
+  refundQuote,
+} from "@/app/lib/cancellationPolicy";
+import { OWNER_CANCEL_REASON_LABELS, ownerCancelReasonOf } from "@/app/lib/ownerPenalties";
 
 type ParkingJoin = {
   id: string;
@@ -20,6 +30,7 @@ type ParkingJoin = {
   photos: string[] | string | null; // ✅ support array OR json string
   price_hour: number | null;
   price_day: number | null;
+  cancellation_policy: string | null;
 };
 
 type BookingRow = {
@@ -37,6 +48,25 @@ type BookingRow = {
   payment_status: string | null;
 
   created_at: string | null;
+  series_id: string | null;
+  lease_id: string | null;
+
+  // réservation sur demande
+  request_expires_at: string | null;
+  decline_reason: string | null;
+
+  // fin du hold de paiement (Checkout)
+  hold_expires_at: string | null;
+
+  // check-in / check-out (null = passage automatique par le job)
+  checked_in_at: string | null;
+  checked_out_at: string | null;
+
+  // politique d'annulation figée à la création (null = réservation antérieure)
+  cancellation_policy: string | null;
+  refund_amount: number | null;
+  // annulation propriétaire: motif (app/lib/ownerPenalties.ts)
+  cancel_reason: string | null;
 
   // ✅ join souvent en ARRAY même en 1-1
   parkings?: ParkingJoin[] | ParkingJoin | null;
@@ -91,8 +121,8 @@ function firstPhotoUrl(photos: string[]): string | null {
 }
 
 function StatusChip({ b }: { b: BookingRow }) {
-  const s = (b.status ?? "").toLowerCase();
-  const pay = (b.payment_status ?? "").toLowerCase();
+  const s = bookingStatusOf(b.status);
+  const pay = paymentStatusOf(b.payment_status);
 
   if (s === "confirmed" && pay === "paid") {
     return (
@@ -103,6 +133,24 @@ function StatusChip({ b }: { b: BookingRow }) {
       </span>
     );
   }
+  if (s === "in_progress") {
+    return (
+      <span
+        className={`${UI.chip} bg-sky-50 border-sky-200 text-sky-700`}
+      >
+        En cours
+      </span>
+    );
+  }
+  if (s === "completed") {
+    return (
+      <span
+        className={`${UI.chip} bg-slate-100 border-slate-200 text-slate-700`}
+      >
+        Terminée
+      </span>
+    );
+  }
   if (s === "cancelled") {
     return (
       <span
@@ -112,7 +160,34 @@ function StatusChip({ b }: { b: BookingRow }) {
       </span>
     );
   }
-  if (s.includes("pending") || pay === "unpaid") {
+  if (s === "expired" || isLapsedHold(b)) {
+    return (
+      <span
+        className={`${UI.chip} bg-slate-100 border-slate-200 text-slate-700`}
+      >
+        Expirée
+      </span>
+    );
+  }
+  if (s === "declined") {
+    return (
+      <span
+        className={`${UI.chip} bg-rose-50 border-rose-200 text-rose-700`}
+      >
+        Refusée
+      </span>
+    );
+  }
+  if (s === "requested" && pay === "authorized") {
+    return (
+      <span
+        className={`${UI.chip} bg-violet-50 border-violet-200 text-violet-700`}
+      >
+        Demande envoyée
+      </span>
+    );
+  }
+  if (s === "pending" || s === "pending_payment" || pay === "unpaid") {
     return (
       <span
         className={`${UI.chip} bg-amber-50 border-amber-200 text-amber-700`}
@@ -124,14 +199,9 @@ function StatusChip({ b }: { b: BookingRow }) {
   return <span className={UI.chip}>{b.status ?? "—"}</span>;
 }
 
-/** ✅ Règle simple UI (avant annulation) :
- * - Remboursable si annulation >= 24h avant le début
- * - Sinon non remboursable
- */
-function refundPolicyLabel(startIso: string) {
-  const start = new Date(startIso).getTime();
-  const now = Date.now();
-  const diffH = (start - now) / (1000 * 60 * 60);
+/** ✅ Aperçu avant annulation: politique figée sur la réservation (ou celle de la place), le serveur recalcule */
+function refundPolicyLabel(b: BookingRow) {
+  const start = new Date(b.start_time).getTime();
 
   if (Number.isNaN(start)) {
     return {
@@ -141,26 +211,95 @@ function refundPolicyLabel(startIso: string) {
     };
   }
 
-  if (diffH >= 24) {
+  const policy = cancellationPolicyOf(b.cancellation_policy ?? getParkingFromJoin(b.parkings)?.cancellation_policy);
+  const quote = refundQuote(policy, b.start_time, b.total_price);
+  const rules = `Politique ${CANCELLATION_POLICY_LABELS[policy].toLowerCase()} : ${describeCancellationPolicy(policy)
+    .join(", ")
+    .toLowerCase()}.`;
+  const until = quote.nextChangeAtIso ? ` jusqu’au ${formatDateTime(quote.nextChangeAtIso)}` : "";
+
+  if (quote.percent === 100) {
     return {
       refundable: true,
       title: "Remboursable",
-      detail:
-        "Annulation ≥ 24h avant le début : remboursement automatique (si payé).",
+      detail: `Remboursement intégral${until} (si payé). ${rules}`,
+    };
+  }
+
+  if (quote.percent > 0) {
+    return {
+      refundable: true,
+      title: `Remboursable à ${quote.percent} %`,
+      detail: `Remboursement de ${money(quote.amount, b.currency)}${until} (si payé). ${rules}`,
     };
   }
 
   return {
     refundable: false,
     title: "Non remboursable",
-    detail: "Annulation < 24h avant le début : pas de remboursement.",
+    detail: `Annulation hors délai : pas de remboursement. ${rules}`,
   };
 }
 
 type CancelApiResponse =
-  | { ok: true; refunded?: boolean; already?: boolean }
+  | { ok: true; refunded?: boolean; already?: boolean; refundAmount?: number; refundPercent?: number }
   | { ok: false; error: string; detail?: string };
 
+type ModifyApiResponse =
+  | { ok: true; status: "applied" | "pending_payment"; delta: number; url?: string | null; refunded?: boolean }
+  | { ok: false; error: string; detail?: string; code?: string };
+
+// ✅ prolongations proposées (le serveur revérifie dispo, règles et prix)
+const EXTEND_OPTIONS = [
+  { minutes: 30, label: "30 min" },
+  { minutes: 60, label: "1 h" },
+  { minutes: 120, label: "2 h" },
+  { minutes: 24 * 60, label: "1 jour" },
+];
+
+function canExtend(b: BookingRow) {
+  const s = bookingStatusOf(b.status);
+  return (
+    !b.lease_id &&
+    (s === "confirmed" || s === "in_progress") &&
+    paymentStatusOf(b.payment_status) === "paid" &&
+    new Date(b.end_time).getTime() > Date.now()
+  );
+}
+
+// occurrence d'une série payée "date par date" (ou checkout abandonné)
+// ✅ annulée par le client/propriétaire ou demande refusée
+function isCancelledStatus(b: BookingRow) {
+  const s = bookingStatusOf(b.status);
+  return s === "cancelled" || s === "declined";
+}
+
+// ✅ check-out fait (ou fin passée): la réservation passe dans "Passées"
+function isCompleted(b: BookingRow) {
+  return bookingStatusOf(b.status) === "completed";
+}
+
+// check-in/out proposé dans la modale (le serveur revérifie)
+function checkAction(b: BookingRow): "check-in" | "check-out" | null {
+  if (checkInVerdict(b).ok) return "check-in";
+  if (bookingStatusOf(b.status) === "in_progress" && checkOutVerdict(b).ok) return "check-out";
+  return null;
+}
+
+function isRequest(b: BookingRow) {
+  return bookingStatusOf(b.status) === "requested";
+}
+
+function needsPayment(b: BookingRow) {
+  const s = bookingStatusOf(b.status);
+  return (
+    !b.lease_id &&
+    (s === "pending" || s === "pending_payment" || s === "requested") &&
+    !isLapsedHold(b) &&
+    paymentStatusOf(b.payment_status) === "unpaid"
+  );
+}
+
 type TabKey = "upcoming" | "past" | "cancelled";
 
 export default function MyBookingsPage() {
@@ -203,6 +342,15 @@ export default function MyBookingsPage() {
   const [cancelLoading, setCancelLoading] = useState(false);
   const [cancelMsg, setCancelMsg] = useState<string | null>(null);
 
+  // prolongation (modale)
+  const [extendMinutes, setExtendMinutes] = useState<number>(60);
+  const [extendLoading, setExtendLoading] = useState(false);
+  const [extendMsg, setExtendMsg] = useState<{ ok: boolean; text: string } | null>(null);
+
+  // check-in / check-out (modale)
+  const [checkLoading, setCheckLoading] = useState(false);
+  const [checkMsg, setCheckMsg] = useState<{ ok: boolean; text: string } | null>(null);
+
   // ✅ onglets
   const [tab, setTab] = useState<TabKey>("upcoming");
 
@@ -228,6 +376,16 @@ export default function MyBookingsPage() {
         status,
         payment_status,
         created_at,
+        series_id,
+        lease_id,
+        request_expires_at,
+        decline_reason,
+        hold_expires_at,
+        checked_in_at,
+        checked_out_at,
+        cancellation_policy,
+        refund_amount,
+        cancel_reason,
         parkings:parking_id (
           id,
           title,
@@ -238,7 +396,8 @@ export default function MyBookingsPage() {
           city,
           photos,
           price_hour,
-          price_day
+          price_day,
+          cancellation_policy
         )
       `
       )
@@ -271,19 +430,19 @@ export default function MyBookingsPage() {
     const now = Date.now();
     return rows.filter((b) => {
       const endMs = new Date(b.end_time).getTime();
-      return endMs > now && (b.status ?? "").toLowerCase() !== "cancelled";
+      return endMs > now && !isCancelledStatus(b) && !isCompleted(b);
     });
   }, [rows]);
 
   const cancelled = useMemo(() => {
-    return rows.filter((b) => (b.status ?? "").toLowerCase() === "cancelled");
+    return rows.filter((b) => isCancelledStatus(b));
   }, [rows]);
 
   const past = useMemo(() => {
     const now = Date.now();
     return rows.filter((b) => {
       const endMs = new Date(b.end_time).getTime();
-      return endMs <= now && (b.status ?? "").toLowerCase() !== "cancelled";
+      return (endMs <= now || isCompleted(b)) && !isCancelledStatus(b);
     });
   }, [rows]);
 
@@ -313,13 +472,15 @@ export default function MyBookingsPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [loading, rows.length, upcoming.length, past.length, cancelled.length]);
 
-  const cancelBooking = async (bookingId: string, startIso: string) => {
+  const cancelBooking = async (b: BookingRow, request = false) => {
     if (!session) return;
 
     setCancelMsg(null);
 
-    const policy = refundPolicyLabel(startIso);
-    const confirmText = `${policy.title}\n${policy.detail}\n\nConfirmer l’annulation ?`;
+    const policy = refundPolicyLabel(b);
+    const confirmText = request
+      ? "Annuler la demande ?\nL’autorisation de paiement sera annulée (aucun débit)."
+      : `${policy.title}\n${policy.detail}\n\nConfirmer l’annulation ?`;
 
     if (!window.confirm(confirmText)) return;
 
@@ -331,7 +492,7 @@ export default function MyBookingsPage() {
           "Content-Type": "application/json",
           Authorization: `Bearer ${session.access_token}`,
         },
-        body: JSON.stringify({ bookingId }),
+        body: JSON.stringify({ bookingId: b.id }),
       });
 
       const json = (await res.json().catch(() => ({}))) as CancelApiResponse;
@@ -346,9 +507,13 @@ export default function MyBookingsPage() {
         return;
       }
 
-      const refunded = (json as { refunded?: boolean }).refunded;
-      if (refunded) setCancelMsg("Annulation effectuée ✅ Remboursement en cours.");
-      else setCancelMsg("Annulation effectuée ✅");
+      if (json.refunded) {
+        setCancelMsg(
+          json.refundAmount != null
+            ? `Annulation effectuée ✅ Remboursement de ${money(json.refundAmount, b.currency)} en cours.`
+            : "Annulation effectuée ✅ Remboursement en cours."
+        );
+      } else setCancelMsg("Annulation effectuée ✅");
 
       await load();
 
@@ -363,6 +528,159 @@ export default function MyBookingsPage() {
     }
   };
 
+  const [payingId, setPayingId] = useState<string | null>(null);
+
+  const cancelLease = async (leaseId: string) => {
+    if (!session) return;
+
+    setCancelMsg(null);
+    if (!window.confirm("Résilier l’abonnement ?\nLa place reste à toi jusqu’à la fin de la période payée.")) return;
+
+    setCancelLoading(true);
+    try {
+      const res = await fetch(`/api/leases/${encodeURIComponent(leaseId)}/cancel`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+
+      const json = (await res.json().catch(() => ({}))) as {
+        ok?: boolean;
+        endsAt?: string | null;
+        error?: string;
+        detail?: string;
+      };
+
+      if (!res.ok || !json.ok) {
+        setCancelMsg(json.detail ? `${json.error} — ${json.detail}` : json.error ?? `Erreur résiliation (${res.status})`);
+        return;
+      }
+
+      setCancelMsg(json.endsAt ? `Abonnement résilié ✅ Fin le ${formatDateTime(json.endsAt)}.` : "Abonnement résilié ✅");
+      await load();
+    } catch (e: unknown) {
+      setCancelMsg(e instanceof Error ? e.message : "Erreur inconnue");
+    } finally {
+      setCancelLoading(false);
+    }
+  };
+
+  const payBooking = async (bookingId: string) => {
+    if (!session) return;
+
+    setPayingId(bookingId);
+    try {
+      const res = await fetch("/api/stripe/checkout", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ bookingId }),
+      });
+
+      const json = (await res.json().catch(() => ({}))) as { ok?: boolean; url?: string; error?: string; detail?: string };
+
+      if (!res.ok || !json.ok || !json.url) {
+        alert(json.detail ?? json.error ?? `Erreur paiement (${res.status})`);
+        return;
+      }
+
+      window.location.assign(json.url);
+    } finally {
+      setPayingId(null);
+    }
+  };
+
+  const extendBooking = async (b: BookingRow, minutes: number) => {
+    if (!session) return;
+
+    setExtendMsg(null);
+
+    const option = EXTEND_OPTIONS.find((o) => o.minutes === minutes);
+    if (!window.confirm(`Prolonger la réservation de ${option?.label ?? `${minutes} min`} ?`)) return;
+
+    const endTime = new Date(new Date(b.end_time).getTime() + minutes * 60000).toISOString();
+
+    setExtendLoading(true);
+    try {
+      const res = await fetch(`/api/bookings/${encodeURIComponent(b.id)}/modify`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ endTime }),
+      });
+
+      const json = (await res.json().catch(() => ({}))) as ModifyApiResponse;
+
+      if (!res.ok || !("ok" in json) || json.ok === false) {
+        const msg = (json as { error?: string })?.error ?? `Erreur modification (${res.status})`;
+        const detail = (json as { detail?: string })?.detail;
+        setExtendMsg({ ok: false, text: detail ? `${msg} — ${detail}` : msg });
+        // modification appliquée mais remboursement échoué: la réservation a quand même changé
+        if ((json as { status?: string })?.status === "applied") await load();
+        return;
+      }
+
+      // supplément à payer => Stripe Checkout, la réservation change après paiement
+      if (json.status === "pending_payment" && json.url) {
+        window.location.href = json.url;
+        return;
+      }
+
+      setExtendMsg({
+        ok: true,
+        text: json.refunded ? "Réservation modifiée ✅ Remboursement en cours." : "Réservation prolongée ✅",
+      });
+      await load();
+
+      setTimeout(() => {
+        setOpenBooking(null);
+        setExtendMsg(null);
+      }, 700);
+    } catch (e: unknown) {
+      setExtendMsg({ ok: false, text: e instanceof Error ? e.message : "Erreur inconnue" });
+    } finally {
+      setExtendLoading(false);
+    }
+  };
+
+  const checkInOut = async (b: BookingRow, action: "check-in" | "check-out") => {
+    if (!session) return;
+
+    setCheckMsg(null);
+    if (action === "check-out" && !window.confirm("Signaler ton départ ?\nLa réservation sera terminée.")) return;
+
+    setCheckLoading(true);
+    try {
+      const res = await fetch(`/api/bookings/${encodeURIComponent(b.id)}/${action}`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+
+      const json = (await res.json().catch(() => ({}))) as { ok?: boolean; error?: string; detail?: string };
+
+      if (!res.ok || !json.ok) {
+        const msg = json.error ?? `Erreur ${action} (${res.status})`;
+        setCheckMsg({ ok: false, text: json.detail ? `${msg} — ${json.detail}` : msg });
+        return;
+      }
+
+      setCheckMsg({ ok: true, text: action === "check-in" ? "Arrivée enregistrée ✅" : "Départ enregistré ✅" });
+      await load();
+
+      setTimeout(() => {
+        setOpenBooking(null);
+        setCheckMsg(null);
+      }, 700);
+    } catch (e: unknown) {
+      setCheckMsg({ ok: false, text: e instanceof Error ? e.message : "Erreur inconnue" });
+    } finally {
+      setCheckLoading(false);
+    }
+  };
+
   const tabBtnClass = (active: boolean) =>
     [
       UI.btnBase,
@@ -528,7 +846,11 @@ export default function MyBookingsPage() {
                               {p?.address ?? "Adresse non renseignée"}
                             </div>
                           </div>
-                          <StatusChip b={b} />
+                          <div className="flex flex-col items-end gap-1 shrink-0">
+                            <StatusChip b={b} />
+                            {b.series_id ? <span className={`${UI.chip} text-xs`}>🔁 Série</span> : null}
+                            {b.lease_id ? <span className={`${UI.chip} text-xs`}>🗓 Abonnement</span> : null}
+                          </div>
                         </div>
 
                         <div className="mt-3 space-y-1 text-sm text-slate-700">
@@ -549,6 +871,25 @@ export default function MyBookingsPage() {
 
                         <div className={`${UI.divider} my-4`} />
 
+                        {needsPayment(b) ? (
+                          <button
+                            type="button"
+                            className={`${UI.btnBase} ${UI.btnPrimary} w-full mb-2`}
+                            disabled={payingId === b.id}
+                            onClick={() => void payBooking(b.id)}
+                          >
+                            {payingId === b.id
+                              ? "Redirection…"
+                              : `${isRequest(b) ? "Autoriser" : "Payer"} ${money(b.total_price, b.currency)}`}
+                          </button>
+                        ) : null}
+
+                        {needsPayment(b) && b.series_id && b.hold_expires_at ? (
+                          <p className="mb-2 text-xs text-amber-700">
+                            À payer avant le {formatDateTime(b.hold_expires_at)}, sinon la date est libérée.
+                          </p>
+                        ) : null}
+
                         <div className="flex flex-col sm:flex-row gap-2">
                           <Link
                             href={`/parkings/${b.parking_id}`}
@@ -570,6 +911,8 @@ export default function MyBookingsPage() {
                             className={`${UI.btnBase} ${UI.btnPrimary} w-full sm:flex-1`}
                             onClick={() => {
                               setCancelMsg(null);
+                              setExtendMsg(null);
+                              setCheckMsg(null);
                               setOpenBooking(b);
                             }}
                           >
@@ -637,6 +980,8 @@ export default function MyBookingsPage() {
                           className={`${UI.btnBase} ${UI.btnGhost} w-full sm:w-auto`}
                           onClick={() => {
                             setCancelMsg(null);
+                            setExtendMsg(null);
+                            setCheckMsg(null);
                             setOpenBooking(b);
                           }}
                         >
@@ -696,7 +1041,7 @@ export default function MyBookingsPage() {
                   const p = getParkingFromJoin(openBooking.parkings);
                   const photos = parsePhotos(p?.photos ?? null);
                   const photo = firstPhotoUrl(photos);
-                  const policy = refundPolicyLabel(openBooking.start_time);
+                  const policy = refundPolicyLabel(openBooking);
 
                   return (
                     <>
@@ -735,16 +1080,138 @@ export default function MyBookingsPage() {
                         <b className="text-slate-900">{money(openBooking.total_price, openBooking.currency)}</b>
                       </div>
 
-                      <div
-                        className={`rounded-2xl border p-3 text-sm ${
-                          policy.refundable
-                            ? "border-emerald-200 bg-emerald-50/60 text-emerald-800"
-                            : "border-amber-200 bg-amber-50/60 text-amber-800"
-                        }`}
-                      >
-                        <div className="font-semibold">{policy.title}</div>
-                        <div className="text-xs mt-1 opacity-90">{policy.detail}</div>
-                      </div>
+                      {openBooking.lease_id ? (
+                        <div className="rounded-2xl border border-slate-200 p-3 text-sm text-slate-700">
+                          <div className="font-semibold">🗓 Location au mois</div>
+                          <div className="text-xs mt-1 opacity-90">
+                            Renouvelée automatiquement chaque mois. La fin affichée inclut le mois suivant réservé.
+                          </div>
+                        </div>
+                      ) : isRequest(openBooking) ? (
+                        <div className="rounded-2xl border border-violet-200 bg-violet-50/60 p-3 text-sm text-violet-800">
+                          <div className="font-semibold">Demande en attente du propriétaire</div>
+                          <div className="text-xs mt-1 opacity-90">
+                            {paymentStatusOf(openBooking.payment_status) === "authorized"
+                              ? "Paiement autorisé, débité seulement à l’acceptation."
+                              : "Autorise le paiement pour envoyer la demande au propriétaire."}
+                            {openBooking.request_expires_at
+                              ? ` Sans réponse avant ${formatDateTime(openBooking.request_expires_at)}, la demande expire (aucun débit).`
+                              : ""}
+                          </div>
+                        </div>
+                      ) : bookingStatusOf(openBooking.status) === "declined" ? (
+                        <div className="rounded-2xl border border-rose-200 bg-rose-50/60 p-3 text-sm text-rose-800">
+                          <div className="font-semibold">Demande refusée</div>
+                          <div className="text-xs mt-1 opacity-90">
+                            {openBooking.decline_reason ? `Motif : ${openBooking.decline_reason}. ` : ""}
+                            Aucun débit : l’autorisation de paiement a été annulée.
+                          </div>
+                        </div>
+                      ) : bookingStatusOf(openBooking.status) === "cancelled" ? (
+                        <div className="rounded-2xl border border-slate-200 p-3 text-sm text-slate-700">
+                          <div className="font-semibold">Réservation annulée</div>
+                          <div className="text-xs mt-1 opacity-90">
+                            {openBooking.cancel_reason && openBooking.cancel_reason !== "other"
+                              ? `Annulée par le propriétaire — ${OWNER_CANCEL_REASON_LABELS[ownerCancelReasonOf(openBooking.cancel_reason)]}. `
+                              : ""}
+                            {openBooking.refund_amount == null
+                              ? "Aucun paiement à rembourser."
+                              : Number(openBooking.refund_amount) > 0
+                              ? `Remboursé : ${money(Number(openBooking.refund_amount), openBooking.currency)}.`
+                              : "Annulation hors délai : pas de remboursement."}
+                          </div>
+                        </div>
+                      ) : (
+                        <div
+                          className={`rounded-2xl border p-3 text-sm ${
+                            policy.refundable
+                              ? "border-emerald-200 bg-emerald-50/60 text-emerald-800"
+                              : "border-amber-200 bg-amber-50/60 text-amber-800"
+                          }`}
+                        >
+                          <div className="font-semibold">{policy.title}</div>
+                          <div className="text-xs mt-1 opacity-90">{policy.detail}</div>
+                        </div>
+                      )}
+
+                      {openBooking.checked_in_at || openBooking.checked_out_at ? (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm text-slate-700">
+                          <div>
+                            <div className="text-slate-500 text-xs">Arrivée</div>
+                            <div className="font-medium break-words">
+                              {openBooking.checked_in_at ? formatDateTime(openBooking.checked_in_at) : "—"}
+                            </div>
+                          </div>
+                          <div>
+                            <div className="text-slate-500 text-xs">Départ</div>
+                            <div className="font-medium break-words">
+                              {openBooking.checked_out_at ? formatDateTime(openBooking.checked_out_at) : "—"}
+                            </div>
+                          </div>
+                        </div>
+                      ) : null}
+
+                      {(() => {
+                        const action = checkAction(openBooking);
+                        if (!action) return null;
+                        return (
+                          <div className="rounded-2xl border border-sky-200 bg-sky-50/60 p-3 space-y-2">
+                            <button
+                              type="button"
+                              className={`${UI.btnBase} ${UI.btnPrimary} w-full`}
+                              disabled={checkLoading}
+                              onClick={() => void checkInOut(openBooking, action)}
+                            >
+                              {checkLoading
+                                ? "Envoi…"
+                                : action === "check-in"
+                                ? "Check-in : je suis arrivé"
+                                : "Check-out : je libère la place"}
+                            </button>
+                            {checkMsg ? (
+                              <p className={`text-sm ${checkMsg.ok ? "text-emerald-700" : "text-rose-700"}`}>
+                                {checkMsg.text}
+                              </p>
+                            ) : null}
+                          </div>
+                        );
+                      })()}
+
+                      {canExtend(openBooking) ? (
+                        <div className="rounded-2xl border border-slate-200 p-3 space-y-2">
+                          <div className="text-sm font-semibold text-slate-900">Prolonger de…</div>
+                          <div className="flex flex-col sm:flex-row gap-2">
+                            <select
+                              className={`${UI.select} sm:flex-1`}
+                              value={extendMinutes}
+                              onChange={(e) => setExtendMinutes(Number(e.target.value))}
+                              disabled={extendLoading}
+                            >
+                              {EXTEND_OPTIONS.map((o) => (
+                                <option key={o.minutes} value={o.minutes}>
+                                  {o.label}
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              type="button"
+                              className={`${UI.btnBase} ${UI.btnGhost} w-full sm:w-auto`}
+                              disabled={extendLoading}
+                              onClick={() => void extendBooking(openBooking, extendMinutes)}
+                            >
+                              {extendLoading ? "Vérification…" : "Prolonger"}
+                            </button>
+                          </div>
+                          <p className={UI.subtle}>
+                            Supplément payé par carte, selon la disponibilité de la place.
+                          </p>
+                          {extendMsg ? (
+                            <p className={`text-sm ${extendMsg.ok ? "text-emerald-700" : "text-rose-700"}`}>
+                              {extendMsg.text}
+                            </p>
+                          ) : null}
+                        </div>
+                      ) : null}
 
                       {cancelMsg ? <p className="text-sm text-rose-700">{cancelMsg}</p> : null}
 
@@ -757,19 +1224,33 @@ export default function MyBookingsPage() {
                           Ouvrir la place
                         </Link>
 
-                        <button
-                          type="button"
-                          className={`${UI.btnBase} ${UI.btnDanger} w-full sm:flex-1`}
-                          disabled={
-                            cancelLoading || (openBooking.status ?? "").toLowerCase() === "cancelled"
-                          }
-                          onClick={() => cancelBooking(openBooking.id, openBooking.start_time)}
-                          title={
-                            (openBooking.status ?? "").toLowerCase() === "cancelled" ? "Déjà annulée" : ""
-                          }
-                        >
-                          {cancelLoading ? "Annulation…" : "Annuler"}
-                        </button>
+                        {openBooking.lease_id ? (
+                          <button
+                            type="button"
+                            className={`${UI.btnBase} ${UI.btnDanger} w-full sm:flex-1`}
+                            disabled={cancelLoading}
+                            onClick={() => void cancelLease(openBooking.lease_id!)}
+                          >
+                            {cancelLoading ? "Résiliation…" : "Résilier l’abonnement"}
+                          </button>
+                        ) : (
+                          <button
+                            type="button"
+                            className={`${UI.btnBase} ${UI.btnDanger} w-full sm:flex-1`}
+                            disabled={
+                              cancelLoading ||
+                              isCancelledStatus(openBooking) ||
+                              isCompleted(openBooking) ||
+                              bookingStatusOf(openBooking.status) === "in_progress"
+                            }
+                            onClick={() =>
+                              cancelBooking(openBooking, isRequest(openBooking))
+                            }
+                            title={isCancelledStatus(openBooking) ? "Déjà annulée" : ""}
+                          >
+                            {cancelLoading ? "Annulation…" : isRequest(openBooking) ? "Annuler la demande" : "Annuler"}
+                          </button>
+                        )}
                       </div>
                     </>
                   );
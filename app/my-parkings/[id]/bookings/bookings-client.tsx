@@ -19,12 +19,16 @@ import React, { useEffect, useMemo, useState } from "react";
 import { useAuth } from "@/app/providers/AuthProvider";
 import { UI } from "@/app/components/ui";
 import ConfirmModal from "@/app/components/ConfirmModal";
+import OwnerCancelReasonFields from "@/app/components/OwnerCancelReasonFields";
+import type { OwnerCancelReason } from "@/app/lib/ownerPenalties";
 
 import FullCalendar from "@fullcalendar/react";
 import dayGridPlugin from "@fullcalendar/daygrid";
 import timeGridPlugin from "@fullcalendar/timegrid";
 import interactionPlugin from "@fullcalendar/interaction";
 import type { EventClickArg } from "@fullcalendar/core";
+import { computeOccupancy, getCapacity } from "@/app/lib/availability";
+import { bookingStatusOf, paymentStatusOf } from "@/app/lib/bookingLifecycle";
 
 type BookingRow = {
   id: string;
@@ -35,6 +39,7 @@ type BookingRow = {
   currency: string | null;
   status: string;
   payment_status: string;
+  spot_number: number | null;
 };
 
 type CancelOk = { ok: true; refunded?: boolean; already?: boolean };
@@ -54,6 +59,7 @@ type ParkingJoin = {
   postal_code: string | null;
   city: string | null;
   photos: string[] | string | null; // support array OR json string
+  capacity: number | null;
 };
 
 function formatDateTime(iso: string) {
@@ -98,18 +104,23 @@ function firstPhotoUrl(photos: string[]): string | null {
 }
 
 function statusKey(b: BookingRow) {
-  const s = (b.status ?? "").toLowerCase();
-  const pay = (b.payment_status ?? "").toLowerCase();
+  const s = bookingStatusOf(b.status);
+  const pay = paymentStatusOf(b.payment_status);
 
   if (s === "cancelled") return "cancelled";
-  if (s.includes("pending") || pay === "unpaid") return "pending";
+  if (s === "pending" || s === "pending_payment" || pay === "unpaid") return "pending";
   if (s === "confirmed" && pay === "paid") return "confirmed";
   if (s === "confirmed") return "confirmed";
+  // en cours / terminée: réservation acquise (filtre "Confirmées")
+  if (s === "in_progress" || s === "completed") return "confirmed";
   return "other";
 }
 
 function statusLabel(b: BookingRow) {
   const k = statusKey(b);
+  const s = bookingStatusOf(b.status);
+  if (s === "in_progress") return "En cours";
+  if (s === "completed") return "Terminée";
   if (k === "confirmed") return "Confirmée";
   if (k === "pending") return "En attente";
   if (k === "cancelled") return "Annulée";
@@ -125,8 +136,8 @@ function eventClassName(b: BookingRow) {
 }
 
 function StatusChip({ b }: { b: BookingRow }) {
-  const s = (b.status ?? "").toLowerCase();
-  const pay = (b.payment_status ?? "").toLowerCase();
+  const s = bookingStatusOf(b.status);
+  const pay = paymentStatusOf(b.payment_status);
 
   if (s === "confirmed" && pay === "paid") {
     return (
@@ -135,6 +146,20 @@ function StatusChip({ b }: { b: BookingRow }) {
       </span>
     );
   }
+  if (s === "in_progress") {
+    return (
+      <span className={`${UI.chip} bg-sky-50 border-sky-200 text-sky-700`}>
+        En cours
+      </span>
+    );
+  }
+  if (s === "completed") {
+    return (
+      <span className={`${UI.chip} bg-slate-100 border-slate-200 text-slate-700`}>
+        Terminée
+      </span>
+    );
+  }
   if (s === "cancelled") {
     return (
       <span className={`${UI.chip} bg-slate-100 border-slate-200 text-slate-700`}>
@@ -142,7 +167,7 @@ function StatusChip({ b }: { b: BookingRow }) {
       </span>
     );
   }
-  if (s.includes("pending") || pay === "unpaid") {
+  if (s === "pending" || s === "pending_payment" || pay === "unpaid") {
     return (
       <span className={`${UI.chip} bg-amber-50 border-amber-200 text-amber-700`}>
         En attente
@@ -158,7 +183,7 @@ function StatusChip({ b }: { b: BookingRow }) {
  * - sinon => simple annulation
  */
 function ownerSummary(b: BookingRow) {
-  const pay = (b.payment_status ?? "").toLowerCase();
+  const pay = paymentStatusOf(b.payment_status);
   if (pay === "paid") {
     return {
       badge: "Remboursement ✅",
@@ -257,6 +282,9 @@ export default function BookingsClient({ parkingId }: { parkingId: string }) {
   // popup #2: confirm annulation + modalités
   const [confirmOpen, setConfirmOpen] = useState(false);
   const [pendingCancel, setPendingCancel] = useState<BookingRow | null>(null);
+  const [cancelReason, setCancelReason] = useState<OwnerCancelReason>("owner_unavailable");
+  const [cancelNote, setCancelNote] = useState("");
+  const [cancelOpenedAtMs, setCancelOpenedAtMs] = useState(0);
   const [confirmLines, setConfirmLines] = useState<string[]>([]);
   const [confirmSummaryState, setConfirmSummaryState] = useState<
     { badge?: string; title?: string; text?: string } | undefined
@@ -268,7 +296,7 @@ export default function BookingsClient({ parkingId }: { parkingId: string }) {
 
     const { data, error } = await supabase
       .from("parkings")
-      .select("id,title,address,street,street_number,postal_code,city,photos")
+      .select("id,title,address,street,street_number,postal_code,city,photos,capacity")
       .eq("id", parkingId)
       .maybeSingle();
 
@@ -288,7 +316,7 @@ export default function BookingsClient({ parkingId }: { parkingId: string }) {
 
     const { data, error } = await supabase
       .from("bookings")
-      .select("id,user_id,start_time,end_time,total_price,currency,status,payment_status")
+      .select("id,user_id,start_time,end_time,total_price,currency,status,payment_status,spot_number")
       .eq("parking_id", parkingId)
       .order("start_time", { ascending: false });
 
@@ -321,7 +349,7 @@ export default function BookingsClient({ parkingId }: { parkingId: string }) {
   const upcoming = useMemo(
     () =>
       filteredRows.filter(
-        (b) => new Date(b.end_time).getTime() > nowMs && (b.status ?? "").toLowerCase() !== "cancelled"
+        (b) => new Date(b.end_time).getTime() > nowMs && bookingStatusOf(b.status) !== "cancelled"
       ),
     [filteredRows, nowMs]
   );
@@ -329,7 +357,7 @@ export default function BookingsClient({ parkingId }: { parkingId: string }) {
   const past = useMemo(
     () =>
       filteredRows.filter(
-        (b) => new Date(b.end_time).getTime() <= nowMs || (b.status ?? "").toLowerCase() === "cancelled"
+        (b) => new Date(b.end_time).getTime() <= nowMs || bookingStatusOf(b.status) === "cancelled"
       ),
     [filteredRows, nowMs]
   );
@@ -372,6 +400,9 @@ export default function BookingsClient({ parkingId }: { parkingId: string }) {
     const s = ownerSummary(b);
 
     setPendingCancel(b);
+    setCancelReason("owner_unavailable");
+    setCancelNote("");
+    setCancelOpenedAtMs(Date.now());
     setConfirmSummaryState({ badge: s.badge, title: s.title, text: s.text });
     setConfirmTone(s.tone);
 
@@ -400,7 +431,7 @@ export default function BookingsClient({ parkingId }: { parkingId: string }) {
           "Content-Type": "application/json",
           Authorization: `Bearer ${session.access_token}`,
         },
-        body: JSON.stringify({ bookingId: pendingCancel.id }),
+        body: JSON.stringify({ bookingId: pendingCancel.id, reason: cancelReason, note: cancelNote }),
       });
 
       const json = (await res.json().catch(() => ({}))) as CancelApiResponse;
@@ -449,19 +480,33 @@ export default function BookingsClient({ parkingId }: { parkingId: string }) {
   const photos = parsePhotos(parking?.photos ?? null);
   const photo = firstPhotoUrl(photos);
 
-  // ✅ Events calendar (sur filteredRows)
+  const capacity = getCapacity(parking);
+
+  // ✅ Events calendar (sur filteredRows) + occupation "n/capacité" en fond si plusieurs places
   const calendarEvents = useMemo(() => {
-    return filteredRows.map((b) => {
+    const bookings = filteredRows.map((b) => {
       return {
         id: b.id,
-        title: `${statusLabel(b)} · ${money(b.total_price, b.currency)}`,
+        title: `${capacity > 1 ? `#${b.spot_number ?? 1} · ` : ""}${statusLabel(b)} · ${money(b.total_price, b.currency)}`,
         start: b.start_time,
         end: b.end_time,
         classNames: [eventClassName(b)],
         extendedProps: { booking: b },
       };
     });
-  }, [filteredRows]);
+    if (capacity <= 1) return bookings;
+
+    const active = filteredRows.filter((b) => statusKey(b) !== "cancelled");
+    const occupancy = computeOccupancy(active).map((o) => ({
+      id: `occupancy-${o.start}`,
+      title: `${o.count}/${capacity}`,
+      start: o.start,
+      end: o.end,
+      display: "background" as const,
+      backgroundColor: o.count >= capacity ? "rgba(244,63,94,0.18)" : "rgba(124,58,237,0.10)",
+    }));
+    return [...occupancy, ...bookings];
+  }, [filteredRows, capacity]);
 
   const onEventClick = (arg: EventClickArg) => {
     const b = (arg.event.extendedProps as { booking?: BookingRow }).booking ?? null;
@@ -603,7 +648,19 @@ export default function BookingsClient({ parkingId }: { parkingId: string }) {
           setPendingCancel(null);
         }}
         onConfirm={doCancelOwner}
-      />
+      >
+        {pendingCancel ? (
+          <OwnerCancelReasonFields
+            booking={pendingCancel}
+            nowMs={cancelOpenedAtMs}
+            reason={cancelReason}
+            note={cancelNote}
+            onReasonChange={setCancelReason}
+            onNoteChange={setCancelNote}
+            disabled={loading}
+          />
+        ) : null}
+      </ConfirmModal>
 
       {/* ✅ Drawer wow: click event calendrier */}
       <WowDrawer
@@ -685,9 +742,9 @@ export default function BookingsClient({ parkingId }: { parkingId: string }) {
               <button
                 type="button"
                 className={`${Btn.danger} w-full sm:flex-1`}
-                disabled={loading || (drawerBooking.status ?? "").toLowerCase() === "cancelled"}
+                disabled={loading || bookingStatusOf(drawerBooking.status) === "cancelled"}
                 onClick={() => openOwnerCancelConfirm(drawerBooking)}
-                title={(drawerBooking.status ?? "").toLowerCase() === "cancelled" ? "Déjà annulée" : ""}
+                title={bookingStatusOf(drawerBooking.status) === "cancelled" ? "Déjà annulée" : ""}
               >
                 Annuler
               </button>
@@ -860,6 +917,15 @@ export default function BookingsClient({ parkingId }: { parkingId: string }) {
                   </div>
                 </div>
 
+                {capacity > 1 ? (
+                  <div className="mt-1 text-sm text-slate-700">
+                    <span className="text-slate-500">Place :</span>{" "}
+                    <b className="text-slate-900">
+                      n°{b.spot_number ?? 1} / {capacity}
+                    </b>
+                  </div>
+                ) : null}
+
                 <div className="mt-3 flex items-center justify-between text-sm">
                   <span className="text-slate-500">Total</span>
                   <b className="text-slate-900">{money(b.total_price, b.currency)}</b>
@@ -1046,9 +1112,9 @@ export default function BookingsClient({ parkingId }: { parkingId: string }) {
               <button
                 type="button"
                 className={`${Btn.danger} w-full sm:flex-1`}
-                disabled={loading || (openBooking.status ?? "").toLowerCase() === "cancelled"}
+                disabled={loading || bookingStatusOf(openBooking.status) === "cancelled"}
                 onClick={() => openOwnerCancelConfirm(openBooking)}
-                title={(openBooking.status ?? "").toLowerCase() === "cancelled" ? "Déjà annulée" : ""}
+                title={bookingStatusOf(openBooking.status) === "cancelled" ? "Déjà annulée" : ""}
               >
                 Annuler
               </button>
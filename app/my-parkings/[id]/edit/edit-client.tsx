@@ -8,6 +8,30 @@ import { UI } from "@/app/components/ui";
 import PhotoUploader from "@/app/components/PhotoUploader";
 import MapPicker from "@/app/components/MapPicker";
 import AddressSearch from "@/app/components/AddressSearch";
+import {
+  MAX_BUFFER_MINUTES,
+  MAX_CAPACITY,
+  SUPPORTED_TIMEZONES,
+  getBuffers,
+  getCapacity,
+  resolveTimeZone,
+  type BufferColumns,
+} from "@/app/lib/availability";
+import {
+  GRANULARITY_OPTIONS,
+  constraintsFromRow,
+  constraintsToRow,
+  validateConstraints,
+  type BookingConstraintsRow,
+} from "@/app/lib/constraints";
+import type { BookingMode } from "@/app/lib/bookingRequests";
+import {
+  CANCELLATION_POLICIES,
+  CANCELLATION_POLICY_LABELS,
+  cancellationPolicyOf,
+  describeCancellationPolicy,
+  type CancellationPolicy,
+} from "@/app/lib/cancellationPolicy";
 
 type ParkingRow = {
   id: string;
@@ -22,6 +46,7 @@ type ParkingRow = {
   street_number: string | null;
   postal_code: string | null;
   city: string | null;
+  timezone: string | null;
 
   parking_type: "outdoor" | "indoor" | "garage" | null;
   is_covered: boolean | null;
@@ -31,6 +56,9 @@ type ParkingRow = {
 
   price_hour: number | null;
   price_day: number | null;
+  price_month: number | null;
+  booking_mode?: string | null;
+  cancellation_policy?: string | null;
 
   photos: string[] | null;
 
@@ -38,7 +66,19 @@ type ParkingRow = {
   lng: number | null;
 
   is_active: boolean | null;
-};
+  capacity?: number | null;
+} & BookingConstraintsRow &
+  BufferColumns;
+
+// "" = pas de contrainte
+function intFieldOrNull(v: string): number | null | "invalid" {
+  const t = v.trim();
+  if (!t) return null;
+  const n = Number(t);
+  return Number.isInteger(n) && n > 0 ? n : "invalid";
+}
+
+const fieldOf = (n: number | null) => (n === null ? "" : String(n));
 
 function buildAddress(args: {
   street: string;
@@ -85,6 +125,7 @@ export default function EditParkingClient({ initialParking }: { initialParking:
   const [streetNumber, setStreetNumber] = useState(initialParking.street_number ?? "");
   const [postalCode, setPostalCode] = useState(initialParking.postal_code ?? "");
   const [city, setCity] = useState(initialParking.city ?? "Genève");
+  const [timeZone, setTimeZone] = useState<string>(resolveTimeZone(initialParking.timezone));
 
   const [parkingType, setParkingType] = useState<"outdoor" | "indoor" | "garage">(
     initialParking.parking_type ?? "outdoor"
@@ -94,6 +135,7 @@ export default function EditParkingClient({ initialParking }: { initialParking:
   const [hasEvCharger, setHasEvCharger] = useState(Boolean(initialParking.has_ev_charger));
   const [isSecure, setIsSecure] = useState(Boolean(initialParking.is_secure));
   const [isLit, setIsLit] = useState(Boolean(initialParking.is_lit));
+  const [capacity, setCapacity] = useState<string>(String(getCapacity(initialParking)));
 
   const [priceHour, setPriceHour] = useState<string>(
     initialParking.price_hour !== null && initialParking.price_hour !== undefined ? String(initialParking.price_hour) : ""
@@ -101,6 +143,17 @@ export default function EditParkingClient({ initialParking }: { initialParking:
   const [priceDay, setPriceDay] = useState<string>(
     initialParking.price_day !== null && initialParking.price_day !== undefined ? String(initialParking.price_day) : ""
   );
+  const [priceMonth, setPriceMonth] = useState<string>(
+    initialParking.price_month !== null && initialParking.price_month !== undefined
+      ? String(initialParking.price_month)
+      : ""
+  );
+  const [bookingMode, setBookingMode] = useState<BookingMode>(
+    initialParking.booking_mode === "request" ? "request" : "instant"
+  );
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicy>(
+    cancellationPolicyOf(initialParking.cancellation_policy)
+  );
 
   const [photos, setPhotos] = useState<string[]>(Array.isArray(initialParking.photos) ? initialParking.photos : []);
 
@@ -109,6 +162,17 @@ export default function EditParkingClient({ initialParking }: { initialParking:
 
   const [isActive, setIsActive] = useState<boolean>(initialParking.is_active !== false);
 
+  // Règles de réservation
+  const initialRules = constraintsFromRow(initialParking);
+  const [minDuration, setMinDuration] = useState(fieldOf(initialRules.minDurationMinutes));
+  const [maxDuration, setMaxDuration] = useState(fieldOf(initialRules.maxDurationMinutes));
+  const [minNotice, setMinNotice] = useState(fieldOf(initialRules.minNoticeMinutes));
+  const [maxAdvance, setMaxAdvance] = useState(fieldOf(initialRules.maxAdvanceDays));
+  const [granularity, setGranularity] = useState(fieldOf(initialRules.slotGranularityMinutes));
+  const initialBuffers = getBuffers(initialParking);
+  const [bufferBefore, setBufferBefore] = useState(String(initialBuffers.before));
+  const [bufferAfter, setBufferAfter] = useState(String(initialBuffers.after));
+
   const [addressSearch, setAddressSearch] = useState("");
 
   const [saving, setSaving] = useState(false);
@@ -156,6 +220,7 @@ export default function EditParkingClient({ initialParking }: { initialParking:
 
     const ph = priceHour.trim() ? Number(priceHour) : null;
     const pd = priceDay.trim() ? Number(priceDay) : null;
+    const pm = priceMonth.trim() ? Number(priceMonth) : null;
 
     if (ph !== null && (Number.isNaN(ph) || ph <= 0)) {
       setError("Prix heure invalide.");
@@ -165,6 +230,41 @@ export default function EditParkingClient({ initialParking }: { initialParking:
       setError("Prix jour invalide (si renseigné, doit être > 0).");
       return;
     }
+    if (pm !== null && (Number.isNaN(pm) || pm <= 0)) {
+      setError("Prix mois invalide (si renseigné, doit être > 0).");
+      return;
+    }
+
+    const ruleFields = {
+      minDurationMinutes: intFieldOrNull(minDuration),
+      maxDurationMinutes: intFieldOrNull(maxDuration),
+      minNoticeMinutes: intFieldOrNull(minNotice),
+      maxAdvanceDays: intFieldOrNull(maxAdvance),
+      slotGranularityMinutes: intFieldOrNull(granularity),
+    };
+    if (Object.values(ruleFields).some((v) => v === "invalid")) {
+      setError("Règles de réservation : nombres entiers > 0 (ou vide = pas de limite).");
+      return;
+    }
+    const rules = ruleFields as Parameters<typeof constraintsToRow>[0];
+    const rulesErr = validateConstraints(rules);
+    if (rulesErr) {
+      setError(rulesErr);
+      return;
+    }
+
+    const bb = bufferBefore.trim() ? Number(bufferBefore) : 0;
+    const ba = bufferAfter.trim() ? Number(bufferAfter) : 0;
+    if ([bb, ba].some((n) => !Number.isInteger(n) || n < 0 || n > MAX_BUFFER_MINUTES)) {
+      setError(`Battement : entre 0 et ${MAX_BUFFER_MINUTES} minutes.`);
+      return;
+    }
+
+    const cap = capacity.trim() ? Number(capacity) : 1;
+    if (!Number.isInteger(cap) || cap < 1 || cap > MAX_CAPACITY) {
+      setError(`Nombre de places : entre 1 et ${MAX_CAPACITY}.`);
+      return;
+    }
 
     const address = buildAddress({
       street: street.trim(),
@@ -187,15 +287,20 @@ export default function EditParkingClient({ initialParking }: { initialParking:
         street_number: streetNumber.trim() || null,
         postal_code: postalCode.trim() || null,
         city: city.trim(),
+        timezone: timeZone,
 
         parking_type: parkingType,
         is_covered: isCovered,
         has_ev_charger: hasEvCharger,
         is_secure: isSecure,
         is_lit: isLit,
+        capacity: cap,
 
         price_hour: ph,
         price_day: pd,
+        price_month: pm,
+        booking_mode: bookingMode,
+        cancellation_policy: cancellationPolicy,
 
         photos: photos.length ? photos : [],
 
@@ -203,6 +308,10 @@ export default function EditParkingClient({ initialParking }: { initialParking:
         lng,
 
         is_active: isActive,
+
+        ...constraintsToRow(rules),
+        buffer_before_minutes: bb,
+        buffer_after_minutes: ba,
       })
       .eq("id", parkingId);
 
@@ -386,6 +495,17 @@ export default function EditParkingClient({ initialParking }: { initialParking:
                 <label className="text-sm font-medium text-slate-900">Ville</label>
                 <input className={UI.input} value={city} onChange={(e) => setCity(e.target.value)} />
               </div>
+
+              <div className="md:col-span-3 space-y-2">
+                <label className="text-sm font-medium text-slate-900">Fuseau horaire</label>
+                <select className={UI.select} value={timeZone} onChange={(e) => setTimeZone(e.target.value)}>
+                  {SUPPORTED_TIMEZONES.map((z) => (
+                    <option key={z.value} value={z.value}>
+                      {z.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
 
             <div className={UI.subtle}>
@@ -421,6 +541,20 @@ export default function EditParkingClient({ initialParking }: { initialParking:
                   <span className={UI.subtle}>Clique pour changer</span>
                 </button>
               </div>
+
+              <div className="md:col-span-2 space-y-2">
+                <label className="text-sm font-medium text-slate-900">Nombre de places</label>
+                <input
+                  className={UI.input}
+                  value={capacity}
+                  onChange={(e) => setCapacity(e.target.value)}
+                  inputMode="numeric"
+                />
+                <div className={UI.subtle}>
+                  Plusieurs places identiques (garage, parking d’immeuble) : une seule annonce, chaque réservation reçoit une
+                  place numérotée.
+                </div>
+              </div>
             </div>
 
             <div className="flex flex-wrap gap-2">
@@ -479,6 +613,135 @@ export default function EditParkingClient({ initialParking }: { initialParking:
                   inputMode="decimal"
                 />
               </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-900">Prix / mois (CHF)</label>
+                <input
+                  className={UI.input}
+                  value={priceMonth}
+                  onChange={(e) => setPriceMonth(e.target.value)}
+                  placeholder="Vide = pas de location au mois"
+                  inputMode="decimal"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-900">Mode de réservation</label>
+                <select
+                  className={UI.select}
+                  value={bookingMode}
+                  onChange={(e) => setBookingMode(e.target.value as BookingMode)}
+                >
+                  <option value="instant">Instantané (confirmé au paiement)</option>
+                  <option value="request">Sur demande (j’accepte chaque réservation)</option>
+                </select>
+                <div className={UI.subtle}>
+                  Sur demande : le paiement du client est autorisé, puis débité quand tu acceptes (sans réponse sous 24h, la
+                  demande expire).
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-900">Politique d’annulation</label>
+                <select
+                  className={UI.select}
+                  value={cancellationPolicy}
+                  onChange={(e) => setCancellationPolicy(cancellationPolicyOf(e.target.value))}
+                >
+                  {CANCELLATION_POLICIES.map((cp) => (
+                    <option key={cp} value={cp}>
+                      {CANCELLATION_POLICY_LABELS[cp]}
+                    </option>
+                  ))}
+                </select>
+                <div className={UI.subtle}>
+                  {describeCancellationPolicy(cancellationPolicy).join(" · ")}. S’applique aux nouvelles réservations.
+                </div>
+              </div>
+            </div>
+          </section>
+
+          <section className={`${UI.card} ${UI.cardPad} space-y-4`}>
+            <h2 className={UI.h2}>Règles de réservation</h2>
+            <div className={UI.subtle}>Laisser vide = pas de limite.</div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-900">Durée min (minutes)</label>
+                <input
+                  className={UI.input}
+                  value={minDuration}
+                  onChange={(e) => setMinDuration(e.target.value)}
+                  inputMode="numeric"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-900">Durée max (minutes)</label>
+                <input
+                  className={UI.input}
+                  value={maxDuration}
+                  onChange={(e) => setMaxDuration(e.target.value)}
+                  inputMode="numeric"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-900">Préavis min (minutes avant le début)</label>
+                <input
+                  className={UI.input}
+                  value={minNotice}
+                  onChange={(e) => setMinNotice(e.target.value)}
+                  inputMode="numeric"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-900">Réservable jusqu’à (jours à l’avance)</label>
+                <input
+                  className={UI.input}
+                  value={maxAdvance}
+                  onChange={(e) => setMaxAdvance(e.target.value)}
+                  inputMode="numeric"
+                />
+              </div>
+
+              <div className="md:col-span-2 space-y-2">
+                <label className="text-sm font-medium text-slate-900">Pas des horaires</label>
+                <select className={UI.select} value={granularity} onChange={(e) => setGranularity(e.target.value)}>
+                  <option value="">Libre (à la minute)</option>
+                  {GRANULARITY_OPTIONS.map((g) => (
+                    <option key={g} value={String(g)}>
+                      {g} min
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-900">Battement avant (minutes)</label>
+                <input
+                  className={UI.input}
+                  value={bufferBefore}
+                  onChange={(e) => setBufferBefore(e.target.value)}
+                  inputMode="numeric"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-900">Battement après (minutes)</label>
+                <input
+                  className={UI.input}
+                  value={bufferAfter}
+                  onChange={(e) => setBufferAfter(e.target.value)}
+                  inputMode="numeric"
+                />
+              </div>
+
+              <div className={`md:col-span-2 ${UI.subtle}`}>
+                Battement = temps libre gardé avant / après chaque réservation (retard du conducteur précédent,
+                arrivée en avance du suivant).
+              </div>
             </div>
           </section>
 
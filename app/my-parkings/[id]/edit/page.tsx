@@ -1,5 +1,7 @@
 import { createClient } from "@supabase/supabase-js";
 import EditParkingClient from "./edit-client";
+import type { BookingConstraintsRow } from "@/app/lib/constraints";
+import type { BufferColumns } from "@/app/lib/availability";
 
 
 export const runtime = "nodejs";
@@ -16,6 +18,8 @@ type ParkingRow = {
   street_number: string | null;
   postal_code: string | null;
   city: string | null;
+  timezone: string | null;
+  capacity: number | null;
 
   parking_type: "outdoor" | "indoor" | "garage" | null;
   is_covered: boolean | null;
@@ -25,6 +29,9 @@ type ParkingRow = {
 
   price_hour: number | null;
   price_day: number | null;
+  price_month: number | null;
+  booking_mode: string | null;
+  cancellation_policy: string | null;
 
   photos: string[] | null;
 
@@ -32,7 +39,8 @@ type ParkingRow = {
   lng: number | null;
 
   is_active: boolean | null;
-};
+} & BookingConstraintsRow &
+  BufferColumns;
 
 export default async function EditParkingPage({
   params,
@@ -49,7 +57,7 @@ export default async function EditParkingPage({
   const { data: parking, error } = await supabase
     .from("parkings")
     .select(
-      "id,owner_id,title,instructions,address,street,street_number,postal_code,city,parking_type,is_covered,has_ev_charger,is_secure,is_lit,price_hour,price_day,photos,lat,lng,is_active"
+      "id,owner_id,title,instructions,address,street,street_number,postal_code,city,timezone,parking_type,is_covered,has_ev_charger,is_secure,is_lit,price_hour,price_day,price_month,booking_mode,cancellation_policy,photos,lat,lng,is_active,min_duration_minutes,max_duration_minutes,min_notice_minutes,max_advance_days,slot_granularity_minutes,buffer_before_minutes,buffer_after_minutes,capacity"
     )
     .eq("id", id)
     .maybeSingle();
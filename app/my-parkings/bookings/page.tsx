@@ -7,12 +7,16 @@ import { useAuth } from "@/app/providers/AuthProvider";
 import { UI } from "@/app/components/ui";
 import { useRouter } from "next/navigation";
 import ConfirmModal from "@/app/components/ConfirmModal";
+import OwnerCancelReasonFields from "@/app/components/OwnerCancelReasonFields";
+import type { OwnerCancelReason } from "@/app/lib/ownerPenalties";
+import { bookingStatusOf, paymentStatusOf } from "@/app/lib/bookingLifecycle";
 
 type ParkingJoin = {
   id: string;
   title: string | null;
   address: string | null;
   photos: string[] | string | null;
+  capacity?: number | null;
 };
 
 type BookingRow = {
@@ -32,6 +36,11 @@ type BookingRow = {
   cancelled_by?: string | null;
   refund_status?: string | null; // refunded | requested | requested_owner | missing_intent | failed | none ...
   refund_id?: string | null;
+  spot_number?: number | null;
+
+  // réservation sur demande
+  request_expires_at?: string | null;
+  decline_reason?: string | null;
 
   parkings?: ParkingJoin[] | ParkingJoin | null;
 };
@@ -40,6 +49,10 @@ type CancelOk = { ok: true; refunded?: boolean; already?: boolean };
 type CancelErr = { ok: false; error: string; detail?: string };
 type CancelApiResponse = CancelOk | CancelErr;
 
+type DecisionApiResponse =
+  | { ok: true; status: "confirmed" | "declined" }
+  | { ok: false; error: string; detail?: string; code?: string };
+
 type EnsureChatOk = { ok: true; conversationId: string };
 type EnsureChatErr = { ok: false; error: string; detail?: string };
 type EnsureChatResponse = EnsureChatOk | EnsureChatErr;
@@ -108,7 +121,17 @@ function firstPhotoUrl(photos: string[]): string | null {
 }
 
 function isCancelled(b: BookingRow) {
-  return (b.status ?? "").toLowerCase() === "cancelled";
+  const s = bookingStatusOf(b.status);
+  return s === "cancelled" || s === "declined";
+}
+
+// ✅ demande en attente de réponse (place "sur demande")
+function isPendingRequest(b: BookingRow) {
+  return bookingStatusOf(b.status) === "requested";
+}
+
+function isAuthorized(b: BookingRow) {
+  return paymentStatusOf(b.payment_status) === "authorized";
 }
 
 function isPast(b: BookingRow, nowMs: number) {
@@ -123,13 +146,13 @@ function canChat(b: BookingRow, nowMs: number) {
 }
 
 function canCancelOwner(b: BookingRow, nowMs: number) {
-  // règle demandée: pas d'annulation si passé OU annulé
-  return !isCancelled(b) && !isPast(b, nowMs);
+  // règle demandée: pas d'annulation si passé OU annulé (une demande se refuse)
+  return !isCancelled(b) && !isPast(b, nowMs) && !isPendingRequest(b);
 }
 
 function refundBadge(b: BookingRow) {
   const rs = (b.refund_status ?? "").toLowerCase();
-  const paid = (b.payment_status ?? "").toLowerCase();
+  const paid = paymentStatusOf(b.payment_status);
 
   // Si tu n’as pas refund_status dans ta DB, on se base sur payment_status
   if (!rs) {
@@ -148,7 +171,7 @@ function refundBadge(b: BookingRow) {
 }
 
 function ownerSummary(b: BookingRow) {
-  const paid = (b.payment_status ?? "").toLowerCase() === "paid";
+  const paid = paymentStatusOf(b.payment_status) === "paid";
   if (paid) {
     return {
       badge: "Remboursement ✅",
@@ -188,10 +211,16 @@ export default function OwnerBookingsGlobalPage() {
     { badge?: string; title?: string; text?: string } | undefined
   >(undefined);
   const [modalTone, setModalTone] = useState<"success" | "warning" | "danger" | "info">("info");
+  const [cancelReason, setCancelReason] = useState<OwnerCancelReason>("owner_unavailable");
+  const [cancelNote, setCancelNote] = useState("");
+  const [cancelOpenedAtMs, setCancelOpenedAtMs] = useState(0);
 
   // ✅ éviter double click / "2 fois"
   const [cancelLoadingId, setCancelLoadingId] = useState<string | null>(null);
 
+  // ✅ accepter / refuser une demande
+  const [decisionLoadingId, setDecisionLoadingId] = useState<string | null>(null);
+
   // évite ConfirmModal derrière Détails
   const [returnToDetails, setReturnToDetails] = useState<BookingRow | null>(null);
 
@@ -239,7 +268,10 @@ export default function OwnerBookingsGlobalPage() {
         cancelled_by,
         refund_status,
         refund_id,
-        parkings:parking_id!inner ( id, title, address, photos, owner_id )
+        spot_number,
+        request_expires_at,
+        decline_reason,
+        parkings:parking_id!inner ( id, title, address, photos, owner_id, capacity )
       `
       )
       .eq("parkings.owner_id", userId)
@@ -306,7 +338,7 @@ export default function OwnerBookingsGlobalPage() {
   // - monthGross: ce mois-ci
   const stats = useMemo(() => {
     const paidRows = rows.filter((b) => {
-      const paid = (b.payment_status ?? "").toLowerCase() === "paid";
+      const paid = paymentStatusOf(b.payment_status) === "paid";
       return paid && !isCancelled(b) && (b.total_price ?? 0) > 0;
     });
 
@@ -399,6 +431,9 @@ export default function OwnerBookingsGlobalPage() {
     }
 
     setPendingCancel(b);
+    setCancelReason("owner_unavailable");
+    setCancelNote("");
+    setCancelOpenedAtMs(Date.now());
     setModalSummary({ badge: s.badge, title: s.title, text: s.text });
     setModalTone(s.tone);
 
@@ -429,7 +464,7 @@ export default function OwnerBookingsGlobalPage() {
           "Content-Type": "application/json",
           Authorization: `Bearer ${session.access_token}`,
         },
-        body: JSON.stringify({ bookingId: pendingCancel.id }),
+        body: JSON.stringify({ bookingId: pendingCancel.id, reason: cancelReason, note: cancelNote }),
       });
 
       const json = (await res.json().catch(() => ({}))) as CancelApiResponse;
@@ -464,6 +499,83 @@ export default function OwnerBookingsGlobalPage() {
     }
   };
 
+  const decideRequest = async (b: BookingRow, action: "accept" | "decline") => {
+    if (!session || decisionLoadingId) return;
+
+    let reason: string | null = null;
+    if (action === "accept") {
+      if (!window.confirm(`Accepter la demande ?\nLe client sera débité de ${money(b.total_price, b.currency)}.`)) return;
+    } else {
+      reason = window.prompt("Refuser la demande ?\nMotif (optionnel, envoyé au client) :", "");
+      if (reason === null) return;
+    }
+
+    setDecisionLoadingId(b.id);
+    setErr(null);
+
+    try {
+      const res = await fetch("/api/owner/bookings/decision", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ bookingId: b.id, action, reason }),
+      });
+
+      const json = (await res.json().catch(() => ({}))) as DecisionApiResponse;
+
+      if (!res.ok || !("ok" in json) || json.ok === false) {
+        const msg =
+          ("detail" in json && json.detail)
+            ? `${json.error ?? "Erreur décision"} — ${json.detail}`
+            : ("error" in json && json.error)
+              ? json.error
+              : `Erreur décision (${res.status})`;
+        setErr(msg);
+        return;
+      }
+
+      setOpenBooking(null);
+      await load();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Erreur inconnue (décision)");
+    } finally {
+      setDecisionLoadingId(null);
+    }
+  };
+
+  const requestActions = (b: BookingRow) => (
+    <div className="rounded-2xl border border-amber-200 bg-amber-50 p-3 space-y-2">
+      <div className="text-sm font-semibold text-amber-800">Demande de réservation</div>
+      <div className="text-xs text-amber-700">
+        {isAuthorized(b)
+          ? `Paiement autorisé (débité seulement si tu acceptes).${
+              b.request_expires_at ? ` Réponse avant ${formatDateTime(b.request_expires_at)}.` : ""
+            }`
+          : "En attente de l’autorisation de paiement du client."}
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          className={`${UI.btnBase} ${UI.btnPrimary} flex-1`}
+          disabled={!isAuthorized(b) || !!decisionLoadingId}
+          onClick={() => void decideRequest(b, "accept")}
+        >
+          {decisionLoadingId === b.id ? "…" : "Accepter"}
+        </button>
+        <button
+          type="button"
+          className={`${UI.btnBase} ${UI.btnDanger} flex-1`}
+          disabled={!!decisionLoadingId}
+          onClick={() => void decideRequest(b, "decline")}
+        >
+          Refuser
+        </button>
+      </div>
+    </div>
+  );
+
   const Btn = {
     primary: `${UI.btnBase} ${UI.btnPrimary}`,
     ghost: `${UI.btnBase} ${UI.btnGhost}`,
@@ -530,7 +642,19 @@ export default function OwnerBookingsGlobalPage() {
           }
         }}
         onConfirm={doCancelOwner}
-      />
+      >
+        {pendingCancel ? (
+          <OwnerCancelReasonFields
+            booking={pendingCancel}
+            nowMs={cancelOpenedAtMs}
+            reason={cancelReason}
+            note={cancelNote}
+            onReasonChange={setCancelReason}
+            onNoteChange={setCancelNote}
+            disabled={!!cancelLoadingId}
+          />
+        ) : null}
+      </ConfirmModal>
 
       <div className={`${UI.container} ${UI.section} space-y-6`}>
         <header className={UI.sectionTitleRow}>
@@ -659,6 +783,7 @@ export default function OwnerBookingsGlobalPage() {
                           <div className="flex flex-col gap-1 items-end text-[11px]">
                             <span className={UI.chip}>{b.status ?? "—"}</span>
                             <span className={UI.chip}>{b.payment_status ?? "—"}</span>
+                            {(p?.capacity ?? 1) > 1 ? <span className={UI.chip}>Place n°{b.spot_number ?? 1}</span> : null}
                           </div>
                         </div>
 
@@ -676,6 +801,8 @@ export default function OwnerBookingsGlobalPage() {
                           <b className="text-slate-900">{money(b.total_price, b.currency)}</b>
                         </div>
 
+                        {isPendingRequest(b) ? <div className="mt-3">{requestActions(b)}</div> : null}
+
                         <div className={`${UI.divider} my-4`} />
 
                         <div className="flex gap-2">
@@ -705,7 +832,7 @@ export default function OwnerBookingsGlobalPage() {
                           </button>
                         </div>
 
-                        {!cancelAllowed ? (
+                        {!cancelAllowed && !isPendingRequest(b) ? (
                           <div className="mt-3 text-xs text-slate-500">
                             Annulation désactivée (réservation passée ou annulée).
                           </div>
@@ -752,7 +879,9 @@ export default function OwnerBookingsGlobalPage() {
 
                           {isCancelled(b) ? (
                             <div className="mt-2 text-xs text-slate-600">
-                              <b className="text-slate-900">Annulée</b>
+                              <b className="text-slate-900">
+                                {bookingStatusOf(b.status) === "declined" ? "Demande refusée" : "Annulée"}
+                              </b>
                               {rb ? <span className="ml-2">· {rb.label}</span> : null}
                             </div>
                           ) : null}
@@ -847,7 +976,14 @@ export default function OwnerBookingsGlobalPage() {
 
                     {cancelled ? (
                       <div className="rounded-2xl border border-slate-200 bg-slate-50 p-3 text-sm text-slate-700">
-                        <div className="font-semibold text-slate-900">Réservation annulée</div>
+                        <div className="font-semibold text-slate-900">
+                          {bookingStatusOf(openBooking.status) === "declined"
+                            ? "Demande refusée"
+                            : "Réservation annulée"}
+                        </div>
+                        {openBooking.decline_reason ? (
+                          <div className="mt-1 text-xs text-slate-600">Motif : {openBooking.decline_reason}</div>
+                        ) : null}
                         <div className="mt-1 text-xs text-slate-600">
                           {rb ? rb.label : "Statut remboursement indisponible"}
                           {openBooking.cancelled_by ? ` · par ${openBooking.cancelled_by}` : ""}
@@ -882,6 +1018,8 @@ export default function OwnerBookingsGlobalPage() {
                       <b className="text-slate-900">{money(openBooking.total_price, openBooking.currency)}</b>
                     </div>
 
+                    {isPendingRequest(openBooking) && !pastBooking ? requestActions(openBooking) : null}
+
                     <div className="flex gap-2 pt-2">
                       <Link
                         href={`/parkings/${openBooking.parking_id}`}
@@ -5,12 +5,16 @@ import { useEffect, useMemo, useState } from "react";
 import { useAuth } from "@/app/providers/AuthProvider";
 import { UI } from "@/app/components/ui";
 import ConfirmModal from "@/app/components/ConfirmModal";
+import OwnerCancelReasonFields from "@/app/components/OwnerCancelReasonFields";
+import type { OwnerCancelReason } from "@/app/lib/ownerPenalties";
 
 import FullCalendar from "@fullcalendar/react";
 import dayGridPlugin from "@fullcalendar/daygrid";
 import timeGridPlugin from "@fullcalendar/timegrid";
 import interactionPlugin from "@fullcalendar/interaction";
 import type { EventClickArg } from "@fullcalendar/core";
+import { computeOccupancy, toLocalDateTimeInput } from "@/app/lib/availability";
+import { bookingStatusOf, paymentStatusOf } from "@/app/lib/bookingLifecycle";
 
 type ApiEvent = {
   id: string;
@@ -21,13 +25,28 @@ type ApiEvent = {
     bookingId: string;
     parkingId: string | null;
     parkingTitle: string;
+    timeZone: string;
     status: string;
     paymentStatus: string;
     totalPrice: number | null;
     currency: string;
+    bufferBeforeMinutes?: number;
+    bufferAfterMinutes?: number;
+    capacity?: number;
+    spotNumber?: number;
   };
 };
 
+type ApiBlackout = {
+  id: string;
+  ruleId: string | null; // série récurrente (RRULE)
+  title: string;
+  start: string;
+  end: string;
+  parkingId: string;
+  timeZone: string;
+};
+
 type CancelOk = { ok: true; refunded?: boolean; already?: boolean };
 type CancelErr = { ok: false; error: string; detail?: string };
 type CancelApiResponse = CancelOk | CancelErr;
@@ -39,10 +58,11 @@ function money(v: number | null, currency?: string | null) {
   return `${v} ${(currency ?? "CHF").toUpperCase()}`;
 }
 
-function formatDateTime(iso: string) {
+function formatDateTime(iso: string, timeZone?: string) {
   const d = new Date(iso);
   if (Number.isNaN(d.getTime())) return iso;
   return d.toLocaleString("fr-CH", {
+    timeZone,
     weekday: "short",
     day: "2-digit",
     month: "2-digit",
@@ -53,11 +73,11 @@ function formatDateTime(iso: string) {
 }
 
 function statusKeyFromEvent(e: ApiEvent) {
-  const s = (e.extendedProps.status ?? "").toLowerCase();
-  const pay = (e.extendedProps.paymentStatus ?? "").toLowerCase();
+  const s = bookingStatusOf(e.extendedProps.status);
+  const pay = paymentStatusOf(e.extendedProps.paymentStatus);
   if (s === "cancelled") return "cancelled";
-  if (s.includes("pending") || pay === "unpaid") return "pending";
-  if (s === "confirmed") return "confirmed";
+  if (s === "pending" || s === "pending_payment" || pay === "unpaid") return "pending";
+  if (s === "confirmed" || s === "in_progress" || s === "completed") return "confirmed";
   return "other";
 }
 
@@ -138,6 +158,7 @@ export default function OwnerCalendarClient() {
 
   // events fetched
   const [events, setEvents] = useState<ApiEvent[]>([]);
+  const [blackouts, setBlackouts] = useState<ApiBlackout[]>([]);
 
   // responsive view
   const [isMobile, setIsMobile] = useState(false);
@@ -159,6 +180,9 @@ export default function OwnerCalendarClient() {
   const [confirmSummaryState, setConfirmSummaryState] = useState<
     { badge?: string; title?: string; text?: string } | undefined
   >(undefined);
+  const [cancelReason, setCancelReason] = useState<OwnerCancelReason>("owner_unavailable");
+  const [cancelNote, setCancelNote] = useState("");
+  const [cancelOpenedAtMs, setCancelOpenedAtMs] = useState(0);
 
   const authHeader = useMemo(() => {
     const t = session?.access_token;
@@ -179,21 +203,24 @@ export default function OwnerCalendarClient() {
       const res = await fetch(url.toString(), { headers: authHeader });
 
       const json = (await res.json().catch(() => ({}))) as
-        | { ok: true; events: ApiEvent[] }
+        | { ok: true; events: ApiEvent[]; blackouts?: ApiBlackout[] }
         | { ok: false; error: string };
 
       if (!res.ok || !("ok" in json) || json.ok === false) {
         setErr("error" in json ? json.error : `Erreur (${res.status})`);
         setEvents([]);
+        setBlackouts([]);
         setLoading(false);
         return;
       }
 
       setEvents(Array.isArray(json.events) ? json.events : []);
+      setBlackouts(Array.isArray(json.blackouts) ? json.blackouts : []);
       setLoading(false);
     } catch (e: unknown) {
       setErr(e instanceof Error ? e.message : "Erreur inconnue");
       setEvents([]);
+      setBlackouts([]);
       setLoading(false);
     }
   };
@@ -210,6 +237,66 @@ export default function OwnerCalendarClient() {
     return Array.from(map.entries()).map(([id, title]) => ({ id, title }));
   }, [events]);
 
+  // ✅ Fuseau d'affichage: celui des places affichées s'il est unique, sinon heure du navigateur.
+  // FullCalendar ne gère pas les fuseaux nommés sans plugin => on lui passe des heures "murales"
+  // (sans offset), qu'il affiche telles quelles.
+  const calendarTz = useMemo(() => {
+    const zones = new Set([...events.map((e) => e.extendedProps.timeZone), ...blackouts.map((b) => b.timeZone)]);
+    return zones.size === 1 ? Array.from(zones)[0] : null;
+  }, [events, blackouts]);
+
+  const seriesCount = useMemo(
+    () => new Set(blackouts.map((b) => b.ruleId).filter(Boolean)).size,
+    [blackouts]
+  );
+
+  const toCalendarTime = (iso: string) => (calendarTz ? toLocalDateTimeInput(iso, calendarTz) : iso);
+
+  // Battements avant / après (réservations non annulées) => blocs grisés
+  const turnovers = useMemo(() => {
+    const out: Array<{ id: string; start: string; end: string }> = [];
+    for (const e of filteredEvents) {
+      if (statusKeyFromEvent(e) === "cancelled") continue;
+      const before = e.extendedProps.bufferBeforeMinutes ?? 0;
+      const after = e.extendedProps.bufferAfterMinutes ?? 0;
+      const s = Date.parse(e.start);
+      const en = Date.parse(e.end);
+      if (before > 0) {
+        out.push({ id: `turnover-before-${e.id}`, start: new Date(s - before * 60000).toISOString(), end: e.start });
+      }
+      if (after > 0) {
+        out.push({ id: `turnover-after-${e.id}`, start: e.end, end: new Date(en + after * 60000).toISOString() });
+      }
+    }
+    return out;
+  }, [filteredEvents]);
+
+  // Occupation des annonces multi-places: "n/capacité" par tranche horaire
+  const occupancy = useMemo(() => {
+    const byParking = new Map<string, { capacity: number; rows: Array<{ start_time: string; end_time: string }> }>();
+    for (const e of filteredEvents) {
+      const capacity = e.extendedProps.capacity ?? 1;
+      const pid = e.extendedProps.parkingId;
+      if (capacity <= 1 || !pid || statusKeyFromEvent(e) === "cancelled") continue;
+      if (!byParking.has(pid)) byParking.set(pid, { capacity, rows: [] });
+      byParking.get(pid)!.rows.push({ start_time: e.start, end_time: e.end });
+    }
+
+    const out: Array<{ id: string; title: string; start: string; end: string; full: boolean }> = [];
+    for (const [pid, { capacity, rows }] of byParking) {
+      for (const seg of computeOccupancy(rows)) {
+        out.push({
+          id: `occupancy-${pid}-${seg.start}`,
+          title: `${seg.count}/${capacity}`,
+          start: seg.start,
+          end: seg.end,
+          full: seg.count >= capacity,
+        });
+      }
+    }
+    return out;
+  }, [filteredEvents]);
+
   const counts = useMemo(() => {
     const all = events.length;
     const confirmed = events.filter((e) => statusKeyFromEvent(e) === "confirmed").length;
@@ -230,7 +317,11 @@ export default function OwnerCalendarClient() {
   };
 
   const openCancelConfirm = (ev: ApiEvent) => {
-    const pay = (ev.extendedProps.paymentStatus ?? "").toLowerCase();
+    setCancelReason("owner_unavailable");
+    setCancelNote("");
+    setCancelOpenedAtMs(Date.now());
+
+    const pay = paymentStatusOf(ev.extendedProps.paymentStatus);
     if (pay === "paid") {
       setConfirmTone("warning");
       setConfirmSummaryState({
@@ -249,8 +340,8 @@ export default function OwnerCalendarClient() {
 
     setConfirmLines([
       `Place : ${ev.extendedProps.parkingTitle}`,
-      `Début : ${formatDateTime(ev.start)}`,
-      `Fin : ${formatDateTime(ev.end)}`,
+      `Début : ${formatDateTime(ev.start, ev.extendedProps.timeZone)}`,
+      `Fin : ${formatDateTime(ev.end, ev.extendedProps.timeZone)}`,
       `Montant : ${money(ev.extendedProps.totalPrice, ev.extendedProps.currency)}`,
       `Paiement : ${ev.extendedProps.paymentStatus}`,
       "",
@@ -273,7 +364,7 @@ export default function OwnerCalendarClient() {
           "Content-Type": "application/json",
           Authorization: `Bearer ${session.access_token}`,
         },
-        body: JSON.stringify({ bookingId: selected.extendedProps.bookingId }),
+        body: JSON.stringify({ bookingId: selected.extendedProps.bookingId, reason: cancelReason, note: cancelNote }),
       });
 
       const json = (await res.json().catch(() => ({}))) as CancelApiResponse;
@@ -349,6 +440,25 @@ export default function OwnerCalendarClient() {
       .evt-cancelled { opacity: 0.85; }
       .evt-cancelled .fc-event-title { text-decoration: line-through; }
 
+      /* blackouts propriétaire */
+      .fc .evt-blackout {
+        background: repeating-linear-gradient(45deg, rgba(244,63,94,0.10), rgba(244,63,94,0.10) 6px, transparent 6px, transparent 12px) !important;
+      }
+      .fc .evt-blackout-series {
+        background: repeating-linear-gradient(-45deg, rgba(245,158,11,0.14), rgba(245,158,11,0.14) 6px, transparent 6px, transparent 12px) !important;
+      }
+
+      /* occupation (annonces multi-places) */
+      .fc .evt-occupancy { background: rgba(124,58,237,0.08) !important; }
+      .fc .evt-occupancy-full { background: rgba(244,63,94,0.14) !important; }
+      .fc .evt-occupancy .fc-event-title,
+      .fc .evt-occupancy-full .fc-event-title { font-size: 11px; font-weight: 600; color: rgb(71,85,105); font-style: normal; }
+
+      /* battements avant / après une réservation */
+      .fc .evt-turnover {
+        background: repeating-linear-gradient(90deg, rgba(100,116,139,0.16), rgba(100,116,139,0.16) 4px, rgba(100,116,139,0.06) 4px, rgba(100,116,139,0.06) 8px) !important;
+      }
+
       /* event padding */
       .fc .fc-event { border-radius: 12px; }
       .fc .fc-event .fc-event-main { padding: 6px 8px; }
@@ -378,7 +488,24 @@ export default function OwnerCalendarClient() {
           setConfirmOpen(false);
         }}
         onConfirm={doCancelOwner}
-      />
+      >
+        {selected ? (
+          <OwnerCancelReasonFields
+            booking={{
+              start_time: selected.start,
+              total_price: selected.extendedProps.totalPrice,
+              currency: selected.extendedProps.currency,
+              payment_status: selected.extendedProps.paymentStatus,
+            }}
+            nowMs={cancelOpenedAtMs}
+            reason={cancelReason}
+            note={cancelNote}
+            onReasonChange={setCancelReason}
+            onNoteChange={setCancelNote}
+            disabled={loading}
+          />
+        ) : null}
+      </ConfirmModal>
 
       <WowDrawer
         open={drawerOpen}
@@ -396,7 +523,11 @@ export default function OwnerCalendarClient() {
               <div className="flex items-center justify-between gap-2">
                 <div className="font-semibold text-slate-900 truncate">{selected.extendedProps.parkingTitle}</div>
                 <span className={UI.chip}>
-                  {statusKeyFromEvent(selected) === "confirmed"
+                  {bookingStatusOf(selected.extendedProps.status) === "in_progress"
+                    ? "En cours"
+                    : bookingStatusOf(selected.extendedProps.status) === "completed"
+                    ? "Terminée"
+                    : statusKeyFromEvent(selected) === "confirmed"
                     ? "Confirmée"
                     : statusKeyFromEvent(selected) === "pending"
                     ? "En attente"
@@ -409,12 +540,20 @@ export default function OwnerCalendarClient() {
               <div className="text-sm text-slate-700">
                 <div>
                   <span className="text-slate-500">Début :</span>{" "}
-                  <b className="text-slate-900">{formatDateTime(selected.start)}</b>
+                  <b className="text-slate-900">{formatDateTime(selected.start, selected.extendedProps.timeZone)}</b>
                 </div>
                 <div>
                   <span className="text-slate-500">Fin :</span>{" "}
-                  <b className="text-slate-900">{formatDateTime(selected.end)}</b>
+                  <b className="text-slate-900">{formatDateTime(selected.end, selected.extendedProps.timeZone)}</b>
                 </div>
+                {(selected.extendedProps.capacity ?? 1) > 1 ? (
+                  <div>
+                    <span className="text-slate-500">Place :</span>{" "}
+                    <b className="text-slate-900">
+                      n°{selected.extendedProps.spotNumber ?? 1} / {selected.extendedProps.capacity}
+                    </b>
+                  </div>
+                ) : null}
                 <div className="pt-1">
                   <span className="text-slate-500">Total :</span>{" "}
                   <b className="text-slate-900">
@@ -432,9 +571,9 @@ export default function OwnerCalendarClient() {
               <button
                 type="button"
                 className={`${Btn.danger} w-full sm:flex-1`}
-                disabled={loading || (selected.extendedProps.status ?? "").toLowerCase() === "cancelled"}
+                disabled={loading || bookingStatusOf(selected.extendedProps.status) === "cancelled"}
                 onClick={() => openCancelConfirm(selected)}
-                title={(selected.extendedProps.status ?? "").toLowerCase() === "cancelled" ? "Déjà annulée" : ""}
+                title={bookingStatusOf(selected.extendedProps.status) === "cancelled" ? "Déjà annulée" : ""}
               >
                 Annuler
               </button>
@@ -521,6 +660,16 @@ export default function OwnerCalendarClient() {
       </div>
 
       {/* Calendar */}
+      <div className="flex flex-wrap gap-3 text-xs text-slate-500">
+        {calendarTz ? <span>Heures affichées : {calendarTz}</span> : null}
+        {seriesCount > 0 ? (
+          <span>
+            🔁 {seriesCount} blackout{seriesCount > 1 ? "s" : ""} récurrent{seriesCount > 1 ? "s" : ""} sur la période
+          </span>
+        ) : null}
+        {turnovers.length > 0 ? <span>Zones grisées = battement entre deux réservations</span> : null}
+        {occupancy.length > 0 ? <span>n/N = places occupées (rouge = complet)</span> : null}
+      </div>
       <div className="rounded-2xl border border-slate-200/70 bg-white/70 backdrop-blur p-2">
         <FullCalendar
           plugins={[dayGridPlugin, timeGridPlugin, interactionPlugin]}
@@ -534,7 +683,35 @@ export default function OwnerCalendarClient() {
           nowIndicator
           selectable={false}
           eventClick={onEventClick}
-          events={filteredEvents.map((e) => {
+          events={[
+            // ✅ blackouts en fond (non cliquables)
+            ...blackouts.map((bo) => ({
+              id: bo.id,
+              title: bo.title,
+              start: toCalendarTime(bo.start),
+              end: toCalendarTime(bo.end),
+              display: "background" as const,
+              groupId: bo.ruleId ?? undefined,
+              classNames: [bo.ruleId ? "evt-blackout-series" : "evt-blackout"],
+            })),
+            // ✅ battements (turnover) autour des réservations actives
+            ...turnovers.map((t) => ({
+              id: t.id,
+              start: toCalendarTime(t.start),
+              end: toCalendarTime(t.end),
+              display: "background" as const,
+              classNames: ["evt-turnover"],
+            })),
+            // ✅ occupation n/capacité (multi-places)
+            ...occupancy.map((o) => ({
+              id: o.id,
+              title: o.title,
+              start: toCalendarTime(o.start),
+              end: toCalendarTime(o.end),
+              display: "background" as const,
+              classNames: [o.full ? "evt-occupancy-full" : "evt-occupancy"],
+            })),
+            ...filteredEvents.map((e) => {
             const pid = e.extendedProps.parkingId ?? e.extendedProps.parkingTitle ?? "place";
             const c = colorFromString(pid);
             const k = statusKeyFromEvent(e);
@@ -542,15 +719,16 @@ export default function OwnerCalendarClient() {
             return {
               id: e.id,
               title: e.title,
-              start: e.start,
-              end: e.end,
+              start: toCalendarTime(e.start),
+              end: toCalendarTime(e.end),
               classNames: [k === "cancelled" ? "evt-cancelled" : ""].filter(Boolean),
               backgroundColor: c.bg,
               borderColor: c.border,
               textColor: c.text,
               extendedProps: e.extendedProps,
             };
-          })}
+          }),
+          ]}
           eventTimeFormat={{ hour: "2-digit", minute: "2-digit", hour12: false }}
           slotLabelFormat={{ hour: "2-digit", minute: "2-digit", hour12: false }}
           allDaySlot={false}
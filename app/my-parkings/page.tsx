@@ -40,6 +40,15 @@ type StripeStatusOk = {
 };
 
 type StripeStatusErr = { ok: false; error: string; detail?: string };
+
+type OccupancyItem = {
+  parkingId: string;
+  capacity: number;
+  occupied: number;
+  bookings: Array<{ id: string; spotNumber: number; checkedIn: boolean; endTime: string; isLease: boolean }>;
+};
+
+type OccupancyResp = { ok: true; items: OccupancyItem[] } | { ok: false; error: string; detail?: string };
 type StripeStatusResp = StripeStatusOk | StripeStatusErr;
 
 function typeLabel(t: ParkingRow["parking_type"]) {
@@ -48,6 +57,11 @@ function typeLabel(t: ParkingRow["parking_type"]) {
   return "Extérieur";
 }
 
+function timeLabel(iso: string) {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? "—" : d.toLocaleTimeString("fr-CH", { hour: "2-digit", minute: "2-digit" });
+}
+
 function safeFirstPhoto(p: ParkingRow) {
   const u = p.photos?.[0];
   return typeof u === "string" && u.trim().length > 0 ? u : null;
@@ -66,6 +80,9 @@ export default function MyParkingsPage() {
   const [stripeErr, setStripeErr] = useState<string | null>(null);
   const [onboardingLoading, setOnboardingLoading] = useState(false);
 
+  // ✅ occupation en direct (réservations en cours)
+  const [occupancy, setOccupancy] = useState<Record<string, OccupancyItem>>({});
+
   // ✅ delete loading (per card)
   const [deletingId, setDeletingId] = useState<string | null>(null);
 
@@ -143,6 +160,24 @@ export default function MyParkingsPage() {
     }
   };
 
+  const fetchOccupancy = async () => {
+    if (!session) return;
+
+    try {
+      const res = await fetch("/api/owner/occupancy", {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+
+      const json = (await res.json().catch(() => ({}))) as OccupancyResp;
+      // best effort: la liste des places reste utilisable sans l'occupation
+      if (!res.ok || !("ok" in json) || json.ok === false) return;
+
+      setOccupancy(Object.fromEntries(json.items.map((it) => [it.parkingId, it])));
+    } catch {
+      // ignore
+    }
+  };
+
   const startOnboarding = async () => {
     if (!session) return;
 
@@ -220,6 +255,7 @@ export default function MyParkingsPage() {
     queueMicrotask(() => {
       void load();
       void fetchStripeStatus();
+      void fetchOccupancy();
     });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [ready, session?.user?.id]);
@@ -354,6 +390,7 @@ export default function MyParkingsPage() {
               <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
                 {rows.map((p) => {
                   const photo = safeFirstPhoto(p);
+                  const occ = occupancy[p.id];
 
                   return (
                     <div key={p.id} className={`${UI.card} ${UI.cardHover} overflow-hidden`}>
@@ -403,6 +440,30 @@ export default function MyParkingsPage() {
                           </span>
                         </div>
 
+                        {occ ? (
+                          <div className="space-y-1 text-sm">
+                            <div className="flex items-center justify-between">
+                              <span className="text-slate-600">Occupation</span>
+                              <span
+                                className={`inline-flex items-center rounded-full px-2.5 py-1 text-xs font-medium border ${
+                                  occ.occupied > 0
+                                    ? "bg-amber-50 text-amber-700 border-amber-200"
+                                    : "bg-emerald-50 text-emerald-700 border-emerald-200"
+                                }`}
+                              >
+                                {occ.occupied}/{occ.capacity} occupée{occ.capacity > 1 ? "s" : ""}
+                              </span>
+                            </div>
+                            {occ.bookings.map((b) => (
+                              <div key={b.id} className="text-xs text-slate-500">
+                                {occ.capacity > 1 ? `#${b.spotNumber} · ` : ""}
+                                {b.checkedIn ? "🚗 arrivé" : "🕒 arrivée attendue"}
+                                {b.isLease ? " · au mois" : ` · jusqu'à ${timeLabel(b.endTime)}`}
+                              </div>
+                            ))}
+                          </div>
+                        ) : null}
+
                         <div className={UI.divider} />
 
                         {/* ✅ actions (sans Réservations) */}
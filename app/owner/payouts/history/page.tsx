@@ -0,0 +1,254 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { useAuth } from "@/app/providers/AuthProvider";
+import { UI } from "@/app/components/ui";
+
+type PayoutBooking = {
+  id: string;
+  parkingTitle: string | null;
+  startTime: string;
+  endTime: string;
+  totalPrice: number | null;
+  currency: string;
+};
+
+type PayoutItem = {
+  id: string;
+  amount: number;
+  currency: string;
+  status: "pending" | "in_transit" | "paid" | "failed" | "canceled";
+  arrivalDate: string | null;
+  failureMessage: string | null;
+  bookingCount: number;
+  createdAt: string;
+  bookings: PayoutBooking[];
+};
+
+// un solde par devise (/api/owner/wallet)
+type WalletBalance = {
+  currency: string;
+  pending: number;
+  available: number;
+  paidOut: number;
+};
+
+type ApiErr = { ok: false; error: string; detail?: string };
+
+const STATUS_LABELS: Record<PayoutItem["status"], string> = {
+  pending: "En préparation",
+  in_transit: "En cours",
+  paid: "Versé",
+  failed: "Échoué",
+  canceled: "Annulé",
+};
+
+function money(amount: number, currency: string) {
+  return `${amount.toFixed(2)} ${currency}`;
+}
+
+function formatDate(iso: string | null) {
+  if (!iso) return "—";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleDateString("fr-CH", { day: "2-digit", month: "2-digit", year: "numeric" });
+}
+
+function errorOf(json: unknown, status: number) {
+  const e = json as Partial<ApiErr>;
+  const msg = e.error ?? `Erreur (${status})`;
+  return e.detail ? `${msg} — ${e.detail}` : msg;
+}
+
+export default function OwnerPayoutsHistoryPage() {
+  const { ready, session } = useAuth();
+
+  const [items, setItems] = useState<PayoutItem[]>([]);
+  const [balances, setBalances] = useState<WalletBalance[] | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const Btn = {
+    ghost: `${UI.btnBase} ${UI.btnGhost}`,
+    sm: `${UI.btnBase} ${UI.btnGhost} ${UI.btnSm}`,
+  };
+  const Card = `${UI.card} ${UI.cardPad}`;
+
+  const fetchAll = async () => {
+    if (!session) return;
+    setLoading(true);
+    setErr(null);
+
+    try {
+      const headers = { Authorization: `Bearer ${session.access_token}` };
+      const [pRes, wRes] = await Promise.all([
+        fetch("/api/owner/payouts", { headers }),
+        fetch("/api/owner/wallet", { headers }),
+      ]);
+
+      const pJson = (await pRes.json().catch(() => ({}))) as { ok?: boolean; items?: PayoutItem[] };
+      if (!pRes.ok || !pJson.ok) {
+        setErr(errorOf(pJson, pRes.status));
+        setLoading(false);
+        return;
+      }
+
+      const wJson = (await wRes.json().catch(() => ({}))) as { ok?: boolean; balances?: WalletBalance[] };
+
+      setItems(pJson.items ?? []);
+      setBalances(wRes.ok && wJson.ok ? (wJson.balances ?? []) : null);
+      setLoading(false);
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Erreur inconnue");
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!ready || !session) return;
+    void fetchAll();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ready, session?.user?.id]);
+
+  if (!ready) {
+    return (
+      <main className={UI.page}>
+        <div className={`${UI.container} ${UI.section}`}>
+          <div className={Card}>
+            <p className={UI.p}>Chargement…</p>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  if (!session) {
+    return (
+      <main className={UI.page}>
+        <div className={`${UI.container} ${UI.section}`}>
+          <div className={`${Card} space-y-4`}>
+            <h1 className={UI.h1}>Mes versements</h1>
+            <p className={UI.p}>Connecte-toi pour voir tes versements.</p>
+            <Link href="/login" className={`${UI.btnBase} ${UI.btnPrimary}`}>Se connecter</Link>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className={UI.page}>
+      <div className={`${UI.container} ${UI.section} space-y-6`}>
+        <header className={UI.sectionTitleRow}>
+          <div className="min-w-0">
+            <h1 className={UI.h1}>Mes versements</h1>
+            <p className={UI.p}>Les virements Stripe sur ton compte bancaire et les réservations qu’ils règlent.</p>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Link href="/owner/payouts" className={Btn.ghost}>Configuration Stripe</Link>
+            <button className={Btn.ghost} onClick={() => void fetchAll()} disabled={loading}>
+              {loading ? "…" : "Rafraîchir"}
+            </button>
+          </div>
+        </header>
+
+        {err ? (
+          <div className={`${Card} border-rose-200`}>
+            <p className="text-sm text-rose-700">Erreur : {err}</p>
+          </div>
+        ) : null}
+
+        {balances && balances.length > 0 ? (
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className={Card}>
+              <div className={UI.subtle}>En attente (réservations à venir)</div>
+              {balances.map((b) => (
+                <div key={b.currency} className="mt-1 text-lg font-semibold text-slate-900">
+                  {money(b.pending, b.currency)}
+                </div>
+              ))}
+            </div>
+            <div className={Card}>
+              <div className={UI.subtle}>Disponible</div>
+              {balances.map((b) => (
+                <div key={b.currency} className="mt-1 text-lg font-semibold text-slate-900">
+                  {money(b.available, b.currency)}
+                </div>
+              ))}
+            </div>
+            <div className={Card}>
+              <div className={UI.subtle}>Déjà versé</div>
+              {balances.map((b) => (
+                <div key={b.currency} className="mt-1 text-lg font-semibold text-slate-900">
+                  {money(b.paidOut, b.currency)}
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : null}
+
+        <div className={`${Card} space-y-3`}>
+          {items.length === 0 ? (
+            <p className={UI.p}>{loading ? "Chargement…" : "Aucun versement pour l’instant."}</p>
+          ) : (
+            items.map((p) => {
+              const open = openId === p.id;
+              return (
+                <div key={p.id} className="rounded-xl border border-slate-200 p-4">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="font-semibold text-slate-900">{money(p.amount, p.currency)}</div>
+                      <div className={UI.subtle}>
+                        {p.status === "paid" ? "Arrivé le" : "Arrivée prévue le"} {formatDate(p.arrivalDate)} ·{" "}
+                        {p.bookingCount} réservation{p.bookingCount > 1 ? "s" : ""}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <span className={p.status === "paid" ? UI.chipSuccess : UI.chip}>{STATUS_LABELS[p.status] ?? p.status}</span>
+                      {p.bookings.length > 0 ? (
+                        <button className={Btn.sm} onClick={() => setOpenId(open ? null : p.id)}>
+                          {open ? "Masquer" : "Détail"}
+                        </button>
+                      ) : null}
+                    </div>
+                  </div>
+
+                  {p.status === "failed" ? (
+                    <p className="mt-2 text-sm text-rose-700">
+                      ⚠️ Virement refusé{p.failureMessage ? ` : ${p.failureMessage}` : ""}. Vérifie ton IBAN dans la
+                      configuration Stripe, le montant sera reversé au prochain virement.
+                    </p>
+                  ) : null}
+
+                  {open ? (
+                    <ul className="mt-3 space-y-1 text-sm text-slate-700">
+                      {p.bookings.map((b) => (
+                        <li key={b.id} className="flex flex-wrap justify-between gap-2">
+                          <span className="min-w-0 break-words">
+                            {b.parkingTitle ?? "Place"} · {formatDate(b.startTime)} → {formatDate(b.endTime)}
+                          </span>
+                          <span className="text-slate-500">
+                            {b.totalPrice !== null ? money(Number(b.totalPrice), b.currency) : "—"}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : null}
+                </div>
+              );
+            })
+          )}
+
+          <p className={UI.subtle}>
+            Le montant du virement est net de la commission Parkeo. Les virements manuels n’ont pas de détail par
+            réservation.
+          </p>
+        </div>
+      </div>
+    </main>
+  );
+}
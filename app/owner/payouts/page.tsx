@@ -138,6 +138,7 @@ export default function OwnerPayoutsPage() {
 
           <div className="flex flex-wrap gap-2">
             <Link href="/my-parkings" className={Btn.ghost}>Mes places</Link>
+            <Link href="/owner/payouts/history" className={Btn.ghost}>Mes versements</Link>
             <button className={Btn.ghost} onClick={() => void fetchStatus()} disabled={loading}>
               {loading ? "…" : "Rafraîchir"}
             </button>
@@ -10,6 +10,7 @@ type ParkingType = "outdoor" | "indoor" | "garage";
 
 export type ParkingRow = {
   id: string;
+  owner_id?: string | null;
   title: string;
   street: string | null;
   street_number: string | null;
@@ -91,10 +92,11 @@ type AvState =
   | { state: "idle" }
   | { state: "checking" }
   | { state: "available" }
-  | { state: "unavailable"; reason?: string }
+  | { state: "unavailable"; reason?: string; code?: string }
   | { state: "error"; message: string };
 
-type AvailApiOk = { available: boolean; reason?: string };
+type AvailApiOk = { available: boolean; reason?: string; code?: string };
+type AvailBatchApiOk = { verdicts: Record<string, AvailApiOk> };
 type AvailApiErr = { error?: string; detail?: string; reason?: string };
 
 function extractReason(json: unknown): string | undefined {
@@ -111,7 +113,23 @@ function normalizeReason(r?: string) {
   return s || "Fermé / hors horaires du propriétaire";
 }
 
-function labelFromReason(r?: string) {
+function labelFromReason(r?: string, code?: string) {
+  // ✅ codes stables renvoyés par le moteur de disponibilité
+  switch (code) {
+    case "BLACKOUT":
+      return "Blackout";
+    case "BOOKING_OVERLAP":
+    case "BUFFER_CONFLICT":
+      return "Déjà réservé";
+    case "FULLY_BOOKED":
+      return "Complet";
+    case "PARKING_OFF":
+      return "Désactivée";
+    case "CLOSED":
+    case "OUTSIDE_AVAILABILITY":
+      return "Hors horaires";
+  }
+
   const s = normalizeReason(r).toLowerCase();
   if (s.includes("blackout")) return "Blackout";
   if (s.includes("réserv") || s.includes("deja reserv") || s.includes("déjà"))
@@ -189,6 +207,9 @@ export default function ParkingsClient({
   // Dispo par id
   const [availabilityById, setAvailabilityById] = useState<Record<string, AvState>>({});
 
+  // Score de fiabilité par propriétaire (public.owner_reliability), null = pas assez d'historique
+  const [reliabilityByOwner, setReliabilityByOwner] = useState<Record<string, number | null>>({});
+
   // runId anti-retours obsolètes
   const runIdRef = useRef(0);
 
@@ -203,7 +224,7 @@ export default function ParkingsClient({
       const { data, error } = await supabase
         .from("parkings")
         .select(
-          "id,title,street,street_number,postal_code,city,address,price_hour,price_day,parking_type,is_covered,has_ev_charger,is_secure,is_lit,photos,is_active"
+          "id,owner_id,title,street,street_number,postal_code,city,address,price_hour,price_day,parking_type,is_covered,has_ev_charger,is_secure,is_lit,photos,is_active"
         )
         .eq("is_active", true)
         .order("created_at", { ascending: false });
@@ -213,6 +234,15 @@ export default function ParkingsClient({
       const next = normalizeRows(data ?? []);
       setRows((prev) => (sameList(prev, next) ? prev : next));
       setLastUpdatedAt(Date.now());
+
+      // ✅ best-effort: pas de badge si la lecture échoue
+      const ownerIds = Array.from(new Set(next.map((p) => p.owner_id).filter(Boolean))) as string[];
+      if (ownerIds.length > 0) {
+        const { data: rel } = await supabase.from("owner_reliability").select("owner_id,score").in("owner_id", ownerIds);
+        const map: Record<string, number | null> = {};
+        for (const r of (rel ?? []) as Array<{ owner_id: string; score: number | null }>) map[r.owner_id] = r.score;
+        setReliabilityByOwner(map);
+      }
     } catch (e: unknown) {
       setError(e instanceof Error ? e.message : "Erreur inconnue");
       setRows((prev) => prev);
@@ -294,50 +324,61 @@ export default function ParkingsClient({
     const controller = new AbortController();
 
     const run = async () => {
-      const concurrency = 10;
-      let idx = 0;
-
-      const worker = async () => {
-        while (idx < filtered.length) {
-          const i = idx++;
-          const p = filtered[i];
-          if (!p) continue;
-
-          try {
-            const url = `/api/bookings/availability?parkingId=${encodeURIComponent(
-              p.id
-            )}&start=${encodeURIComponent(windowStartIso)}&end=${encodeURIComponent(windowEndIso)}`;
-
-            const res = await fetch(url, { signal: controller.signal });
-            const json: AvailApiOk | AvailApiErr = await res.json().catch(() => ({}));
-
-            if (runIdRef.current !== myRunId) return;
-
-            if (!res.ok) {
-              const msg = extractReason(json) ?? `Erreur disponibilité (${res.status})`;
-              setAvailabilityById((prev) => ({ ...prev, [p.id]: { state: "error", message: msg } }));
-              continue;
-            }
-
-            const ok = json as AvailApiOk;
+      // ✅ 1 requête batch par paquet de places (au lieu d'1 requête par place)
+      const chunkSize = 100;
+
+      for (let i = 0; i < filtered.length; i += chunkSize) {
+        const chunk = filtered.slice(i, i + chunkSize);
+
+        try {
+          const res = await fetch("/api/bookings/availability/batch", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              parkingIds: chunk.map((p) => p.id),
+              start: windowStartIso,
+              end: windowEndIso,
+            }),
+            signal: controller.signal,
+          });
+          const json: AvailBatchApiOk | AvailApiErr = await res.json().catch(() => ({}));
+
+          if (runIdRef.current !== myRunId) return;
+
+          if (!res.ok || !("verdicts" in json)) {
+            const msg = extractReason(json) ?? `Erreur disponibilité (${res.status})`;
+            setAvailabilityById((prev) => {
+              const next = { ...prev };
+              for (const p of chunk) next[p.id] = { state: "error", message: msg };
+              return next;
+            });
+            continue;
+          }
 
-            setAvailabilityById((prev) => ({
-              ...prev,
-              [p.id]: ok.available
+          setAvailabilityById((prev) => {
+            const next = { ...prev };
+            for (const p of chunk) {
+              const v = json.verdicts[p.id];
+              next[p.id] = !v
+                ? { state: "error", message: "Disponibilité inconnue" }
+                : v.available
                 ? { state: "available" }
-                : { state: "unavailable", reason: ok.reason },
-            }));
-          } catch (e: unknown) {
-            if (e instanceof DOMException && e.name === "AbortError") return;
-            if (runIdRef.current !== myRunId) return;
-
-            const msg = e instanceof Error ? e.message : "Erreur inconnue";
-            setAvailabilityById((prev) => ({ ...prev, [p.id]: { state: "error", message: msg } }));
-          }
+                : { state: "unavailable", reason: v.reason, code: v.code };
+            }
+            return next;
+          });
+        } catch (e: unknown) {
+          if (e instanceof DOMException && e.name === "AbortError") return;
+          if (runIdRef.current !== myRunId) return;
+
+          const msg = e instanceof Error ? e.message : "Erreur inconnue";
+          setAvailabilityById((prev) => {
+            const next = { ...prev };
+            for (const p of chunk) next[p.id] = { state: "error", message: msg };
+            return next;
+          });
         }
-      };
-
-      await Promise.all(Array.from({ length: Math.min(concurrency, filtered.length) }, () => worker()));
+      }
     };
 
     void run();
@@ -515,7 +556,7 @@ export default function ParkingsClient({
                     <>
                       <div className="absolute top-3 left-3 z-20">
                         <span className="inline-flex items-center gap-2 rounded-full bg-rose-600 px-3 py-1 text-xs font-semibold text-white shadow-lg">
-                          {labelFromReason(unavailableReason)}
+                          {labelFromReason(unavailableReason, av.code)}
                         </span>
                       </div>
 
@@ -567,6 +608,14 @@ export default function ParkingsClient({
                         {p.is_secure ? <span className={UI.chip}>🔒</span> : null}
                         {p.is_lit ? <span className={UI.chip}>💡</span> : null}
                         {p.has_ev_charger ? <span className={UI.chip}>⚡ EV</span> : null}
+                        {p.owner_id && reliabilityByOwner[p.owner_id] != null ? (
+                          <span
+                            className={cx(UI.chip, reliabilityByOwner[p.owner_id]! < 85 && "text-amber-700")}
+                            title="Fiabilité du propriétaire (réservations honorées sur 12 mois)"
+                          >
+                            Fiabilité {reliabilityByOwner[p.owner_id]} %
+                          </span>
+                        ) : null}
                       </div>
 
                       <div className="mt-4 flex items-center justify-between">
@@ -3,6 +3,10 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useAuth } from "@/app/providers/AuthProvider";
 import { UI } from "@/app/components/ui";
+import { computeQuote, type Quote } from "@/app/lib/pricing";
+import { parseLocalDateTime, toLocalDateTimeInput } from "@/app/lib/availability";
+import { checkBookingConstraints, describeConstraints, type BookingConstraints } from "@/app/lib/constraints";
+import type { BookingMode } from "@/app/lib/bookingRequests";
 
 type AvailabilityState =
   | { state: "idle" }
@@ -13,11 +17,38 @@ type AvailabilityState =
 
 type AvailApiOk = { available: boolean; reason?: string };
 type AvailApiErr = { error?: string; detail?: string; code?: string };
+type QuoteApi = { ok: true; quote: Quote } | { ok: false; error?: string };
 
-function toIsoFromLocal(v: string) {
-  const t = Date.parse(v);
-  if (Number.isNaN(t)) return null;
-  return new Date(t).toISOString();
+type FreeWindow = { start: string; end: string };
+type FreeWindowsApi = { ok: true; windows: FreeWindow[] } | { ok: false; error?: string };
+
+// fenêtre affichée dans la timeline
+const TIMELINE_DAYS = 7;
+
+// arrondi au pas supérieur (fuseaux supportés = décalage en heures pleines => pas UTC == pas local)
+function ceilToStep(ms: number, stepMinutes: number) {
+  const step = stepMinutes * 60 * 1000;
+  return Math.ceil(ms / step) * step;
+}
+
+// créneau proposé dans une fenêtre libre: début aligné sur le pas et après le préavis,
+// durée 1h (ou la durée min si plus longue), borné par la fin de la fenêtre
+function slotInWindow(w: FreeWindow, c: BookingConstraints) {
+  const notice = (c.minNoticeMinutes ?? 0) * 60 * 1000;
+  const s = ceilToStep(Math.max(Date.parse(w.start), Date.now() + notice), c.slotGranularityMinutes ?? 1);
+  const wanted = Math.max(60, c.minDurationMinutes ?? 0);
+  const e = Math.min(Date.parse(w.end), s + wanted * 60 * 1000);
+  return { s, e };
+}
+
+// ✅ les dates saisies / affichées sont toujours en heure locale de la place (pas du navigateur)
+function formatWindow(w: FreeWindow, timeZone: string) {
+  const s = new Date(w.start);
+  const e = new Date(w.end);
+  const dayOf = (d: Date) =>
+    d.toLocaleDateString("fr-CH", { timeZone, weekday: "short", day: "2-digit", month: "2-digit" });
+  const hm = (d: Date) => d.toLocaleTimeString("fr-CH", { timeZone, hour: "2-digit", minute: "2-digit" });
+  return dayOf(s) === dayOf(e) ? `${dayOf(s)} ${hm(s)} → ${hm(e)}` : `${dayOf(s)} ${hm(s)} → ${dayOf(e)} ${hm(e)}`;
 }
 
 function cx(...s: Array<string | false | null | undefined>) {
@@ -49,18 +80,36 @@ function mapBooking409ToUserMessage(payload: unknown): string {
       return detail || "Cette place est désactivée par le propriétaire.";
     case "BOOKING_OVERLAP":
       return detail || "Cette place est déjà réservée sur ce créneau.";
+    case "FULLY_BOOKED":
+      return detail || "Toutes les places sont réservées sur ce créneau.";
+    case "BUFFER_CONFLICT":
+      return detail || "Trop proche d'une autre réservation (temps de battement).";
     case "BLACKOUT":
       return detail || "Cette place est indisponible sur ce créneau (blackout).";
     case "OUTSIDE_AVAILABILITY":
       return detail || "La réservation est hors des horaires définis par le propriétaire.";
+    case "CLOSED":
+      return detail || "Cette place est fermée (planning OFF).";
     case "INDISPONIBLE_OFF":
       return "Cette place est OFF ce jour-là.";
     case "INDISPONIBLE_OUTSIDE_HOURS":
       return "La réservation est hors des horaires définis par le propriétaire.";
     case "INDISPONIBLE_BLACKOUT":
       return "Cette place est indisponible sur ce créneau (blackout).";
+    case "PRICE_MISMATCH":
+      return detail || "Le prix a changé, merci de vérifier le montant.";
     case "INDISPONIBLE_MULTI_DAY":
       return "La réservation multi-jour n’est pas disponible pour cette place.";
+    case "DURATION_TOO_SHORT":
+      return detail || "Durée trop courte pour cette place.";
+    case "DURATION_TOO_LONG":
+      return detail || "Durée trop longue pour cette place.";
+    case "NOTICE_TOO_SHORT":
+      return detail || "Réservation trop proche du début.";
+    case "TOO_FAR_AHEAD":
+      return detail || "Réservation trop loin dans le futur.";
+    case "BAD_GRANULARITY":
+      return detail || "Les horaires doivent respecter le pas de réservation de la place.";
     default:
       return detail || error || "Créneau indisponible.";
   }
@@ -71,11 +120,17 @@ export default function BookingForm({
   parkingTitle,
   priceHour,
   priceDay,
+  timeZone,
+  constraints,
+  bookingMode = "instant",
 }: {
   parkingId: string;
   parkingTitle: string;
   priceHour: number;
   priceDay: number | null;
+  timeZone: string;
+  constraints: BookingConstraints;
+  bookingMode?: BookingMode;
 }) {
   const { ready, session } = useAuth();
 
@@ -89,32 +144,85 @@ export default function BookingForm({
     state: "idle",
   });
 
+  const [windows, setWindows] = useState<FreeWindow[] | null>(null);
+
   const abortRef = useRef<AbortController | null>(null);
   const debounceRef = useRef<number | null>(null);
 
   const parsed = useMemo(() => {
-    const s = Date.parse(start);
-    const e = Date.parse(end);
+    const s = Date.parse(parseLocalDateTime(start, timeZone) ?? "");
+    const e = Date.parse(parseLocalDateTime(end, timeZone) ?? "");
     const valid = !Number.isNaN(s) && !Number.isNaN(e) && e > s;
     return { s, e, valid };
-  }, [start, end]);
+  }, [start, end, timeZone]);
+
+  // ✅ Règles de la place vérifiées localement (le serveur revérifie dans bookings/create)
+  const ruleCheck = useMemo(() => {
+    if (!parsed.valid) return null;
+    return checkBookingConstraints(constraints, new Date(parsed.s).toISOString(), new Date(parsed.e).toISOString(), {
+      tz: timeZone,
+    });
+  }, [parsed, constraints, timeZone]);
+
+  const ruleError = ruleCheck && !ruleCheck.ok ? ruleCheck.reason : null;
+  const ruleChips = useMemo(() => describeConstraints(constraints), [constraints]);
+  const stepMinutes = constraints.slotGranularityMinutes ?? 1;
+
+  // ✅ Estimation locale (même moteur que le serveur), remplacée par le devis serveur dès qu'il arrive
+  const localQuote = useMemo(() => {
+    if (!parsed.valid) return null;
+    return computeQuote({
+      startTime: new Date(parsed.s).toISOString(),
+      endTime: new Date(parsed.e).toISOString(),
+      priceHour,
+      priceDay,
+      currency: "CHF",
+    });
+  }, [parsed, priceHour, priceDay]);
 
-  const amountChf = useMemo(() => {
-    if (!parsed.valid) return 0;
+  const [serverQuote, setServerQuote] = useState<Quote | null>(null);
 
-    const ms = parsed.e - parsed.s;
-    const hours = ms / (1000 * 60 * 60);
+  const quote =
+    serverQuote && localQuote && serverQuote.startTime === localQuote.startTime && serverQuote.endTime === localQuote.endTime
+      ? serverQuote
+      : localQuote;
 
-    // règle simple : si priceDay et >= 8h => jour (arrondi au jour)
-    if (priceDay && hours >= 8) {
-      const days = Math.max(1, Math.ceil(hours / 24));
-      return days * priceDay;
-    }
+  const amountChf = quote?.total ?? 0;
 
-    // sinon arrondi à l’heure
-    const h = Math.max(1, Math.ceil(hours));
-    return h * priceHour;
-  }, [parsed, priceHour, priceDay]);
+  // ✅ Timeline: fenêtres libres des prochains jours (cliquables)
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const run = async () => {
+      try {
+        const from = new Date();
+        from.setMinutes(0, 0, 0);
+        from.setHours(from.getHours() + 1);
+        const to = new Date(from.getTime() + TIMELINE_DAYS * 24 * 60 * 60 * 1000);
+
+        const url = `/api/parkings/${encodeURIComponent(parkingId)}/free-windows?from=${encodeURIComponent(
+          from.toISOString()
+        )}&to=${encodeURIComponent(to.toISOString())}`;
+
+        const res = await fetch(url, { signal: controller.signal });
+        const json = (await res.json().catch(() => ({}))) as FreeWindowsApi;
+        setWindows(res.ok && json.ok ? json.windows : []);
+      } catch (e: unknown) {
+        if (e instanceof DOMException && e.name === "AbortError") return;
+        setWindows([]);
+      }
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [parkingId]);
+
+  const pickWindow = (w: FreeWindow) => {
+    const { s, e } = slotInWindow(w, constraints);
+    setStart(toLocalDateTimeInput(new Date(s).toISOString(), timeZone));
+    setEnd(toLocalDateTimeInput(new Date(e).toISOString(), timeZone));
+    if (error) setError(null);
+  };
 
   // Availability check (déjà présent) + UX améliorée
   useEffect(() => {
@@ -139,9 +247,20 @@ export default function BookingForm({
           parkingId
         )}&start=${encodeURIComponent(sIso)}&end=${encodeURIComponent(eIso)}`;
 
-        const res = await fetch(url, { signal: abortRef.current.signal });
+        const quoteUrl = `/api/bookings/quote?parkingId=${encodeURIComponent(
+          parkingId
+        )}&start=${encodeURIComponent(sIso)}&end=${encodeURIComponent(eIso)}`;
+
+        const [res, resQuote] = await Promise.all([
+          fetch(url, { signal: abortRef.current.signal }),
+          fetch(quoteUrl, { signal: abortRef.current.signal }),
+        ]);
         const json: AvailApiOk | AvailApiErr = await res.json().catch(() => ({}));
 
+        // devis serveur (best effort: on garde l'estimation locale si ça échoue)
+        const q = (await resQuote.json().catch(() => ({}))) as QuoteApi;
+        setServerQuote(resQuote.ok && q.ok ? q.quote : null);
+
         if (!res.ok) {
           const msg =
             ("error" in json && typeof json.error === "string" && json.error) ||
@@ -172,6 +291,7 @@ export default function BookingForm({
     ready &&
     !!session &&
     parsed.valid &&
+    !ruleError &&
     amountChf > 0 &&
     availability.state === "available" &&
     !loading;
@@ -208,7 +328,6 @@ export default function BookingForm({
           startTime: new Date(parsed.s).toISOString(),
           endTime: new Date(parsed.e).toISOString(),
           totalPrice: amountChf,
-          currency: "CHF",
         }),
       });
 
@@ -219,6 +338,10 @@ export default function BookingForm({
         if (res1.status === 409) {
           const msg409 = mapBooking409ToUserMessage(j1);
 
+          // ✅ prix recalculé par le serveur => on affiche le bon montant
+          const q409 = (j1 as { quote?: Quote } | null)?.quote;
+          if (q409) setServerQuote(q409);
+
           // ✅ on force aussi l'état dispo en "unavailable" pour griser + badge
           setAvailability({ state: "unavailable", reason: msg409 });
 
@@ -287,8 +410,8 @@ export default function BookingForm({
     }
   };
 
-  const startIso = useMemo(() => toIsoFromLocal(start), [start]);
-  const endIso = useMemo(() => toIsoFromLocal(end), [end]);
+  const startIso = useMemo(() => parseLocalDateTime(start, timeZone), [start, timeZone]);
+  const endIso = useMemo(() => parseLocalDateTime(end, timeZone), [end, timeZone]);
 
   const statusLine =
     availability.state === "checking"
@@ -306,8 +429,44 @@ export default function BookingForm({
 
   return (
     <form onSubmit={onPay} className="space-y-4">
+      {/* Créneaux libres */}
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-slate-800">Créneaux libres ({TIMELINE_DAYS} prochains jours)</div>
+        {windows === null ? (
+          <div className="text-xs text-slate-500">Chargement des créneaux…</div>
+        ) : windows.length === 0 ? (
+          <div className="text-xs text-slate-500">Aucun créneau libre sur cette période.</div>
+        ) : (
+          <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+            {windows.map((w) => (
+              <button
+                key={w.start}
+                type="button"
+                className={cx(UI.chip, "hover:bg-violet-50 cursor-pointer")}
+                onClick={() => pickWindow(w)}
+                title="Choisir ce créneau (1h par défaut)"
+              >
+                {formatWindow(w, timeZone)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Dates */}
       <div className="grid gap-4">
+        <div className="text-xs text-slate-500">Heures locales de la place ({timeZone})</div>
+
+        {ruleChips.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {ruleChips.map((c) => (
+              <span key={c} className={cx(UI.chip, "text-xs")}>
+                {c}
+              </span>
+            ))}
+          </div>
+        ) : null}
+
         <div className="space-y-1">
           <label className="text-sm font-medium text-slate-800">Début</label>
           <input
@@ -317,6 +476,7 @@ export default function BookingForm({
               setStart(e.target.value);
               if (error) setError(null);
             }}
+            step={stepMinutes * 60}
             required
             className={UI.input}
           />
@@ -331,6 +491,7 @@ export default function BookingForm({
               setEnd(e.target.value);
               if (error) setError(null);
             }}
+            step={stepMinutes * 60}
             required
             className={UI.input}
           />
@@ -352,6 +513,17 @@ export default function BookingForm({
             <span className="font-semibold text-slate-900">{amountChf > 0 ? `${amountChf} CHF` : "—"}</span>
           </div>
 
+          {quote
+            ? quote.lines.map((l) => (
+                <div key={l.label} className="flex flex-wrap justify-between gap-2 text-xs text-slate-600">
+                  <span>{l.label}</span>
+                  <span>
+                    {l.amount} {quote.currency}
+                  </span>
+                </div>
+              ))
+            : null}
+
           <div className="text-xs text-slate-500">
             {priceDay ? `Tarif : ${priceHour} CHF/h ou ${priceDay} CHF/j` : `Tarif : ${priceHour} CHF/h`}
           </div>
@@ -369,10 +541,18 @@ export default function BookingForm({
             <div className="text-xs text-slate-600 pt-1">Connecte-toi pour payer et réserver.</div>
           ) : null}
 
+          {bookingMode === "request" ? (
+            <div className="text-xs text-amber-700 pt-1">
+              Sur demande : le paiement est autorisé puis débité seulement si le propriétaire accepte (sinon aucun débit).
+            </div>
+          ) : null}
+
           {start && end && !parsed.valid ? (
             <div className="text-xs text-rose-700 pt-1">Dates invalides : la fin doit être après le début.</div>
           ) : null}
 
+          {ruleError ? <div className="text-xs text-rose-700 pt-1">⚠️ {ruleError}</div> : null}
+
           {/* ✅ label visuel */}
           {parsed.valid && (availability.state === "unavailable" || availability.state === "error") ? (
             <div className="pt-1 text-xs font-medium text-rose-700">Indisponible</div>
@@ -392,6 +572,8 @@ export default function BookingForm({
             ? "Connecte-toi d’abord"
             : !parsed.valid
             ? "Dates invalides"
+            : ruleError
+            ? ruleError
             : availability.state === "checking"
             ? "Vérification disponibilité…"
             : availability.state !== "available"
@@ -399,7 +581,7 @@ export default function BookingForm({
             : ""
         }
       >
-        {loading ? "Redirection…" : "Payer et réserver"}
+        {loading ? "Redirection…" : bookingMode === "request" ? "Demander à réserver" : "Payer et réserver"}
       </button>
 
       {error ? <p className="text-sm text-rose-700">Erreur : {error}</p> : null}
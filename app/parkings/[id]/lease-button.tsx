@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import { useAuth } from "@/app/providers/AuthProvider";
+import { UI } from "@/app/components/ui";
+
+/** Location au mois: abonnement Stripe (la place est réservée tant que l'abonnement est payé) */
+export default function LeaseButton({ parkingId, priceMonth }: { parkingId: string; priceMonth: number }) {
+  const { ready, session } = useAuth();
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const onSubscribe = async () => {
+    if (!session) return setError("Connecte-toi d’abord.");
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/leases/create", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ parkingId }),
+      });
+
+      const json = (await res.json().catch(() => ({}))) as {
+        ok?: boolean;
+        url?: string;
+        error?: string;
+        detail?: string;
+      };
+
+      if (!res.ok || !json.ok || !json.url) {
+        setError(json.detail || json.error || `Erreur abonnement (${res.status})`);
+        setLoading(false);
+        return;
+      }
+
+      window.location.assign(json.url);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Erreur inconnue");
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <button
+        type="button"
+        className={`${UI.btnBase} ${UI.btnGhost} w-full`}
+        disabled={loading || !ready}
+        onClick={() => void onSubscribe()}
+      >
+        {loading ? "Redirection…" : `S’abonner — ${priceMonth} CHF / mois`}
+      </button>
+      <p className={UI.subtle}>Prélèvement mensuel, résiliable à tout moment (fin à l’échéance).</p>
+      {error ? <p className="text-sm text-rose-700">Erreur : {error}</p> : null}
+    </div>
+  );
+}
@@ -3,14 +3,25 @@ import type { Metadata } from "next";
 import Link from "next/link";
 import { createClient } from "@supabase/supabase-js";
 import BookingForm from "./booking-form";
+import RecurringForm from "./recurring-form";
+import LeaseButton from "./lease-button";
 import { UI } from "@/app/components/ui";
 import GalleryClient from "./gallery-client";
+import { getCapacity, resolveTimeZone } from "@/app/lib/availability";
+import { BOOKING_CONSTRAINTS_COLUMNS, constraintsFromRow, type BookingConstraintsRow } from "@/app/lib/constraints";
+import {
+  CANCELLATION_POLICY_LABELS,
+  cancellationPolicyOf,
+  describeCancellationPolicy,
+} from "@/app/lib/cancellationPolicy";
+import { RELIABILITY_WINDOW_DAYS, reliabilityLabel } from "@/app/lib/ownerPenalties";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 type ParkingRow = {
   id: string;
+  owner_id: string | null;
   title: string;
   instructions: string | null;
 
@@ -29,6 +40,7 @@ type ParkingRow = {
 
   price_hour: number;
   price_day: number | null;
+  price_month: number | null;
 
   photos: string[] | null;
 
@@ -36,7 +48,11 @@ type ParkingRow = {
   lng: number | null;
 
   is_active: boolean | null;
-};
+  timezone: string | null;
+  capacity: number | null;
+  booking_mode: string | null;
+  cancellation_policy: string | null;
+} & BookingConstraintsRow;
 
 function typeLabel(t: ParkingRow["parking_type"]) {
   if (t === "indoor") return "Intérieur";
@@ -62,7 +78,8 @@ async function getParking(id: string) {
   const { data } = await supabase
     .from("parkings")
     .select(
-      "id,title,instructions,address,street,street_number,postal_code,city,parking_type,is_covered,has_ev_charger,is_secure,is_lit,price_hour,price_day,photos,lat,lng,is_active"
+      "id,owner_id,title,instructions,address,street,street_number,postal_code,city,parking_type,is_covered,has_ev_charger,is_secure,is_lit,price_hour,price_day,price_month,photos,lat,lng,is_active,timezone,capacity,booking_mode,cancellation_policy," +
+        BOOKING_CONSTRAINTS_COLUMNS
     )
     .eq("id", id)
     .maybeSingle();
@@ -70,6 +87,26 @@ async function getParking(id: string) {
   return (data ?? null) as ParkingRow | null;
 }
 
+type ReliabilityRow = { score: number | null; owner_cancellations: number; late_cancellations: number };
+
+// score public (public.owner_reliability), recalculé à chaque annulation propriétaire
+async function getOwnerReliability(ownerId: string | null) {
+  if (!ownerId) return null;
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+  );
+
+  const { data } = await supabase
+    .from("owner_reliability")
+    .select("score,owner_cancellations,late_cancellations")
+    .eq("owner_id", ownerId)
+    .maybeSingle();
+
+  return (data ?? null) as ReliabilityRow | null;
+}
+
 export async function generateMetadata({
   params,
 }: {
@@ -169,6 +206,10 @@ export default async function ParkingDetailPage({
 
   const canonicalUrl = `${siteUrl}/parkings/${p.id}`;
   const addr = fullAddress(p);
+  const isRequestMode = p.booking_mode === "request";
+  const cancellationPolicy = cancellationPolicyOf(p.cancellation_policy);
+  const reliability = await getOwnerReliability(p.owner_id);
+  const reliabilityScore = reliability?.score ?? null;
   const photos = Array.isArray(p.photos) ? p.photos.filter(Boolean) : [];
   const city = p.city ?? "Genève";
 
@@ -258,6 +299,7 @@ export default async function ParkingDetailPage({
                 {p.has_ev_charger ? <Badge>⚡ Borne EV</Badge> : null}
                 {p.is_secure ? <Badge>🔒 Sécurisé</Badge> : null}
                 {p.is_lit ? <Badge>💡 Éclairé</Badge> : null}
+                {getCapacity(p) > 1 ? <Badge>🅿️ {getCapacity(p)} places</Badge> : null}
               </div>
             </div>
 
@@ -299,6 +341,51 @@ export default async function ParkingDetailPage({
                   <span className="font-medium text-slate-900">Prix :</span>{" "}
                   {p.price_hour} CHF / h
                   {p.price_day ? ` · ${p.price_day} CHF / jour` : ""}
+                  {p.price_month ? ` · ${p.price_month} CHF / mois` : ""}
+                </div>
+              </div>
+
+              <div className={[UI.card, UI.cardPad, "space-y-2"].join(" ")}>
+                <div className="flex items-center justify-between gap-3">
+                  <h2 className={UI.h2}>Annulation</h2>
+                  <span className={UI.chip}>{CANCELLATION_POLICY_LABELS[cancellationPolicy]}</span>
+                </div>
+                <ul className="list-disc pl-5 text-sm text-slate-700 space-y-1">
+                  {describeCancellationPolicy(cancellationPolicy).map((line) => (
+                    <li key={line}>{line}</li>
+                  ))}
+                </ul>
+                <p className={UI.subtle}>
+                  Annulation par le propriétaire : remboursement intégral. Location au mois : résiliation à la fin de la
+                  période payée.
+                </p>
+
+                <div className="flex flex-wrap items-center gap-2 pt-1 text-sm text-slate-700">
+                  <span className="font-medium text-slate-900">Fiabilité du propriétaire :</span>
+                  <span
+                    className={[
+                      UI.chip,
+                      reliabilityScore === null
+                        ? ""
+                        : reliabilityScore >= 95
+                        ? "font-medium text-emerald-700"
+                        : reliabilityScore >= 85
+                        ? "font-medium text-slate-900"
+                        : "font-medium text-amber-700",
+                    ].join(" ")}
+                  >
+                    {reliabilityLabel(reliabilityScore)}
+                    {reliabilityScore !== null ? ` · ${reliabilityScore} %` : ""}
+                  </span>
+                  {reliability && reliabilityScore !== null ? (
+                    <span className={UI.subtle}>
+                      {reliability.owner_cancellations === 0
+                        ? `Aucune annulation sur ${Math.round(RELIABILITY_WINDOW_DAYS / 30)} mois`
+                        : `${reliability.owner_cancellations} annulation${reliability.owner_cancellations > 1 ? "s" : ""} sur ${Math.round(
+                            RELIABILITY_WINDOW_DAYS / 30
+                          )} mois${reliability.late_cancellations ? ` (dont ${reliability.late_cancellations} de dernière minute)` : ""}`}
+                    </span>
+                  ) : null}
                 </div>
               </div>
 
@@ -315,14 +402,44 @@ export default async function ParkingDetailPage({
             {/* Right column */}
             <aside className={[UI.card, UI.cardPad, "space-y-3 h-fit"].join(" ")}>
               <h2 className={UI.h2}>Réserver</h2>
-              <p className={UI.p}>Choisis une date/heure, puis paie pour confirmer.</p>
+              <p className={UI.p}>
+                {isRequestMode
+                  ? "Place sur demande : le propriétaire valide chaque réservation. Ton paiement est seulement autorisé, puis débité à l’acceptation."
+                  : "Choisis une date/heure, puis paie pour confirmer."}
+              </p>
 
               <BookingForm
                 parkingId={p.id}
                 parkingTitle={p.title}
                 priceHour={Number(p.price_hour)}
                 priceDay={p.price_day ? Number(p.price_day) : null}
+                timeZone={resolveTimeZone(p.timezone)}
+                constraints={constraintsFromRow(p)}
+                bookingMode={isRequestMode ? "request" : "instant"}
               />
+
+              {/* ✅ Pendulaires: même créneau chaque semaine (pas sur une place sur demande) */}
+              {!isRequestMode ? (
+                <details className="pt-2">
+                  <summary className="cursor-pointer text-sm font-medium text-slate-800">
+                    🔁 Réservation récurrente
+                  </summary>
+                  <div className="pt-3">
+                    <RecurringForm parkingId={p.id} timeZone={resolveTimeZone(p.timezone)} />
+                  </div>
+                </details>
+              ) : null}
+
+              {p.price_month && !isRequestMode ? (
+                <details className="pt-2">
+                  <summary className="cursor-pointer text-sm font-medium text-slate-800">
+                    🗓 Location au mois
+                  </summary>
+                  <div className="pt-3">
+                    <LeaseButton parkingId={p.id} priceMonth={Number(p.price_month)} />
+                  </div>
+                </details>
+              ) : null}
             </aside>
           </div>
         </div>
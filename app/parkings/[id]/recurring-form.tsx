@@ -0,0 +1,305 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/app/providers/AuthProvider";
+import { UI } from "@/app/components/ui";
+import {
+  WEEKDAY_LABELS,
+  describePattern,
+  validatePattern,
+  type BookingPattern,
+  type SeriesBilling,
+} from "@/app/lib/recurring";
+
+type Occurrence = {
+  date: string;
+  start: string;
+  end: string;
+  available: boolean;
+  code?: string;
+  reason?: string;
+  total?: number;
+};
+
+type SeriesApi = {
+  ok: boolean;
+  error?: string;
+  detail?: string;
+  code?: string;
+  url?: string | null;
+  occurrences?: Occurrence[];
+  bookableCount?: number;
+  conflictCount?: number;
+  truncated?: boolean;
+  total?: number;
+  currency?: string;
+};
+
+function cx(...s: Array<string | false | null | undefined>) {
+  return s.filter(Boolean).join(" ");
+}
+
+function formatDay(iso: string, timeZone: string) {
+  return new Date(iso).toLocaleDateString("fr-CH", {
+    timeZone,
+    weekday: "short",
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+  });
+}
+
+/**
+ * Réservation récurrente (ex: lundi–vendredi 08:00–18:00 jusqu'à une date)
+ * 1) "Vérifier les dates" => aperçu serveur (conflits + total), rien n'est créé
+ * 2) "Réserver" => uniquement les dates libres, paiement groupé ou occurrence par occurrence
+ */
+export default function RecurringForm({ parkingId, timeZone }: { parkingId: string; timeZone: string }) {
+  const { ready, session } = useAuth();
+  const router = useRouter();
+
+  const [weekdays, setWeekdays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [startTime, setStartTime] = useState("08:00");
+  const [endTime, setEndTime] = useState("18:00");
+  const [fromDate, setFromDate] = useState("");
+  const [untilDate, setUntilDate] = useState("");
+  const [billing, setBilling] = useState<SeriesBilling>("combined");
+
+  const [preview, setPreview] = useState<SeriesApi | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pattern: BookingPattern = useMemo(
+    () => ({ weekdays, startTime, endTime, fromDate, untilDate }),
+    [weekdays, startTime, endTime, fromDate, untilDate]
+  );
+
+  const patternError = fromDate && untilDate ? validatePattern(pattern) : null;
+  const canPreview = !!fromDate && !!untilDate && !patternError && !loading;
+
+  // tout changement du motif invalide l'aperçu
+  const resetPreview = () => {
+    setPreview(null);
+    setError(null);
+  };
+
+  const toggleDay = (d: number) => {
+    resetPreview();
+    setWeekdays((prev) => (prev.includes(d) ? prev.filter((x) => x !== d) : [...prev, d].sort()));
+  };
+
+  const call = async (mode: "preview" | "book") => {
+    if (!session) return setError("Connecte-toi d’abord.");
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/bookings/series", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({
+          parkingId,
+          ...pattern,
+          billing,
+          preview: mode === "preview",
+          // l'utilisateur a vu les conflits dans l'aperçu
+          skipConflicts: mode === "book",
+        }),
+      });
+
+      const json = (await res.json().catch(() => ({}))) as SeriesApi;
+
+      if (json.occurrences) setPreview(json);
+
+      if (!res.ok || !json.ok) {
+        setError(json.detail || json.error || `Erreur série (${res.status})`);
+        return;
+      }
+
+      if (mode === "preview") return;
+
+      if (json.url) {
+        window.location.assign(json.url);
+        return;
+      }
+
+      // paiement occurrence par occurrence: depuis "Mes réservations"
+      router.push("/my-bookings");
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Erreur inconnue");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const bookable = preview?.bookableCount ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="text-xs text-slate-500">Heures locales de la place ({timeZone})</div>
+
+      <div className="space-y-1">
+        <div className="text-sm font-medium text-slate-800">Jours</div>
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAY_LABELS.map((label, i) => {
+            const d = i + 1;
+            const active = weekdays.includes(d);
+            return (
+              <button
+                key={d}
+                type="button"
+                className={cx(UI.chip, "cursor-pointer", active ? "bg-violet-600 border-violet-600 text-white" : "")}
+                onClick={() => toggleDay(d)}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label className="text-sm font-medium text-slate-800">De</label>
+          <input
+            type="time"
+            value={startTime}
+            onChange={(e) => {
+              resetPreview();
+              setStartTime(e.target.value);
+            }}
+            className={UI.input}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm font-medium text-slate-800">À</label>
+          <input
+            type="time"
+            value={endTime}
+            onChange={(e) => {
+              resetPreview();
+              setEndTime(e.target.value);
+            }}
+            className={UI.input}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm font-medium text-slate-800">Du</label>
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => {
+              resetPreview();
+              setFromDate(e.target.value);
+            }}
+            className={UI.input}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm font-medium text-slate-800">Jusqu’au</label>
+          <input
+            type="date"
+            value={untilDate}
+            onChange={(e) => {
+              resetPreview();
+              setUntilDate(e.target.value);
+            }}
+            className={UI.input}
+          />
+        </div>
+      </div>
+
+      {endTime && startTime && endTime <= startTime ? (
+        <div className="text-xs text-slate-600">Fin le lendemain (réservation de nuit).</div>
+      ) : null}
+
+      <div className="space-y-1">
+        <div className="text-sm font-medium text-slate-800">Paiement</div>
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="radio"
+            checked={billing === "combined"}
+            onChange={() => setBilling("combined")}
+          />
+          En une fois (toutes les dates)
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="radio"
+            checked={billing === "per_occurrence"}
+            onChange={() => setBilling("per_occurrence")}
+          />
+          Date par date (depuis « Mes réservations »)
+        </label>
+      </div>
+
+      {patternError ? <div className="text-xs text-rose-700">⚠️ {patternError}</div> : null}
+
+      <button
+        type="button"
+        className={cx(UI.btnBase, UI.btnGhost, "w-full", !canPreview ? "opacity-60 cursor-not-allowed" : "")}
+        disabled={!canPreview || !ready}
+        onClick={() => void call("preview")}
+      >
+        {loading && !preview ? "Vérification…" : "Vérifier les dates"}
+      </button>
+
+      {preview?.occurrences ? (
+        <div className={cx(UI.card, UI.cardPad, "space-y-2")}>
+          <div className="text-sm font-medium text-slate-900">{describePattern(pattern)}</div>
+          <div className="text-xs text-slate-600">
+            {preview.bookableCount ?? 0} date(s) libre(s)
+            {preview.conflictCount ? ` · ${preview.conflictCount} en conflit` : ""}
+            {preview.truncated ? " · série tronquée (trop de dates)" : ""}
+          </div>
+
+          <div className="max-h-48 overflow-y-auto space-y-1">
+            {preview.occurrences.map((o) => (
+              <div
+                key={o.start}
+                className={cx("flex justify-between gap-2 text-xs", o.available ? "text-slate-700" : "text-rose-700")}
+              >
+                <span>
+                  {o.available ? "✅" : "❌"} {formatDay(o.start, timeZone)}
+                </span>
+                <span className="text-right">
+                  {o.available ? `${o.total} ${preview.currency ?? "CHF"}` : o.reason ?? "Indisponible"}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-between text-sm pt-1">
+            <span className="text-slate-600">Total</span>
+            <b className="text-slate-900">
+              {preview.total ?? 0} {preview.currency ?? "CHF"}
+            </b>
+          </div>
+        </div>
+      ) : null}
+
+      {preview && bookable > 0 ? (
+        <button
+          type="button"
+          className={cx(UI.btnBase, UI.btnPrimary, "w-full", loading ? "opacity-60 cursor-not-allowed" : "")}
+          disabled={loading}
+          onClick={() => void call("book")}
+        >
+          {loading
+            ? "Réservation…"
+            : billing === "combined"
+            ? `Payer et réserver ${bookable} date(s)`
+            : `Réserver ${bookable} date(s)`}
+        </button>
+      ) : null}
+
+      {!session && ready ? <div className="text-xs text-slate-600">Connecte-toi pour réserver.</div> : null}
+      {error ? <p className="text-sm text-rose-700">Erreur : {error}</p> : null}
+    </div>
+  );
+}
@@ -10,6 +10,16 @@ import PhotoUploader from "@/app/components/PhotoUploader";
 import MapPicker from "@/app/components/MapPicker";
 import AddressSearch from "@/app/components/AddressSearch";
 import ParkingAvailabilityPlanner from "@/app/components/ParkingAvailabilityPlanner";
+import { DEFAULT_TZ, MAX_CAPACITY, SUPPORTED_TIMEZONES } from "@/app/lib/availability";
+import type { BookingMode } from "@/app/lib/bookingRequests";
+import {
+  CANCELLATION_POLICIES,
+  CANCELLATION_POLICY_LABELS,
+  DEFAULT_CANCELLATION_POLICY,
+  cancellationPolicyOf,
+  describeCancellationPolicy,
+  type CancellationPolicy,
+} from "@/app/lib/cancellationPolicy";
 
 type ParkingType = "outdoor" | "indoor" | "garage";
 
@@ -69,8 +79,11 @@ export default function NewParkingClient() {
   const [streetNumber, setStreetNumber] = useState("");
   const [postalCode, setPostalCode] = useState("");
   const [city, setCity] = useState("Genève");
+  // ✅ fuseau de la place (planning, dates de réservation, emails)
+  const [timeZone, setTimeZone] = useState<string>(DEFAULT_TZ);
 
   const [parkingType, setParkingType] = useState<ParkingType>("outdoor");
+  const [capacity, setCapacity] = useState<string>("1");
   const [isCovered, setIsCovered] = useState(false);
   const [hasEvCharger, setHasEvCharger] = useState(false);
   const [isSecure, setIsSecure] = useState(false);
@@ -78,6 +91,9 @@ export default function NewParkingClient() {
 
   const [priceHour, setPriceHour] = useState<string>("");
   const [priceDay, setPriceDay] = useState<string>("");
+  const [priceMonth, setPriceMonth] = useState<string>("");
+  const [bookingMode, setBookingMode] = useState<BookingMode>("instant");
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicy>(DEFAULT_CANCELLATION_POLICY);
 
   // tempId pour photos (avant création)
   const [tempId] = useState(() => crypto.randomUUID());
@@ -118,7 +134,9 @@ export default function NewParkingClient() {
     setStreetNumber("");
     setPostalCode("");
     setCity("Genève");
+    setTimeZone(DEFAULT_TZ);
     setParkingType("outdoor");
+    setCapacity("1");
     setIsCovered(false);
     setHasEvCharger(false);
     setIsSecure(false);
@@ -153,6 +171,7 @@ export default function NewParkingClient() {
 
     const ph = priceHour.trim() ? Number(priceHour) : null;
     const pd = priceDay.trim() ? Number(priceDay) : null;
+    const pm = priceMonth.trim() ? Number(priceMonth) : null;
 
     if (ph === null || Number.isNaN(ph) || ph <= 0) {
       setError("Prix heure requis et doit être un nombre > 0.");
@@ -162,6 +181,16 @@ export default function NewParkingClient() {
       setError("Prix jour invalide (si renseigné, doit être > 0).");
       return;
     }
+    if (pm !== null && (Number.isNaN(pm) || pm <= 0)) {
+      setError("Prix mois invalide (si renseigné, doit être > 0).");
+      return;
+    }
+
+    const cap = capacity.trim() ? Number(capacity) : 1;
+    if (!Number.isInteger(cap) || cap < 1 || cap > MAX_CAPACITY) {
+      setError(`Nombre de places : entre 1 et ${MAX_CAPACITY}.`);
+      return;
+    }
 
     const address = buildAddress({
       street: street.trim(),
@@ -185,15 +214,20 @@ export default function NewParkingClient() {
       street_number: streetNumber.trim() || null,
       postal_code: postalCode.trim() || null,
       city: city.trim(),
+      timezone: timeZone,
 
       parking_type: parkingType,
       is_covered: isCovered,
       has_ev_charger: hasEvCharger,
       is_secure: isSecure,
       is_lit: isLit,
+      capacity: cap,
 
       price_hour: ph,
       price_day: pd,
+      price_month: pm,
+      booking_mode: bookingMode,
+      cancellation_policy: cancellationPolicy,
 
       photos: photos.length ? photos : [],
 
@@ -468,6 +502,17 @@ export default function NewParkingClient() {
                   placeholder="Ex: Genève"
                 />
               </div>
+
+              <div className="md:col-span-2 space-y-2">
+                <label className="text-sm font-medium text-slate-900">Fuseau horaire</label>
+                <select className={UI.select} value={timeZone} onChange={(e) => setTimeZone(e.target.value)}>
+                  {SUPPORTED_TIMEZONES.map((z) => (
+                    <option key={z.value} value={z.value}>
+                      {z.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
 
             <div className="flex flex-wrap gap-2 items-center">
@@ -514,6 +559,20 @@ export default function NewParkingClient() {
                   <span className={UI.subtle}>Clique pour changer</span>
                 </button>
               </div>
+
+              <div className="md:col-span-2 space-y-2">
+                <label className="text-sm font-medium text-slate-900">Nombre de places</label>
+                <input
+                  className={UI.input}
+                  value={capacity}
+                  onChange={(e) => setCapacity(e.target.value)}
+                  inputMode="numeric"
+                />
+                <div className={UI.subtle}>
+                  Plusieurs places identiques (garage, parking d’immeuble) : une seule annonce, chaque réservation reçoit une
+                  place numérotée.
+                </div>
+              </div>
             </div>
 
             <div className="flex flex-wrap gap-2">
@@ -578,11 +637,55 @@ export default function NewParkingClient() {
                   inputMode="decimal"
                 />
               </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-900">Prix / mois (CHF)</label>
+                <input
+                  className={UI.input}
+                  value={priceMonth}
+                  onChange={(e) => setPriceMonth(e.target.value)}
+                  placeholder="Ex: 180 (optionnel, location au mois)"
+                  inputMode="decimal"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-900">Mode de réservation</label>
+                <select
+                  className={UI.select}
+                  value={bookingMode}
+                  onChange={(e) => setBookingMode(e.target.value as BookingMode)}
+                >
+                  <option value="instant">Instantané (confirmé au paiement)</option>
+                  <option value="request">Sur demande (j’accepte chaque réservation)</option>
+                </select>
+                <div className={UI.subtle}>
+                  Sur demande : le paiement du client est autorisé, puis débité quand tu acceptes (sans réponse sous 24h, la
+                  demande expire).
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-900">Politique d’annulation</label>
+                <select
+                  className={UI.select}
+                  value={cancellationPolicy}
+                  onChange={(e) => setCancellationPolicy(cancellationPolicyOf(e.target.value))}
+                >
+                  {CANCELLATION_POLICIES.map((cp) => (
+                    <option key={cp} value={cp}>
+                      {CANCELLATION_POLICY_LABELS[cp]}
+                    </option>
+                  ))}
+                </select>
+                <div className={UI.subtle}>{describeCancellationPolicy(cancellationPolicy).join(" · ")}.</div>
+              </div>
             </div>
 
             <div className="flex flex-wrap gap-2">
               {priceHour.trim() ? <span className={UI.chip}>⏱ {priceHour} CHF/h</span> : null}
               {priceDay.trim() ? <span className={UI.chip}>📅 {priceDay} CHF/j</span> : null}
+              {priceMonth.trim() ? <span className={UI.chip}>🗓 {priceMonth} CHF/mois</span> : null}
             </div>
           </section>
 
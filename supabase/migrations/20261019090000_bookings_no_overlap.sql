@@ -0,0 +1,19 @@
+-- Empêche les doubles réservations au niveau base de données.
+-- Deux réservations "bloquantes" d'une même place ne peuvent pas se chevaucher,
+-- même si deux clients valident le même créneau au même moment.
+--
+-- Statuts non bloquants: cancelled, expired (cf. NON_BLOCKING_BOOKING_STATUSES
+-- dans app/lib/availability.ts).
+--
+-- ⚠️ Si des chevauchements existent déjà, la contrainte échoue à la création:
+-- les annuler / expirer avant d'appliquer la migration.
+
+create extension if not exists btree_gist;
+
+alter table public.bookings
+  add constraint bookings_no_overlap
+  exclude using gist (
+    parking_id with =,
+    tstzrange(start_time, end_time, '[)') with &&
+  )
+  where (status not in ('cancelled', 'expired'));
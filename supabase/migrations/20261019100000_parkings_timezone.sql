@@ -0,0 +1,10 @@
+-- Fuseau horaire par place (IANA), pour les places en France / Italie.
+-- Utilisé pour le planning hebdo, les dates saisies sans fuseau,
+-- le calendrier owner et les emails (cf. resolveTimeZone dans app/lib/availability.ts).
+
+alter table public.parkings
+  add column if not exists timezone text not null default 'Europe/Zurich';
+
+alter table public.parkings
+  add constraint parkings_timezone_check
+  check (timezone in ('Europe/Zurich', 'Europe/Paris', 'Europe/Rome'));
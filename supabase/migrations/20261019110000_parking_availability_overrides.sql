@@ -0,0 +1,39 @@
+-- Exceptions datées au planning hebdo (ex: "ouvert dimanche 14 décembre 08:00–22:00 pour le marché").
+-- Pour un jour local donné, les lignes de ce jour remplacent parking_availability:
+-- - enabled = true  => plage ouverte (plusieurs lignes possibles le même jour)
+-- - enabled = false => fermé toute la journée
+-- Évaluation: app/lib/availability.ts (exceptions avant planning hebdo).
+
+create table if not exists public.parking_availability_overrides (
+  id uuid primary key default gen_random_uuid(),
+  parking_id uuid not null references public.parkings(id) on delete cascade,
+  date date not null,
+  start_time time not null default '00:00',
+  end_time time not null default '23:59',
+  enabled boolean not null default true,
+  note text,
+  created_at timestamptz not null default now(),
+  constraint parking_availability_overrides_range_check check (not enabled or end_time > start_time)
+);
+
+create index if not exists parking_availability_overrides_parking_date_idx
+  on public.parking_availability_overrides (parking_id, date);
+
+alter table public.parking_availability_overrides enable row level security;
+
+-- Le propriétaire gère les exceptions de ses places (le moteur lit en service role)
+create policy "owner manages overrides"
+  on public.parking_availability_overrides
+  for all
+  using (
+    exists (
+      select 1 from public.parkings p
+      where p.id = parking_id and p.owner_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.parkings p
+      where p.id = parking_id and p.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,40 @@
+-- Blackouts récurrents (RRULE iCalendar), ex:
+-- - "tous les 1ers lundis du mois"            => FREQ=MONTHLY;BYDAY=1MO
+-- - "en semaine 12:00–13:00 pendant les vacances" => FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR;UNTIL=20270103
+-- Les occurrences sont développées à la lecture (app/lib/rrule.ts + expandBlackoutRule),
+-- dans le fuseau de la place. exdates = jours locaux exclus de la série.
+
+create table if not exists public.parking_blackout_rules (
+  id uuid primary key default gen_random_uuid(),
+  parking_id uuid not null references public.parkings(id) on delete cascade,
+  rrule text not null,
+  dtstart date not null,
+  start_time time not null default '00:00',
+  end_time time not null default '23:59',
+  exdates date[] not null default '{}',
+  reason text,
+  created_at timestamptz not null default now(),
+  constraint parking_blackout_rules_time_check check (end_time <> start_time)
+);
+
+create index if not exists parking_blackout_rules_parking_idx
+  on public.parking_blackout_rules (parking_id, dtstart);
+
+alter table public.parking_blackout_rules enable row level security;
+
+-- Le propriétaire gère les règles de ses places (le moteur lit en service role)
+create policy "owner manages blackout rules"
+  on public.parking_blackout_rules
+  for all
+  using (
+    exists (
+      select 1 from public.parkings p
+      where p.id = parking_id and p.owner_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.parkings p
+      where p.id = parking_id and p.owner_id = auth.uid()
+    )
+  );
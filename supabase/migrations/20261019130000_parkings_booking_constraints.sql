@@ -0,0 +1,20 @@
+-- Contraintes de réservation par place (cf. app/lib/constraints.ts)
+-- null = pas de contrainte. Les valeurs par défaut évitent les réservations
+-- de 5 minutes qui commencent dans 30 secondes, ou faites 2 ans à l'avance.
+
+alter table public.parkings
+  add column if not exists min_duration_minutes integer default 30,
+  add column if not exists max_duration_minutes integer,
+  add column if not exists min_notice_minutes integer default 15,
+  add column if not exists max_advance_days integer default 180,
+  add column if not exists slot_granularity_minutes integer default 15;
+
+alter table public.parkings
+  add constraint parkings_booking_constraints_check check (
+    (min_duration_minutes is null or min_duration_minutes > 0)
+    and (max_duration_minutes is null or max_duration_minutes > 0)
+    and (min_duration_minutes is null or max_duration_minutes is null or max_duration_minutes >= min_duration_minutes)
+    and (min_notice_minutes is null or min_notice_minutes >= 0)
+    and (max_advance_days is null or max_advance_days between 1 and 730)
+    and (slot_granularity_minutes is null or slot_granularity_minutes in (5, 10, 15, 30, 60))
+  );
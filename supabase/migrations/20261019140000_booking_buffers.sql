@@ -0,0 +1,57 @@
+-- Temps de battement (turnover) avant / après chaque réservation.
+--
+-- parkings.buffer_*_minutes : réglage propriétaire (0 = pas de battement)
+-- bookings.buffer_*_minutes : copie figée à la création de la réservation
+--   => changer le réglage ne rend pas invalides les réservations existantes.
+--
+-- Zone bloquée d'une réservation = [start - before, end + after[.
+-- Deux zones bloquantes d'une même place ne peuvent pas se chevaucher
+-- (cf. evaluateAvailability / blockedRange dans app/lib/availability.ts).
+
+alter table public.parkings
+  add column if not exists buffer_before_minutes integer not null default 0,
+  add column if not exists buffer_after_minutes integer not null default 0;
+
+alter table public.parkings
+  add constraint parkings_buffers_check check (
+    buffer_before_minutes between 0 and 240 and buffer_after_minutes between 0 and 240
+  );
+
+alter table public.bookings
+  add column if not exists buffer_before_minutes integer not null default 0,
+  add column if not exists buffer_after_minutes integer not null default 0;
+
+alter table public.bookings
+  add constraint bookings_buffers_check check (
+    buffer_before_minutes between 0 and 240 and buffer_after_minutes between 0 and 240
+  );
+
+-- timestamptz ± interval est STABLE (à cause des jours / mois et du fuseau de session).
+-- Ici l'intervalle est exprimé en minutes uniquement => résultat déterministe,
+-- on peut déclarer la fonction IMMUTABLE pour l'utiliser dans la contrainte d'exclusion.
+create or replace function public.booking_blocked_range(
+  start_time timestamptz,
+  end_time timestamptz,
+  before_minutes integer,
+  after_minutes integer
+) returns tstzrange
+language sql
+immutable
+as $$
+  select tstzrange(
+    start_time - make_interval(mins => before_minutes),
+    end_time + make_interval(mins => after_minutes),
+    '[)'
+  );
+$$;
+
+-- Même contrainte qu'avant (20261019090000_bookings_no_overlap), battements inclus
+alter table public.bookings drop constraint if exists bookings_no_overlap;
+
+alter table public.bookings
+  add constraint bookings_no_overlap
+  exclude using gist (
+    parking_id with =,
+    public.booking_blocked_range(start_time, end_time, buffer_before_minutes, buffer_after_minutes) with &&
+  )
+  where (status not in ('cancelled', 'expired'));
@@ -0,0 +1,33 @@
+-- Annonces multi-places: une ligne parkings = N places identiques (garage de 12 places...)
+--
+-- parkings.capacity    : nombre de places (1 = place unique, comportement historique)
+-- bookings.spot_number : place numérotée attribuée à la réservation (1..capacity),
+--                        choisie par bookings/create (première place libre).
+--
+-- La contrainte d'exclusion est désormais par place numérotée:
+-- au plus `capacity` réservations simultanées, sans double attribution d'une place.
+
+alter table public.parkings
+  add column if not exists capacity integer not null default 1;
+
+alter table public.parkings
+  add constraint parkings_capacity_check check (capacity between 1 and 500);
+
+alter table public.bookings
+  add column if not exists spot_number integer not null default 1;
+
+alter table public.bookings
+  add constraint bookings_spot_number_check check (spot_number >= 1);
+
+alter table public.bookings drop constraint if exists bookings_no_overlap;
+
+alter table public.bookings
+  add constraint bookings_no_overlap
+  exclude using gist (
+    parking_id with =,
+    spot_number with =,
+    public.booking_blocked_range(start_time, end_time, buffer_before_minutes, buffer_after_minutes) with &&
+  )
+  where (status not in ('cancelled', 'expired'));
+
+create index if not exists bookings_parking_spot_idx on public.bookings (parking_id, spot_number);
@@ -0,0 +1,51 @@
+-- Modifications de réservation (prolonger / décaler / raccourcir) par le client.
+--
+-- Une ligne par demande. La réservation n'est modifiée qu'au moment où la ligne passe "applied":
+-- - supplément à payer  => pending_payment, appliquée par le webhook (checkout.session.completed)
+-- - remboursement / 0   => appliquée directement par /api/bookings/:id/modify
+-- Si le créneau a été pris entre-temps (contrainte bookings_no_overlap), le supplément est remboursé => failed.
+
+create table if not exists public.booking_modifications (
+  id uuid primary key default gen_random_uuid(),
+  booking_id uuid not null references public.bookings (id) on delete cascade,
+
+  old_start_time timestamptz not null,
+  old_end_time timestamptz not null,
+  new_start_time timestamptz not null,
+  new_end_time timestamptz not null,
+  new_spot_number integer not null default 1,
+
+  old_total numeric not null,
+  new_total numeric not null,
+  currency text not null default 'CHF',
+
+  status text not null default 'pending_payment'
+    check (status in ('pending_payment', 'applied', 'failed', 'expired')),
+
+  stripe_session_id text,
+  stripe_payment_intent_id text,
+  stripe_refund_id text,
+  failure_reason text,
+
+  created_at timestamptz not null default now(),
+  applied_at timestamptz,
+
+  constraint booking_modifications_range_check check (new_end_time > new_start_time)
+);
+
+create index if not exists booking_modifications_booking_idx
+  on public.booking_modifications (booking_id, created_at desc);
+
+alter table public.booking_modifications enable row level security;
+
+-- lecture seule pour le client de la réservation (écritures = service role)
+create policy "client reads own booking modifications"
+  on public.booking_modifications
+  for select
+  using (
+    exists (
+      select 1 from public.bookings b
+      where b.id = booking_modifications.booking_id
+        and b.user_id = auth.uid()
+    )
+  );
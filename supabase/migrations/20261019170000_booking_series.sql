@@ -0,0 +1,68 @@
+-- Réservations récurrentes (pendulaires: même place du lundi au vendredi 08:00–18:00...)
+--
+-- Une série = un motif hebdo (jours + heures locales de la place) entre from_date et until_date.
+-- /api/bookings/series développe le motif, vérifie chaque occurrence (moteur de dispo + règles)
+-- puis crée une ligne bookings par occurrence retenue (bookings.series_id).
+--
+-- Facturation:
+-- - combined       => une seule session Checkout pour toute la série (webhook: metadata.seriesId)
+-- - per_occurrence => chaque occurrence est payée séparément (checkout classique par bookingId)
+
+create table if not exists public.booking_series (
+  id uuid primary key default gen_random_uuid(),
+  parking_id uuid not null references public.parkings (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+
+  weekdays smallint[] not null, -- 1..7 (1 = lundi)
+  start_time time not null,     -- heure locale de la place
+  end_time time not null,       -- <= start_time => finit le lendemain
+  from_date date not null,
+  until_date date not null,
+  timezone text not null default 'Europe/Zurich',
+
+  billing text not null default 'combined'
+    check (billing in ('combined', 'per_occurrence')),
+  status text not null default 'pending_payment'
+    check (status in ('pending_payment', 'active', 'expired', 'cancelled')),
+
+  occurrences integer not null default 0,
+  total_price numeric not null default 0,
+  currency text not null default 'CHF',
+
+  stripe_session_id text,
+  stripe_payment_intent_id text,
+
+  created_at timestamptz not null default now(),
+
+  constraint booking_series_dates_check check (until_date >= from_date),
+  constraint booking_series_weekdays_check check (
+    cardinality(weekdays) between 1 and 7 and weekdays <@ array[1, 2, 3, 4, 5, 6, 7]::smallint[]
+  )
+);
+
+create index if not exists booking_series_user_idx on public.booking_series (user_id, created_at desc);
+create index if not exists booking_series_parking_idx on public.booking_series (parking_id);
+
+alter table public.bookings
+  add column if not exists series_id uuid references public.booking_series (id) on delete set null;
+
+create index if not exists bookings_series_idx on public.bookings (series_id) where series_id is not null;
+
+alter table public.booking_series enable row level security;
+
+-- lecture: le client de la série et le propriétaire de la place (écritures = service role)
+create policy "client reads own booking series"
+  on public.booking_series
+  for select
+  using (user_id = auth.uid());
+
+create policy "owner reads booking series of own parkings"
+  on public.booking_series
+  for select
+  using (
+    exists (
+      select 1 from public.parkings p
+      where p.id = booking_series.parking_id
+        and p.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,68 @@
+-- Location au mois (abonnement Stripe Billing)
+--
+-- parkings.price_month : tarif mensuel proposé par le propriétaire (null = pas de location au mois)
+-- parking_leases       : un abonnement client <-> place (Checkout mode "subscription", Connect destination)
+--
+-- La place est tenue par UNE réservation glissante (bookings.lease_id):
+-- - créée à la demande (pending_payment) pour bloquer la place pendant le Checkout
+-- - confirmée au paiement, puis prolongée à chaque invoice.paid jusqu'à la fin de la période payée
+-- - raccourcie à la résiliation (customer.subscription.deleted)
+-- => la contrainte bookings_no_overlap protège la place comme pour une réservation classique.
+
+alter table public.parkings
+  add column if not exists price_month numeric;
+
+alter table public.parkings
+  add constraint parkings_price_month_check check (price_month is null or price_month > 0);
+
+create table if not exists public.parking_leases (
+  id uuid primary key default gen_random_uuid(),
+  parking_id uuid not null references public.parkings (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+
+  status text not null default 'pending'
+    check (status in ('pending', 'active', 'past_due', 'cancelled', 'expired')),
+
+  price_month numeric not null,
+  currency text not null default 'CHF',
+  spot_number integer not null default 1,
+
+  started_at timestamptz not null default now(),
+  current_period_end timestamptz,
+  cancel_at_period_end boolean not null default false,
+  cancelled_at timestamptz,
+
+  stripe_session_id text,
+  stripe_subscription_id text unique,
+  stripe_customer_id text,
+  last_invoice_id text,
+
+  created_at timestamptz not null default now()
+);
+
+create index if not exists parking_leases_user_idx on public.parking_leases (user_id, created_at desc);
+create index if not exists parking_leases_parking_idx on public.parking_leases (parking_id, status);
+
+alter table public.bookings
+  add column if not exists lease_id uuid references public.parking_leases (id) on delete set null;
+
+create index if not exists bookings_lease_idx on public.bookings (lease_id) where lease_id is not null;
+
+alter table public.parking_leases enable row level security;
+
+-- lecture: le locataire et le propriétaire de la place (écritures = service role / webhook)
+create policy "client reads own leases"
+  on public.parking_leases
+  for select
+  using (user_id = auth.uid());
+
+create policy "owner reads leases of own parkings"
+  on public.parking_leases
+  for select
+  using (
+    exists (
+      select 1 from public.parkings p
+      where p.id = parking_leases.parking_id
+        and p.owner_id = auth.uid()
+    )
+  );
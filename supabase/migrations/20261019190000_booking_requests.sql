@@ -0,0 +1,38 @@
+-- Réservation sur demande: le propriétaire accepte ou refuse chaque réservation
+--
+-- parkings.booking_mode         : 'instant' (historique, confirmée au paiement) | 'request' (validation propriétaire)
+-- bookings.status = 'requested' : demande en attente; le paiement est seulement autorisé
+--                                 (Checkout capture_method=manual, payment_status='authorized')
+-- bookings.request_expires_at   : sans réponse à cette date, la demande expire et l'autorisation est annulée
+-- bookings.decided_at           : date d'acceptation / de refus
+-- bookings.decline_reason       : motif de refus (optionnel, envoyé au client)
+--
+-- Une demande bloque le créneau (pas de double demande sur la même place);
+-- une demande refusée ('declined') le libère comme cancelled / expired.
+
+alter table public.parkings
+  add column if not exists booking_mode text not null default 'instant';
+
+alter table public.parkings
+  add constraint parkings_booking_mode_check check (booking_mode in ('instant', 'request'));
+
+alter table public.bookings
+  add column if not exists request_expires_at timestamptz,
+  add column if not exists decided_at timestamptz,
+  add column if not exists decline_reason text;
+
+alter table public.bookings drop constraint if exists bookings_no_overlap;
+
+alter table public.bookings
+  add constraint bookings_no_overlap
+  exclude using gist (
+    parking_id with =,
+    spot_number with =,
+    public.booking_blocked_range(start_time, end_time, buffer_before_minutes, buffer_after_minutes) with &&
+  )
+  where (status not in ('cancelled', 'expired', 'declined'));
+
+-- job d'expiration des demandes
+create index if not exists bookings_requested_expiry_idx
+  on public.bookings (request_expires_at)
+  where status = 'requested';
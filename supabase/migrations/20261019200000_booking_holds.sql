@@ -0,0 +1,25 @@
+-- Hold de créneau pendant le paiement (Stripe Checkout)
+--
+-- bookings.hold_expires_at : fin du hold d'une réservation non payée.
+--   - posé par bookings/create (et series / leases), puis aligné sur expires_at de la session Checkout
+--   - passé ce délai, une réservation encore "unpaid" ne bloque plus le créneau (moteur de dispo)
+--     et est libérée (status 'expired') avant tout nouvel insert sur la place / par les crons
+--   - null = pas de hold (réservation payée, occurrence de série payée à l'unité, historique)
+--
+-- ⚠️ la contrainte bookings_no_overlap ne peut pas dépendre de now(): un hold dépassé y reste visible
+--    tant qu'il n'est pas libéré (app/lib/holds.ts releaseExpiredHolds).
+
+alter table public.bookings
+  add column if not exists hold_expires_at timestamptz;
+
+-- réservations en attente de paiement existantes: même délai que l'ancien nettoyage
+update public.bookings
+  set hold_expires_at = created_at + interval '30 minutes'
+  where status in ('pending', 'pending_payment', 'requested')
+    and payment_status = 'unpaid'
+    and series_id is null
+    and hold_expires_at is null;
+
+create index if not exists bookings_hold_expiry_idx
+  on public.bookings (parking_id, hold_expires_at)
+  where payment_status = 'unpaid' and hold_expires_at is not null;
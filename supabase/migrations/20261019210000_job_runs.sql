@@ -0,0 +1,46 @@
+-- Jobs planifiés (app/lib/jobs.ts, /api/jobs)
+--
+-- public.job_runs : une ligne par exécution d'une tâche
+--   - task       : nom de la tâche (expire-holds, expire-requests, send-reminders, mark-completed, reconcile-payments)
+--   - trigger    : 'cron' (Vercel) | 'manual' (appel direct)
+--   - dry_run    : true = aucune écriture, result liste ce qui aurait été traité
+--   - status     : 'running' -> 'succeeded' | 'failed'
+--   - processed  : nombre d'éléments traités (ou à traiter en dry-run)
+--   - result     : détail JSON renvoyé par la tâche (ids, compteurs)
+--
+-- bookings.reminder_sent_at : rappel avant le début envoyé au client (send-reminders)
+-- bookings.completed_at     : réservation payée terminée (end_time passé), posé par mark-completed
+
+create table if not exists public.job_runs (
+  id uuid primary key default gen_random_uuid(),
+  task text not null,
+  trigger text not null default 'manual',
+  dry_run boolean not null default false,
+  status text not null default 'running',
+  processed integer not null default 0,
+  result jsonb,
+  error text,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  duration_ms integer,
+  constraint job_runs_status_check check (status in ('running', 'succeeded', 'failed')),
+  constraint job_runs_trigger_check check (trigger in ('cron', 'manual'))
+);
+
+create index if not exists job_runs_task_started_idx
+  on public.job_runs (task, started_at desc);
+
+-- ✅ service role uniquement (aucune policy)
+alter table public.job_runs enable row level security;
+
+alter table public.bookings
+  add column if not exists reminder_sent_at timestamptz,
+  add column if not exists completed_at timestamptz;
+
+create index if not exists bookings_reminder_due_idx
+  on public.bookings (start_time)
+  where reminder_sent_at is null and status = 'confirmed';
+
+create index if not exists bookings_completion_due_idx
+  on public.bookings (end_time)
+  where completed_at is null and status = 'confirmed';
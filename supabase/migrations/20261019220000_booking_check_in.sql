@@ -0,0 +1,34 @@
+-- Check-in / check-out et statuts in_progress / completed
+--
+-- bookings.status : confirmed -> in_progress (check-in client ou job mark-in-progress au début)
+--                   confirmed | in_progress -> completed (check-out client ou job mark-completed à la fin)
+-- bookings.checked_in_at  : arrivée signalée par le client (null = passage automatique)
+-- bookings.checked_out_at : départ signalé par le client (null = fin automatique)
+-- bookings.completed_at   : passage en completed (base du solde "disponible" du propriétaire)
+--
+-- in_progress / completed gardent le créneau (contrainte bookings_no_overlap inchangée).
+
+alter table public.bookings
+  add column if not exists checked_in_at timestamptz,
+  add column if not exists checked_out_at timestamptz;
+
+-- ancien job mark-completed: completed_at posé sans changer le statut
+update public.bookings
+  set status = 'completed'
+  where status = 'confirmed'
+    and completed_at is not null;
+
+drop index if exists public.bookings_completion_due_idx;
+
+create index if not exists bookings_completion_due_idx
+  on public.bookings (end_time)
+  where status in ('confirmed', 'in_progress');
+
+create index if not exists bookings_start_due_idx
+  on public.bookings (start_time)
+  where status = 'confirmed';
+
+-- occupation en direct (propriétaire)
+create index if not exists bookings_in_progress_idx
+  on public.bookings (parking_id)
+  where status = 'in_progress';
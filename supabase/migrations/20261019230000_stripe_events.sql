@@ -0,0 +1,46 @@
+-- Journal des événements Stripe (app/lib/stripeEvents.ts, /api/stripe/webhook)
+--
+-- public.stripe_events : une ligne par événement (clé = id Stripe evt_...)
+--   - source            : 'platform' | 'connect' (secret de signature utilisé)
+--   - object_id         : id de l'objet Stripe concerné (cs_..., re_..., in_...), base de l'ordre des événements
+--   - stripe_created_at : event.created (un événement plus ancien qu'un événement traité sur le même objet => skipped)
+--   - payload           : événement vérifié, rejoué tel quel (job replay-stripe-events, /api/stripe/events/replay)
+--   - status            : received -> processing -> processed | ignored | skipped | failed
+--   - attempts          : nombre de traitements (claim conditionnel sur status + attempts)
+
+create table if not exists public.stripe_events (
+  id text primary key,
+  type text not null,
+  source text not null default 'platform',
+  livemode boolean not null default false,
+  account text,
+  object_id text,
+  stripe_created_at timestamptz not null,
+  payload jsonb not null,
+  status text not null default 'received',
+  attempts integer not null default 0,
+  last_error text,
+  result jsonb,
+  received_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  processed_at timestamptz,
+  constraint stripe_events_status_check
+    check (status in ('received', 'processing', 'processed', 'ignored', 'skipped', 'failed')),
+  constraint stripe_events_source_check check (source in ('platform', 'connect'))
+);
+
+-- ordre: dernier événement traité par objet
+create index if not exists stripe_events_object_idx
+  on public.stripe_events (object_id, stripe_created_at desc)
+  where object_id is not null;
+
+-- rejeu: événements en échec / interrompus
+create index if not exists stripe_events_retry_idx
+  on public.stripe_events (stripe_created_at)
+  where status in ('failed', 'processing');
+
+create index if not exists stripe_events_type_idx
+  on public.stripe_events (type, received_at desc);
+
+-- ✅ service role uniquement (aucune policy)
+alter table public.stripe_events enable row level security;
@@ -0,0 +1,27 @@
+-- Politiques d'annulation par place (app/lib/cancellationPolicy.ts)
+--
+-- parkings.cancellation_policy : 'flexible' | 'moderate' (défaut) | 'strict'
+--   - flexible : 100 % jusqu'à 2h avant, 50 % jusqu'au début
+--   - moderate : 100 % jusqu'à 24h avant, 50 % jusqu'à 2h avant
+--   - strict   : 100 % jusqu'à 7 jours avant, 50 % jusqu'à 48h avant
+-- bookings.cancellation_policy : politique figée à la création (null = réservation antérieure, politique de la place)
+-- bookings.refund_amount       : montant remboursé au client (partiel possible), le reste revient au propriétaire
+
+alter table public.parkings
+  add column if not exists cancellation_policy text not null default 'moderate';
+
+alter table public.parkings
+  add constraint parkings_cancellation_policy_check
+  check (cancellation_policy in ('flexible', 'moderate', 'strict'));
+
+alter table public.bookings
+  add column if not exists cancellation_policy text,
+  add column if not exists refund_amount numeric;
+
+alter table public.bookings
+  add constraint bookings_cancellation_policy_check
+  check (cancellation_policy is null or cancellation_policy in ('flexible', 'moderate', 'strict'));
+
+alter table public.bookings
+  add constraint bookings_refund_amount_check
+  check (refund_amount is null or refund_amount >= 0);
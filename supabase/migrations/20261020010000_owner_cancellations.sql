@@ -0,0 +1,83 @@
+-- Annulations propriétaire: motif, pénalité, score de fiabilité (app/lib/ownerPenalties.ts, app/lib/ownerCancellations.ts)
+--
+-- public.owner_cancellations : une ligne par réservation annulée par le propriétaire (/api/owner/bookings/cancel)
+--   - reason              : owner_unavailable | spot_unavailable | double_booking | client_request | safety | other
+--   - hours_notice        : préavis (heures avant le début, négatif = après le début)
+--   - affects_reliability : réservation payée + motif non exempté => compte dans le score
+--   - penalty_status      : 'none' (pas de pénalité) | 'pending' (à déduire) | 'applied' | 'waived' (annulée par l'équipe)
+--   - penalty_reversals   : reversals de transferts Connect [{ transferId, reversalId, bookingId, amount }]
+--     posés par le job apply-owner-penalties sur les réservations payées suivantes du propriétaire
+--
+-- public.owner_reliability : score public par propriétaire (fiches place), recalculé à chaque annulation
+--   propriétaire et par le job refresh-owner-reliability
+--   - score null = moins de 5 réservations sur la période (pas assez d'historique)
+--
+-- bookings.cancel_reason : motif d'annulation propriétaire (affiché au client)
+
+create table if not exists public.owner_cancellations (
+  id uuid primary key default gen_random_uuid(),
+  booking_id uuid not null unique references public.bookings (id) on delete cascade,
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  parking_id uuid not null references public.parkings (id) on delete cascade,
+
+  reason text not null default 'other',
+  note text,
+  hours_notice numeric,
+  affects_reliability boolean not null default true,
+
+  booking_amount numeric not null default 0,
+  currency text not null default 'CHF',
+  penalty_percent integer not null default 0,
+  penalty_amount numeric not null default 0,
+  penalty_status text not null default 'none',
+  penalty_applied_amount numeric not null default 0,
+  penalty_reversals jsonb not null default '[]'::jsonb,
+  penalty_error text,
+  penalty_applied_at timestamptz,
+
+  created_at timestamptz not null default now(),
+
+  constraint owner_cancellations_reason_check
+    check (reason in ('owner_unavailable', 'spot_unavailable', 'double_booking', 'client_request', 'safety', 'other')),
+  constraint owner_cancellations_penalty_status_check
+    check (penalty_status in ('none', 'pending', 'applied', 'waived')),
+  constraint owner_cancellations_penalty_amount_check
+    check (penalty_amount >= 0 and penalty_applied_amount >= 0 and penalty_applied_amount <= penalty_amount)
+);
+
+create index if not exists owner_cancellations_owner_idx
+  on public.owner_cancellations (owner_id, created_at desc);
+
+create index if not exists owner_cancellations_pending_idx
+  on public.owner_cancellations (created_at)
+  where penalty_status = 'pending';
+
+alter table public.owner_cancellations enable row level security;
+
+-- lecture: le propriétaire concerné (écritures = service role)
+create policy "owner reads own cancellations"
+  on public.owner_cancellations
+  for select
+  using (owner_id = auth.uid());
+
+create table if not exists public.owner_reliability (
+  owner_id uuid primary key references auth.users (id) on delete cascade,
+  score integer,
+  completed_bookings integer not null default 0,
+  owner_cancellations integer not null default 0,
+  late_cancellations integer not null default 0,
+  window_days integer not null default 365,
+  updated_at timestamptz not null default now(),
+  constraint owner_reliability_score_check check (score is null or (score between 0 and 100))
+);
+
+alter table public.owner_reliability enable row level security;
+
+-- ✅ public: affiché sur les fiches place (écritures = service role)
+create policy "reliability is public"
+  on public.owner_reliability
+  for select
+  using (true);
+
+alter table public.bookings
+  add column if not exists cancel_reason text;
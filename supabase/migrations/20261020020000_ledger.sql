@@ -0,0 +1,157 @@
+-- Grand livre en partie double (app/lib/ledger.ts)
+--
+-- public.ledger_entries : une ligne par mouvement sur un compte, regroupées en transactions (txn_key)
+--   - txn_key + line_no : unique => écriture idempotente (clé dérivée de l'objet Stripe: pi_, re_, trr_, in_...)
+--   - amount            : > 0 entrée sur le compte, < 0 sortie ; somme nulle par txn_key (trigger différé)
+--   - account           : client | platform_clearing | platform_revenue | owner_pending | owner_available | owner_bank
+--   - party_id          : client (user_id) ou propriétaire (owner_id), null pour les comptes plateforme
+--   - kind              : charge | application_fee | transfer | refund | transfer_reversal | release | penalty | payout
+--   - append-only       : ni update ni delete (correction = transaction inverse)
+--
+-- /api/owner/wallet et /api/owner/earnings/monthly deviennent des sommes sur owner_pending / owner_available / owner_bank.
+--
+-- Reprise de l'historique (txn_key "backfill:..."): reconstruite depuis bookings
+--   - commission = 15 % (PLATFORM_FEE_PERCENT), remboursements sans reprise de transfert (comportement d'avant)
+--   - réservation terminée / annulée => gains directement "available", owner_paid_out => versés
+
+create table if not exists public.ledger_entries (
+  id uuid primary key default gen_random_uuid(),
+  txn_key text not null,
+  line_no smallint not null,
+  kind text not null,
+  account text not null,
+  party_id uuid,
+  amount numeric(12, 2) not null,
+  currency text not null default 'CHF',
+  booking_id uuid references public.bookings (id) on delete set null,
+  stripe_ref text,
+  memo text,
+  created_at timestamptz not null default now(),
+  constraint ledger_entries_txn_line_key unique (txn_key, line_no),
+  constraint ledger_entries_kind_check
+    check (kind in ('charge', 'application_fee', 'transfer', 'refund', 'transfer_reversal', 'release', 'penalty', 'payout')),
+  constraint ledger_entries_account_check
+    check (account in ('client', 'platform_clearing', 'platform_revenue', 'owner_pending', 'owner_available', 'owner_bank')),
+  constraint ledger_entries_amount_check check (amount <> 0)
+);
+
+create index if not exists ledger_entries_party_idx
+  on public.ledger_entries (party_id, account, created_at desc);
+
+create index if not exists ledger_entries_booking_idx
+  on public.ledger_entries (booking_id)
+  where booking_id is not null;
+
+-- ✅ partie double: vérifiée à la fin de la transaction SQL (toutes les lignes d'un insert multi-lignes présentes)
+create or replace function public.ledger_entries_check_balanced()
+returns trigger
+language plpgsql
+as $$
+declare
+  unbalanced numeric;
+begin
+  select sum(amount) into unbalanced
+  from public.ledger_entries
+  where txn_key = new.txn_key;
+
+  if unbalanced <> 0 then
+    raise exception 'ledger transaction % is not balanced (%)', new.txn_key, unbalanced;
+  end if;
+
+  if (select count(distinct currency) from public.ledger_entries where txn_key = new.txn_key) > 1 then
+    raise exception 'ledger transaction % mixes currencies', new.txn_key;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists ledger_entries_balanced on public.ledger_entries;
+create constraint trigger ledger_entries_balanced
+  after insert on public.ledger_entries
+  deferrable initially deferred
+  for each row execute function public.ledger_entries_check_balanced();
+
+create or replace function public.ledger_entries_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'ledger_entries is append-only';
+end;
+$$;
+
+drop trigger if exists ledger_entries_no_update on public.ledger_entries;
+create trigger ledger_entries_no_update
+  before update or delete on public.ledger_entries
+  for each row execute function public.ledger_entries_append_only();
+
+alter table public.ledger_entries enable row level security;
+
+-- lecture: ses propres lignes (client ou propriétaire); écritures = service role
+create policy "party reads own ledger entries"
+  on public.ledger_entries
+  for select
+  using (party_id = auth.uid());
+
+-- ---------------------------------------------------------------------------
+-- Reprise de l'historique
+-- ---------------------------------------------------------------------------
+
+with b as (
+  select
+    bk.id,
+    bk.user_id,
+    p.owner_id,
+    upper(coalesce(bk.currency, 'CHF')) as currency,
+    round(bk.total_price::numeric, 2) as total,
+    round(bk.total_price::numeric * 0.15, 2) as fee,
+    case
+      when bk.payment_status = 'refunded' then round(coalesce(bk.refund_amount, bk.total_price)::numeric, 2)
+      else round(coalesce(bk.refund_amount, 0)::numeric, 2)
+    end as refunded,
+    case
+      when bk.status in ('completed', 'cancelled', 'expired', 'declined') then 'owner_available'
+      else 'owner_pending'
+    end as owner_account,
+    coalesce(bk.owner_paid_out, false) as paid_out,
+    bk.stripe_payment_intent_id as ref,
+    -- date d'écriture = fin réelle (gains du mois, /api/owner/earnings/monthly), sinon création
+    coalesce(bk.completed_at, bk.created_at) as at
+  from public.bookings bk
+  join public.parkings p on p.id = bk.parking_id
+  where bk.payment_status in ('paid', 'refunding', 'refunded')
+    and coalesce(bk.total_price, 0) > 0
+),
+lines as (
+  -- paiement
+  select 'backfill:charge:' || id as txn_key, 1 as line_no, 'charge' as kind, 'client' as account, user_id as party_id, -total as amount, currency, id, ref, at from b
+  union all
+  select 'backfill:charge:' || id, 2, 'charge', 'platform_clearing', null, total, currency, id, ref, at from b
+  -- commission
+  union all
+  select 'backfill:application_fee:' || id, 1, 'application_fee', 'platform_clearing', null, -fee, currency, id, ref, at from b where fee > 0
+  union all
+  select 'backfill:application_fee:' || id, 2, 'application_fee', 'platform_revenue', null, fee, currency, id, ref, at from b where fee > 0
+  -- transfert Connect
+  union all
+  select 'backfill:transfer:' || id, 1, 'transfer', 'platform_clearing', null, -(total - fee), currency, id, ref, at from b where total > fee
+  union all
+  select 'backfill:transfer:' || id, 2, 'transfer', owner_account, owner_id, total - fee, currency, id, ref, at from b where total > fee
+  -- remboursement client
+  union all
+  select 'backfill:refund:' || id, 1, 'refund', 'platform_clearing', null, -refunded, currency, id, ref, at from b where refunded > 0
+  union all
+  select 'backfill:refund:' || id, 2, 'refund', 'client', user_id, refunded, currency, id, ref, at from b where refunded > 0
+  -- déjà versé au propriétaire
+  union all
+  select 'backfill:payout:' || id, 1, 'payout', 'owner_available', owner_id, -(total - fee), currency, id, ref, at from b
+    where paid_out and owner_account = 'owner_available' and total > fee
+  union all
+  select 'backfill:payout:' || id, 2, 'payout', 'owner_bank', owner_id, total - fee, currency, id, ref, at from b
+    where paid_out and owner_account = 'owner_available' and total > fee
+)
+insert into public.ledger_entries (txn_key, line_no, kind, account, party_id, amount, currency, booking_id, stripe_ref, memo, created_at)
+select txn_key, line_no, kind, account, party_id, amount, currency, id, ref, 'reprise historique', at
+from lines
+on conflict (txn_key, line_no) do nothing;
@@ -0,0 +1,82 @@
+-- Versements propriétaire (app/lib/payouts.ts, webhook Connect: transfer.created, payout.paid, payout.failed)
+--
+-- public.booking_transfers : transfert Connect (tr_...) qui a réglé une réservation
+--   - une ligne par (transfert, réservation): une série "combined" partage un paiement donc un transfert,
+--     une modification payée ajoute un second transfert à la même réservation
+--   - destination_payment_id : paiement (py_...) créé sur le compte connecté, retrouvé dans les payouts
+--   - payout_id              : payout (po_...) qui a versé ce transfert sur le compte bancaire
+--
+-- public.owner_payouts : historique des payouts du compte connecté (/owner/payouts/history)
+--   - status : pending | in_transit | paid | failed | canceled (statut Stripe)
+--   - un payout "paid" peut repasser "failed" (IBAN refusé): les réservations redeviennent non versées
+--
+-- bookings.owner_paid_out(_at) / stripe_payout_id : posés au payout.paid, remis à zéro au payout.failed
+
+create table if not exists public.booking_transfers (
+  id uuid primary key default gen_random_uuid(),
+  transfer_id text not null,
+  booking_id uuid not null references public.bookings (id) on delete cascade,
+  owner_id uuid references auth.users (id) on delete set null,
+  stripe_account_id text not null,
+  destination_payment_id text,
+  payment_intent_id text,
+  transfer_amount numeric(12, 2) not null,
+  currency text not null default 'CHF',
+  payout_id text,
+  created_at timestamptz not null default now(),
+  constraint booking_transfers_transfer_booking_key unique (transfer_id, booking_id)
+);
+
+create index if not exists booking_transfers_booking_idx
+  on public.booking_transfers (booking_id);
+
+create index if not exists booking_transfers_payout_idx
+  on public.booking_transfers (payout_id)
+  where payout_id is not null;
+
+alter table public.booking_transfers enable row level security;
+
+-- lecture: le propriétaire concerné (écritures = service role)
+create policy "owner reads own booking transfers"
+  on public.booking_transfers
+  for select
+  using (owner_id = auth.uid());
+
+create table if not exists public.owner_payouts (
+  id text primary key,
+  owner_id uuid references auth.users (id) on delete set null,
+  stripe_account_id text not null,
+  amount numeric(12, 2) not null,
+  currency text not null default 'CHF',
+  status text not null,
+  automatic boolean not null default true,
+  arrival_date timestamptz,
+  failure_code text,
+  failure_message text,
+  booking_count integer not null default 0,
+  paid_at timestamptz,
+  failed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint owner_payouts_status_check
+    check (status in ('pending', 'in_transit', 'paid', 'failed', 'canceled'))
+);
+
+create index if not exists owner_payouts_owner_idx
+  on public.owner_payouts (owner_id, created_at desc);
+
+alter table public.owner_payouts enable row level security;
+
+create policy "owner reads own payouts"
+  on public.owner_payouts
+  for select
+  using (owner_id = auth.uid());
+
+alter table public.bookings
+  add column if not exists owner_paid_out boolean not null default false,
+  add column if not exists owner_paid_out_at timestamptz,
+  add column if not exists stripe_payout_id text;
+
+create index if not exists bookings_stripe_payout_idx
+  on public.bookings (stripe_payout_id)
+  where stripe_payout_id is not null;
@@ -0,0 +1,13 @@
+-- Devise d'une place (app/lib/pricing.ts parkingCurrency)
+--
+-- parkings.currency : code ISO 4217 en majuscules, lu par /api/bookings/quote, /api/bookings/create,
+--   /api/bookings/series et /api/leases/create (la devise envoyée par le client est ignorée)
+
+alter table public.parkings
+  add column if not exists currency text not null default 'CHF';
+
+alter table public.parkings
+  drop constraint if exists parkings_currency_check;
+
+alter table public.parkings
+  add constraint parkings_currency_check check (currency ~ '^[A-Z]{3}$');
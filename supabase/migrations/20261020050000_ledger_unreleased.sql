@@ -0,0 +1,17 @@
+-- Gains propriétaire restés "en attente" sur une réservation terminée / annulée (app/lib/ledger.ts releasePendingEarnings)
+--
+-- public.ledger_unreleased_bookings : réservation dans un état final dont le solde owner_pending n'est pas nul
+--   (release en échec ou interrompu après le passage à completed), reprise par le job mark-completed
+
+create or replace view public.ledger_unreleased_bookings
+with (security_invoker = true)
+as
+select
+  e.booking_id,
+  sum(e.amount) as pending_amount
+from public.ledger_entries e
+join public.bookings b on b.id = e.booking_id
+where e.account = 'owner_pending'
+  and b.status in ('completed', 'cancelled', 'expired', 'declined')
+group by e.booking_id
+having sum(e.amount) <> 0;
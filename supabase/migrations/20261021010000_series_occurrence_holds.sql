@@ -0,0 +1,21 @@
+-- Échéance de paiement des occurrences de série payées à l'unité (app/lib/holds.ts occurrenceHoldExpiresAt)
+--
+-- bookings.hold_expires_at d'une occurrence "per_occurrence" :
+--   - min(created_at + 7 jours, start_time - 24 h), au moins created_at + 60 min, jamais après start_time
+--   - passée cette échéance, l'occurrence non payée ne bloque plus la place et passe 'expired' (job expire-holds)
+--   - un Checkout abandonné ne l'avance pas (checkout.session.expired ignore les occurrences)
+--
+-- Les occurrences déjà créées sans échéance reçoivent la même règle (date de création d'origine).
+
+update public.bookings
+  set hold_expires_at = least(
+    greatest(
+      least(created_at + interval '7 days', start_time - interval '24 hours'),
+      created_at + interval '60 minutes'
+    ),
+    greatest(start_time, created_at)
+  )
+  where series_id is not null
+    and status in ('pending', 'pending_payment')
+    and payment_status = 'unpaid'
+    and hold_expires_at is null;
@@ -0,0 +1,14 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+// Tests unitaires (npm test): modules purs de app/lib, alias "@/" comme dans tsconfig.json
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    include: ["app/**/*.test.ts"],
+    environment: "node",
+    env: { TZ: "UTC" },
+  },
+});